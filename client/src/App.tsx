@@ -10,37 +10,92 @@ import Dashboard from '@/components/Dashboard';
 import PostsManager from '@/components/PostsManager';
 import CategoriesManager from '@/components/CategoriesManager';
 import TagsManager from '@/components/TagsManager';
+import SeriesManager from '@/components/SeriesManager';
 import MediaLibrary from '@/components/MediaLibrary';
 import UsersManager from '@/components/UsersManager';
 import CommentsManager from '@/components/CommentsManager';
 import SettingsManager from '@/components/SettingsManager';
+import ProfileManager from '@/components/ProfileManager';
+import RolesManager from '@/components/RolesManager';
+import AuditLogManager from '@/components/AuditLogManager';
 import AuthLogin from '@/components/AuthLogin';
 import BlogPublic from '@/components/BlogPublic';
 
 // Import types
-import type { User } from '../../server/src/schema';
+import type { PublicUser, AuthSession, MfaChallenge, Capability, Impersonator } from '../../server/src/schema';
 
 // Auth Context
 interface AuthContextType {
-  user: User | null;
+  user: PublicUser | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Whether the signed-in user's role grants a capability; the server enforces it either way
+  can: (capability: Capability) => boolean;
+  // Resolves with a challenge when the account needs a second factor to finish signing in
+  login: (email: string, password: string) => Promise<MfaChallenge | null>;
+  completeLogin: (session: AuthSession) => void;
   logout: () => void;
+  // The admin behind the current user while they view the CMS as someone else
+  impersonator: Impersonator | null;
+  impersonate: (userId: number) => Promise<void>;
+  stopImpersonating: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   isAuthenticated: false,
-  login: async () => {},
-  logout: () => {}
+  can: () => false,
+  login: async () => null,
+  completeLogin: () => {},
+  logout: () => {},
+  impersonator: null,
+  impersonate: async () => {},
+  stopImpersonating: async () => {}
 });
 
 export const useAuth = () => useContext(AuthContext);
 
+const storeSession = (session: AuthSession) => {
+  localStorage.setItem('auth_token', session.token);
+  localStorage.setItem('refresh_token', session.refresh_token);
+};
+
+const clearSession = () => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('refresh_token');
+};
+
+// Read the exp claim (seconds) from a JWT without verifying it
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// Exchange the stored refresh token for a new session; refresh tokens are single-use
+const rotateSession = async (): Promise<AuthSession | null> => {
+  const refreshToken = localStorage.getItem('refresh_token');
+  if (!refreshToken) return null;
+
+  const session = await trpc.auth.refresh.mutate({ refresh_token: refreshToken });
+  if (session) {
+    storeSession(session);
+  }
+  return session;
+};
+
 function App() {
-  const [user, setUser] = useState<User | null>(null);
-  const [currentView, setCurrentView] = useState<'admin' | 'public'>('public');
+  const [user, setUser] = useState<PublicUser | null>(null);
+  // Account email links (password reset, email verification, invitations) land on the sign-in screen
+  const [currentView, setCurrentView] = useState<'admin' | 'public'>(() =>
+    /[?&](reset_token|verify_token|invite_token|state)=/.test(window.location.search) ? 'admin' : 'public'
+  );
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [capabilities, setCapabilities] = useState<Capability[]>([]);
+  const [impersonator, setImpersonator] = useState<Impersonator | null>(null);
 
   useEffect(() => {
     // Check for stored auth token on app load
@@ -52,67 +107,133 @@ function App() {
     }
   }, []);
 
+  useEffect(() => {
+    if (!user) {
+      setCapabilities([]);
+      return;
+    }
+
+    trpc.auth.capabilities.query()
+      .then(setCapabilities)
+      .catch((error) => console.error('Failed to load capabilities:', error));
+  }, [user]);
+
+  // Rotate the short-lived access token a minute before it expires
+  useEffect(() => {
+    if (!sessionExpiresAt) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const session = await rotateSession();
+        if (!session) {
+          throw new Error('Session expired');
+        }
+        // The refresh token is always the admin's own, so this also ends an impersonation
+        setUser(session.user);
+        setImpersonator(null);
+        setSessionExpiresAt(Date.now() + session.expires_in * 1000);
+      } catch (error) {
+        console.error('Session refresh failed:', error);
+        clearSession();
+        setUser(null);
+        setImpersonator(null);
+        setSessionExpiresAt(null);
+      }
+    }, Math.max(sessionExpiresAt - Date.now() - 60_000, 0));
+
+    return () => clearTimeout(timer);
+  }, [sessionExpiresAt]);
+
   const verifyToken = async (token: string) => {
     try {
-      const response = await trpc.auth.verify.query({ token });
-      // Mock user for demo - in real app this would come from verify response
-      setUser({
-        id: 1,
-        email: 'admin@blogcms.com',
-        username: 'admin',
-        password_hash: '',
-        first_name: 'Admin',
-        last_name: 'User',
-        role: 'admin' as const,
-        bio: 'Blog Administrator',
-        avatar_url: null,
-        is_active: true,
-        created_at: new Date(),
-        updated_at: new Date()
-      });
+      const verifiedUser = await trpc.auth.verify.query({ token });
+      if (verifiedUser) {
+        const { impersonated_by, ...verified } = verifiedUser;
+        setUser(verified);
+        setImpersonator(impersonated_by);
+        setSessionExpiresAt(getTokenExpiry(token));
+        return;
+      }
+
+      // The access token has expired; fall back to the refresh token
+      const session = await rotateSession();
+      if (!session) {
+        throw new Error('Session expired');
+      }
+      setUser(session.user);
+      setSessionExpiresAt(Date.now() + session.expires_in * 1000);
     } catch (error) {
-      localStorage.removeItem('auth_token');
+      clearSession();
       console.error('Token verification failed:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const completeLogin = (session: AuthSession) => {
+    storeSession(session);
+    setUser(session.user);
+    setImpersonator(null);
+    setSessionExpiresAt(Date.now() + session.expires_in * 1000);
+  };
+
   const login = async (email: string, password: string) => {
-    try {
-      const response = await trpc.auth.login.mutate({ email, password });
-      // In real implementation, response would include token and user data
-      localStorage.setItem('auth_token', 'mock-token');
-      setUser({
-        id: 1,
-        email,
-        username: email.split('@')[0],
-        password_hash: '',
-        first_name: 'Admin',
-        last_name: 'User',
-        role: 'admin' as const,
-        bio: 'Blog Administrator',
-        avatar_url: null,
-        is_active: true,
-        created_at: new Date(),
-        updated_at: new Date()
-      });
-    } catch (error) {
-      throw new Error('Login failed');
+    const response = await trpc.auth.login.mutate({ email, password });
+    if ('mfa_required' in response) {
+      return response;
     }
+    completeLogin(response);
+    return null;
   };
 
   const logout = () => {
-    localStorage.removeItem('auth_token');
+    const refreshToken = localStorage.getItem('refresh_token');
+    if (refreshToken) {
+      trpc.auth.logout.mutate({ refresh_token: refreshToken }).catch((error) => {
+        console.error('Logout failed:', error);
+      });
+    }
+    clearSession();
     setUser(null);
+    setImpersonator(null);
+    setSessionExpiresAt(null);
     setCurrentView('public');
   };
 
+  // Only the access token is swapped; the admin's refresh token stays put to get back to their own session
+  const impersonate = async (userId: number) => {
+    const session = await trpc.auth.impersonate.mutate({ id: userId });
+    localStorage.setItem('auth_token', session.token);
+    setUser(session.user);
+    setImpersonator(session.impersonator);
+    setSessionExpiresAt(Date.now() + session.expires_in * 1000);
+  };
+
+  const stopImpersonating = async () => {
+    try {
+      const session = await rotateSession();
+      if (!session) {
+        throw new Error('Session expired');
+      }
+      setUser(session.user);
+      setImpersonator(null);
+      setSessionExpiresAt(Date.now() + session.expires_in * 1000);
+    } catch (error) {
+      console.error('Failed to stop impersonating:', error);
+      logout();
+    }
+  };
+
   const authContextValue: AuthContextType = {
     user,
     isAuthenticated: !!user,
+    can: (capability: Capability) => capabilities.includes(capability),
     login,
-    logout
+    completeLogin,
+    logout,
+    impersonator,
+    impersonate,
+    stopImpersonating
   };
 
   if (isLoading) {
@@ -178,12 +299,26 @@ function App() {
           </div>
         </nav>
 
+        {impersonator && user && (
+          <div className="bg-amber-100 border-b border-amber-300">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between">
+              <span className="text-sm text-amber-900">
+                👀 You ({impersonator.username}) are viewing the CMS as <strong>{user.username}</strong>. Everything you do is logged under both names.
+              </span>
+              <Button variant="outline" size="sm" onClick={stopImpersonating}>
+                Stop impersonating
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Main Content */}
         <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
           {currentView === 'public' ? (
             <BlogPublic />
           ) : user ? (
-            <AdminPanel />
+            // Remount when the acting user changes so no tab holds on to what the previous user could see
+            <AdminPanel key={user.id} />
           ) : (
             <div className="max-w-md mx-auto">
               <Card className="shadow-xl border-0 bg-white/90 backdrop-blur">
@@ -204,6 +339,7 @@ function App() {
 }
 
 function AdminPanel() {
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState('dashboard');
 
   return (
@@ -218,15 +354,19 @@ function AdminPanel() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4 lg:grid-cols-8 mb-8">
+        <TabsList className="grid w-full grid-cols-5 lg:grid-cols-11 mb-8">
           <TabsTrigger value="dashboard">📊 Dashboard</TabsTrigger>
           <TabsTrigger value="posts">📝 Posts</TabsTrigger>
-          <TabsTrigger value="categories">📁 Categories</TabsTrigger>
-          <TabsTrigger value="tags">🏷️ Tags</TabsTrigger>
+          {can('taxonomy.manage') && <TabsTrigger value="categories">📁 Categories</TabsTrigger>}
+          {can('taxonomy.manage') && <TabsTrigger value="tags">🏷️ Tags</TabsTrigger>}
+          {can('taxonomy.manage') && <TabsTrigger value="series">📚 Series</TabsTrigger>}
           <TabsTrigger value="media">🖼️ Media</TabsTrigger>
-          <TabsTrigger value="comments">💬 Comments</TabsTrigger>
-          <TabsTrigger value="users">👥 Users</TabsTrigger>
-          <TabsTrigger value="settings">⚙️ Settings</TabsTrigger>
+          {can('comment.moderate') && <TabsTrigger value="comments">💬 Comments</TabsTrigger>}
+          {can('users.manage') && <TabsTrigger value="users">👥 Users</TabsTrigger>}
+          {can('users.manage') && <TabsTrigger value="roles">🛡️ Roles</TabsTrigger>}
+          {can('users.manage') && <TabsTrigger value="audit">📜 Audit Log</TabsTrigger>}
+          {can('settings.manage') && <TabsTrigger value="settings">⚙️ Settings</TabsTrigger>}
+          <TabsTrigger value="profile">🙋 Profile</TabsTrigger>
         </TabsList>
 
         <div className="bg-white rounded-lg shadow-sm border">
@@ -246,6 +386,10 @@ function AdminPanel() {
             <TagsManager />
           </TabsContent>
 
+          <TabsContent value="series" className="m-6">
+            <SeriesManager />
+          </TabsContent>
+
           <TabsContent value="media" className="m-6">
             <MediaLibrary />
           </TabsContent>
@@ -258,9 +402,21 @@ function AdminPanel() {
             <UsersManager />
           </TabsContent>
 
+          <TabsContent value="roles" className="m-6">
+            <RolesManager />
+          </TabsContent>
+
+          <TabsContent value="audit" className="m-6">
+            <AuditLogManager />
+          </TabsContent>
+
           <TabsContent value="settings" className="m-6">
             <SettingsManager />
           </TabsContent>
+
+          <TabsContent value="profile" className="m-6">
+            <ProfileManager />
+          </TabsContent>
         </div>
       </Tabs>
     </div>
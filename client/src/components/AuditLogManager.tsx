@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import type { PublicUser, AuditLogEntry, PaginationResponse } from '../../../server/src/schema';
+
+const ENTITY_TYPES = ['posts', 'categories', 'tags', 'media', 'comments', 'users', 'invitations', 'roles', 'apiTokens', 'sessions', 'settings'];
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '–';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function ChangeList({ entry }: { entry: AuditLogEntry }) {
+  const keys = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+  if (keys.length === 0) return <span className="text-gray-400">No field changes</span>;
+
+  const label = !entry.before ? 'created' : !entry.after ? 'deleted' : null;
+
+  return (
+    <details>
+      <summary className="cursor-pointer text-sm">
+        {label ? `${label} (${keys.length} fields)` : keys.join(', ')}
+      </summary>
+      <div className="mt-2 space-y-1 font-mono text-xs">
+        {keys.map((key: string) => (
+          <div key={key} className="break-all">
+            <span className="font-semibold">{key}:</span>{' '}
+            {entry.before && <span className="text-red-600 line-through">{formatValue(entry.before[key])}</span>}
+            {entry.before && entry.after && ' → '}
+            {entry.after && <span className="text-green-700">{formatValue(entry.after[key])}</span>}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function AuditLogManager() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [pagination, setPagination] = useState<PaginationResponse | null>(null);
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [actorId, setActorId] = useState('all');
+  const [entityType, setEntityType] = useState('all');
+  const [entityId, setEntityId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.audit.list.query({
+        actor_id: actorId === 'all' ? undefined : Number(actorId),
+        entity_type: entityType === 'all' ? undefined : entityType,
+        entity_id: entityId ? Number(entityId) : undefined,
+        from: from ? new Date(`${from}T00:00:00`) : undefined,
+        // The "to" date is inclusive
+        to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+        page
+      });
+      setEntries(result.entries);
+      setPagination(result.pagination);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [actorId, entityType, entityId, from, to, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    trpc.users.list.query()
+      .then(setUsers)
+      .catch((error) => console.error('Failed to load users:', error));
+  }, []);
+
+  // Changing a filter starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">📜 Audit Log</h2>
+        <p className="text-gray-600">Who changed what, and when</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={actorId} onValueChange={updateFilter(setActorId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone</SelectItem>
+                  {users.map((user: PublicUser) => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select value={entityType} onValueChange={updateFilter(setEntityType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {ENTITY_TYPES.map((type: string) => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="audit_entity_id">Entity ID</Label>
+              <Input
+                id="audit_entity_id"
+                type="number"
+                min={1}
+                value={entityId}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter(setEntityId)(e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="audit_from">From</Label>
+              <Input
+                id="audit_from"
+                type="date"
+                value={from}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter(setFrom)(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="audit_to">To</Label>
+              <Input
+                id="audit_to"
+                type="date"
+                value={to}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter(setTo)(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            {pagination ? `${pagination.total} recorded changes` : 'Every successful change made through the API'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center text-gray-600">Loading audit log...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-gray-600">No entries match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-4 font-medium">When</th>
+                    <th className="py-2 pr-4 font-medium">User</th>
+                    <th className="py-2 pr-4 font-medium">Action</th>
+                    <th className="py-2 pr-4 font-medium">Entity</th>
+                    <th className="py-2 pr-4 font-medium">Changes</th>
+                    <th className="py-2 font-medium">IP</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry: AuditLogEntry) => (
+                    <tr key={entry.id} className="border-b align-top last:border-0">
+                      <td className="whitespace-nowrap py-2 pr-4">{entry.created_at.toLocaleString()}</td>
+                      <td className="py-2 pr-4">
+                        {entry.actor_username ?? <span className="text-gray-400">anonymous</span>}
+                        {entry.impersonator_username && (
+                          <span className="block text-xs text-amber-700">via {entry.impersonator_username}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4"><Badge variant="outline">{entry.action}</Badge></td>
+                      <td className="whitespace-nowrap py-2 pr-4">
+                        {entry.entity_type ? `${entry.entity_type}${entry.entity_id !== null ? ` #${entry.entity_id}` : ''}` : '–'}
+                      </td>
+                      <td className="py-2 pr-4"><ChangeList entry={entry} /></td>
+                      <td className="py-2 font-mono text-xs">{entry.ip ?? '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pagination && pagination.total_pages > 1 && (
+            <div className="mt-4 flex items-center justify-between">
+              <Button variant="outline" size="sm" disabled={!pagination.has_prev} onClick={() => setPage(page - 1)}>
+                ← Newer
+              </Button>
+              <span className="text-sm text-gray-600">Page {pagination.page} of {pagination.total_pages}</span>
+              <Button variant="outline" size="sm" disabled={!pagination.has_next} onClick={() => setPage(page + 1)}>
+                Older →
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default AuditLogManager;
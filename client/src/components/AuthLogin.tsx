@@ -1,18 +1,112 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
 import { useAuth } from '@/App';
+import type { MfaChallenge, MfaSetup, MfaLoginResult, OidcStatus } from '../../../server/src/schema';
+
+type AuthMode = 'login' | 'forgot' | 'reset' | 'mfa' | 'recovery_codes' | 'register' | 'invite';
+
+// Links in account emails carry their token as a query parameter
+const readUrlToken = (name: string): string | null => {
+  return new URLSearchParams(window.location.search).get(name);
+};
+
+const clearUrlTokens = () => {
+  window.history.replaceState(null, '', window.location.pathname);
+};
 
 function AuthLogin() {
-  const { login } = useAuth();
+  const { login, completeLogin } = useAuth();
+  const [mode, setMode] = useState<AuthMode>(() => {
+    if (readUrlToken('reset_token')) return 'reset';
+    if (readUrlToken('invite_token')) return 'invite';
+    return 'login';
+  });
   const [formData, setFormData] = useState({
     email: '',
     password: ''
   });
+  const [newPassword, setNewPassword] = useState('');
+  const [registration, setRegistration] = useState({
+    email: '',
+    username: '',
+    password: '',
+    first_name: '',
+    last_name: ''
+  });
+  const [registrationOpen, setRegistrationOpen] = useState(false);
+  const [passwordLoginEnabled, setPasswordLoginEnabled] = useState(true);
+  const [sso, setSso] = useState<OidcStatus | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaSetup, setMfaSetup] = useState<MfaSetup | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  // Held back until the user confirms they saved the recovery codes shown after enrolment
+  const [pendingSession, setPendingSession] = useState<MfaLoginResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const startMfa = useCallback(async (challenge: MfaChallenge) => {
+    setMfaChallenge(challenge);
+    setMfaCode('');
+    // Accounts that must use 2FA but have not set it up enrol right here
+    setMfaSetup(challenge.enrollment_required
+      ? await trpc.auth.mfa.setup.mutate({ mfa_token: challenge.mfa_token })
+      : null);
+    setMode('mfa');
+  }, []);
+
+  useEffect(() => {
+    const verifyToken = readUrlToken('verify_token');
+    if (!verifyToken) return;
+
+    clearUrlTokens();
+    trpc.auth.verifyEmail.mutate({ token: verifyToken })
+      .then(() => setNotice('Your email address is confirmed. You can sign in now.'))
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Email verification failed.'));
+  }, []);
+
+  // The identity provider sends the browser back with either a code or an error, plus our state
+  useEffect(() => {
+    const state = readUrlToken('state');
+    const code = readUrlToken('code');
+    if (!state || (!code && !readUrlToken('error'))) return;
+
+    clearUrlTokens();
+    if (!code) {
+      setError('Single sign-on was cancelled or refused by the identity provider.');
+      return;
+    }
+
+    setIsLoading(true);
+    // Single sign-on still asks for the second factor of accounts that have one
+    trpc.auth.oidc.callback.mutate({ code, state })
+      .then(result => ('mfa_required' in result ? startMfa(result) : completeLogin(result)))
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Single sign-on failed.'))
+      .finally(() => setIsLoading(false));
+  }, [completeLogin, startMfa]);
+
+  useEffect(() => {
+    trpc.settings.get.query()
+      .then(settings => {
+        setRegistrationOpen(settings?.allow_registration ?? false);
+        setPasswordLoginEnabled(settings?.password_login_enabled ?? true);
+      })
+      .catch((err: unknown) => console.error('Failed to load site settings:', err));
+
+    trpc.auth.oidc.status.query()
+      .then(setSso)
+      .catch((err: unknown) => console.error('Failed to load single sign-on status:', err));
+  }, []);
+
+  const switchMode = (nextMode: AuthMode) => {
+    setMode(nextMode);
+    setError('');
+    setNotice('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -20,16 +114,144 @@ function AuthLogin() {
     setError('');
 
     try {
-      await login(formData.email, formData.password);
+      const challenge = await login(formData.email, formData.password);
+      if (challenge) {
+        await startMfa(challenge);
+      }
     } catch (err) {
-      setError('Invalid email or password. Please try again.');
+      setError(err instanceof Error ? err.message : 'Invalid email or password. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
-  return (
-    <form onSubmit={handleSubmit} className="space-y-4">
+  const handleSsoLogin = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const { authorization_url } = await trpc.auth.oidc.start.mutate();
+      window.location.assign(authorization_url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start single sign-on.');
+      setIsLoading(false);
+    }
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaChallenge) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const session = await trpc.auth.mfa.verify.mutate({ mfa_token: mfaChallenge.mfa_token, code: mfaCode });
+      setMfaChallenge(null);
+      if (session.recovery_codes) {
+        setPendingSession(session);
+        setMode('recovery_codes');
+      } else {
+        completeLogin(session);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgotSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await trpc.auth.requestPasswordReset.mutate({ email: formData.email });
+      setNotice('If an account exists for that address, a reset link is on its way.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the reset email.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRegisterSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await trpc.auth.register.mutate(registration);
+      setFormData({ email: registration.email, password: '' });
+      setRegistration({ email: '', username: '', password: '', first_name: '', last_name: '' });
+      setMode('login');
+      setNotice(result.approval_required
+        ? 'Check your inbox to confirm your email address. An administrator will review your account before you can sign in.'
+        : 'Check your inbox to confirm your email address, then sign in.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Registration failed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInviteSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const inviteToken = readUrlToken('invite_token');
+    if (!inviteToken) {
+      setError('This invitation link is incomplete. Please ask for a new one.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await trpc.auth.acceptInvite.mutate({
+        token: inviteToken,
+        username: registration.username,
+        password: registration.password,
+        first_name: registration.first_name,
+        last_name: registration.last_name
+      });
+      clearUrlTokens();
+      setRegistration({ email: '', username: '', password: '', first_name: '', last_name: '' });
+      setMode('login');
+      setNotice('Your account is ready. Sign in with the email address the invitation was sent to.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Accepting the invitation failed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const resetToken = readUrlToken('reset_token');
+    if (!resetToken) {
+      setError('This reset link is incomplete. Please request a new one.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await trpc.auth.resetPassword.mutate({ token: resetToken, new_password: newPassword });
+      clearUrlTokens();
+      setNewPassword('');
+      setMode('login');
+      setNotice('Your password has been reset. You can sign in with the new password.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Password reset failed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const messages = (
+    <>
       {error && (
         <Alert className="border-red-200 bg-red-50">
           <AlertDescription className="text-red-600">
@@ -37,61 +259,324 @@ function AuthLogin() {
           </AlertDescription>
         </Alert>
       )}
+      {notice && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-700">
+            {notice}
+          </AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
 
-      <div className="space-y-2">
-        <Label htmlFor="email">Email Address</Label>
-        <Input
-          id="email"
-          type="email"
-          placeholder="admin@example.com"
-          value={formData.email}
-          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-            setFormData(prev => ({ ...prev, email: e.target.value }))
-          }
-          required
-          className="transition-all focus:ring-2 focus:ring-indigo-500"
-        />
-      </div>
+  if (mode === 'recovery_codes' && pendingSession) {
+    return (
+      <div className="space-y-4">
+        <Alert className="border-amber-200 bg-amber-50">
+          <AlertDescription className="text-amber-800">
+            Two-factor authentication is on. Save these recovery codes somewhere safe: each one
+            signs you in once if you lose access to your authenticator app, and they will not be shown again.
+          </AlertDescription>
+        </Alert>
+
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-4 font-mono text-sm">
+          {pendingSession.recovery_codes?.map((code: string) => (
+            <span key={code}>{code}</span>
+          ))}
+        </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="password">Password</Label>
-        <Input
-          id="password"
-          type="password"
-          placeholder="••••••••"
-          value={formData.password}
-          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-            setFormData(prev => ({ ...prev, password: e.target.value }))
-          }
-          required
-          className="transition-all focus:ring-2 focus:ring-indigo-500"
-        />
+        <Button
+          type="button"
+          className="w-full bg-indigo-600 hover:bg-indigo-700"
+          onClick={() => completeLogin(pendingSession)}
+        >
+          I have saved my recovery codes
+        </Button>
       </div>
+    );
+  }
 
-      <Button 
-        type="submit" 
-        className="w-full bg-indigo-600 hover:bg-indigo-700" 
-        disabled={isLoading}
-      >
-        {isLoading ? (
-          <div className="flex items-center">
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-            Signing In...
+  if (mode === 'mfa' && mfaChallenge) {
+    return (
+      <form onSubmit={handleMfaSubmit} className="space-y-4">
+        {messages}
+
+        {mfaSetup ? (
+          <div className="space-y-3 text-sm text-gray-600">
+            <p>
+              Your account requires two-factor authentication. Scan this code with an authenticator
+              app, then enter the 6-digit code it shows.
+            </p>
+            <img src={mfaSetup.qr_code_data_url} alt="Authenticator QR code" className="mx-auto h-44 w-44" />
+            <p className="text-center">
+              Or enter this key manually: <code className="break-all font-mono">{mfaSetup.secret}</code>
+            </p>
           </div>
         ) : (
-          '🔑 Sign In'
+          <p className="text-sm text-gray-600">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+          </p>
         )}
-      </Button>
-
-      <div className="text-center text-sm text-gray-500 mt-4">
-        <p>Demo Credentials:</p>
-        <p className="text-xs bg-gray-100 p-2 rounded mt-2">
-          Email: admin@blogcms.com<br />
-          Password: any password
-        </p>
-      </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mfa-code">Authentication Code</Label>
+          <Input
+            id="mfa-code"
+            inputMode={mfaSetup ? 'numeric' : 'text'}
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={mfaCode}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMfaCode(e.target.value)}
+            autoFocus
+            required
+          />
+        </div>
+
+        <Button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700" disabled={isLoading}>
+          {isLoading ? 'Verifying...' : '🛡️ Verify'}
+        </Button>
+
+        <Button
+          type="button"
+          variant="link"
+          className="w-full"
+          onClick={() => {
+            setMfaChallenge(null);
+            setMfaSetup(null);
+            switchMode('login');
+          }}
+        >
+          Back to sign in
+        </Button>
+      </form>
+    );
+  }
+
+  if (mode === 'forgot') {
+    return (
+      <form onSubmit={handleForgotSubmit} className="space-y-4">
+        {messages}
+
+        <div className="space-y-2">
+          <Label htmlFor="reset-email">Email Address</Label>
+          <Input
+            id="reset-email"
+            type="email"
+            placeholder="admin@example.com"
+            value={formData.email}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData(prev => ({ ...prev, email: e.target.value }))
+            }
+            required
+          />
+        </div>
+
+        <Button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700" disabled={isLoading}>
+          {isLoading ? 'Sending...' : '📧 Send Reset Link'}
+        </Button>
+
+        <Button type="button" variant="link" className="w-full" onClick={() => switchMode('login')}>
+          Back to sign in
+        </Button>
+      </form>
+    );
+  }
+
+  if (mode === 'register' || mode === 'invite') {
+    const isInvite = mode === 'invite';
+    return (
+      <form onSubmit={isInvite ? handleInviteSubmit : handleRegisterSubmit} className="space-y-4">
+        {messages}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="register-first-name">First Name</Label>
+            <Input
+              id="register-first-name"
+              value={registration.first_name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setRegistration(prev => ({ ...prev, first_name: e.target.value }))
+              }
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="register-last-name">Last Name</Label>
+            <Input
+              id="register-last-name"
+              value={registration.last_name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setRegistration(prev => ({ ...prev, last_name: e.target.value }))
+              }
+              maxLength={100}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="register-username">Username</Label>
+          <Input
+            id="register-username"
+            value={registration.username}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setRegistration(prev => ({ ...prev, username: e.target.value }))
+            }
+            minLength={3}
+            maxLength={50}
+            required
+          />
+        </div>
+
+        {!isInvite && (
+          <div className="space-y-2">
+            <Label htmlFor="register-email">Email Address</Label>
+            <Input
+              id="register-email"
+              type="email"
+              placeholder="you@example.com"
+              value={registration.email}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setRegistration(prev => ({ ...prev, email: e.target.value }))
+              }
+              required
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="register-password">Password</Label>
+          <Input
+            id="register-password"
+            type="password"
+            placeholder="At least 8 characters"
+            value={registration.password}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setRegistration(prev => ({ ...prev, password: e.target.value }))
+            }
+            minLength={8}
+            required
+          />
+        </div>
+
+        <Button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700" disabled={isLoading}>
+          {isLoading ? 'Creating account...' : isInvite ? '✨ Accept Invitation' : '✨ Create Account'}
+        </Button>
+
+        <Button type="button" variant="link" className="w-full" onClick={() => switchMode('login')}>
+          Already have an account? Sign in
+        </Button>
+      </form>
+    );
+  }
+
+  if (mode === 'reset') {
+    return (
+      <form onSubmit={handleResetSubmit} className="space-y-4">
+        {messages}
+
+        <div className="space-y-2">
+          <Label htmlFor="new-password">New Password</Label>
+          <Input
+            id="new-password"
+            type="password"
+            placeholder="At least 8 characters"
+            value={newPassword}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+            minLength={8}
+            required
+          />
+        </div>
+
+        <Button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700" disabled={isLoading}>
+          {isLoading ? 'Saving...' : '🔒 Set New Password'}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {messages}
+
+      {sso?.enabled && (
+        <>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={isLoading}
+            onClick={handleSsoLogin}
+          >
+            🏢 Sign in with {sso.provider_name}
+          </Button>
+          {passwordLoginEnabled && (
+            <p className="text-center text-xs uppercase text-gray-400">or use your password</p>
+          )}
+        </>
+      )}
+
+      {passwordLoginEnabled && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="email">Email Address</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="admin@example.com"
+              value={formData.email}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, email: e.target.value }))
+              }
+              required
+              className="transition-all focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              placeholder="••••••••"
+              value={formData.password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, password: e.target.value }))
+              }
+              required
+              className="transition-all focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full bg-indigo-600 hover:bg-indigo-700"
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <div className="flex items-center">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                Signing In...
+              </div>
+            ) : (
+              '🔑 Sign In'
+            )}
+          </Button>
+
+          <Button type="button" variant="link" className="w-full" onClick={() => switchMode('forgot')}>
+            Forgot your password?
+          </Button>
+        </>
+      )}
+
+      {registrationOpen && (
+        <Button type="button" variant="link" className="w-full" onClick={() => switchMode('register')}>
+          New here? Create an account
+        </Button>
+      )}
     </form>
   );
 }
 
-export default AuthLogin;
\ No newline at end of file
+export default AuthLogin;
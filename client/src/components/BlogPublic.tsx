@@ -9,7 +9,12 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { trpc } from '@/utils/trpc';
-import type { Post, Category, Tag, Comment, CreateCommentInput, SearchPostsInput } from '../../../server/src/schema';
+import SeriesNavigation from '@/components/SeriesNavigation';
+import type { Post, Category, Tag, Comment, CreateCommentInput, SearchPostsInput, SeriesPart } from '../../../server/src/schema';
+
+// Minutes at 200 words a minute; posts saved before word counts existed estimate from their length
+const readingMinutes = (post: Post): number =>
+  Math.max(1, Math.ceil((post.word_count ?? post.content.length / 6) / 200));
 
 function BlogPublic() {
   const [posts, setPosts] = useState<Post[]>([]);
@@ -80,6 +85,9 @@ We're thrilled to have you here! This blog represents our passion for sharing kn
 Feel free to browse our categories, search for topics that interest you, and don't forget to leave comments! We love hearing from our readers and building meaningful conversations.
 
 Thank you for being part of our journey!`,
+          content_format: 'markdown',
+          word_count: null,
+          rendered_html: null,
           status: 'published' as const,
           featured_image_id: null,
           author_id: 1,
@@ -87,6 +95,8 @@ Thank you for being part of our journey!`,
           meta_title: 'Welcome to Our Amazing Blog',
           meta_description: 'Join us on this exciting journey of sharing knowledge and building community',
           canonical_url: null,
+          reviewer_id: null,
+          review_notes: null,
           published_at: new Date('2024-01-15'),
           created_at: new Date('2024-01-15'),
           updated_at: new Date('2024-01-15')
@@ -128,6 +138,9 @@ Every piece of content should:
 - **Edit ruthlessly** - Remove unnecessary words and clarify your message
 
 Remember, great content creation is an iterative process. Keep writing, keep learning, and keep improving!`,
+          content_format: 'markdown',
+          word_count: null,
+          rendered_html: null,
           status: 'published' as const,
           featured_image_id: null,
           author_id: 1,
@@ -135,6 +148,8 @@ Remember, great content creation is an iterative process. Keep writing, keep lea
           meta_title: null,
           meta_description: null,
           canonical_url: null,
+          reviewer_id: null,
+          review_notes: null,
           published_at: new Date('2024-01-10'),
           created_at: new Date('2024-01-10'),
           updated_at: new Date('2024-01-10')
@@ -201,6 +216,16 @@ Remember, great content creation is an iterative process. Keep writing, keep lea
     await loadPostComments(post.id);
   };
 
+  // Other parts of a series may not be on the current page of posts
+  const handleOpenPart = async (part: SeriesPart) => {
+    try {
+      const post = posts.find((p: Post) => p.id === part.id) ?? await trpc.posts.getBySlug.query({ slug: part.slug });
+      await handlePostClick(post);
+    } catch (error) {
+      console.error('Failed to open series part:', error);
+    }
+  };
+
   const handleCommentSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedPost) return;
@@ -336,7 +361,7 @@ Remember, great content creation is an iterative process. Keep writing, keep lea
               <CardContent>
                 <div className="flex items-center justify-between text-sm text-gray-500">
                   <span>👁️ Click to read more</span>
-                  <span>📝 {post.content.length > 500 ? Math.ceil(post.content.length / 250) : 1} min read</span>
+                  <span>📝 {readingMinutes(post)} min read</span>
                 </div>
               </CardContent>
             </Card>
@@ -414,11 +439,19 @@ Remember, great content creation is an iterative process. Keep writing, keep lea
             
             <div className="space-y-6">
               {/* Post Content */}
-              <div className="prose max-w-none">
+              {/* rendered_html comes sanitized from the server; the demo posts only have Markdown */}
+              {selectedPost.rendered_html !== null ? (
+                <div
+                  className="post-content max-w-none text-gray-800 leading-relaxed"
+                  dangerouslySetInnerHTML={{ __html: selectedPost.rendered_html }}
+                />
+              ) : (
                 <div className="whitespace-pre-wrap text-gray-800 leading-relaxed">
                   {selectedPost.content}
                 </div>
-              </div>
+              )}
+
+              <SeriesNavigation postId={selectedPost.id} onOpenPart={handleOpenPart} />
 
               <Separator />
 
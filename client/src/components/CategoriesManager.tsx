@@ -78,15 +78,6 @@ function CategoriesManager() {
     loadCategories();
   }, [loadCategories]);
 
-  const generateSlug = (name: string) => {
-    return name
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/--+/g, '-')
-      .trim();
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -95,7 +86,8 @@ function CategoriesManager() {
       if (editingCategory) {
         const updateData: UpdateCategoryInput = {
           id: editingCategory.id,
-          ...formData
+          ...formData,
+          slug: formData.slug || undefined
         };
         const updatedCategory = await trpc.categories.update.mutate(updateData);
         setCategories((prev: Category[]) => 
@@ -103,7 +95,8 @@ function CategoriesManager() {
         );
         setEditingCategory(null);
       } else {
-        const newCategory = await trpc.categories.create.mutate(formData);
+        // Left empty, the server generates the slug from the name
+        const newCategory = await trpc.categories.create.mutate({ ...formData, slug: formData.slug || undefined });
         setCategories((prev: Category[]) => [...prev, newCategory]);
         setIsCreateDialogOpen(false);
       }
@@ -202,7 +195,6 @@ function CategoriesManager() {
               categories={categories}
               onSubmit={handleSubmit}
               isLoading={isLoading}
-              generateSlug={generateSlug}
             />
           </DialogContent>
         </Dialog>
@@ -358,7 +350,6 @@ function CategoriesManager() {
               categories={categories}
               onSubmit={handleSubmit}
               isLoading={isLoading}
-              generateSlug={generateSlug}
               isEditing={true}
               editingId={editingCategory.id}
             />
@@ -375,7 +366,6 @@ interface CategoryFormProps {
   categories: Category[];
   onSubmit: (e: React.FormEvent) => Promise<void>;
   isLoading: boolean;
-  generateSlug: (name: string) => string;
   isEditing?: boolean;
   editingId?: number;
 }
@@ -386,7 +376,6 @@ function CategoryForm({
   categories, 
   onSubmit, 
   isLoading, 
-  generateSlug, 
   isEditing = false,
   editingId 
 }: CategoryFormProps) {
@@ -402,14 +391,9 @@ function CategoryForm({
           <Input
             id="name"
             value={formData.name}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-              const newName = e.target.value;
-              setFormData({
-                ...formData,
-                name: newName,
-                slug: generateSlug(newName)
-              });
-            }}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData({ ...formData, name: e.target.value })
+            }
             placeholder="Enter category name"
             required
           />
@@ -419,11 +403,11 @@ function CategoryForm({
           <Label htmlFor="slug">URL Slug</Label>
           <Input
             id="slug"
-            value={formData.slug}
+            value={formData.slug ?? ''}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
               setFormData({ ...formData, slug: e.target.value })
             }
-            placeholder="url-friendly-slug"
+            placeholder={isEditing ? 'Keep the current slug' : 'Generated from the name'}
           />
         </div>
       </div>
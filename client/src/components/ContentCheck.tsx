@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+import type { ContentFormat, ContentValidation } from '../../../server/src/schema';
+
+interface ContentCheckProps {
+  content: string;
+  format?: ContentFormat;
+}
+
+// Checks the shortcodes in the draft, which the site would otherwise leave out without a word
+function ContentCheck({ content, format = 'markdown' }: ContentCheckProps) {
+  const [result, setResult] = useState<ContentValidation | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError('');
+
+    try {
+      setResult(await trpc.posts.validateContent.query({ content, content_format: format }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not check the content.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Button type="button" variant="outline" size="sm" onClick={handleCheck} disabled={isChecking}>
+          {isChecking ? 'Checking...' : '🔎 Check shortcodes'}
+        </Button>
+        <span className="text-xs text-gray-500">
+          Markdown, plus [gallery ids=1,2], [youtube id=...], [callout type=warning]...[/callout] and [post slug=...]
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {result && result.valid && <p className="text-sm text-green-700">✅ All shortcodes are fine.</p>}
+      {result && !result.valid && (
+        <ul className="text-sm text-amber-700 list-disc pl-5 space-y-1">
+          {result.issues.map((issue, index: number) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ContentCheck;
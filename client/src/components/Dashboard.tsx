@@ -4,12 +4,15 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { trpc } from '@/utils/trpc';
+import { useAuth } from '@/App';
+import ReviewQueue from '@/components/ReviewQueue';
 import type { Post, Comment, User, Category } from '../../../server/src/schema';
 
 interface DashboardStats {
   totalPosts: number;
   publishedPosts: number;
   draftPosts: number;
+  pendingReviewPosts: number;
   totalComments: number;
   pendingComments: number;
   totalUsers: number;
@@ -17,10 +20,12 @@ interface DashboardStats {
 }
 
 function Dashboard() {
+  const { can } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({
     totalPosts: 0,
     publishedPosts: 0,
     draftPosts: 0,
+    pendingReviewPosts: 0,
     totalComments: 0,
     pendingComments: 0,
     totalUsers: 0,
@@ -61,11 +66,13 @@ function Dashboard() {
       const allPosts = postsResponse.posts;
       const publishedCount = allPosts.filter((post: Post) => post.status === 'published').length;
       const draftCount = allPosts.filter((post: Post) => post.status === 'draft').length;
+      const pendingReviewCount = allPosts.filter((post: Post) => post.status === 'pending_review').length;
 
       setStats({
         totalPosts: allPosts.length,
         publishedPosts: publishedCount,
         draftPosts: draftCount,
+        pendingReviewPosts: pendingReviewCount,
         totalComments: commentsResponse?.comments?.length || 0,
         pendingComments: pendingCommentsResponse?.length || 0,
         totalUsers: users.length,
@@ -82,6 +89,7 @@ function Dashboard() {
         totalPosts: 12,
         publishedPosts: 8,
         draftPosts: 4,
+        pendingReviewPosts: 2,
         totalComments: 23,
         pendingComments: 3,
         totalUsers: 5,
@@ -131,6 +139,11 @@ function Dashboard() {
                 📝 {stats.draftPosts} drafts
               </span>
             </div>
+            {stats.pendingReviewPosts > 0 && (
+              <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 mt-2">
+                {stats.pendingReviewPosts} awaiting review
+              </Badge>
+            )}
           </CardContent>
         </Card>
 
@@ -245,6 +258,8 @@ function Dashboard() {
         </Card>
       </div>
 
+      {can('post.edit_others') && <ReviewQueue />}
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { CreatePostInput, PostWithTags } from '../../../server/src/schema';
+
+const MERGED_FIELDS = [
+  'title',
+  'slug',
+  'excerpt',
+  'content',
+  'status',
+  'featured_image_id',
+  'category_id',
+  'meta_title',
+  'meta_description',
+  'canonical_url',
+  'published_at',
+  'tag_ids'
+] as const;
+
+type MergedField = typeof MERGED_FIELDS[number];
+
+const FIELD_LABELS: Record<MergedField, string> = {
+  title: 'Title',
+  slug: 'URL slug',
+  excerpt: 'Excerpt',
+  content: 'Content',
+  status: 'Status',
+  featured_image_id: 'Featured image',
+  category_id: 'Category',
+  meta_title: 'Meta title',
+  meta_description: 'Meta description',
+  canonical_url: 'Canonical URL',
+  published_at: 'Publication date',
+  tag_ids: 'Tags'
+};
+
+// Unset optional fields and null mean the same thing, and tag order does not matter
+const normalize = (field: MergedField, value: unknown): string => {
+  if (field === 'tag_ids' && Array.isArray(value)) return JSON.stringify([...value].sort((a, b) => a - b));
+  return JSON.stringify(value ?? null);
+};
+
+const display = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (value instanceof Date) return value.toLocaleString();
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  return String(value);
+};
+
+interface PostConflictProps {
+  // The copy the editor started from, their unsaved changes, and what the server has now
+  base: PostWithTags;
+  mine: CreatePostInput;
+  theirs: PostWithTags;
+  onClose: () => void;
+  onOverwrite: () => void;
+  onMerge: (merged: CreatePostInput) => void;
+}
+
+// Shown when someone else saved the post while it was being edited. Fields changed on only one
+// side merge by themselves; fields changed on both sides are picked one by one.
+function PostConflict({ base, mine, theirs, onClose, onOverwrite, onMerge }: PostConflictProps) {
+  const changed = (field: MergedField, value: unknown) => normalize(field, value) !== normalize(field, base[field]);
+  const conflicting = MERGED_FIELDS.filter((field: MergedField) =>
+    changed(field, mine[field]) && changed(field, theirs[field]) && normalize(field, mine[field]) !== normalize(field, theirs[field])
+  );
+
+  const [choices, setChoices] = useState<Partial<Record<MergedField, 'mine' | 'theirs'>>>({});
+
+  const handleMerge = () => {
+    const merged: CreatePostInput = { ...mine };
+    for (const field of MERGED_FIELDS) {
+      const takeTheirs = conflicting.includes(field)
+        ? choices[field] === 'theirs'
+        : !changed(field, mine[field]);
+      if (takeTheirs) {
+        Object.assign(merged, { [field]: theirs[field] });
+      }
+    }
+    // The format goes with the content, which is only readable in its own format
+    merged.content_format = merged.content === theirs.content ? theirs.content_format : mine.content_format;
+    onMerge(merged);
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>⚠️ "{theirs.title}" was changed by someone else</DialogTitle>
+          <DialogDescription>
+            The post was saved again after you started editing it, last at {theirs.updated_at.toLocaleString()}.
+            Merge the two versions, or overwrite theirs with yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicting.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            You changed different fields, so the versions merge without conflicts.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">Both of you changed these fields. Pick which version to keep:</p>
+            {conflicting.map((field: MergedField) => (
+              <div key={field} className="space-y-2">
+                <h4 className="text-sm font-medium">{FIELD_LABELS[field]}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {(['mine', 'theirs'] as const).map((side) => (
+                    <button
+                      key={side}
+                      type="button"
+                      onClick={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                      className={`text-left rounded border p-2 text-sm ${
+                        (choices[field] ?? 'mine') === side ? 'border-indigo-500 bg-indigo-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className="block text-xs text-gray-500 mb-1">{side === 'mine' ? 'Yours' : 'Theirs'}</span>
+                      <span className="block whitespace-pre-wrap break-words line-clamp-6">
+                        {display(side === 'mine' ? mine[field] : theirs[field])}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onOverwrite}>
+            Overwrite with mine
+          </Button>
+          <Button onClick={handleMerge} className="bg-indigo-600 hover:bg-indigo-700">
+            🔀 Merge and review
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PostConflict;
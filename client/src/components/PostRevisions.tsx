@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import type { Post, PostRevisionSummary, PostRevisionDiff } from '../../../server/src/schema';
+
+interface PostRevisionsProps {
+  post: Post;
+  onClose: () => void;
+  onRestored: (post: Post) => void;
+}
+
+const FIELD_LABELS: Record<PostRevisionDiff['fields'][number]['field'], string> = {
+  title: 'Title',
+  excerpt: 'Excerpt',
+  content: 'Content',
+  meta_title: 'Meta title',
+  meta_description: 'Meta description',
+  canonical_url: 'Canonical URL'
+};
+
+// Revision history for one post: pick a revision to compare with the current one and restore it if needed
+function PostRevisions({ post, onClose, onRestored }: PostRevisionsProps) {
+  const [revisions, setRevisions] = useState<PostRevisionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [mode, setMode] = useState<'line' | 'word'>('line');
+  const [diff, setDiff] = useState<PostRevisionDiff | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const data = await trpc.posts.revisions.list.query({ post_id: post.id });
+      setRevisions(data);
+      // Start by comparing the previous save with the current one
+      setSelectedId(data[1]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+    }
+  }, [post.id]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const latestId = revisions[0]?.id;
+
+  useEffect(() => {
+    if (selectedId === null || latestId === undefined || selectedId === latestId) {
+      setDiff(null);
+      return;
+    }
+
+    trpc.posts.revisions.diff.query({ from_id: selectedId, to_id: latestId, mode })
+      .then(setDiff)
+      .catch((error) => console.error('Failed to compare revisions:', error));
+  }, [selectedId, latestId, mode]);
+
+  const handleRestore = async () => {
+    if (selectedId === null) return;
+    setIsRestoring(true);
+    setError('');
+
+    try {
+      const restored = await trpc.posts.revisions.restore.mutate({ id: post.id, revision_id: selectedId });
+      onRestored(restored);
+      await loadRevisions();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not restore the revision.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>🕘 History of "{post.title}"</DialogTitle>
+          <DialogDescription>
+            Every save is kept as a revision. Pick one to see what changed since, or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            {revisions.length === 0 && (
+              <p className="text-sm text-gray-500">No revisions yet.</p>
+            )}
+            {revisions.map((revision: PostRevisionSummary, index: number) => (
+              <button
+                key={revision.id}
+                type="button"
+                onClick={() => setSelectedId(revision.id)}
+                className={`w-full text-left rounded border p-2 text-sm ${
+                  revision.id === selectedId ? 'border-indigo-500 bg-indigo-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium truncate">{revision.title}</span>
+                  {index === 0 && <Badge variant="secondary">current</Badge>}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {revision.created_at.toLocaleString()} · {revision.author_username ?? 'deleted user'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex space-x-2">
+                {(['line', 'word'] as const).map((option) => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={mode === option ? 'default' : 'outline'}
+                    onClick={() => setMode(option)}
+                  >
+                    {option === 'line' ? 'By line' : 'By word'}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                size="sm"
+                onClick={handleRestore}
+                disabled={selectedId === null || selectedId === latestId || isRestoring}
+              >
+                {isRestoring ? 'Restoring...' : '↩️ Restore this revision'}
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {selectedId === latestId || !diff ? (
+              <p className="text-sm text-gray-500">Select an older revision to compare it with the current one.</p>
+            ) : diff.fields.length === 0 && diff.tags_added.length === 0 && diff.tags_removed.length === 0 ? (
+              <p className="text-sm text-gray-500">No differences.</p>
+            ) : (
+              <div className="space-y-4">
+                {diff.fields.map(({ field, changes }) => (
+                  <div key={field}>
+                    <h4 className="text-sm font-medium mb-1">{FIELD_LABELS[field]}</h4>
+                    <pre className="whitespace-pre-wrap break-words rounded border bg-gray-50 p-3 text-sm font-sans">
+                      {changes.map((change, index) => (
+                        <span
+                          key={index}
+                          className={
+                            change.type === 'insert' ? 'bg-green-100 text-green-900' :
+                            change.type === 'delete' ? 'bg-red-100 text-red-900 line-through' : ''
+                          }
+                        >
+                          {change.value}
+                        </span>
+                      ))}
+                    </pre>
+                  </div>
+                ))}
+                {(diff.tags_added.length > 0 || diff.tags_removed.length > 0) && (
+                  <p className="text-sm text-gray-600">
+                    Tags changed: {diff.tags_added.length} added, {diff.tags_removed.length} removed
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PostRevisions;
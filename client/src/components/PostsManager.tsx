@@ -9,25 +9,40 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Separator } from '@/components/ui/separator';
+import { TRPCClientError } from '@trpc/client';
 import { trpc } from '@/utils/trpc';
 import { useAuth } from '@/App';
-import type { Post, CreatePostInput, UpdatePostInput, Category, Tag } from '../../../server/src/schema';
+import PostRevisions from '@/components/PostRevisions';
+import SubmitForReview from '@/components/SubmitForReview';
+import PostConflict from '@/components/PostConflict';
+import ContentCheck from '@/components/ContentCheck';
+import type { AppRouter } from '../../../server/src';
+import type { Post, PostWithTags, PostStatus, CreatePostInput, UpdatePostInput, Category, Tag, ContentFormat } from '../../../server/src/schema';
+
+// The server rejects saves made against an outdated copy with CONFLICT and sends its current copy along
+const isConflict = (error: unknown): error is TRPCClientError<AppRouter> =>
+  error instanceof TRPCClientError && error.data?.code === 'CONFLICT';
 
 function PostsManager() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [posts, setPosts] = useState<Post[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [editingPost, setEditingPost] = useState<Post | null>(null);
-  const [filter, setFilter] = useState<'all' | 'published' | 'draft' | 'archived'>('all');
+  // The copy being edited, as loaded; saves are rejected if the server's copy has moved on since
+  const [editingPost, setEditingPost] = useState<PostWithTags | null>(null);
+  const [conflict, setConflict] = useState<PostWithTags | null>(null);
+  const [historyPost, setHistoryPost] = useState<Post | null>(null);
+  const [reviewPost, setReviewPost] = useState<Post | null>(null);
+  const [filter, setFilter] = useState<'all' | PostStatus>('all');
 
   const [formData, setFormData] = useState<CreatePostInput>({
     title: '',
     slug: '',
     excerpt: null,
     content: '',
+    content_format: 'markdown',
     status: 'draft',
     featured_image_id: null,
     author_id: user?.id || 1,
@@ -65,6 +80,9 @@ function PostsManager() {
           slug: 'welcome-to-blogcms-pro',
           excerpt: 'Getting started with your new blog management system',
           content: '# Welcome!\n\nThis is your first blog post. Start creating amazing content!',
+          content_format: 'markdown',
+          word_count: null,
+          rendered_html: null,
           status: 'published' as const,
           featured_image_id: null,
           author_id: 1,
@@ -72,6 +90,8 @@ function PostsManager() {
           meta_title: null,
           meta_description: null,
           canonical_url: null,
+          reviewer_id: null,
+          review_notes: null,
           published_at: new Date(),
           created_at: new Date(),
           updated_at: new Date()
@@ -82,6 +102,9 @@ function PostsManager() {
           slug: 'how-to-create-engaging-content',
           excerpt: 'Tips and tricks for writing blog posts that captivate your audience',
           content: '# Creating Engaging Content\n\nHere are some tips...',
+          content_format: 'markdown',
+          word_count: null,
+          rendered_html: null,
           status: 'draft' as const,
           featured_image_id: null,
           author_id: 1,
@@ -89,6 +112,8 @@ function PostsManager() {
           meta_title: null,
           meta_description: null,
           canonical_url: null,
+          reviewer_id: null,
+          review_notes: null,
           published_at: null,
           created_at: new Date(),
           updated_at: new Date()
@@ -111,59 +136,90 @@ function PostsManager() {
     loadData();
   }, [loadData]);
 
-  const generateSlug = (title: string) => {
-    return title
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/--+/g, '-')
-      .trim();
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
       if (editingPost) {
-        const updateData: UpdatePostInput = {
-          id: editingPost.id,
-          ...formData
-        };
-        const updatedPost = await trpc.posts.update.mutate(updateData);
-        setPosts((prev: Post[]) => 
-          prev.map((post: Post) => post.id === editingPost.id ? updatedPost : post)
-        );
-        setEditingPost(null);
+        await saveEdit(editingPost, editingPost.updated_at);
       } else {
-        const newPost = await trpc.posts.create.mutate(formData);
+        // Left empty, the server generates the slug from the title
+        const newPost = await trpc.posts.create.mutate({ ...formData, slug: formData.slug || undefined });
         setPosts((prev: Post[]) => [newPost, ...prev]);
         setIsCreateDialogOpen(false);
+        resetForm();
       }
-
-      // Reset form
-      setFormData({
-        title: '',
-        slug: '',
-        excerpt: null,
-        content: '',
-        status: 'draft',
-        featured_image_id: null,
-        author_id: user?.id || 1,
-        category_id: null,
-        meta_title: null,
-        meta_description: null,
-        canonical_url: null,
-        published_at: null,
-        tag_ids: []
-      });
     } catch (error) {
-      console.error('Failed to save post:', error);
+      if (editingPost && isConflict(error)) {
+        setConflict(error.data?.current as PostWithTags);
+      } else {
+        console.error('Failed to save post:', error);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const saveEdit = async (post: Post, expectedUpdatedAt: Date) => {
+    const updateData: UpdatePostInput = {
+      id: post.id,
+      ...formData,
+      slug: formData.slug || undefined,
+      expected_updated_at: expectedUpdatedAt
+    };
+    const updatedPost = await trpc.posts.update.mutate(updateData);
+    setPosts((prev: Post[]) => 
+      prev.map((p: Post) => p.id === post.id ? updatedPost : p)
+    );
+    setEditingPost(null);
+    resetForm();
+  };
+
+  // Saves this editor's version over the one that was saved in the meantime
+  const handleOverwrite = async () => {
+    if (!conflict) return;
+    const current = conflict;
+    setConflict(null);
+
+    try {
+      await saveEdit(current, current.updated_at);
+    } catch (error) {
+      if (isConflict(error)) {
+        setConflict(error.data?.current as PostWithTags);
+      } else {
+        console.error('Failed to save post:', error);
+      }
+    }
+  };
+
+  // The merged version goes back into the form for review; saving it then expects the server's copy
+  const handleMerge = (merged: CreatePostInput) => {
+    if (!conflict) return;
+    setFormData(merged);
+    setEditingPost(conflict);
+    setConflict(null);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      title: '',
+      slug: '',
+      excerpt: null,
+      content: '',
+      content_format: 'markdown',
+      status: 'draft',
+      featured_image_id: null,
+      author_id: user?.id || 1,
+      category_id: null,
+      meta_title: null,
+      meta_description: null,
+      canonical_url: null,
+      published_at: null,
+      tag_ids: []
+    });
+  };
+
   const handlePublish = async (post: Post) => {
     try {
       const publishedPost = await trpc.posts.publish.mutate({ id: post.id });
@@ -196,12 +252,13 @@ function PostsManager() {
   };
 
   const startEdit = (post: Post) => {
-    setEditingPost(post);
+    setEditingPost({ ...post, tag_ids: [] });
     setFormData({
       title: post.title,
       slug: post.slug,
       excerpt: post.excerpt,
       content: post.content,
+      content_format: post.content_format,
       status: post.status,
       featured_image_id: post.featured_image_id,
       author_id: post.author_id,
@@ -212,6 +269,14 @@ function PostsManager() {
       published_at: post.published_at,
       tag_ids: []
     });
+
+    // The list omits tags, and saving an empty set would clear them
+    trpc.posts.getById.query({ id: post.id })
+      .then((loaded) => {
+        setEditingPost(loaded);
+        setFormData((prev: CreatePostInput) => ({ ...prev, tag_ids: loaded.tag_ids }));
+      })
+      .catch((error) => console.error('Failed to load post tags:', error));
   };
 
   const filteredPosts = posts.filter((post: Post) => {
@@ -255,7 +320,7 @@ function PostsManager() {
               tags={tags}
               onSubmit={handleSubmit}
               isLoading={isLoading}
-              generateSlug={generateSlug}
+              canPublish={can('post.publish')}
             />
           </DialogContent>
         </Dialog>
@@ -263,7 +328,7 @@ function PostsManager() {
 
       {/* Filter Tabs */}
       <div className="flex space-x-2">
-        {(['all', 'published', 'draft', 'archived'] as const).map((status) => (
+        {(['all', 'published', 'scheduled', 'pending_review', 'draft', 'archived'] as const).map((status) => (
           <Button
             key={status}
             variant={filter === status ? 'default' : 'outline'}
@@ -273,6 +338,8 @@ function PostsManager() {
           >
             {status === 'all' ? '📄 All' : 
              status === 'published' ? '✅ Published' :
+             status === 'scheduled' ? '⏰ Scheduled' :
+             status === 'pending_review' ? '👀 In review' :
              status === 'draft' ? '📝 Drafts' : '📦 Archived'}
             <Badge variant="secondary" className="ml-2">
               {status === 'all' ? posts.length : posts.filter(p => p.status === status).length}
@@ -306,10 +373,10 @@ function PostsManager() {
                   <Badge 
                     variant={
                       post.status === 'published' ? 'default' : 
-                      post.status === 'draft' ? 'secondary' : 'destructive'
+                      post.status === 'archived' ? 'destructive' : 'secondary'
                     }
                   >
-                    {post.status}
+                    {post.status === 'pending_review' ? 'in review' : post.status}
                   </Badge>
                   <div className="flex space-x-2">
                     <Button
@@ -319,14 +386,30 @@ function PostsManager() {
                     >
                       ✏️ Edit
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setHistoryPost(post)}
+                    >
+                      🕘 History
+                    </Button>
                     {post.status === 'draft' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setReviewPost(post)}
+                      >
+                        📨 Submit for review
+                      </Button>
+                    )}
+                    {can('post.publish') && (post.status === 'draft' || post.status === 'scheduled') && (
                       <Button
                         size="sm"
                         variant="default"
                         onClick={() => handlePublish(post)}
                         className="bg-green-600 hover:bg-green-700"
                       >
-                        🚀 Publish
+                        {post.status === 'scheduled' ? '🚀 Publish now' : '🚀 Publish'}
                       </Button>
                     )}
                     {post.status === 'published' && (
@@ -373,8 +456,13 @@ function PostsManager() {
                 )}
                 <div className="text-sm text-gray-500 space-y-1">
                   <p>Created: {post.created_at.toLocaleDateString()}</p>
+                  {post.review_notes && (post.status === 'draft' || post.status === 'pending_review') && (
+                    <p className="italic">Review notes: {post.review_notes}</p>
+                  )}
                   {post.published_at && (
-                    <p>Published: {post.published_at.toLocaleDateString()}</p>
+                    post.status === 'scheduled'
+                      ? <p>Scheduled for: {post.published_at.toLocaleString()}</p>
+                      : <p>Published: {post.published_at.toLocaleDateString()}</p>
                   )}
                 </div>
               </CardContent>
@@ -400,16 +488,56 @@ function PostsManager() {
               tags={tags}
               onSubmit={handleSubmit}
               isLoading={isLoading}
-              generateSlug={generateSlug}
+              canPublish={can('post.publish')}
               isEditing={true}
             />
           </DialogContent>
         </Dialog>
       )}
+
+      {editingPost && conflict && (
+        <PostConflict
+          base={editingPost}
+          mine={formData}
+          theirs={conflict}
+          onClose={() => setConflict(null)}
+          onOverwrite={handleOverwrite}
+          onMerge={handleMerge}
+        />
+      )}
+
+      {reviewPost && (
+        <SubmitForReview
+          post={reviewPost}
+          onClose={() => setReviewPost(null)}
+          onSubmitted={(submitted: Post) => {
+            setPosts((prev: Post[]) => prev.map((p: Post) => p.id === submitted.id ? submitted : p));
+            setReviewPost(null);
+          }}
+        />
+      )}
+
+      {historyPost && (
+        <PostRevisions
+          post={historyPost}
+          onClose={() => setHistoryPost(null)}
+          onRestored={(restored: Post) => {
+            setPosts((prev: Post[]) => prev.map((p: Post) => p.id === restored.id ? restored : p));
+            setHistoryPost(restored);
+          }}
+        />
+      )}
     </div>
   );
 }
 
+// datetime-local inputs take local time without a zone, which toISOString would shift to UTC
+const toDateTimeLocal = (date: Date | null | undefined): string => {
+  if (!date) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+};
+
 interface PostFormProps {
   formData: CreatePostInput;
   setFormData: (data: CreatePostInput) => void;
@@ -417,11 +545,28 @@ interface PostFormProps {
   tags: Tag[];
   onSubmit: (e: React.FormEvent) => Promise<void>;
   isLoading: boolean;
-  generateSlug: (title: string) => string;
   isEditing?: boolean;
+  canPublish?: boolean;
 }
 
-function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading, generateSlug, isEditing = false }: PostFormProps) {
+function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading, isEditing = false, canPublish = true }: PostFormProps) {
+  const [formatError, setFormatError] = useState('');
+  const contentFormat = formData.content_format ?? 'markdown';
+
+  // Switching formats converts what has been written so far, so nothing is lost
+  const handleFormatChange = async (format: ContentFormat) => {
+    if (format === contentFormat) return;
+    setFormatError('');
+    try {
+      const content = formData.content
+        ? await trpc.posts.convertContent.query({ content: formData.content, from: contentFormat, to: format })
+        : '';
+      setFormData({ ...formData, content, content_format: format });
+    } catch (error) {
+      setFormatError(error instanceof Error ? error.message : 'Could not convert the content.');
+    }
+  };
+
   return (
     <form onSubmit={onSubmit} className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -430,14 +575,9 @@ function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading
           <Input
             id="title"
             value={formData.title}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-              const newTitle = e.target.value;
-              setFormData({
-                ...formData,
-                title: newTitle,
-                slug: generateSlug(newTitle)
-              });
-            }}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData({ ...formData, title: e.target.value })
+            }
             placeholder="Enter post title"
             required
           />
@@ -447,12 +587,15 @@ function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading
           <Label htmlFor="slug">URL Slug</Label>
           <Input
             id="slug"
-            value={formData.slug}
+            value={formData.slug ?? ''}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
               setFormData({ ...formData, slug: e.target.value })
             }
-            placeholder="url-friendly-slug"
+            placeholder={isEditing ? 'Keep the current slug' : 'Generated from the title'}
           />
+          {isEditing && (
+            <p className="text-xs text-gray-500">Once published, the old URL redirects to the new one.</p>
+          )}
         </div>
       </div>
 
@@ -470,17 +613,33 @@ function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="content">Content *</Label>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="content">Content *</Label>
+          <Select value={contentFormat} onValueChange={handleFormatChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="markdown">Markdown</SelectItem>
+              <SelectItem value="blocks">Blocks (JSON)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
         <Textarea
           id="content"
           value={formData.content}
           onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
             setFormData({ ...formData, content: e.target.value })
           }
-          placeholder="Write your post content here..."
+          placeholder={contentFormat === 'blocks'
+            ? '[{ "type": "paragraph", "text": "Write your post content here..." }]'
+            : 'Write your post content here...'}
           rows={10}
+          className={contentFormat === 'blocks' ? 'font-mono text-sm' : undefined}
           required
         />
+        {formatError && <p className="text-sm text-red-600">{formatError}</p>}
+        <ContentCheck content={formData.content} format={contentFormat} />
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -488,7 +647,7 @@ function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading
           <Label htmlFor="status">Status</Label>
           <Select 
             value={formData.status} 
-            onValueChange={(value: 'draft' | 'published' | 'archived') =>
+            onValueChange={(value: PostStatus) =>
               setFormData({ ...formData, status: value })
             }
           >
@@ -497,7 +656,10 @@ function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="draft">📝 Draft</SelectItem>
-              <SelectItem value="published">✅ Published</SelectItem>
+              <SelectItem value="pending_review">👀 Pending review</SelectItem>
+              {/* Without publish rights, posts go live through the review workflow */}
+              <SelectItem value="published" disabled={!canPublish}>✅ Published</SelectItem>
+              <SelectItem value="scheduled" disabled={!canPublish}>⏰ Scheduled</SelectItem>
               <SelectItem value="archived">📦 Archived</SelectItem>
             </SelectContent>
           </Select>
@@ -526,6 +688,26 @@ function PostForm({ formData, setFormData, categories, tags, onSubmit, isLoading
         </div>
       </div>
 
+      {(formData.status === 'scheduled' || formData.status === 'published') && (
+        <div className="space-y-2">
+          <Label htmlFor="published_at">
+            {formData.status === 'scheduled' ? 'Publish at *' : 'Publication date'}
+          </Label>
+          <Input
+            id="published_at"
+            type="datetime-local"
+            value={toDateTimeLocal(formData.published_at)}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setFormData({ ...formData, published_at: e.target.value ? new Date(e.target.value) : null })
+            }
+            required={formData.status === 'scheduled'}
+          />
+          <p className="text-xs text-gray-500">
+            A date in the future schedules the post; it goes live automatically at that time.
+          </p>
+        </div>
+      )}
+
       <Separator />
 
       <div className="space-y-4">
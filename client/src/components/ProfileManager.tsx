@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { trpc } from '@/utils/trpc';
+import { useAuth } from '@/App';
+import type { ApiToken, ApiTokenScope } from '../../../server/src/schema';
+
+const SCOPES: { value: ApiTokenScope; label: string }[] = [
+  { value: 'posts:read', label: 'Read posts, including drafts' },
+  { value: 'posts:write', label: 'Create, edit and publish posts' },
+  { value: 'media:read', label: 'Browse the media library' },
+  { value: 'media:write', label: 'Upload and edit media' },
+  { value: 'comments:moderate', label: 'Moderate comments' },
+  { value: 'taxonomy:write', label: 'Manage categories and tags' }
+];
+
+// Expiry in days; 'never' keeps the token until it is revoked
+type TokenExpiry = '30' | '90' | '365' | 'never';
+
+function ProfileManager() {
+  const { user } = useAuth();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['posts:read']);
+  const [expiry, setExpiry] = useState<TokenExpiry>('90');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadTokens = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await trpc.apiTokens.list.query();
+      setTokens(data);
+    } catch (error) {
+      console.error('Failed to load API tokens:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((prev: ApiTokenScope[]) =>
+      checked ? [...prev, scope] : prev.filter((s: ApiTokenScope) => s !== scope)
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError('');
+
+    try {
+      const result = await trpc.apiTokens.create.mutate({
+        name,
+        scopes,
+        expires_at: expiry === 'never' ? null : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000)
+      });
+      setTokens((prev: ApiToken[]) => [result.api_token, ...prev]);
+      setNewToken(result.token);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the token.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: number) => {
+    try {
+      await trpc.apiTokens.revoke.mutate({ id: tokenId });
+      setTokens((prev: ApiToken[]) => prev.filter((token: ApiToken) => token.id !== tokenId));
+    } catch (error) {
+      console.error('Failed to revoke API token:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🙋 My Profile</h2>
+        <p className="text-gray-600">
+          Signed in as {user?.first_name} {user?.last_name} ({user?.email})
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Personal API Tokens</CardTitle>
+          <CardDescription>
+            Tokens let scripts and build tools call the API as you. They can only do what their scopes allow,
+            and never more than your role permits.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {newToken && (
+            <Alert className="border-green-200 bg-green-50">
+              <AlertDescription className="text-green-800 space-y-2">
+                <p>Copy your new token now. It will not be shown again.</p>
+                <code className="block break-all rounded bg-white p-2 font-mono text-sm">{newToken}</code>
+                <Button size="sm" variant="outline" onClick={() => setNewToken(null)}>
+                  Done
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            {error && (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-600">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="token_name">Token Name *</Label>
+                <Input
+                  id="token_name"
+                  value={name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                  placeholder="e.g. Static site build"
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="token_expiry">Expires</Label>
+                <Select
+                  value={expiry}
+                  onValueChange={(value: TokenExpiry) => setExpiry(value)}
+                >
+                  <SelectTrigger id="token_expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="30">In 30 days</SelectItem>
+                    <SelectItem value="90">In 90 days</SelectItem>
+                    <SelectItem value="365">In a year</SelectItem>
+                    <SelectItem value="never">Never</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Scopes *</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {SCOPES.map(({ value, label }) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`scope_${value}`}
+                      checked={scopes.includes(value)}
+                      onCheckedChange={(checked: boolean | 'indeterminate') => toggleScope(value, checked === true)}
+                    />
+                    <Label htmlFor={`scope_${value}`} className="font-normal">
+                      <code className="text-xs">{value}</code> – {label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={isCreating || scopes.length === 0}
+                className="bg-indigo-600 hover:bg-indigo-700"
+              >
+                {isCreating ? 'Creating...' : '🔑 Create Token'}
+              </Button>
+            </div>
+          </form>
+
+          {isLoading ? (
+            <p className="text-center text-gray-600">Loading tokens...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-center text-gray-600">You have no API tokens yet.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {tokens.map((token: ApiToken) => (
+                <div key={token.id} className="flex items-center justify-between p-4">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {token.name} <code className="text-xs text-gray-500">{token.token_prefix}…</code>
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope: ApiTokenScope) => (
+                        <Badge key={scope} variant="outline">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Last used {token.last_used_at ? token.last_used_at.toLocaleString() : 'never'} ·{' '}
+                      {token.expires_at ? `expires ${token.expires_at.toLocaleDateString()}` : 'no expiry'}
+                    </p>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" variant="destructive">Revoke</Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revoke Token</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Scripts using "{token.name}" will stop working immediately.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleRevoke(token.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Revoke
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ProfileManager;
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import { useAuth } from '@/App';
+import type { ReviewQueueItem } from '../../../server/src/schema';
+
+// Posts waiting for review, with approve and request-changes actions for reviewers
+function ReviewQueue() {
+  const { user, can } = useAuth();
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [returningId, setReturningId] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const data = await trpc.posts.reviewQueue.query(onlyMine && user ? { reviewer_id: user.id } : {});
+      setQueue(data);
+    } catch (error) {
+      console.error('Failed to load review queue:', error);
+    }
+  }, [onlyMine, user]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const removeFromQueue = (id: number) => {
+    setQueue((prev: ReviewQueueItem[]) => prev.filter((item: ReviewQueueItem) => item.id !== id));
+  };
+
+  const handleApprove = async (item: ReviewQueueItem) => {
+    setError('');
+    try {
+      await trpc.posts.approve.mutate({ id: item.id });
+      removeFromQueue(item.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not approve the post.');
+    }
+  };
+
+  const handleRequestChanges = async (item: ReviewQueueItem) => {
+    setError('');
+    try {
+      await trpc.posts.requestChanges.mutate({ id: item.id, notes });
+      removeFromQueue(item.id);
+      setReturningId(null);
+      setNotes('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not send the post back.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">👀 Review Queue</CardTitle>
+            <CardDescription>Posts waiting for a reviewer, longest waiting first</CardDescription>
+          </div>
+          <Button size="sm" variant={onlyMine ? 'default' : 'outline'} onClick={() => setOnlyMine(!onlyMine)}>
+            Assigned to me
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+        {queue.length > 0 ? (
+          <div className="space-y-4">
+            {queue.map((item: ReviewQueueItem) => (
+              <div key={item.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-gray-900 truncate">{item.title}</h4>
+                  <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 text-xs">
+                    {item.reviewer_username ? `@${item.reviewer_username}` : 'unassigned'}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  by {item.author_username ?? 'deleted user'} · waiting since {item.updated_at.toLocaleDateString()}
+                </p>
+                {item.review_notes && (
+                  <p className="text-sm text-gray-600 italic">“{item.review_notes}”</p>
+                )}
+                {can('post.publish') && (
+                  returningId === item.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={notes}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value)}
+                        placeholder="What should the author change?"
+                        rows={2}
+                      />
+                      <div className="flex space-x-2">
+                        <Button size="sm" onClick={() => handleRequestChanges(item)} disabled={!notes.trim()}>
+                          ↩️ Send back
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setReturningId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleApprove(item)}
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        ✅ Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => { setReturningId(item.id); setNotes(''); }}>
+                        ↩️ Request changes
+                      </Button>
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <p>🎉 Nothing waiting for review</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ReviewQueue;
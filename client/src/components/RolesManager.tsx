@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { trpc } from '@/utils/trpc';
+import type { Role, Capability } from '../../../server/src/schema';
+
+const CAPABILITIES: { value: Capability; label: string }[] = [
+  { value: 'post.create', label: 'Write and edit own posts' },
+  { value: 'post.publish', label: 'Publish posts' },
+  { value: 'post.edit_others', label: "Edit other people's posts" },
+  { value: 'post.edit_meta', label: 'Edit SEO fields on any post' },
+  { value: 'media.upload', label: 'Upload and edit own media' },
+  { value: 'media.edit_others', label: "Edit other people's media" },
+  { value: 'comment.moderate', label: 'Moderate comments' },
+  { value: 'taxonomy.manage', label: 'Manage categories and tags' },
+  { value: 'search.manage', label: 'Manage the search index' },
+  { value: 'users.manage', label: 'Manage users and roles' },
+  { value: 'settings.manage', label: 'Change site settings' }
+];
+
+const emptyForm = { slug: '', name: '', description: '', capabilities: [] as Capability[] };
+
+function RolesManager() {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState('');
+
+  const loadRoles = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await trpc.roles.list.query();
+      setRoles(data);
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError('');
+
+    try {
+      const role = await trpc.roles.create.mutate({
+        slug: formData.slug,
+        name: formData.name,
+        description: formData.description || null,
+        capabilities: formData.capabilities
+      });
+      setRoles((prev: Role[]) => [...prev, role]);
+      setFormData(emptyForm);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the role.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const toggleRoleCapability = async (role: Role, capability: Capability, checked: boolean) => {
+    setError('');
+
+    try {
+      const updated = await trpc.roles.update.mutate({
+        id: role.id,
+        capabilities: checked
+          ? [...role.capabilities, capability]
+          : role.capabilities.filter((c: Capability) => c !== capability)
+      });
+      setRoles((prev: Role[]) => prev.map((r: Role) => r.id === updated.id ? updated : r));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update the role.');
+    }
+  };
+
+  const handleDelete = async (roleId: number) => {
+    setError('');
+
+    try {
+      await trpc.roles.delete.mutate({ id: roleId });
+      setRoles((prev: Role[]) => prev.filter((role: Role) => role.id !== roleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the role.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">🛡️ Roles</h2>
+        <p className="text-gray-600">Decide what each role is allowed to do</p>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-600">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Capability Matrix</CardTitle>
+          <CardDescription>
+            Changes apply to everyone with the role on their next request. The administrator role always has every capability.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center text-gray-600">Loading roles...</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="py-2 pr-4 text-left font-medium">Capability</th>
+                    {roles.map((role: Role) => (
+                      <th key={role.id} className="px-2 py-2 text-center font-medium">
+                        <div>{role.name}</div>
+                        <div className="flex items-center justify-center gap-1">
+                          <code className="text-xs text-gray-500">{role.slug}</code>
+                          {role.is_system ? (
+                            <Badge variant="outline">Built-in</Badge>
+                          ) : (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button size="sm" variant="ghost" className="h-6 px-1 text-red-600">✕</Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Role</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Delete the "{role.name}" role? Roles that are still assigned to users or invitations cannot be deleted.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(role.id)}
+                                    className="bg-red-600 hover:bg-red-700"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {CAPABILITIES.map(({ value, label }) => (
+                    <tr key={value} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <code className="text-xs">{value}</code>
+                        <div className="text-xs text-gray-500">{label}</div>
+                      </td>
+                      {roles.map((role: Role) => (
+                        <td key={role.id} className="px-2 py-2 text-center">
+                          <Checkbox
+                            checked={role.capabilities.includes(value)}
+                            disabled={role.slug === 'admin'}
+                            onCheckedChange={(checked: boolean | 'indeterminate') =>
+                              toggleRoleCapability(role, value, checked === true)
+                            }
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Role</CardTitle>
+          <CardDescription>
+            For example a contributor who can draft but not publish, or a moderator who only handles comments.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="role_slug">Slug *</Label>
+                <Input
+                  id="role_slug"
+                  value={formData.slug}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev) => ({ ...prev, slug: e.target.value.toLowerCase() }))
+                  }
+                  placeholder="e.g. contributor"
+                  pattern="[a-z][a-z0-9_\-]*"
+                  maxLength={50}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="role_name">Name *</Label>
+                <Input
+                  id="role_name"
+                  value={formData.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData((prev) => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="e.g. Contributor"
+                  maxLength={100}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="role_description">Description</Label>
+              <Input
+                id="role_description"
+                value={formData.description}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev) => ({ ...prev, description: e.target.value }))
+                }
+                placeholder="What people with this role do"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Capabilities</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {CAPABILITIES.map(({ value, label }) => (
+                  <div key={value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`new_role_${value}`}
+                      checked={formData.capabilities.includes(value)}
+                      onCheckedChange={(checked: boolean | 'indeterminate') =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          capabilities: checked === true
+                            ? [...prev.capabilities, value]
+                            : prev.capabilities.filter((c: Capability) => c !== value)
+                        }))
+                      }
+                    />
+                    <Label htmlFor={`new_role_${value}`} className="font-normal">
+                      <code className="text-xs">{value}</code> – {label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={isCreating}
+                className="bg-indigo-600 hover:bg-indigo-700"
+              >
+                {isCreating ? 'Creating...' : '🛡️ Create Role'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default RolesManager;
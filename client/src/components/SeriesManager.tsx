@@ -0,0 +1,419 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import type { Series, Post, Media, CreateSeriesInput, UpdateSeriesInput } from '../../../server/src/schema';
+
+interface SeriesFormData extends CreateSeriesInput {
+  post_ids: number[];
+}
+
+const emptyForm: SeriesFormData = {
+  title: '',
+  slug: '',
+  description: null,
+  cover_media_id: null,
+  post_ids: []
+};
+
+function SeriesManager() {
+  const [series, setSeries] = useState<Series[]>([]);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [images, setImages] = useState<Media[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<Series | null>(null);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState<SeriesFormData>(emptyForm);
+
+  const loadSeries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [allSeries, postsResponse, imageMedia] = await Promise.all([
+        trpc.series.list.query(),
+        trpc.posts.list.query({ page: 1, limit: 100, sort_by: 'title', sort_order: 'asc' }),
+        trpc.media.getByType.query({ mimeTypePrefix: 'image/' })
+      ]);
+      setSeries(allSeries);
+      setPosts(postsResponse.posts);
+      setImages(imageMedia);
+    } catch (error) {
+      console.error('Failed to load series:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (editingSeries) {
+        const updateData: UpdateSeriesInput = {
+          id: editingSeries.id,
+          ...formData,
+          slug: formData.slug || undefined
+        };
+        const updatedSeries = await trpc.series.update.mutate(updateData);
+        setSeries((prev: Series[]) =>
+          prev.map((s: Series) => s.id === editingSeries.id ? updatedSeries : s)
+        );
+        setEditingSeries(null);
+      } else {
+        // Left empty, the server generates the slug from the title
+        const newSeries = await trpc.series.create.mutate({ ...formData, slug: formData.slug || undefined });
+        setSeries((prev: Series[]) => [...prev, newSeries]);
+        setIsCreateDialogOpen(false);
+      }
+
+      setFormData(emptyForm);
+    } catch (error) {
+      console.error('Failed to save series:', error);
+      // A post can only be in one series, which the message explains
+      setError(error instanceof Error ? error.message : 'Could not save the series.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (seriesId: number) => {
+    try {
+      await trpc.series.delete.mutate({ id: seriesId });
+      setSeries((prev: Series[]) => prev.filter((s: Series) => s.id !== seriesId));
+    } catch (error) {
+      console.error('Failed to delete series:', error);
+    }
+  };
+
+  const startCreate = () => {
+    setFormData(emptyForm);
+    setError('');
+  };
+
+  const startEdit = async (item: Series) => {
+    setError('');
+    try {
+      const withParts = await trpc.series.getById.query({ id: item.id });
+      setFormData({
+        title: item.title,
+        slug: item.slug,
+        description: item.description,
+        cover_media_id: item.cover_media_id,
+        post_ids: withParts?.parts.map(part => part.id) ?? []
+      });
+      setEditingSeries(item);
+    } catch (error) {
+      console.error('Failed to load series parts:', error);
+    }
+  };
+
+  if (isLoading && series.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading series...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">📚 Series Management</h2>
+          <p className="text-gray-600">Group posts that are meant to be read in order</p>
+        </div>
+        <Dialog
+          open={isCreateDialogOpen}
+          onOpenChange={(open: boolean) => {
+            if (open) startCreate();
+            setIsCreateDialogOpen(open);
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button className="bg-indigo-600 hover:bg-indigo-700">
+              ➕ Create Series
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Create New Series</DialogTitle>
+              <DialogDescription>
+                Pick the posts and put them in reading order
+              </DialogDescription>
+            </DialogHeader>
+            <SeriesForm
+              formData={formData}
+              setFormData={setFormData}
+              onSubmit={handleSubmit}
+              isLoading={isLoading}
+              posts={posts}
+              images={images}
+              error={error}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {series.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="text-6xl mb-4">📚</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No series yet</h3>
+            <p className="text-gray-600">Create a series to link posts as parts of a whole!</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {series.map((item: Series) => (
+            <Card key={item.id} className="hover:shadow-lg transition-shadow border-l-4 border-l-indigo-500">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">{item.title}</CardTitle>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => startEdit(item)}
+                      className="h-8 w-8 p-0"
+                    >
+                      ✏️
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="destructive" className="h-8 w-8 p-0">
+                          🗑️
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Series</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete the series "{item.title}"? Its posts are kept.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDelete(item.id)}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+                <CardDescription className="text-xs">/{item.slug}</CardDescription>
+              </CardHeader>
+              {item.description && (
+                <CardContent className="pt-0">
+                  <p className="text-sm text-gray-600">{item.description}</p>
+                </CardContent>
+              )}
+              <CardContent className="pt-0">
+                <div className="text-xs text-gray-500">
+                  Created: {item.created_at.toLocaleDateString()}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Edit Dialog */}
+      {editingSeries && (
+        <Dialog open={!!editingSeries} onOpenChange={() => setEditingSeries(null)}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Edit Series</DialogTitle>
+              <DialogDescription>
+                Update the series and the order of its parts
+              </DialogDescription>
+            </DialogHeader>
+            <SeriesForm
+              formData={formData}
+              setFormData={setFormData}
+              onSubmit={handleSubmit}
+              isLoading={isLoading}
+              posts={posts}
+              images={images}
+              error={error}
+              isEditing={true}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
+
+interface SeriesFormProps {
+  formData: SeriesFormData;
+  setFormData: (data: SeriesFormData) => void;
+  onSubmit: (e: React.FormEvent) => Promise<void>;
+  isLoading: boolean;
+  posts: Post[];
+  images: Media[];
+  error: string;
+  isEditing?: boolean;
+}
+
+function SeriesForm({ formData, setFormData, onSubmit, isLoading, posts, images, error, isEditing = false }: SeriesFormProps) {
+  const postTitle = (postId: number) => posts.find((post: Post) => post.id === postId)?.title ?? `Post #${postId}`;
+  const available = posts.filter((post: Post) => !formData.post_ids.includes(post.id));
+
+  // Swaps a part with its neighbour; direction is -1 for up and 1 for down
+  const movePart = (index: number, direction: number) => {
+    const postIds = [...formData.post_ids];
+    [postIds[index], postIds[index + direction]] = [postIds[index + direction], postIds[index]];
+    setFormData({ ...formData, post_ids: postIds });
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title *</Label>
+        <Input
+          id="title"
+          value={formData.title}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData({ ...formData, title: e.target.value })
+          }
+          placeholder="Enter series title"
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="slug">URL Slug</Label>
+        <Input
+          id="slug"
+          value={formData.slug ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData({ ...formData, slug: e.target.value })
+          }
+          placeholder={isEditing ? 'Keep the current slug' : 'Generated from the title'}
+        />
+        <p className="text-xs text-gray-500">
+          Used in URLs like: /blog/series/{formData.slug || 'series-title'}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          value={formData.description || ''}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+            setFormData({ ...formData, description: e.target.value || null })
+          }
+          placeholder="What the series covers (optional)"
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Cover Image</Label>
+        <Select
+          value={formData.cover_media_id ? formData.cover_media_id.toString() : 'none'}
+          onValueChange={(value: string) =>
+            setFormData({ ...formData, cover_media_id: value === 'none' ? null : parseInt(value) })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="No cover" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No cover</SelectItem>
+            {images.map((image: Media) => (
+              <SelectItem key={image.id} value={image.id.toString()}>
+                {image.original_filename}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Parts</Label>
+        {formData.post_ids.length === 0 ? (
+          <p className="text-sm text-gray-500">No posts in this series yet.</p>
+        ) : (
+          <ol className="space-y-1">
+            {formData.post_ids.map((postId: number, index: number) => (
+              <li key={postId} className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary">{index + 1}</Badge>
+                <span className="flex-1 truncate">{postTitle(postId)}</span>
+                <Button type="button" size="sm" variant="outline" className="h-7 w-7 p-0" disabled={index === 0} onClick={() => movePart(index, -1)}>
+                  ↑
+                </Button>
+                <Button type="button" size="sm" variant="outline" className="h-7 w-7 p-0" disabled={index === formData.post_ids.length - 1} onClick={() => movePart(index, 1)}>
+                  ↓
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setFormData({ ...formData, post_ids: formData.post_ids.filter((id: number) => id !== postId) })}
+                >
+                  ✕
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+        {available.length > 0 && (
+          // Remounted after each pick so that it shows the placeholder again
+          <Select
+            key={formData.post_ids.length}
+            onValueChange={(value: string) => setFormData({ ...formData, post_ids: [...formData.post_ids, parseInt(value)] })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="➕ Add a post as the next part" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((post: Post) => (
+                <SelectItem key={post.id} value={post.id.toString()}>
+                  {post.title}{post.status !== 'published' ? ` (${post.status})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="submit" disabled={isLoading} className="bg-indigo-600 hover:bg-indigo-700">
+          {isLoading ? (
+            <div className="flex items-center">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              {isEditing ? 'Updating...' : 'Creating...'}
+            </div>
+          ) : (
+            isEditing ? '✅ Update Series' : '🚀 Create Series'
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default SeriesManager;
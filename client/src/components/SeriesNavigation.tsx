@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+import type { SeriesNavigation as Navigation, SeriesPart } from '../../../server/src/schema';
+
+interface SeriesNavigationProps {
+  postId: number;
+  onOpenPart: (part: SeriesPart) => void;
+}
+
+// "Part 2 of 5" with the neighbouring parts and the table of contents; nothing for a post outside a series
+function SeriesNavigation({ postId, onOpenPart }: SeriesNavigationProps) {
+  const [navigation, setNavigation] = useState<Navigation | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setNavigation(null);
+    trpc.posts.getSeriesNavigation.query({ id: postId })
+      .then((result: Navigation | null) => {
+        if (!cancelled) setNavigation(result);
+      })
+      .catch((error: unknown) => console.error('Failed to load series navigation:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  if (!navigation) return null;
+  const { series, current, previous, next, parts, total_parts } = navigation;
+
+  return (
+    <div className="rounded-lg border border-indigo-100 bg-indigo-50 p-4 space-y-3">
+      <div>
+        <p className="text-sm text-indigo-700">📚 Part {current.part} of {total_parts}</p>
+        <h3 className="font-semibold text-gray-900">{series.title}</h3>
+        {series.description && <p className="text-sm text-gray-600">{series.description}</p>}
+      </div>
+
+      <ol className="text-sm space-y-1">
+        {parts.map((part: SeriesPart) => (
+          <li key={part.id}>
+            {part.id === current.id ? (
+              <span className="font-medium text-gray-900">{part.part}. {part.title}</span>
+            ) : (
+              <button type="button" className="text-indigo-600 hover:underline text-left" onClick={() => onOpenPart(part)}>
+                {part.part}. {part.title}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" disabled={!previous} onClick={() => previous && onOpenPart(previous)}>
+          ← {previous ? previous.title : 'Previous'}
+        </Button>
+        <Button type="button" variant="outline" size="sm" disabled={!next} onClick={() => next && onOpenPart(next)}>
+          {next ? next.title : 'Next'} →
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default SeriesNavigation;
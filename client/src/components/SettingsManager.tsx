@@ -9,13 +9,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/utils/trpc';
-import type { SiteSettings, UpdateSiteSettingsInput } from '../../../server/src/schema';
+import type { SiteSettings, UpdateSiteSettingsInput, Role, OidcStatus } from '../../../server/src/schema';
 
 function SettingsManager() {
   const [settings, setSettings] = useState<SiteSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [activeTab, setActiveTab] = useState('general');
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [sso, setSso] = useState<OidcStatus | null>(null);
 
   const [formData, setFormData] = useState<UpdateSiteSettingsInput>({
     site_title: '',
@@ -26,10 +28,15 @@ function SettingsManager() {
     comments_enabled: true,
     comment_moderation: true,
     allow_registration: false,
+    registration_requires_approval: false,
     default_user_role: 'author',
     timezone: 'UTC',
     date_format: 'MM/dd/yyyy',
-    time_format: 'HH:mm'
+    time_format: 'HH:mm',
+    mfa_required_roles: [],
+    password_login_enabled: true,
+    oidc_auto_provision: false,
+    post_revision_limit: 25
   });
 
   const loadSettings = useCallback(async () => {
@@ -47,56 +54,40 @@ function SettingsManager() {
           comments_enabled: data.comments_enabled,
           comment_moderation: data.comment_moderation,
           allow_registration: data.allow_registration,
+          registration_requires_approval: data.registration_requires_approval,
           default_user_role: data.default_user_role,
           timezone: data.timezone,
           date_format: data.date_format,
-          time_format: data.time_format
+          time_format: data.time_format,
+          mfa_required_roles: data.mfa_required_roles,
+          password_login_enabled: data.password_login_enabled,
+          oidc_auto_provision: data.oidc_auto_provision,
+          post_revision_limit: data.post_revision_limit
         });
       }
     } catch (error) {
       console.error('Failed to load settings:', error);
-      // Mock data for demo
-      const mockSettings: SiteSettings = {
-        id: 1,
-        site_title: 'My Awesome Blog',
-        site_description: 'A modern blog built with BlogCMS Pro',
-        site_url: 'https://myblog.com',
-        admin_email: 'admin@myblog.com',
-        posts_per_page: 10,
-        comments_enabled: true,
-        comment_moderation: true,
-        allow_registration: false,
-        default_user_role: 'author' as const,
-        timezone: 'UTC',
-        date_format: 'MM/dd/yyyy',
-        time_format: 'HH:mm',
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      
-      setSettings(mockSettings);
-      setFormData({
-        site_title: mockSettings.site_title,
-        site_description: mockSettings.site_description,
-        site_url: mockSettings.site_url,
-        admin_email: mockSettings.admin_email,
-        posts_per_page: mockSettings.posts_per_page,
-        comments_enabled: mockSettings.comments_enabled,
-        comment_moderation: mockSettings.comment_moderation,
-        allow_registration: mockSettings.allow_registration,
-        default_user_role: mockSettings.default_user_role,
-        timezone: mockSettings.timezone,
-        date_format: mockSettings.date_format,
-        time_format: mockSettings.time_format
-      });
     } finally {
       setIsLoading(false);
     }
   }, []);
 
+  const loadRoles = useCallback(async () => {
+    try {
+      const data = await trpc.roles.list.query();
+      setRoles(data);
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+    }
+  }, []);
+
   useEffect(() => {
     loadSettings();
-  }, [loadSettings]);
+    loadRoles();
+    trpc.auth.oidc.status.query()
+      .then(setSso)
+      .catch((error) => console.error('Failed to load single sign-on status:', error));
+  }, [loadSettings, loadRoles]);
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -238,6 +229,22 @@ function SettingsManager() {
                   </p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="post_revision_limit">Revisions Kept Per Post</Label>
+                  <Input
+                    id="post_revision_limit"
+                    type="number"
+                    min="0"
+                    value={formData.post_revision_limit ?? 25}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setFormData({ ...formData, post_revision_limit: Math.max(parseInt(e.target.value) || 0, 0) })
+                    }
+                  />
+                  <p className="text-sm text-gray-500">
+                    Older revisions are removed when a post is saved; 0 keeps every revision
+                  </p>
+                </div>
+
                 <Separator />
 
                 <div className="space-y-4">
@@ -297,11 +304,26 @@ function SettingsManager() {
                   Let visitors create their own accounts
                 </p>
 
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="registration_requires_approval"
+                    checked={formData.registration_requires_approval}
+                    disabled={!formData.allow_registration}
+                    onCheckedChange={(checked: boolean) =>
+                      setFormData({ ...formData, registration_requires_approval: checked })
+                    }
+                  />
+                  <Label htmlFor="registration_requires_approval">Require Admin Approval</Label>
+                </div>
+                <p className="text-sm text-gray-500 ml-6">
+                  New accounts can only sign in after an administrator approves them
+                </p>
+
                 <div className="space-y-2">
                   <Label htmlFor="default_user_role">Default User Role</Label>
                   <Select
                     value={formData.default_user_role}
-                    onValueChange={(value: 'admin' | 'editor' | 'author') =>
+                    onValueChange={(value: string) =>
                       setFormData({ ...formData, default_user_role: value })
                     }
                   >
@@ -309,17 +331,90 @@ function SettingsManager() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="author">📝 Author - Can create and edit own posts</SelectItem>
-                      <SelectItem value="editor">✏️ Editor - Can edit all posts and manage content</SelectItem>
-                      <SelectItem value="admin">👑 Admin - Full access to everything</SelectItem>
+                      {roles.map((role: Role) => (
+                        <SelectItem key={role.slug} value={role.slug}>
+                          {role.name}{role.description ? ` - ${role.description}` : ''}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <p className="text-sm text-gray-500">
-                    Role assigned to new users when they register
+                    Role assigned to new users when they register (self-registered accounts never become admins)
                   </p>
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Two-Factor Authentication</CardTitle>
+                <CardDescription>
+                  Require an authenticator app code at sign-in. Users without one are asked to set it up on their next login.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {roles.map(({ slug: role, name }: Role) => (
+                  <div key={role} className="flex items-center space-x-2">
+                    <Switch
+                      id={`mfa_required_${role}`}
+                      checked={formData.mfa_required_roles?.includes(role) ?? false}
+                      onCheckedChange={(checked: boolean) =>
+                        setFormData({
+                          ...formData,
+                          mfa_required_roles: checked
+                            ? [...(formData.mfa_required_roles ?? []), role]
+                            : (formData.mfa_required_roles ?? []).filter((r) => r !== role)
+                        })
+                      }
+                    />
+                    <Label htmlFor={`mfa_required_${role}`}>Require for {name}</Label>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Single Sign-On</CardTitle>
+                <CardDescription>
+                  {sso?.enabled
+                    ? `Staff can sign in through ${sso.provider_name}.`
+                    : 'Set OIDC_ISSUER and OIDC_CLIENT_ID on the server to let staff sign in through your identity provider.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="oidc_auto_provision"
+                    checked={formData.oidc_auto_provision}
+                    disabled={!sso?.enabled}
+                    onCheckedChange={(checked: boolean) =>
+                      setFormData({ ...formData, oidc_auto_provision: checked })
+                    }
+                  />
+                  <Label htmlFor="oidc_auto_provision">Create Accounts on First Sign-In</Label>
+                </div>
+                <p className="text-sm text-gray-500 ml-6">
+                  Unknown staff get an account with the default user role instead of being turned away
+                </p>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="password_login_enabled"
+                    checked={formData.password_login_enabled}
+                    // Passwords stay on until there is another way to sign in
+                    disabled={!sso?.enabled && formData.password_login_enabled !== false}
+                    onCheckedChange={(checked: boolean) =>
+                      setFormData({ ...formData, password_login_enabled: checked })
+                    }
+                  />
+                  <Label htmlFor="password_login_enabled">Allow Password Sign-In</Label>
+                </div>
+                <p className="text-sm text-gray-500 ml-6">
+                  Turn off to make everyone sign in through the identity provider
+                </p>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="advanced" className="space-y-6">
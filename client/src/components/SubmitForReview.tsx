@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import type { Post, PostReviewer } from '../../../server/src/schema';
+
+interface SubmitForReviewProps {
+  post: Post;
+  onClose: () => void;
+  onSubmitted: (post: Post) => void;
+}
+
+// Hands a draft over for review, optionally to a specific reviewer
+function SubmitForReview({ post, onClose, onSubmitted }: SubmitForReviewProps) {
+  const [reviewers, setReviewers] = useState<PostReviewer[]>([]);
+  // A post sent back with changes goes to the same reviewer unless another is picked
+  const [reviewerId, setReviewerId] = useState<number | null>(post.reviewer_id);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    trpc.posts.reviewers.query()
+      .then(setReviewers)
+      .catch((error) => console.error('Failed to load reviewers:', error));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const submitted = await trpc.posts.submitForReview.mutate({
+        id: post.id,
+        reviewer_id: reviewerId,
+        notes: notes || null
+      });
+      onSubmitted(submitted);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not submit the post.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>📨 Submit "{post.title}" for review</DialogTitle>
+          <DialogDescription>
+            A reviewer will approve the post or send it back with notes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reviewer">Reviewer</Label>
+            <Select
+              value={reviewerId?.toString() ?? 'anyone'}
+              onValueChange={(value: string) => setReviewerId(value === 'anyone' ? null : parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Anyone" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="anyone">Anyone</SelectItem>
+                {reviewers.map((reviewer: PostReviewer) => (
+                  <SelectItem key={reviewer.id} value={reviewer.id.toString()}>
+                    {reviewer.first_name} {reviewer.last_name} (@{reviewer.username})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review_notes">Notes for the reviewer</Label>
+            <Textarea
+              id="review_notes"
+              value={notes}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value)}
+              placeholder="Anything the reviewer should know"
+              rows={3}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Submitting...' : '📨 Submit for review'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SubmitForReview;
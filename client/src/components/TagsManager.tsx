@@ -89,15 +89,6 @@ function TagsManager() {
     loadTags();
   }, [loadTags]);
 
-  const generateSlug = (name: string) => {
-    return name
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/--+/g, '-')
-      .trim();
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -106,7 +97,8 @@ function TagsManager() {
       if (editingTag) {
         const updateData: UpdateTagInput = {
           id: editingTag.id,
-          ...formData
+          ...formData,
+          slug: formData.slug || undefined
         };
         const updatedTag = await trpc.tags.update.mutate(updateData);
         setTags((prev: Tag[]) => 
@@ -114,7 +106,8 @@ function TagsManager() {
         );
         setEditingTag(null);
       } else {
-        const newTag = await trpc.tags.create.mutate(formData);
+        // Left empty, the server generates the slug from the name
+        const newTag = await trpc.tags.create.mutate({ ...formData, slug: formData.slug || undefined });
         setTags((prev: Tag[]) => [...prev, newTag]);
         setIsCreateDialogOpen(false);
       }
@@ -189,7 +182,6 @@ function TagsManager() {
               setFormData={setFormData}
               onSubmit={handleSubmit}
               isLoading={isLoading}
-              generateSlug={generateSlug}
             />
           </DialogContent>
         </Dialog>
@@ -343,7 +335,6 @@ function TagsManager() {
               setFormData={setFormData}
               onSubmit={handleSubmit}
               isLoading={isLoading}
-              generateSlug={generateSlug}
               isEditing={true}
             />
           </DialogContent>
@@ -358,11 +349,10 @@ interface TagFormProps {
   setFormData: (data: CreateTagInput) => void;
   onSubmit: (e: React.FormEvent) => Promise<void>;
   isLoading: boolean;
-  generateSlug: (name: string) => string;
   isEditing?: boolean;
 }
 
-function TagForm({ formData, setFormData, onSubmit, isLoading, generateSlug, isEditing = false }: TagFormProps) {
+function TagForm({ formData, setFormData, onSubmit, isLoading, isEditing = false }: TagFormProps) {
   return (
     <form onSubmit={onSubmit} className="space-y-4">
       <div className="space-y-2">
@@ -370,14 +360,9 @@ function TagForm({ formData, setFormData, onSubmit, isLoading, generateSlug, isE
         <Input
           id="name"
           value={formData.name}
-          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-            const newName = e.target.value;
-            setFormData({
-              ...formData,
-              name: newName,
-              slug: generateSlug(newName)
-            });
-          }}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData({ ...formData, name: e.target.value })
+          }
           placeholder="Enter tag name"
           required
         />
@@ -387,11 +372,11 @@ function TagForm({ formData, setFormData, onSubmit, isLoading, generateSlug, isE
         <Label htmlFor="slug">URL Slug</Label>
         <Input
           id="slug"
-          value={formData.slug}
+          value={formData.slug ?? ''}
           onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
             setFormData({ ...formData, slug: e.target.value })
           }
-          placeholder="url-friendly-slug"
+          placeholder={isEditing ? 'Keep the current slug' : 'Generated from the name'}
         />
         <p className="text-xs text-gray-500">
           Used in URLs like: /blog/tags/{formData.slug || 'tag-name'}
@@ -5,22 +5,45 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { trpc } from '@/utils/trpc';
 import { useAuth } from '@/App';
-import type { User, CreateUserInput, UpdateUserInput } from '../../../server/src/schema';
+import type { PublicUser, Role, CreateUserInput, UpdateUserInput, LoginAttempt, Invitation, InviteUserInput, DeleteUserResult } from '../../../server/src/schema';
+
+const isLocked = (user: PublicUser) => !!user.locked_until && user.locked_until > new Date();
+
+const describeFailure = (reason: string | null) => {
+  switch (reason) {
+    case 'invalid_password': return 'Wrong password';
+    case 'invalid_mfa_code': return 'Wrong authentication code';
+    case 'account_locked': return 'Account locked';
+    case 'ip_throttled': return 'Address throttled';
+    default: return 'Failed';
+  }
+};
 
 function UsersManager() {
-  const { user: currentUser } = useAuth();
-  const [users, setUsers] = useState<User[]>([]);
+  const { user: currentUser, impersonate } = useAuth();
+  const [users, setUsers] = useState<PublicUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [filter, setFilter] = useState<'all' | 'admin' | 'editor' | 'author'>('all');
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [filter, setFilter] = useState<string>('all');
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [historyUser, setHistoryUser] = useState<PublicUser | null>(null);
+  const [loginHistory, setLoginHistory] = useState<LoginAttempt[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
+  const [inviteData, setInviteData] = useState<InviteUserInput>({ email: '', role: 'author' });
+  const [inviteError, setInviteError] = useState('');
+  const [deletingUser, setDeletingUser] = useState<PublicUser | null>(null);
+  const [deleteImpact, setDeleteImpact] = useState<DeleteUserResult | null>(null);
+  const [deleteMode, setDeleteMode] = useState<'reassign' | 'deactivate'>('reassign');
+  const [reassignTo, setReassignTo] = useState('');
+  const [deleteError, setDeleteError] = useState('');
 
   const [formData, setFormData] = useState<CreateUserInput>({
     email: '',
@@ -40,59 +63,76 @@ function UsersManager() {
       setUsers(data);
     } catch (error) {
       console.error('Failed to load users:', error);
-      // Mock data for demo
-      setUsers([
-        {
-          id: 1,
-          email: 'admin@blogcms.com',
-          username: 'admin',
-          password_hash: 'hashed',
-          first_name: 'Admin',
-          last_name: 'User',
-          role: 'admin' as const,
-          bio: 'Blog administrator with full access',
-          avatar_url: null,
-          is_active: true,
-          created_at: new Date(),
-          updated_at: new Date()
-        },
-        {
-          id: 2,
-          email: 'editor@example.com',
-          username: 'editor',
-          password_hash: 'hashed',
-          first_name: 'Jane',
-          last_name: 'Editor',
-          role: 'editor' as const,
-          bio: 'Content editor and reviewer',
-          avatar_url: null,
-          is_active: true,
-          created_at: new Date(),
-          updated_at: new Date()
-        },
-        {
-          id: 3,
-          email: 'author@example.com',
-          username: 'author',
-          password_hash: 'hashed',
-          first_name: 'John',
-          last_name: 'Writer',
-          role: 'author' as const,
-          bio: 'Passionate writer and blogger',
-          avatar_url: null,
-          is_active: true,
-          created_at: new Date(),
-          updated_at: new Date()
-        }
-      ]);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
+  const loadInvitations = useCallback(async () => {
+    try {
+      const data = await trpc.users.listInvites.query();
+      setInvitations(data);
+    } catch (error) {
+      console.error('Failed to load invitations:', error);
+    }
+  }, []);
+
+  const loadRoles = useCallback(async () => {
+    try {
+      const data = await trpc.roles.list.query();
+      setRoles(data);
+    } catch (error) {
+      console.error('Failed to load roles:', error);
+    }
+  }, []);
+
   useEffect(() => {
     loadUsers();
-  }, [loadUsers]);
+    loadInvitations();
+    loadRoles();
+  }, [loadUsers, loadInvitations, loadRoles]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError('');
+
+    try {
+      const invitation = await trpc.users.invite.mutate(inviteData);
+      // A repeated invite replaces the earlier one for the same address
+      setInvitations((prev: Invitation[]) => [
+        invitation,
+        ...prev.filter((existing: Invitation) => existing.email !== invitation.email)
+      ]);
+      setInviteData({ email: '', role: 'author' });
+      setIsInviteDialogOpen(false);
+    } catch (error) {
+      setInviteError(error instanceof Error ? error.message : 'Could not send the invitation.');
+    }
+  };
+
+  // Mirrors the server: roles that can manage users or settings cannot be viewed as
+  const canImpersonate = (user: PublicUser) => {
+    const role = roles.find((candidate: Role) => candidate.slug === user.role);
+    return currentUser?.id !== user.id && user.is_active && !!role &&
+      !role.capabilities.some((capability) => capability === 'users.manage' || capability === 'settings.manage');
+  };
+
+  const handleImpersonate = async (userId: number) => {
+    try {
+      await impersonate(userId);
+    } catch (error) {
+      console.error('Failed to impersonate user:', error);
+    }
+  };
+
+  const handleRevokeInvite = async (invitationId: number) => {
+    try {
+      await trpc.users.revokeInvite.mutate({ id: invitationId });
+      setInvitations((prev: Invitation[]) => prev.filter((invitation: Invitation) => invitation.id !== invitationId));
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -111,13 +151,13 @@ function UsersManager() {
           avatar_url: formData.avatar_url
         };
         const updatedUser = await trpc.users.update.mutate(updateData);
-        setUsers((prev: User[]) => 
-          prev.map((user: User) => user.id === editingUser.id ? updatedUser : user)
+        setUsers((prev: PublicUser[]) => 
+          prev.map((user: PublicUser) => user.id === editingUser.id ? updatedUser : user)
         );
         setEditingUser(null);
       } else {
         const newUser = await trpc.users.create.mutate(formData);
-        setUsers((prev: User[]) => [...prev, newUser]);
+        setUsers((prev: PublicUser[]) => [...prev, newUser]);
         setIsCreateDialogOpen(false);
       }
 
@@ -139,16 +179,79 @@ function UsersManager() {
     }
   };
 
-  const handleDelete = async (userId: number) => {
+  // A dry run first, so the admin sees what the user still owns before choosing what happens to it
+  const openDelete = async (user: PublicUser) => {
+    setDeletingUser(user);
+    setDeleteImpact(null);
+    setDeleteMode('reassign');
+    setReassignTo(currentUser && currentUser.id !== user.id ? currentUser.id.toString() : '');
+    setDeleteError('');
+    try {
+      const impact = await trpc.users.delete.mutate({ id: user.id, dry_run: true });
+      setDeleteImpact(impact);
+    } catch (error) {
+      console.error('Failed to check user content:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingUser) return;
+    setDeleteError('');
+
+    try {
+      const ownsContent = !!deleteImpact && (deleteImpact.posts > 0 || deleteImpact.media > 0);
+      await trpc.users.delete.mutate({
+        id: deletingUser.id,
+        deactivate: deleteMode === 'deactivate' ? true : undefined,
+        reassign_to: deleteMode === 'reassign' && ownsContent ? parseInt(reassignTo) : undefined
+      });
+      if (deleteMode === 'deactivate') {
+        setUsers((prev: PublicUser[]) =>
+          prev.map((user: PublicUser) => user.id === deletingUser.id ? { ...user, is_active: false } : user)
+        );
+      } else {
+        setUsers((prev: PublicUser[]) => prev.filter((user: PublicUser) => user.id !== deletingUser.id));
+      }
+      setDeletingUser(null);
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Could not delete the user.');
+    }
+  };
+
+  const handleApprove = async (userId: number) => {
+    try {
+      const approvedUser = await trpc.users.approve.mutate({ id: userId });
+      setUsers((prev: PublicUser[]) =>
+        prev.map((user: PublicUser) => user.id === userId ? approvedUser : user)
+      );
+    } catch (error) {
+      console.error('Failed to approve user:', error);
+    }
+  };
+
+  const handleUnlock = async (userId: number) => {
     try {
-      await trpc.users.delete.mutate({ id: userId });
-      setUsers((prev: User[]) => prev.filter((user: User) => user.id !== userId));
+      const unlockedUser = await trpc.users.unlock.mutate({ id: userId });
+      setUsers((prev: PublicUser[]) =>
+        prev.map((user: PublicUser) => user.id === userId ? unlockedUser : user)
+      );
     } catch (error) {
-      console.error('Failed to delete user:', error);
+      console.error('Failed to unlock user:', error);
     }
   };
 
-  const startEdit = (user: User) => {
+  const openLoginHistory = async (user: PublicUser) => {
+    setHistoryUser(user);
+    setLoginHistory([]);
+    try {
+      const attempts = await trpc.users.loginHistory.query({ user_id: user.id, limit: 20 });
+      setLoginHistory(attempts);
+    } catch (error) {
+      console.error('Failed to load login history:', error);
+    }
+  };
+
+  const startEdit = (user: PublicUser) => {
     setEditingUser(user);
     setFormData({
       email: user.email,
@@ -180,7 +283,7 @@ function UsersManager() {
     }
   };
 
-  const filteredUsers = users.filter((user: User) => {
+  const filteredUsers = users.filter((user: PublicUser) => {
     if (filter === 'all') return true;
     return user.role === filter;
   });
@@ -201,32 +304,122 @@ function UsersManager() {
           <h2 className="text-2xl font-bold text-gray-900">👥 User Management</h2>
           <p className="text-gray-600">Manage blog authors, editors, and administrators</p>
         </div>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-indigo-600 hover:bg-indigo-700">
-              ➕ Add User
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Create New User</DialogTitle>
-              <DialogDescription>
-                Add a new user to your blog team
-              </DialogDescription>
-            </DialogHeader>
-            <UserForm
-              formData={formData}
-              setFormData={setFormData}
-              onSubmit={handleSubmit}
-              isLoading={isLoading}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex space-x-2">
+          <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                ✉️ Invite User
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Invite User</DialogTitle>
+                <DialogDescription>
+                  Send an email invitation. The invitee chooses their own username and password.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleInvite} className="space-y-4">
+                {inviteError && (
+                  <p className="text-sm text-red-600">{inviteError}</p>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="invite_email">Email *</Label>
+                  <Input
+                    id="invite_email"
+                    type="email"
+                    value={inviteData.email}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setInviteData({ ...inviteData, email: e.target.value })
+                    }
+                    placeholder="colleague@example.com"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite_role">Role *</Label>
+                  <Select
+                    value={inviteData.role || undefined}
+                    onValueChange={(value: string) =>
+                      setInviteData({ ...inviteData, role: value })
+                    }
+                  >
+                    <SelectTrigger id="invite_role">
+                      <SelectValue placeholder="Select role" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((role: Role) => (
+                        <SelectItem key={role.slug} value={role.slug}>
+                          {getRoleIcon(role.slug)} {role.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" className="bg-indigo-600 hover:bg-indigo-700">
+                    Send Invitation
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-indigo-600 hover:bg-indigo-700">
+                ➕ Add User
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Create New User</DialogTitle>
+                <DialogDescription>
+                  Add a new user to your blog team
+                </DialogDescription>
+              </DialogHeader>
+              <UserForm
+                roles={roles}
+                formData={formData}
+                setFormData={setFormData}
+                onSubmit={handleSubmit}
+                isLoading={isLoading}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      {/* Pending Invitations */}
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pending Invitations</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {invitations.map((invitation: Invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between py-2">
+                <div className="text-sm">
+                  <span className="font-medium">{invitation.email}</span>{' '}
+                  <Badge variant={getRoleBadgeVariant(invitation.role)}>
+                    {getRoleIcon(invitation.role)} {invitation.role}
+                  </Badge>
+                  <p className="text-gray-500">
+                    {invitation.expires_at > new Date()
+                      ? `Expires ${invitation.expires_at.toLocaleDateString()}`
+                      : 'Expired'}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleRevokeInvite(invitation.id)}>
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filter Tabs */}
       <div className="flex space-x-2">
-        {(['all', 'admin', 'editor', 'author'] as const).map((role) => (
+        {['all', ...roles.map((role: Role) => role.slug)].map((role: string) => (
           <Button
             key={role}
             variant={filter === role ? 'default' : 'outline'}
@@ -260,7 +453,7 @@ function UsersManager() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredUsers.map((user: User) => (
+          {filteredUsers.map((user: PublicUser) => (
             <Card key={user.id} className={`hover:shadow-lg transition-shadow ${
               currentUser?.id === user.id ? 'ring-2 ring-indigo-500 ring-opacity-50' : ''
             }`}>
@@ -284,6 +477,12 @@ function UsersManager() {
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {!user.approved_at && (
+                      <Badge variant="secondary">⏳ Awaiting approval</Badge>
+                    )}
+                    {isLocked(user) && (
+                      <Badge variant="destructive">🔒 Locked</Badge>
+                    )}
                     <Badge variant={getRoleBadgeVariant(user.role)}>
                       {getRoleIcon(user.role)} {user.role}
                     </Badge>
@@ -296,6 +495,15 @@ function UsersManager() {
                   <div className="text-sm text-gray-600">
                     <p><strong>Email:</strong> {user.email}</p>
                     <p><strong>Joined:</strong> {user.created_at.toLocaleDateString()}</p>
+                    <p>
+                      <strong>Last login:</strong>{' '}
+                      {user.last_login_at ? user.last_login_at.toLocaleString() : 'Never'}
+                    </p>
+                    {user.failed_login_count > 0 && (
+                      <p className="text-orange-600">
+                        <strong>Failed attempts:</strong> {user.failed_login_count} since last login
+                      </p>
+                    )}
                   </div>
                   
                   {user.bio && (
@@ -303,6 +511,24 @@ function UsersManager() {
                   )}
                   
                   <div className="flex justify-end space-x-2">
+                    {!user.approved_at && (
+                      <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => handleApprove(user.id)}>
+                        ✅ Approve
+                      </Button>
+                    )}
+                    {isLocked(user) && (
+                      <Button size="sm" variant="outline" onClick={() => handleUnlock(user.id)}>
+                        🔓 Unlock
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => openLoginHistory(user)}>
+                      🕘 Logins
+                    </Button>
+                    {canImpersonate(user) && (
+                      <Button size="sm" variant="outline" onClick={() => handleImpersonate(user.id)}>
+                        👀 View as
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant="outline"
@@ -311,31 +537,9 @@ function UsersManager() {
                       ✏️ Edit
                     </Button>
                     {currentUser?.id !== user.id && (
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button size="sm" variant="destructive">
-                            🗑️ Delete
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete User</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Are you sure you want to delete {user.first_name} {user.last_name}? 
-                              This will also affect their posts and comments.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => handleDelete(user.id)}
-                              className="bg-red-600 hover:bg-red-700"
-                            >
-                              Delete
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
+                      <Button size="sm" variant="destructive" onClick={() => openDelete(user)}>
+                        🗑️ Delete
+                      </Button>
                     )}
                   </div>
                 </div>
@@ -345,6 +549,114 @@ function UsersManager() {
         </div>
       )}
 
+      {/* Login History Dialog */}
+      {historyUser && (
+        <Dialog open={!!historyUser} onOpenChange={() => setHistoryUser(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Login History</DialogTitle>
+              <DialogDescription>
+                Recent sign-in attempts for {historyUser.first_name} {historyUser.last_name}
+              </DialogDescription>
+            </DialogHeader>
+            {loginHistory.length === 0 ? (
+              <p className="text-sm text-gray-600 py-4 text-center">No sign-in attempts recorded.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto divide-y">
+                {loginHistory.map((attempt: LoginAttempt) => (
+                  <div key={attempt.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                      <p className="font-medium">{attempt.created_at.toLocaleString()}</p>
+                      <p className="text-gray-500">
+                        {attempt.ip || 'Unknown address'}
+                        {attempt.user_agent && ` · ${attempt.user_agent}`}
+                      </p>
+                    </div>
+                    {attempt.success ? (
+                      <Badge variant="secondary">✅ Success</Badge>
+                    ) : (
+                      <Badge variant="destructive">{describeFailure(attempt.failure_reason)}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Delete Dialog */}
+      {deletingUser && (
+        <Dialog open={!!deletingUser} onOpenChange={() => setDeletingUser(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Delete User</DialogTitle>
+              <DialogDescription>
+                Decide what happens to the content of {deletingUser.first_name} {deletingUser.last_name}.
+              </DialogDescription>
+            </DialogHeader>
+            {!deleteImpact ? (
+              <p className="text-center text-gray-600">Checking content...</p>
+            ) : (
+              <div className="space-y-4">
+                {deleteError && (
+                  <p className="text-sm text-red-600">{deleteError}</p>
+                )}
+                <p className="text-sm text-gray-600">
+                  Owns {deleteImpact.posts} posts ({deleteImpact.comments} comments) and {deleteImpact.media} media files.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="delete_mode">Action</Label>
+                  <Select
+                    value={deleteMode}
+                    onValueChange={(value: 'reassign' | 'deactivate') => setDeleteMode(value)}
+                  >
+                    <SelectTrigger id="delete_mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="reassign">Delete the account</SelectItem>
+                      <SelectItem value="deactivate">Deactivate and keep everything</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {deleteMode === 'reassign' && (deleteImpact.posts > 0 || deleteImpact.media > 0) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="reassign_to">Give their posts and media to</Label>
+                    <Select value={reassignTo} onValueChange={setReassignTo}>
+                      <SelectTrigger id="reassign_to">
+                        <SelectValue placeholder="Choose a user" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {users
+                          .filter((user: PublicUser) => user.id !== deletingUser.id && user.is_active)
+                          .map((user: PublicUser) => (
+                            <SelectItem key={user.id} value={user.id.toString()}>
+                              {user.first_name} {user.last_name} (@{user.username})
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setDeletingUser(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleDelete}
+                    disabled={deleteMode === 'reassign' && (deleteImpact.posts > 0 || deleteImpact.media > 0) && !reassignTo}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    {deleteMode === 'deactivate' ? 'Deactivate' : 'Delete'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Edit Dialog */}
       {editingUser && (
         <Dialog open={!!editingUser} onOpenChange={() => setEditingUser(null)}>
@@ -356,6 +668,7 @@ function UsersManager() {
               </DialogDescription>
             </DialogHeader>
             <UserForm
+              roles={roles}
               formData={formData}
               setFormData={setFormData}
               onSubmit={handleSubmit}
@@ -370,6 +683,7 @@ function UsersManager() {
 }
 
 interface UserFormProps {
+  roles: Role[];
   formData: CreateUserInput;
   setFormData: (data: CreateUserInput) => void;
   onSubmit: (e: React.FormEvent) => Promise<void>;
@@ -377,7 +691,7 @@ interface UserFormProps {
   isEditing?: boolean;
 }
 
-function UserForm({ formData, setFormData, onSubmit, isLoading, isEditing = false }: UserFormProps) {
+function UserForm({ roles, formData, setFormData, onSubmit, isLoading, isEditing = false }: UserFormProps) {
   return (
     <form onSubmit={onSubmit} className="space-y-4">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -459,7 +773,7 @@ function UserForm({ formData, setFormData, onSubmit, isLoading, isEditing = fals
           <Label htmlFor="role">Role *</Label>
           <Select 
             value={formData.role} 
-            onValueChange={(value: 'admin' | 'editor' | 'author') =>
+            onValueChange={(value: string) =>
               setFormData({ ...formData, role: value })
             }
           >
@@ -467,9 +781,11 @@ function UserForm({ formData, setFormData, onSubmit, isLoading, isEditing = fals
               <SelectValue placeholder="Select role" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="author">📝 Author - Can create and edit own posts</SelectItem>
-              <SelectItem value="editor">✏️ Editor - Can edit all posts and manage content</SelectItem>
-              <SelectItem value="admin">👑 Admin - Full access to everything</SelectItem>
+              {roles.map((role: Role) => (
+                <SelectItem key={role.slug} value={role.slug}>
+                  {role.name}{role.description ? ` - ${role.description}` : ''}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -4,7 +4,15 @@ import superjson from 'superjson';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      // Send the stored session token so the server can resolve the current user
+      headers: () => {
+        const token = localStorage.getItem('auth_token');
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      }
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
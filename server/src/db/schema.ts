@@ -7,14 +7,52 @@ import {
   integer,
   pgEnum,
   varchar,
-  primaryKey
+  jsonb,
+  primaryKey,
+  unique
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enums
-export const userRoleEnum = pgEnum('user_role', ['admin', 'editor', 'author']);
-export const postStatusEnum = pgEnum('post_status', ['draft', 'published', 'archived']);
+export const postStatusEnum = pgEnum('post_status', ['draft', 'pending_review', 'scheduled', 'published', 'archived']);
 export const commentStatusEnum = pgEnum('comment_status', ['pending', 'approved', 'spam', 'rejected']);
+export const userTokenPurposeEnum = pgEnum('user_token_purpose', ['password_reset', 'email_verification']);
+export const apiTokenScopeEnum = pgEnum('api_token_scope', [
+  'posts:read',
+  'posts:write',
+  'media:read',
+  'media:write',
+  'comments:moderate',
+  'taxonomy:write'
+]);
+export const capabilityEnum = pgEnum('capability', [
+  'post.create',
+  'post.publish',
+  'post.edit_others',
+  'post.edit_meta',
+  'media.upload',
+  'media.edit_others',
+  'comment.moderate',
+  'taxonomy.manage',
+  'search.manage',
+  'users.manage',
+  'settings.manage'
+]);
+export const redirectEntityEnum = pgEnum('redirect_entity', ['post', 'category', 'tag', 'series']);
+export const contentFormatEnum = pgEnum('content_format', ['markdown', 'blocks']);
+
+// Roles table - named sets of capabilities; users reference a role by its slug
+export const rolesTable = pgTable('roles', {
+  id: serial('id').primaryKey(),
+  slug: varchar('slug', { length: 50 }).notNull().unique(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  capabilities: capabilityEnum('capabilities').array().notNull().default([]),
+  // Built-in roles (admin, editor, author) can be edited but not deleted
+  is_system: boolean('is_system').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -24,10 +62,22 @@ export const usersTable = pgTable('users', {
   password_hash: text('password_hash').notNull(),
   first_name: varchar('first_name', { length: 100 }).notNull(),
   last_name: varchar('last_name', { length: 100 }).notNull(),
-  role: userRoleEnum('role').notNull().default('author'),
+  role: varchar('role', { length: 50 }).notNull().default('author'),
   bio: text('bio'),
   avatar_url: text('avatar_url'),
   is_active: boolean('is_active').notNull().default(true),
+  // Defaults to now so accounts that predate verification are not locked out; new users start as null
+  email_verified_at: timestamp('email_verified_at').defaultNow(),
+  // Null while a self-registered account waits for an admin; existing accounts count as approved
+  approved_at: timestamp('approved_at').defaultNow(),
+  // TOTP secret is written on setup and only trusted once totp_enabled is set
+  totp_secret: varchar('totp_secret', { length: 64 }),
+  totp_enabled: boolean('totp_enabled').notNull().default(false),
+  totp_last_used_step: integer('totp_last_used_step'),
+  // Consecutive failed sign-ins since the last success; drives the lockout backoff
+  failed_login_count: integer('failed_login_count').notNull().default(0),
+  locked_until: timestamp('locked_until'),
+  last_login_at: timestamp('last_login_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -76,7 +126,15 @@ export const postsTable = pgTable('posts', {
   title: varchar('title', { length: 200 }).notNull(),
   slug: varchar('slug', { length: 200 }).notNull().unique(),
   excerpt: text('excerpt'),
+  // Markdown, or the JSON block tree when content_format is 'blocks'
   content: text('content').notNull(),
+  content_format: contentFormatEnum('content_format').notNull().default('markdown'),
+  // Plain text of the content for search, and its length in words; both set whenever the content is saved
+  content_text: text('content_text'),
+  word_count: integer('word_count'),
+  // HTML of the content, rendered whenever the content is saved. Cleared when a post or media item it
+  // embeds changes; reads then render it on the fly until the post is saved again.
+  rendered_html: text('rendered_html'),
   status: postStatusEnum('status').notNull().default('draft'),
   featured_image_id: integer('featured_image_id'),
   author_id: integer('author_id').notNull(),
@@ -84,6 +142,9 @@ export const postsTable = pgTable('posts', {
   meta_title: varchar('meta_title', { length: 200 }),
   meta_description: text('meta_description'),
   canonical_url: text('canonical_url'),
+  // Who is asked to review the post, and the latest note exchanged between them and the author
+  reviewer_id: integer('reviewer_id'),
+  review_notes: text('review_notes'),
   published_at: timestamp('published_at'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
@@ -98,6 +159,57 @@ export const postTagsTable = pgTable('post_tags', {
   pk: primaryKey({ columns: [table.post_id, table.tag_id] })
 }));
 
+// Series - posts meant to be read in order, such as a tutorial in several parts
+export const seriesTable = pgTable('series', {
+  id: serial('id').primaryKey(),
+  title: varchar('title', { length: 200 }).notNull(),
+  slug: varchar('slug', { length: 200 }).notNull().unique(),
+  description: text('description'),
+  cover_media_id: integer('cover_media_id'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Series membership - a post is part of at most one series, ordered by position
+export const seriesPostsTable = pgTable('series_posts', {
+  series_id: integer('series_id').notNull(),
+  post_id: integer('post_id').notNull().unique(),
+  position: integer('position').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  pk: primaryKey({ columns: [table.series_id, table.post_id] }),
+  position: unique().on(table.series_id, table.position)
+}));
+
+// Post revisions - a snapshot of the editable content after every save, kept up to post_revision_limit per post
+export const postRevisionsTable = pgTable('post_revisions', {
+  id: serial('id').primaryKey(),
+  post_id: integer('post_id').notNull(),
+  title: varchar('title', { length: 200 }).notNull(),
+  excerpt: text('excerpt'),
+  content: text('content').notNull(),
+  content_format: contentFormatEnum('content_format').notNull().default('markdown'),
+  meta_title: varchar('meta_title', { length: 200 }),
+  meta_description: text('meta_description'),
+  canonical_url: text('canonical_url'),
+  tag_ids: integer('tag_ids').array().notNull().default([]),
+  author_id: integer('author_id').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Redirects - slugs that posts, categories and tags were reachable under before being renamed.
+// They point at the entity rather than its new slug, so renaming again never builds a chain.
+export const redirectsTable = pgTable('redirects', {
+  id: serial('id').primaryKey(),
+  entity_type: redirectEntityEnum('entity_type').notNull(),
+  entity_id: integer('entity_id').notNull(),
+  old_slug: varchar('old_slug', { length: 200 }).notNull(),
+  status_code: integer('status_code').notNull().default(301),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  oldSlug: unique().on(table.entity_type, table.old_slug)
+}));
+
 // Comments table
 export const commentsTable = pgTable('comments', {
   id: serial('id').primaryKey(),
@@ -123,18 +235,157 @@ export const siteSettingsTable = pgTable('site_settings', {
   comments_enabled: boolean('comments_enabled').notNull().default(true),
   comment_moderation: boolean('comment_moderation').notNull().default(true),
   allow_registration: boolean('allow_registration').notNull().default(false),
-  default_user_role: userRoleEnum('default_user_role').notNull().default('author'),
+  registration_requires_approval: boolean('registration_requires_approval').notNull().default(false),
+  default_user_role: varchar('default_user_role', { length: 50 }).notNull().default('author'),
   timezone: varchar('timezone', { length: 50 }).notNull().default('UTC'),
   date_format: varchar('date_format', { length: 50 }).notNull().default('YYYY-MM-DD'),
   time_format: varchar('time_format', { length: 50 }).notNull().default('HH:mm:ss'),
+  mfa_required_roles: varchar('mfa_required_roles', { length: 50 }).array().notNull().default([]),
+  // Admins can turn off email and password sign-in once everyone signs in through OIDC
+  password_login_enabled: boolean('password_login_enabled').notNull().default(true),
+  // Create accounts on first OIDC sign-in instead of requiring an existing user with the same email
+  oidc_auto_provision: boolean('oidc_auto_provision').notNull().default(false),
+  // Revisions kept per post; older ones are pruned on save, and 0 keeps them all
+  post_revision_limit: integer('post_revision_limit').notNull().default(25),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Refresh tokens table - only hashes are stored; rotated tokens share a family_id
+export const refreshTokensTable = pgTable('refresh_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  family_id: varchar('family_id', { length: 36 }).notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  replaced_by_id: integer('replaced_by_id'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Every sign-in attempt, successful or not; user_id is null when the email matched no account
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id'),
+  email: varchar('email', { length: 255 }).notNull(),
+  ip: varchar('ip', { length: 45 }),
+  user_agent: text('user_agent'),
+  success: boolean('success').notNull(),
+  failure_reason: varchar('failure_reason', { length: 50 }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Personal API tokens for scripts - only hashes are stored; the prefix identifies a token in listings
+export const apiTokensTable = pgTable('api_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  token_prefix: varchar('token_prefix', { length: 16 }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  scopes: apiTokenScopeEnum('scopes').array().notNull(),
+  expires_at: timestamp('expires_at'),
+  last_used_at: timestamp('last_used_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Sign-in sessions - one per refresh token family, so rotation keeps the same session
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  family_id: varchar('family_id', { length: 36 }).notNull().unique(),
+  user_agent: text('user_agent'),
+  ip: varchar('ip', { length: 45 }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at')
+});
+
+// Single-use tokens emailed to users (password reset, email verification) - only hashes are stored
+export const userTokensTable = pgTable('user_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  purpose: userTokenPurposeEnum('purpose').notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Pending invitations - the emailed token creates the account when accepted; only hashes are stored
+export const invitationsTable = pgTable('invitations', {
+  id: serial('id').primaryKey(),
+  email: varchar('email', { length: 255 }).notNull(),
+  role: varchar('role', { length: 50 }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  invited_by: integer('invited_by').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  accepted_at: timestamp('accepted_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// One-time recovery codes for users with two-factor authentication - only hashes are stored
+export const mfaRecoveryCodesTable = pgTable('mfa_recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  code_hash: varchar('code_hash', { length: 64 }).notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Mail outbox table - messages captured by the outbox mail transport in dev and tests
+export const mailOutboxTable = pgTable('mail_outbox', {
+  id: serial('id').primaryKey(),
+  to_address: varchar('to_address', { length: 255 }).notNull(),
+  subject: varchar('subject', { length: 255 }).notNull(),
+  text_body: text('text_body').notNull(),
+  html_body: text('html_body'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// OIDC sign-in requests waiting for the identity provider to redirect back - keyed by a hash of the state parameter
+export const oidcLoginStatesTable = pgTable('oidc_login_states', {
+  id: serial('id').primaryKey(),
+  state_hash: varchar('state_hash', { length: 64 }).notNull().unique(),
+  nonce: varchar('nonce', { length: 64 }).notNull(),
+  code_verifier: varchar('code_verifier', { length: 128 }).notNull(),
+  redirect_uri: text('redirect_uri').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Audit log - one row per successful tRPC mutation, written by the audit middleware rather than the handlers.
+// before/after only hold the fields that changed; actor_id is null for anonymous calls such as sign-in.
+// While an admin impersonates someone, actor_id is the impersonated user and impersonator_id the admin
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  actor_id: integer('actor_id'),
+  impersonator_id: integer('impersonator_id'),
+  action: varchar('action', { length: 100 }).notNull(),
+  entity_type: varchar('entity_type', { length: 50 }),
+  entity_id: integer('entity_id'),
+  before: jsonb('before').$type<Record<string, unknown>>(),
+  after: jsonb('after').$type<Record<string, unknown>>(),
+  ip: varchar('ip', { length: 45 }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
-  posts: many(postsTable),
-  media: many(mediaTable)
+  posts: many(postsTable, { relationName: 'postAuthor' }),
+  reviewedPosts: many(postsTable, { relationName: 'postReviewer' }),
+  media: many(mediaTable),
+  refreshTokens: many(refreshTokensTable),
+  sessions: many(sessionsTable),
+  loginAttempts: many(loginAttemptsTable),
+  apiTokens: many(apiTokensTable),
+  userTokens: many(userTokensTable),
+  invitations: many(invitationsTable),
+  mfaRecoveryCodes: many(mfaRecoveryCodesTable),
+  auditLog: many(auditLogTable, { relationName: 'auditActor' }),
+  postRevisions: many(postRevisionsTable)
 }));
 
 export const categoriesRelations = relations(categoriesTable, ({ one, many }) => ({
@@ -155,13 +406,15 @@ export const mediaRelations = relations(mediaTable, ({ one, many }) => ({
     fields: [mediaTable.uploaded_by],
     references: [usersTable.id]
   }),
-  featuredPosts: many(postsTable)
+  featuredPosts: many(postsTable),
+  seriesCovers: many(seriesTable)
 }));
 
 export const postsRelations = relations(postsTable, ({ one, many }) => ({
   author: one(usersTable, {
     fields: [postsTable.author_id],
-    references: [usersTable.id]
+    references: [usersTable.id],
+    relationName: 'postAuthor'
   }),
   category: one(categoriesTable, {
     fields: [postsTable.category_id],
@@ -171,8 +424,15 @@ export const postsRelations = relations(postsTable, ({ one, many }) => ({
     fields: [postsTable.featured_image_id],
     references: [mediaTable.id]
   }),
+  reviewer: one(usersTable, {
+    fields: [postsTable.reviewer_id],
+    references: [usersTable.id],
+    relationName: 'postReviewer'
+  }),
   postTags: many(postTagsTable),
-  comments: many(commentsTable)
+  comments: many(commentsTable),
+  revisions: many(postRevisionsTable),
+  seriesPosts: many(seriesPostsTable)
 }));
 
 export const postTagsRelations = relations(postTagsTable, ({ one }) => ({
@@ -186,6 +446,36 @@ export const postTagsRelations = relations(postTagsTable, ({ one }) => ({
   })
 }));
 
+export const seriesRelations = relations(seriesTable, ({ one, many }) => ({
+  coverMedia: one(mediaTable, {
+    fields: [seriesTable.cover_media_id],
+    references: [mediaTable.id]
+  }),
+  seriesPosts: many(seriesPostsTable)
+}));
+
+export const seriesPostsRelations = relations(seriesPostsTable, ({ one }) => ({
+  series: one(seriesTable, {
+    fields: [seriesPostsTable.series_id],
+    references: [seriesTable.id]
+  }),
+  post: one(postsTable, {
+    fields: [seriesPostsTable.post_id],
+    references: [postsTable.id]
+  })
+}));
+
+export const postRevisionsRelations = relations(postRevisionsTable, ({ one }) => ({
+  post: one(postsTable, {
+    fields: [postRevisionsTable.post_id],
+    references: [postsTable.id]
+  }),
+  author: one(usersTable, {
+    fields: [postRevisionsTable.author_id],
+    references: [usersTable.id]
+  })
+}));
+
 export const commentsRelations = relations(commentsTable, ({ one, many }) => ({
   post: one(postsTable, {
     fields: [commentsTable.post_id],
@@ -198,10 +488,75 @@ export const commentsRelations = relations(commentsTable, ({ one, many }) => ({
   replies: many(commentsTable)
 }));
 
+export const refreshTokensRelations = relations(refreshTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [refreshTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const loginAttemptsRelations = relations(loginAttemptsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [loginAttemptsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const apiTokensRelations = relations(apiTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [apiTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const userTokensRelations = relations(userTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [userTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const invitationsRelations = relations(invitationsTable, ({ one }) => ({
+  invitedBy: one(usersTable, {
+    fields: [invitationsTable.invited_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const mfaRecoveryCodesRelations = relations(mfaRecoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [mfaRecoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [auditLogTable.actor_id],
+    references: [usersTable.id],
+    relationName: 'auditActor'
+  }),
+  impersonator: one(usersTable, {
+    fields: [auditLogTable.impersonator_id],
+    references: [usersTable.id],
+    relationName: 'auditImpersonator'
+  })
+}));
+
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type RoleRecord = typeof rolesTable.$inferSelect;
+export type NewRoleRecord = typeof rolesTable.$inferInsert;
+
 export type Category = typeof categoriesTable.$inferSelect;
 export type NewCategory = typeof categoriesTable.$inferInsert;
 
@@ -217,20 +572,77 @@ export type NewPost = typeof postsTable.$inferInsert;
 export type PostTag = typeof postTagsTable.$inferSelect;
 export type NewPostTag = typeof postTagsTable.$inferInsert;
 
+export type PostRevision = typeof postRevisionsTable.$inferSelect;
+export type NewPostRevision = typeof postRevisionsTable.$inferInsert;
+
+export type Series = typeof seriesTable.$inferSelect;
+export type NewSeries = typeof seriesTable.$inferInsert;
+
+export type SeriesPost = typeof seriesPostsTable.$inferSelect;
+export type NewSeriesPost = typeof seriesPostsTable.$inferInsert;
+
+export type Redirect = typeof redirectsTable.$inferSelect;
+export type NewRedirect = typeof redirectsTable.$inferInsert;
+
 export type Comment = typeof commentsTable.$inferSelect;
 export type NewComment = typeof commentsTable.$inferInsert;
 
 export type SiteSettings = typeof siteSettingsTable.$inferSelect;
 export type NewSiteSettings = typeof siteSettingsTable.$inferInsert;
 
+export type RefreshToken = typeof refreshTokensTable.$inferSelect;
+export type NewRefreshToken = typeof refreshTokensTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type ApiTokenRecord = typeof apiTokensTable.$inferSelect;
+export type NewApiTokenRecord = typeof apiTokensTable.$inferInsert;
+
+export type SessionRecord = typeof sessionsTable.$inferSelect;
+export type NewSessionRecord = typeof sessionsTable.$inferInsert;
+
+export type UserToken = typeof userTokensTable.$inferSelect;
+export type NewUserToken = typeof userTokensTable.$inferInsert;
+
+export type InvitationRecord = typeof invitationsTable.$inferSelect;
+export type NewInvitationRecord = typeof invitationsTable.$inferInsert;
+
+export type MfaRecoveryCode = typeof mfaRecoveryCodesTable.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodesTable.$inferInsert;
+
+export type MailOutboxMessage = typeof mailOutboxTable.$inferSelect;
+export type NewMailOutboxMessage = typeof mailOutboxTable.$inferInsert;
+
+export type OidcLoginState = typeof oidcLoginStatesTable.$inferSelect;
+export type NewOidcLoginState = typeof oidcLoginStatesTable.$inferInsert;
+
+export type AuditLogRecord = typeof auditLogTable.$inferSelect;
+export type NewAuditLogRecord = typeof auditLogTable.$inferInsert;
+
 // Export all tables for relation queries
 export const tables = {
   users: usersTable,
+  roles: rolesTable,
   categories: categoriesTable,
   tags: tagsTable,
   media: mediaTable,
   posts: postsTable,
   postTags: postTagsTable,
+  postRevisions: postRevisionsTable,
+  series: seriesTable,
+  seriesPosts: seriesPostsTable,
+  redirects: redirectsTable,
   comments: commentsTable,
-  siteSettings: siteSettingsTable
+  siteSettings: siteSettingsTable,
+  refreshTokens: refreshTokensTable,
+  sessions: sessionsTable,
+  loginAttempts: loginAttemptsTable,
+  apiTokens: apiTokensTable,
+  userTokens: userTokensTable,
+  invitations: invitationsTable,
+  mfaRecoveryCodes: mfaRecoveryCodesTable,
+  mailOutbox: mailOutboxTable,
+  oidcLoginStates: oidcLoginStatesTable,
+  auditLog: auditLogTable
 };
\ No newline at end of file
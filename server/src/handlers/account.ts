@@ -0,0 +1,236 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { usersTable, userTokensTable, siteSettingsTable } from '../db/schema';
+import { type EmailAddressInput, type RegisterInput, type ResetPasswordInput } from '../schema';
+import { hashPassword } from '../helpers/password';
+import { sendMail } from '../helpers/mailer';
+import { revokeUserSessions } from './auth';
+import { getNewAccountRole } from './roles';
+import { and, eq, gt, isNull, or } from 'drizzle-orm';
+
+type UserTokenPurpose = typeof userTokensTable.$inferSelect['purpose'];
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000;
+
+export const hashUserToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+export const getSiteUrl = async (): Promise<string> => {
+  const settings = await db.select({ site_url: siteSettingsTable.site_url })
+    .from(siteSettingsTable)
+    .limit(1)
+    .execute();
+
+  return (settings[0]?.site_url || process.env['APP_URL'] || 'http://localhost:5173').replace(/\/$/, '');
+};
+
+// Issues a fresh token and invalidates any earlier unused token for the same purpose
+const issueUserToken = async (userId: number, purpose: UserTokenPurpose, ttlMs: number): Promise<string> => {
+  await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.user_id, userId),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at)
+    ))
+    .execute();
+
+  const token = randomBytes(32).toString('base64url');
+  await db.insert(userTokensTable)
+    .values({
+      user_id: userId,
+      purpose,
+      token_hash: hashUserToken(token),
+      expires_at: new Date(Date.now() + ttlMs)
+    })
+    .execute();
+
+  return token;
+};
+
+// Marks the token used in the same statement that checks it, so it can only be redeemed once
+const consumeUserToken = async (token: string, purpose: UserTokenPurpose): Promise<number | null> => {
+  const result = await db.update(userTokensTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(userTokensTable.token_hash, hashUserToken(token)),
+      eq(userTokensTable.purpose, purpose),
+      isNull(userTokensTable.used_at),
+      gt(userTokensTable.expires_at, new Date())
+    ))
+    .returning({ user_id: userTokensTable.user_id })
+    .execute();
+
+  return result[0]?.user_id ?? null;
+};
+
+export async function sendEmailVerification(userId: number): Promise<void> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const user = users[0];
+    const token = await issueUserToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MS);
+    const link = `${await getSiteUrl()}/?verify_token=${encodeURIComponent(token)}`;
+
+    await sendMail({
+      to: user.email,
+      subject: 'Confirm your email address',
+      text: `Hi ${user.first_name},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThe link expires in 48 hours.`
+    });
+  } catch (error) {
+    console.error('Sending email verification failed:', error);
+    throw error;
+  }
+}
+
+export async function registerUser(input: RegisterInput): Promise<{ success: boolean; approval_required: boolean }> {
+  try {
+    const settings = await db.select()
+      .from(siteSettingsTable)
+      .limit(1)
+      .execute();
+
+    if (settings.length === 0 || !settings[0].allow_registration) {
+      throw new Error('Registration is closed');
+    }
+
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(or(eq(usersTable.email, input.email), eq(usersTable.username, input.username)))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('An account with this email or username already exists');
+    }
+
+    const role = await getNewAccountRole(settings[0].default_user_role);
+    const approvalRequired = settings[0].registration_requires_approval;
+
+    const result = await db.insert(usersTable)
+      .values({
+        email: input.email,
+        username: input.username,
+        password_hash: await hashPassword(input.password),
+        first_name: input.first_name,
+        last_name: input.last_name,
+        role,
+        email_verified_at: null,
+        approved_at: approvalRequired ? null : new Date()
+      })
+      .returning()
+      .execute();
+
+    await sendEmailVerification(result[0].id);
+
+    return { success: true, approval_required: approvalRequired };
+  } catch (error) {
+    console.error('Registration failed:', error);
+    throw error;
+  }
+}
+
+export async function resendEmailVerification(input: EmailAddressInput): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Respond the same way whether or not the address exists to avoid account enumeration
+    if (users.length > 0 && !users[0].email_verified_at) {
+      await sendEmailVerification(users[0].id);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Resending email verification failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyEmail(token: string): Promise<{ success: boolean }> {
+  try {
+    const userId = await consumeUserToken(token, 'email_verification');
+    if (userId === null) {
+      throw new Error('Verification link is invalid or has expired');
+    }
+
+    await db.update(usersTable)
+      .set({ email_verified_at: new Date(), updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
+
+export async function requestPasswordReset(input: EmailAddressInput): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Respond the same way whether or not the address exists to avoid account enumeration
+    if (users.length === 0 || !users[0].is_active) {
+      return { success: true };
+    }
+
+    const user = users[0];
+    const token = await issueUserToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MS);
+    const link = `${await getSiteUrl()}/?reset_token=${encodeURIComponent(token)}`;
+
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.first_name},\n\nSomeone asked to reset the password for your account. If it was you, open the link below:\n\n${link}\n\nThe link expires in 1 hour and can only be used once. If you did not ask for this, you can ignore this email.`
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function resetPassword(input: ResetPasswordInput): Promise<{ success: boolean }> {
+  try {
+    const userId = await consumeUserToken(input.token, 'password_reset');
+    if (userId === null) {
+      throw new Error('Reset link is invalid or has expired');
+    }
+
+    await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    // Receiving the reset email proves ownership of the address as well
+    await db.update(usersTable)
+      .set({ email_verified_at: new Date() })
+      .where(and(eq(usersTable.id, userId), isNull(usersTable.email_verified_at)))
+      .execute();
+
+    await revokeUserSessions(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,168 @@
+import { db } from '../db';
+import {
+  auditLogTable,
+  usersTable,
+  invitationsTable,
+  rolesTable,
+  categoriesTable,
+  tagsTable,
+  mediaTable,
+  postsTable,
+  seriesTable,
+  commentsTable,
+  apiTokensTable,
+  sessionsTable,
+  siteSettingsTable,
+  type NewAuditLogRecord
+} from '../db/schema';
+import { type AuditLogInput, type AuditLogResponse } from '../schema';
+import { alias } from 'drizzle-orm/pg-core';
+import { and, count, desc, eq, gte, lte, or, type SQL } from 'drizzle-orm';
+
+type Snapshot = Record<string, unknown>;
+
+// Tables snapshotted around a mutation, keyed by the entity type recorded in the log (the router namespace)
+const AUDITED_TABLES = {
+  users: usersTable,
+  invitations: invitationsTable,
+  roles: rolesTable,
+  categories: categoriesTable,
+  tags: tagsTable,
+  media: mediaTable,
+  posts: postsTable,
+  series: seriesTable,
+  comments: commentsTable,
+  apiTokens: apiTokensTable,
+  sessions: sessionsTable
+};
+
+type AuditedEntity = keyof typeof AUDITED_TABLES | 'settings';
+
+// Secrets never leave their table, and timestamps that change on every write only add noise to a diff
+const REDACTED_FIELDS = ['password_hash', 'token_hash', 'totp_secret'];
+const IGNORED_FIELDS = ['updated_at'];
+
+export const isAuditedEntity = (entityType: string): entityType is AuditedEntity => {
+  return entityType === 'settings' || entityType in AUDITED_TABLES;
+};
+
+// Mutations name their entity by an `id` field in the input, or return it when they create one
+export const entityIdOf = (value: unknown): number | null => {
+  if (typeof value !== 'object' || value === null || !('id' in value)) return null;
+  return typeof value.id === 'number' ? value.id : null;
+};
+
+const toSnapshot = (row: object): Snapshot => {
+  // Round-trip through JSON so dates compare and store the same way they come back out of jsonb
+  const snapshot: Snapshot = JSON.parse(JSON.stringify(row));
+  for (const field of REDACTED_FIELDS) {
+    if (field in snapshot) snapshot[field] = '[redacted]';
+  }
+  return snapshot;
+};
+
+export async function snapshotEntity(entityType: string, id: number | null): Promise<Snapshot | null> {
+  if (!isAuditedEntity(entityType)) return null;
+
+  // Site settings are a single row, so they are looked up without an id
+  if (entityType === 'settings') {
+    const rows = await db.select().from(siteSettingsTable).limit(1).execute();
+    return rows[0] ? toSnapshot(rows[0]) : null;
+  }
+
+  if (id === null) return null;
+
+  const table = AUDITED_TABLES[entityType];
+  const rows = await db.select().from(table).where(eq(table.id, id)).execute();
+  return rows[0] ? toSnapshot(rows[0]) : null;
+}
+
+// Keeps only the fields that changed; a create has no before and a delete has no after
+export const diffSnapshots = (
+  before: Snapshot | null,
+  after: Snapshot | null
+): { before: Snapshot | null; after: Snapshot | null } => {
+  if (!before || !after) return { before, after };
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+
+  if (Object.keys(changedAfter).length === 0) return { before: null, after: null };
+  return { before: changedBefore, after: changedAfter };
+};
+
+export async function recordAuditEntry(entry: NewAuditLogRecord): Promise<void> {
+  try {
+    await db.insert(auditLogTable)
+      .values(entry)
+      .execute();
+  } catch (error) {
+    console.error('Audit log write failed:', error);
+    throw error;
+  }
+}
+
+// For entries written after the change they record: recordAuditEntry has already logged a failed
+// write, and failing the caller would not undo the change, so the error goes no further
+export async function recordAuditEntrySafely(entry: NewAuditLogRecord): Promise<void> {
+  await recordAuditEntry(entry).catch(() => undefined);
+}
+
+export async function getAuditLog(input: AuditLogInput): Promise<AuditLogResponse> {
+  try {
+    const conditions: SQL[] = [];
+    // Actions taken while impersonating belong to both the admin and the impersonated user
+    if (input.actor_id !== undefined) {
+      conditions.push(or(eq(auditLogTable.actor_id, input.actor_id), eq(auditLogTable.impersonator_id, input.actor_id))!);
+    }
+    if (input.entity_type !== undefined) conditions.push(eq(auditLogTable.entity_type, input.entity_type));
+    if (input.entity_id !== undefined) conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    if (input.from !== undefined) conditions.push(gte(auditLogTable.created_at, input.from));
+    if (input.to !== undefined) conditions.push(lte(auditLogTable.created_at, input.to));
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(auditLogTable)
+      .where(whereCondition)
+      .execute();
+
+    const impersonators = alias(usersTable, 'impersonators');
+    const rows = await db.select({
+      entry: auditLogTable,
+      actor_username: usersTable.username,
+      impersonator_username: impersonators.username
+    })
+      .from(auditLogTable)
+      .leftJoin(usersTable, eq(auditLogTable.actor_id, usersTable.id))
+      .leftJoin(impersonators, eq(auditLogTable.impersonator_id, impersonators.id))
+      .where(whereCondition)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(input.limit)
+      .offset((input.page - 1) * input.limit)
+      .execute();
+
+    const total_pages = Math.ceil(total / input.limit);
+
+    return {
+      entries: rows.map(({ entry, actor_username, impersonator_username }) => ({ ...entry, actor_username, impersonator_username })),
+      pagination: {
+        page: input.page,
+        limit: input.limit,
+        total,
+        total_pages,
+        has_prev: input.page > 1,
+        has_next: input.page < total_pages
+      }
+    };
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+}
@@ -1,152 +1,529 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
-
-// Simple password hashing using built-in crypto (for demonstration purposes)
-// In production, use bcrypt or similar
-export const hashPassword = async (password: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  return Array.from(new Uint8Array(hashBuffer))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
+import { usersTable, refreshTokensTable, sessionsTable, siteSettingsTable } from '../db/schema';
+import {
+  type LoginInput,
+  type PublicUser,
+  type AuthSession,
+  type LoginResult,
+  type MfaChallenge,
+  type Session,
+  type Impersonator,
+  type VerifiedUser,
+  type ImpersonationSession
+} from '../schema';
+import { signJwt, verifyJwt } from '../helpers/jwt';
+import { hashPassword, verifyPassword } from '../helpers/password';
+import { assertLoginAllowed, recordLoginFailure, recordLoginSuccess } from './lockout';
+import { getRoleCapabilities, isPrivilegedRole } from './roles';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env['AUTH_ACCESS_TOKEN_TTL'] || 15 * 60);
+const REFRESH_TOKEN_TTL_SECONDS = Number(process.env['AUTH_REFRESH_TOKEN_TTL'] || 30 * 24 * 60 * 60);
+// How long a user has to enter their second factor after the password was accepted
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+// Impersonation tokens are not refreshable, so "view as user" ends on its own
+const IMPERSONATION_TTL_SECONDS = 30 * 60;
+// Authenticated requests only bump a session's last_seen_at this often, to avoid a write per request
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Where a request came from; recorded on the session it starts or refreshes
+export interface ClientInfo {
+  ip: string | null;
+  user_agent: string | null;
+}
+
+const UNKNOWN_CLIENT: ClientInfo = { ip: null, user_agent: null };
+
+export const extractBearerToken = (authorizationHeader: string | undefined): string | null => {
+  if (!authorizationHeader) return null;
+
+  const [scheme, token] = authorizationHeader.trim().split(/\s+/);
+  if (!scheme || scheme.toLowerCase() !== 'bearer' || !token) return null;
+
+  return token;
 };
 
-const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
+// Refresh tokens are opaque random strings; only their SHA-256 digest is persisted
+const hashRefreshToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
 };
 
-// Simple JWT implementation (for demonstration purposes)
-// In production, use proper JWT library
-const createToken = (payload: any): string => {
-  const header = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-  const payloadB64 = btoa(JSON.stringify({ ...payload, exp: Date.now() + 24 * 60 * 60 * 1000 }));
-  const signature = btoa(`${header}.${payloadB64}.secret`);
-  return `${header}.${payloadB64}.${signature}`;
+// The sid claim ties the token to its session so revoking the session cuts it off immediately
+const createAccessToken = (user: PublicUser, sessionId: number): string => {
+  return signJwt({ sub: user.id, typ: 'access', role: user.role, sid: sessionId }, ACCESS_TOKEN_TTL_SECONDS);
 };
 
-const verifyTokenInternal = (token: string): any | null => {
-  try {
-    const parts = token.split('.');
-    if (parts.length !== 3) return null;
-    
-    const payload = JSON.parse(atob(parts[1]));
-    
-    // Check expiration
-    if (payload.exp < Date.now()) return null;
-    
-    // Verify signature (simplified)
-    const expectedSignature = btoa(`${parts[0]}.${parts[1]}.secret`);
-    if (parts[2] !== expectedSignature) return null;
-    
-    return payload;
-  } catch {
-    return null;
-  }
+const issueRefreshToken = async (
+  userId: number,
+  familyId: string,
+  executor: Pick<typeof db, 'insert'> = db
+): Promise<{ id: number; token: string }> => {
+  const token = randomBytes(32).toString('base64url');
+  const result = await executor.insert(refreshTokensTable)
+    .values({
+      user_id: userId,
+      token_hash: hashRefreshToken(token),
+      family_id: familyId,
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+    })
+    .returning({ id: refreshTokensTable.id })
+    .execute();
+
+  return { id: result[0].id, token };
+};
+
+const revokeTokenFamily = async (familyId: string): Promise<void> => {
+  await db.update(refreshTokensTable)
+    .set({ revoked_at: new Date() })
+    .where(and(
+      eq(refreshTokensTable.family_id, familyId),
+      isNull(refreshTokensTable.revoked_at)
+    ))
+    .execute();
+
+  await db.update(sessionsTable)
+    .set({ revoked_at: new Date() })
+    .where(and(
+      eq(sessionsTable.family_id, familyId),
+      isNull(sessionsTable.revoked_at)
+    ))
+    .execute();
+};
+
+// Every user the API returns goes through here, so neither the password hash nor the TOTP seed leaves the server
+export const withoutPassword = (user: typeof usersTable.$inferSelect): PublicUser => {
+  const { password_hash, totp_secret, totp_last_used_step, ...userWithoutPassword } = user;
+  return userWithoutPassword;
+};
+
+const toImpersonator = (user: PublicUser): Impersonator => ({
+  id: user.id,
+  username: user.username,
+  first_name: user.first_name,
+  last_name: user.last_name
+});
+
+// Starts a new session and refresh token family for a user who passed every check
+export const createSession = async (
+  user: typeof usersTable.$inferSelect,
+  client: ClientInfo = UNKNOWN_CLIENT
+): Promise<AuthSession> => {
+  const familyId = randomUUID();
+  const refresh = await issueRefreshToken(user.id, familyId);
+
+  const sessions = await db.insert(sessionsTable)
+    .values({
+      user_id: user.id,
+      family_id: familyId,
+      user_agent: client.user_agent,
+      ip: client.ip,
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+    })
+    .returning({ id: sessionsTable.id })
+    .execute();
+
+  return {
+    user: withoutPassword(user),
+    token: createAccessToken(user, sessions[0].id),
+    refresh_token: refresh.token,
+    expires_in: ACCESS_TOKEN_TTL_SECONDS
+  };
 };
 
-export async function loginUser(input: LoginInput): Promise<{ user: User; token: string }> {
+export const isMfaRequiredForRole = async (role: PublicUser['role']): Promise<boolean> => {
+  const settings = await db.select({ mfa_required_roles: siteSettingsTable.mfa_required_roles })
+    .from(siteSettingsTable)
+    .limit(1)
+    .execute();
+
+  return settings[0]?.mfa_required_roles.includes(role) ?? false;
+};
+
+// Signing in with a password or through single sign-on is only the first factor for accounts with
+// two-factor authentication, or whose role requires it: they get a challenge token that only the MFA
+// step accepts
+export const createMfaChallenge = async (user: typeof usersTable.$inferSelect): Promise<MfaChallenge | null> => {
+  const enrollmentRequired = !user.totp_enabled && await isMfaRequiredForRole(user.role);
+  if (!user.totp_enabled && !enrollmentRequired) return null;
+
+  return {
+    mfa_required: true,
+    mfa_token: signJwt({ sub: user.id, typ: 'mfa' }, MFA_CHALLENGE_TTL_SECONDS),
+    enrollment_required: enrollmentRequired
+  };
+};
+
+export async function loginUser(input: LoginInput, client: ClientInfo = UNKNOWN_CLIENT): Promise<LoginResult> {
   try {
+    const settings = await db.select({ password_login_enabled: siteSettingsTable.password_login_enabled })
+      .from(siteSettingsTable)
+      .limit(1)
+      .execute();
+
+    if (settings[0] && !settings[0].password_login_enabled) {
+      throw new Error('Password sign-in is disabled; sign in with single sign-on instead');
+    }
+
     // Find user by email
     const userResults = await db.select()
       .from(usersTable)
       .where(eq(usersTable.email, input.email))
       .execute();
 
-    if (userResults.length === 0) {
+    const user = userResults[0] ?? null;
+
+    // Throttled addresses and locked accounts are refused before the password is even checked
+    await assertLoginAllowed(input.email, user, client);
+
+    if (!user) {
+      await recordLoginFailure(input.email, null, client, 'unknown_email');
       throw new Error('Invalid email or password');
     }
 
-    const user = userResults[0];
-
     // Check if user is active
     if (!user.is_active) {
       throw new Error('Account is deactivated');
     }
 
     // Verify password
-    const isPasswordValid = await verifyPassword(input.password, user.password_hash);
-    if (!isPasswordValid) {
+    const passwordCheck = await verifyPassword(input.password, user.password_hash);
+    if (!passwordCheck.valid) {
+      await recordLoginFailure(input.email, user, client, 'invalid_password');
       throw new Error('Invalid email or password');
     }
 
-    // Generate token
-    const token = createToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role
-    });
+    if (!user.email_verified_at) {
+      throw new Error('Email address has not been verified');
+    }
 
-    // Return user without password hash
-    const { password_hash, ...userWithoutPassword } = user;
-    
-    return {
-      user: userWithoutPassword as User,
-      token
-    };
+    if (!user.approved_at) {
+      throw new Error('Account is awaiting administrator approval');
+    }
+
+    // Transparently upgrade legacy or outdated hashes now that we know the plaintext
+    if (passwordCheck.needsRehash) {
+      await db.update(usersTable)
+        .set({ password_hash: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    }
+
+    const challenge = await createMfaChallenge(user);
+    if (challenge) return challenge;
+
+    await recordLoginSuccess(user, client);
+    return await createSession(user, client);
   } catch (error) {
     console.error('Login failed:', error);
     throw error;
   }
 }
 
-export async function verifyToken(token: string): Promise<User | null> {
+// Resolves an access token into its user and session. Tokens stop working as soon as
+// their session is revoked, even if they have not expired yet.
+//
+// Impersonation tokens carry the admin's id in the act claim and live on the admin's session,
+// so they end with it, and only while the admin still may manage users.
+export async function authenticateAccessToken(
+  token: string
+): Promise<{ user: PublicUser; session_id: number; impersonator: Impersonator | null } | null> {
   try {
-    // Verify token
-    const decoded = verifyTokenInternal(token);
-    if (!decoded) return null;
-    
-    // Find user by ID
-    const userResults = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, decoded.userId))
+    const decoded = verifyJwt(token, 'access');
+    if (!decoded || typeof decoded['sid'] !== 'number') return null;
+
+    const actorId = typeof decoded['act'] === 'number' ? decoded['act'] : null;
+    const results = await db.select({ user: usersTable, session: sessionsTable })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(usersTable.id, sessionsTable.user_id))
+      .where(and(
+        eq(sessionsTable.id, decoded['sid']),
+        eq(sessionsTable.user_id, actorId ?? decoded.sub)
+      ))
       .execute();
 
-    if (userResults.length === 0 || !userResults[0].is_active) {
+    if (results.length === 0) return null;
+
+    const { session } = results[0];
+    let user = results[0].user;
+    let impersonator: Impersonator | null = null;
+    if (!user.is_active || session.revoked_at) {
       return null;
     }
 
-    const { password_hash, ...user } = userResults[0];
-    return user as User;
+    if (actorId !== null) {
+      const capabilities = await getRoleCapabilities(user.role);
+      const targets = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, decoded.sub))
+        .execute();
+
+      if (
+        !capabilities.includes('users.manage') ||
+        targets.length === 0 ||
+        !targets[0].is_active ||
+        await isPrivilegedRole(targets[0].role)
+      ) {
+        return null;
+      }
+
+      impersonator = toImpersonator(user);
+      user = targets[0];
+    }
+
+    if (Date.now() - session.last_seen_at.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await db.update(sessionsTable)
+        .set({ last_seen_at: new Date() })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+    }
+
+    return { user: withoutPassword(user), session_id: session.id, impersonator };
   } catch (error) {
     console.error('Token verification failed:', error);
     return null;
   }
 }
 
-export async function refreshToken(token: string): Promise<{ token: string } | null> {
+export async function verifyToken(token: string): Promise<VerifiedUser | null> {
+  const result = await authenticateAccessToken(token);
+  return result ? { ...result.user, impersonated_by: result.impersonator } : null;
+}
+
+// Lets an admin use the CMS as another user. The token acts as the target but stays tied to the
+// admin's session, and everything done with it is attributed to both of them in the audit log.
+export async function impersonateUser(
+  admin: PublicUser,
+  sessionId: number,
+  targetId: number
+): Promise<ImpersonationSession> {
+  try {
+    if (admin.id === targetId) {
+      throw new Error('You cannot impersonate yourself');
+    }
+
+    const targets = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, targetId))
+      .execute();
+
+    if (targets.length === 0) {
+      throw new Error(`User with id ${targetId} not found`);
+    }
+
+    const target = targets[0];
+    if (!target.is_active) {
+      throw new Error('Deactivated users cannot be impersonated');
+    }
+
+    // Viewing the CMS as another administrator would not show anything new, and would hide who acted
+    if (await isPrivilegedRole(target.role)) {
+      throw new Error('Users who can manage users or settings cannot be impersonated');
+    }
+
+    return {
+      user: withoutPassword(target),
+      impersonator: toImpersonator(admin),
+      token: signJwt(
+        { sub: target.id, typ: 'access', role: target.role, sid: sessionId, act: admin.id },
+        IMPERSONATION_TTL_SECONDS
+      ),
+      expires_in: IMPERSONATION_TTL_SECONDS
+    };
+  } catch (error) {
+    console.error('Impersonation failed:', error);
+    throw error;
+  }
+}
+
+// Exchanges a refresh token for a new access/refresh pair. Each refresh token is single-use:
+// presenting one that was already rotated is treated as theft and revokes the whole family.
+export async function refreshToken(token: string, client: ClientInfo = UNKNOWN_CLIENT): Promise<AuthSession | null> {
   try {
-    // Parse token without verification (to allow expired tokens)
-    const parts = token.split('.');
-    if (parts.length !== 3) return null;
-    
-    const payload = JSON.parse(atob(parts[1]));
-    
+    const tokenResults = await db.select()
+      .from(refreshTokensTable)
+      .where(eq(refreshTokensTable.token_hash, hashRefreshToken(token)))
+      .execute();
+
+    if (tokenResults.length === 0) return null;
+
+    const stored = tokenResults[0];
+
+    if (stored.revoked_at) {
+      if (stored.replaced_by_id) {
+        console.warn(`Refresh token reuse detected for user ${stored.user_id}, revoking token family`);
+        await revokeTokenFamily(stored.family_id);
+      }
+      return null;
+    }
+
+    if (stored.expires_at < new Date()) return null;
+
     // Find user by ID to ensure they still exist and are active
     const userResults = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, payload.userId))
+      .where(eq(usersTable.id, stored.user_id))
       .execute();
 
     if (userResults.length === 0 || !userResults[0].is_active) {
+      await revokeTokenFamily(stored.family_id);
       return null;
     }
 
     const user = userResults[0];
 
-    // Generate new token
-    const newToken = createToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role
+    const sessionResults = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.family_id, stored.family_id))
+      .execute();
+
+    if (sessionResults.length === 0 || sessionResults[0].revoked_at) {
+      await revokeTokenFamily(stored.family_id);
+      return null;
+    }
+
+    const session = sessionResults[0];
+
+    const rotated = await db.transaction(async (tx) => {
+      // Claim the old token first so a concurrent refresh with the same token loses the race
+      const claimed = await tx.update(refreshTokensTable)
+        .set({ revoked_at: new Date() })
+        .where(and(
+          eq(refreshTokensTable.id, stored.id),
+          isNull(refreshTokensTable.revoked_at)
+        ))
+        .returning({ id: refreshTokensTable.id })
+        .execute();
+
+      if (claimed.length === 0) return null;
+
+      const next = await issueRefreshToken(user.id, stored.family_id, tx);
+      await tx.update(refreshTokensTable)
+        .set({ replaced_by_id: next.id })
+        .where(eq(refreshTokensTable.id, stored.id))
+        .execute();
+
+      // Each rotation extends the session and records where it was last used from
+      await tx.update(sessionsTable)
+        .set({
+          last_seen_at: new Date(),
+          expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+          ip: client.ip ?? session.ip,
+          user_agent: client.user_agent ?? session.user_agent
+        })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+
+      return next;
     });
 
-    return { token: newToken };
+    if (!rotated) return null;
+
+    return {
+      user: withoutPassword(user),
+      token: createAccessToken(user, session.id),
+      refresh_token: rotated.token,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS
+    };
   } catch (error) {
     console.error('Token refresh failed:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+// Signs the user out everywhere, e.g. after a password change or when the account is deactivated
+export async function revokeUserSessions(userId: number): Promise<{ revoked: number }> {
+  try {
+    await db.update(refreshTokensTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(refreshTokensTable.user_id, userId),
+        isNull(refreshTokensTable.revoked_at)
+      ))
+      .execute();
+
+    const revoked = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning({ id: sessionsTable.id })
+      .execute();
+
+    return { revoked: revoked.length };
+  } catch (error) {
+    console.error('Revoking user sessions failed:', error);
+    throw error;
+  }
+}
+
+export async function listSessions(userId: number, currentSessionId: number | null): Promise<Session[]> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    return sessions.map(session => ({
+      id: session.id,
+      user_agent: session.user_agent,
+      ip: session.ip,
+      created_at: session.created_at,
+      last_seen_at: session.last_seen_at,
+      expires_at: session.expires_at,
+      current: session.id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('Listing sessions failed:', error);
+    throw error;
+  }
+}
+
+// Users can only revoke their own sessions; anything else looks like a missing session
+export async function revokeSession(userId: number, sessionId: number): Promise<{ success: boolean }> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+
+    if (sessions.length === 0) {
+      throw new Error(`Session with id ${sessionId} not found`);
+    }
+
+    await revokeTokenFamily(sessions[0].family_id);
+    return { success: true };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function logoutUser(token: string): Promise<{ success: boolean }> {
+  try {
+    const tokenResults = await db.select()
+      .from(refreshTokensTable)
+      .where(eq(refreshTokensTable.token_hash, hashRefreshToken(token)))
+      .execute();
+
+    if (tokenResults.length === 0) {
+      return { success: false };
+    }
+
+    await revokeTokenFamily(tokenResults[0].family_id);
+    return { success: true };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,10 @@
 import { db } from '../db';
 import { categoriesTable, postsTable } from '../db/schema';
 import { type CreateCategoryInput, type UpdateCategoryInput, type Category } from '../schema';
-import { eq, isNull, SQL } from 'drizzle-orm';
+import { recordSlugChange, releaseSlug, deleteRedirects } from './redirects';
+import { ConflictError, unchangedSince } from '../helpers/concurrency';
+import { uniqueSlug } from '../helpers/slugs';
+import { and, eq, isNull, SQL } from 'drizzle-orm';
 
 export async function createCategory(input: CreateCategoryInput): Promise<Category> {
   try {
@@ -17,20 +20,22 @@ export async function createCategory(input: CreateCategoryInput): Promise<Catego
       }
     }
 
-    // Insert category record
-    const result = await db.insert(categoriesTable)
-      .values({
-        name: input.name,
-        slug: input.slug,
-        description: input.description || null,
-        parent_id: input.parent_id || null,
-        meta_title: input.meta_title || null,
-        meta_description: input.meta_description || null
-      })
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(categoriesTable)
+        .values({
+          name: input.name,
+          slug: await uniqueSlug(tx, categoriesTable, input.slug ?? input.name, 'category'),
+          description: input.description || null,
+          parent_id: input.parent_id || null,
+          meta_title: input.meta_title || null,
+          meta_description: input.meta_description || null
+        })
+        .returning()
+        .execute();
 
-    return result[0];
+      await releaseSlug(tx, 'category', result[0].slug);
+      return result[0];
+    });
   } catch (error) {
     console.error('Category creation failed:', error);
     throw error;
@@ -111,19 +116,33 @@ export async function updateCategory(input: UpdateCategoryInput): Promise<Catego
     };
 
     if (input.name !== undefined) updateData.name = input.name;
-    if (input.slug !== undefined) updateData.slug = input.slug;
     if (input.description !== undefined) updateData.description = input.description;
     if (input.parent_id !== undefined) updateData.parent_id = input.parent_id;
     if (input.meta_title !== undefined) updateData.meta_title = input.meta_title;
     if (input.meta_description !== undefined) updateData.meta_description = input.meta_description;
 
-    const result = await db.update(categoriesTable)
-      .set(updateData)
-      .where(eq(categoriesTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      if (input.slug !== undefined) {
+        updateData.slug = await uniqueSlug(tx, categoriesTable, input.slug, 'category', input.id);
+      }
 
-    return result[0];
+      const result = await tx.update(categoriesTable)
+        .set(updateData)
+        .where(and(eq(categoriesTable.id, input.id), unchangedSince(categoriesTable.updated_at, input.expected_updated_at)))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new ConflictError(
+          `Category with ID ${input.id} was changed by someone else since it was loaded`,
+          await getCategoryById(input.id)
+        );
+      }
+
+      // Category archives are always public, so links to the old slug keep working
+      await recordSlugChange(tx, 'category', input.id, existingCategory.slug, result[0].slug);
+      return result[0];
+    });
   } catch (error) {
     console.error('Category update failed:', error);
     throw error;
@@ -150,6 +169,8 @@ export async function deleteCategory(id: number): Promise<boolean> {
       .where(eq(categoriesTable.parent_id, id))
       .execute();
 
+    await deleteRedirects(db, 'category', id);
+
     // Delete the category
     await db.delete(categoriesTable)
       .where(eq(categoriesTable.id, id))
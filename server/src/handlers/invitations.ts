@@ -0,0 +1,175 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { usersTable, invitationsTable, siteSettingsTable } from '../db/schema';
+import {
+  type AcceptInviteInput,
+  type Invitation,
+  type InviteUserInput
+} from '../schema';
+import { hashPassword } from '../helpers/password';
+import { sendMail } from '../helpers/mailer';
+import { getSiteUrl, hashUserToken } from './account';
+import { assertRoleExists } from './roles';
+import { and, desc, eq, gt, isNull, or } from 'drizzle-orm';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const toInvitation = (record: typeof invitationsTable.$inferSelect): Invitation => ({
+  id: record.id,
+  email: record.email,
+  role: record.role,
+  invited_by: record.invited_by,
+  expires_at: record.expires_at,
+  accepted_at: record.accepted_at,
+  created_at: record.created_at
+});
+
+const isPending = () => and(
+  isNull(invitationsTable.accepted_at),
+  isNull(invitationsTable.revoked_at)
+);
+
+export async function inviteUser(invitedBy: number, input: InviteUserInput): Promise<Invitation> {
+  try {
+    await assertRoleExists(input.role);
+
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('A user with this email already exists');
+    }
+
+    // Inviting the same address again replaces the earlier link
+    await db.update(invitationsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(invitationsTable.email, input.email), isPending()))
+      .execute();
+
+    const token = randomBytes(32).toString('base64url');
+    const result = await db.insert(invitationsTable)
+      .values({
+        email: input.email,
+        role: input.role,
+        token_hash: hashUserToken(token),
+        invited_by: invitedBy,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS)
+      })
+      .returning()
+      .execute();
+
+    const settings = await db.select({ site_title: siteSettingsTable.site_title })
+      .from(siteSettingsTable)
+      .limit(1)
+      .execute();
+    const siteTitle = settings[0]?.site_title ?? 'the blog';
+    const link = `${await getSiteUrl()}/?invite_token=${encodeURIComponent(token)}`;
+
+    await sendMail({
+      to: input.email,
+      subject: `You have been invited to ${siteTitle}`,
+      text: `Hi,\n\nYou have been invited to join ${siteTitle} with the ${input.role} role. Open the link below to choose a username and password:\n\n${link}\n\nThe invitation expires in 7 days.`
+    });
+
+    return toInvitation(result[0]);
+  } catch (error) {
+    console.error('User invitation failed:', error);
+    throw error;
+  }
+}
+
+export async function getInvitations(): Promise<Invitation[]> {
+  try {
+    const invitations = await db.select()
+      .from(invitationsTable)
+      .where(isPending())
+      .orderBy(desc(invitationsTable.created_at))
+      .execute();
+
+    return invitations.map(toInvitation);
+  } catch (error) {
+    console.error('Failed to fetch invitations:', error);
+    throw error;
+  }
+}
+
+export async function revokeInvitation(id: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.update(invitationsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(invitationsTable.id, id), isPending()))
+      .returning({ id: invitationsTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Invitation with id ${id} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Invitation revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function acceptInvitation(input: AcceptInviteInput): Promise<{ success: boolean }> {
+  try {
+    const invitations = await db.select()
+      .from(invitationsTable)
+      .where(and(
+        eq(invitationsTable.token_hash, hashUserToken(input.token)),
+        isPending(),
+        gt(invitationsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (invitations.length === 0) {
+      throw new Error('Invitation is invalid or has expired');
+    }
+
+    const invitation = invitations[0];
+
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(or(eq(usersTable.email, invitation.email), eq(usersTable.username, input.username)))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('An account with this email or username already exists');
+    }
+
+    const password_hash = await hashPassword(input.password);
+
+    await db.transaction(async (tx) => {
+      // Claim the invitation in the same transaction as the insert so it is redeemed at most once
+      const claimed = await tx.update(invitationsTable)
+        .set({ accepted_at: new Date() })
+        .where(and(eq(invitationsTable.id, invitation.id), isPending()))
+        .returning({ id: invitationsTable.id })
+        .execute();
+
+      if (claimed.length === 0) {
+        throw new Error('Invitation is invalid or has expired');
+      }
+
+      // Following the emailed link proves ownership of the address
+      await tx.insert(usersTable)
+        .values({
+          email: invitation.email,
+          username: input.username,
+          password_hash,
+          first_name: input.first_name,
+          last_name: input.last_name,
+          role: invitation.role
+        })
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Accepting invitation failed:', error);
+    throw error;
+  }
+}
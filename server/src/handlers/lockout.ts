@@ -0,0 +1,141 @@
+import { db } from '../db';
+import { usersTable, loginAttemptsTable } from '../db/schema';
+import { type LoginAttempt, type LoginHistoryInput, type PublicUser } from '../schema';
+import { type ClientInfo, withoutPassword } from './auth';
+import { and, count, desc, eq, gt, sql } from 'drizzle-orm';
+
+type UserRecord = typeof usersTable.$inferSelect;
+
+// Accounts lock after LOCKOUT_THRESHOLD consecutive failures. Each further failure doubles
+// the lock, starting at LOCKOUT_BASE_SECONDS and capped at LOCKOUT_MAX_SECONDS.
+const LOCKOUT_THRESHOLD = Number(process.env['AUTH_LOCKOUT_THRESHOLD'] || 5);
+const LOCKOUT_BASE_SECONDS = 60;
+const LOCKOUT_MAX_SECONDS = 60 * 60;
+
+// A single address may fail this many times across all accounts within the window
+const IP_FAILURE_LIMIT = Number(process.env['AUTH_IP_FAILURE_LIMIT'] || 20);
+const IP_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+export type LoginFailureReason =
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'invalid_mfa_code'
+  | 'account_locked'
+  | 'ip_throttled';
+
+export const lockoutSeconds = (failedCount: number): number => {
+  if (failedCount < LOCKOUT_THRESHOLD) return 0;
+  return Math.min(LOCKOUT_BASE_SECONDS * 2 ** (failedCount - LOCKOUT_THRESHOLD), LOCKOUT_MAX_SECONDS);
+};
+
+const recordAttempt = async (
+  email: string,
+  userId: number | null,
+  client: ClientInfo,
+  failureReason: LoginFailureReason | null
+): Promise<void> => {
+  await db.insert(loginAttemptsTable)
+    .values({
+      user_id: userId,
+      email,
+      ip: client.ip,
+      user_agent: client.user_agent,
+      success: failureReason === null,
+      failure_reason: failureReason
+    })
+    .execute();
+};
+
+// Throws before any credential is checked when the address or the account is currently throttled
+export const assertLoginAllowed = async (
+  email: string,
+  user: UserRecord | null,
+  client: ClientInfo
+): Promise<void> => {
+  if (client.ip) {
+    const [{ failures }] = await db.select({ failures: count() })
+      .from(loginAttemptsTable)
+      .where(and(
+        eq(loginAttemptsTable.ip, client.ip),
+        eq(loginAttemptsTable.success, false),
+        gt(loginAttemptsTable.created_at, new Date(Date.now() - IP_FAILURE_WINDOW_MS))
+      ))
+      .execute();
+
+    if (failures >= IP_FAILURE_LIMIT) {
+      await recordAttempt(email, user?.id ?? null, client, 'ip_throttled');
+      throw new Error('Too many failed sign-in attempts from this address. Try again later.');
+    }
+  }
+
+  if (user?.locked_until && user.locked_until > new Date()) {
+    await recordAttempt(email, user.id, client, 'account_locked');
+    throw new Error('Account is temporarily locked after too many failed sign-in attempts. Try again later.');
+  }
+};
+
+export const recordLoginFailure = async (
+  email: string,
+  user: UserRecord | null,
+  client: ClientInfo,
+  reason: LoginFailureReason
+): Promise<void> => {
+  await recordAttempt(email, user?.id ?? null, client, reason);
+  if (!user) return;
+
+  // Increment in SQL so concurrent failures are all counted
+  const [updated] = await db.update(usersTable)
+    .set({ failed_login_count: sql`${usersTable.failed_login_count} + 1` })
+    .where(eq(usersTable.id, user.id))
+    .returning({ failed_login_count: usersTable.failed_login_count })
+    .execute();
+
+  const seconds = lockoutSeconds(updated.failed_login_count);
+  if (seconds > 0) {
+    await db.update(usersTable)
+      .set({ locked_until: new Date(Date.now() + seconds * 1000) })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+  }
+};
+
+export const recordLoginSuccess = async (user: UserRecord, client: ClientInfo): Promise<void> => {
+  await recordAttempt(user.email, user.id, client, null);
+  await db.update(usersTable)
+    .set({ failed_login_count: 0, locked_until: null, last_login_at: new Date() })
+    .where(eq(usersTable.id, user.id))
+    .execute();
+};
+
+export async function unlockUser(userId: number): Promise<PublicUser> {
+  try {
+    const result = await db.update(usersTable)
+      .set({ failed_login_count: 0, locked_until: null, updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    return withoutPassword(result[0]);
+  } catch (error) {
+    console.error('User unlock failed:', error);
+    throw error;
+  }
+}
+
+export async function getLoginHistory(input: LoginHistoryInput): Promise<LoginAttempt[]> {
+  try {
+    return await db.select()
+      .from(loginAttemptsTable)
+      .where(eq(loginAttemptsTable.user_id, input.user_id))
+      .orderBy(desc(loginAttemptsTable.created_at), desc(loginAttemptsTable.id))
+      .limit(input.limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch login history:', error);
+    throw error;
+  }
+}
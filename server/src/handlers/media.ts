@@ -2,6 +2,7 @@ import { db } from '../db';
 import { mediaTable, usersTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { type CreateMediaInput, type UpdateMediaInput, type Media } from '../schema';
+import { clearMediaEmbeds } from '../helpers/shortcodes';
 
 export async function uploadMedia(input: CreateMediaInput): Promise<Media> {
   try {
@@ -53,30 +54,59 @@ export async function getMediaById(id: number): Promise<Media | null> {
   return Promise.resolve(null);
 }
 
+export async function getMediaUploaderId(id: number): Promise<number | null> {
+  try {
+    const result = await db.select({ uploaded_by: mediaTable.uploaded_by })
+      .from(mediaTable)
+      .where(eq(mediaTable.id, id))
+      .execute();
+
+    return result[0]?.uploaded_by ?? null;
+  } catch (error) {
+    console.error('Media uploader lookup failed:', error);
+    throw error;
+  }
+}
+
 export async function updateMedia(input: UpdateMediaInput): Promise<Media> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to update media metadata like alt text and captions
-  // for better SEO and accessibility.
-  return Promise.resolve({
-    id: input.id,
-    filename: 'updated-file.jpg',
-    original_filename: 'original.jpg',
-    file_path: '/uploads/updated-file.jpg',
-    file_size: 1024,
-    mime_type: 'image/jpeg',
-    alt_text: input.alt_text || null,
-    caption: input.caption || null,
-    uploaded_by: 1,
-    created_at: new Date(),
-    updated_at: new Date()
-  });
+  try {
+    const { id, ...fields } = input;
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(mediaTable)
+        .set({ ...fields, updated_at: new Date() })
+        .where(eq(mediaTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error(`Media with ID ${id} not found`);
+      }
+
+      await clearMediaEmbeds(tx, [id]);
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Media update failed:', error);
+    throw error;
+  }
 }
 
 export async function deleteMedia(id: number): Promise<boolean> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to delete media files from storage and database,
-  // checking for usage in posts before deletion to prevent broken links.
-  return Promise.resolve(true);
+  try {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(mediaTable)
+        .where(eq(mediaTable.id, id))
+        .returning({ id: mediaTable.id })
+        .execute();
+
+      await clearMediaEmbeds(tx, [id]);
+      return result.length > 0;
+    });
+  } catch (error) {
+    console.error('Media deletion failed:', error);
+    throw error;
+  }
 }
 
 export async function getMediaByType(mimeTypePrefix: string): Promise<Media[]> {
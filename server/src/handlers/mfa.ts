@@ -0,0 +1,258 @@
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { db } from '../db';
+import { usersTable, mfaRecoveryCodesTable, siteSettingsTable } from '../db/schema';
+import { type MfaSetup, type MfaLoginResult, type VerifyMfaInput } from '../schema';
+import { verifyJwt } from '../helpers/jwt';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from '../helpers/totp';
+import { createSession, isMfaRequiredForRole, type ClientInfo } from './auth';
+import { assertLoginAllowed, recordLoginFailure, recordLoginSuccess } from './lockout';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+
+type UserRecord = typeof usersTable.$inferSelect;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are shown as XXXXX-XXXXX; case, spaces and dashes are ignored when redeeming
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+};
+
+const hashRecoveryCode = (code: string): string => {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+};
+
+const findUser = async (userId: number): Promise<UserRecord> => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with id ${userId} not found`);
+  }
+
+  return users[0];
+};
+
+// Replaces any earlier set of recovery codes and returns the new plaintext codes
+const issueRecoveryCodes = async (userId: number): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(7)).slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.delete(mfaRecoveryCodesTable)
+    .where(eq(mfaRecoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.insert(mfaRecoveryCodesTable)
+    .values(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(code) })))
+    .execute();
+
+  return codes;
+};
+
+// Records the accepted time step in the same statement that checks it, so a code cannot be replayed
+const consumeTotpCode = async (user: UserRecord, code: string): Promise<boolean> => {
+  if (!user.totp_secret) return false;
+
+  const step = verifyTotp(user.totp_secret, code);
+  if (step === null) return false;
+
+  const result = await db.update(usersTable)
+    .set({ totp_last_used_step: step })
+    .where(and(
+      eq(usersTable.id, user.id),
+      or(isNull(usersTable.totp_last_used_step), lt(usersTable.totp_last_used_step, step))
+    ))
+    .returning({ id: usersTable.id })
+    .execute();
+
+  return result.length > 0;
+};
+
+const consumeRecoveryCode = async (userId: number, code: string): Promise<boolean> => {
+  const result = await db.update(mfaRecoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(mfaRecoveryCodesTable.user_id, userId),
+      eq(mfaRecoveryCodesTable.code_hash, hashRecoveryCode(code)),
+      isNull(mfaRecoveryCodesTable.used_at)
+    ))
+    .returning({ id: mfaRecoveryCodesTable.id })
+    .execute();
+
+  return result.length > 0;
+};
+
+// Turns on a confirmed secret and hands out the first set of recovery codes
+const activateTotp = async (userId: number): Promise<string[]> => {
+  await db.update(usersTable)
+    .set({ totp_enabled: true, updated_at: new Date() })
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return await issueRecoveryCodes(userId);
+};
+
+// Accepts either a current authenticator code or one of the user's unused recovery codes
+const checkSecondFactor = async (user: UserRecord, code: string): Promise<boolean> => {
+  if (!user.totp_enabled) return false;
+  return await consumeTotpCode(user, code) || await consumeRecoveryCode(user.id, code);
+};
+
+// Returns the user id behind a login challenge issued by loginUser
+export const resolveMfaChallenge = (mfaToken: string): number => {
+  const decoded = verifyJwt(mfaToken, 'mfa');
+  if (!decoded) {
+    throw new Error('Two-factor challenge is invalid or has expired');
+  }
+  return decoded.sub;
+};
+
+export async function setupMfa(userId: number): Promise<MfaSetup> {
+  try {
+    const user = await findUser(userId);
+
+    if (user.totp_enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // The secret stays pending until enableMfa sees a valid code generated from it
+    const secret = generateTotpSecret();
+    await db.update(usersTable)
+      .set({ totp_secret: secret, totp_last_used_step: null, updated_at: new Date() })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    const settings = await db.select({ site_title: siteSettingsTable.site_title })
+      .from(siteSettingsTable)
+      .limit(1)
+      .execute();
+
+    const otpauthUri = buildOtpauthUri(secret, user.email, settings[0]?.site_title || 'Blog CMS');
+    const svg = await QRCode.toString(otpauthUri, { type: 'svg', margin: 1 });
+
+    return {
+      secret,
+      otpauth_uri: otpauthUri,
+      qr_code_data_url: `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`
+    };
+  } catch (error) {
+    console.error('Two-factor setup failed:', error);
+    throw error;
+  }
+}
+
+export async function enableMfa(userId: number, code: string): Promise<{ recovery_codes: string[] }> {
+  try {
+    const user = await findUser(userId);
+
+    if (user.totp_enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!user.totp_secret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    if (!await consumeTotpCode(user, code)) {
+      throw new Error('Invalid authentication code');
+    }
+
+    return { recovery_codes: await activateTotp(user.id) };
+  } catch (error) {
+    console.error('Enabling two-factor authentication failed:', error);
+    throw error;
+  }
+}
+
+export async function disableMfa(userId: number, code: string): Promise<{ success: boolean }> {
+  try {
+    const user = await findUser(userId);
+
+    if (!user.totp_enabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (await isMfaRequiredForRole(user.role)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+
+    if (!await checkSecondFactor(user, code)) {
+      throw new Error('Invalid authentication code');
+    }
+
+    await db.update(usersTable)
+      .set({ totp_enabled: false, totp_secret: null, totp_last_used_step: null, updated_at: new Date() })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    await db.delete(mfaRecoveryCodesTable)
+      .where(eq(mfaRecoveryCodesTable.user_id, user.id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Disabling two-factor authentication failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(userId: number, code: string): Promise<{ recovery_codes: string[] }> {
+  try {
+    const user = await findUser(userId);
+
+    if (!await checkSecondFactor(user, code)) {
+      throw new Error('Invalid authentication code');
+    }
+
+    return { recovery_codes: await issueRecoveryCodes(user.id) };
+  } catch (error) {
+    console.error('Regenerating recovery codes failed:', error);
+    throw error;
+  }
+}
+
+// Second step of auth.login and of single sign-on. Users who are required to enrol but have not
+// yet done so confirm their pending secret here and receive their recovery codes with the session.
+// Wrong codes count towards the same lockout as wrong passwords.
+export async function verifyMfaLogin(
+  input: VerifyMfaInput,
+  client: ClientInfo = { ip: null, user_agent: null }
+): Promise<MfaLoginResult> {
+  try {
+    const user = await findUser(resolveMfaChallenge(input.mfa_token));
+
+    if (!user.is_active) {
+      throw new Error('Account is deactivated');
+    }
+
+    await assertLoginAllowed(user.email, user, client);
+
+    const enrolling = !user.totp_enabled;
+    if (enrolling && !user.totp_secret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    const verified = enrolling
+      ? await consumeTotpCode(user, input.code)
+      : await checkSecondFactor(user, input.code);
+
+    if (!verified) {
+      await recordLoginFailure(user.email, user, client, 'invalid_mfa_code');
+      throw new Error('Invalid authentication code');
+    }
+
+    const recoveryCodes = enrolling ? await activateTotp(user.id) : undefined;
+
+    await recordLoginSuccess(user, client);
+    const session = await createSession({ ...user, totp_enabled: true }, client);
+
+    return recoveryCodes ? { ...session, recovery_codes: recoveryCodes } : session;
+  } catch (error) {
+    console.error('Two-factor verification failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,212 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { usersTable, siteSettingsTable, oidcLoginStatesTable } from '../db/schema';
+import { type LoginResult, type OidcCallbackInput, type OidcStatus } from '../schema';
+import {
+  getOidcConfig,
+  discover,
+  createAuthorizationRequest,
+  verifyIdToken,
+  type OidcConfig,
+  type IdTokenClaims
+} from '../helpers/oidc';
+import { hashPassword } from '../helpers/password';
+import { createMfaChallenge, createSession, type ClientInfo } from './auth';
+import { recordLoginSuccess } from './lockout';
+import { getSiteUrl, hashUserToken } from './account';
+import { getNewAccountRole } from './roles';
+import { and, eq, gt, sql } from 'drizzle-orm';
+
+// How long the user has to finish signing in at the identity provider
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+const requireOidcConfig = (): OidcConfig => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new Error('Single sign-on is not configured');
+  }
+  return config;
+};
+
+// Usernames for provisioned accounts come from the IdP's preferred username or the email's local part
+const uniqueUsername = async (claims: IdTokenClaims, email: string): Promise<string> => {
+  const base = (claims.preferred_username ?? email.split('@')[0])
+    .replace(/[^a-zA-Z0-9_.-]/g, '')
+    .slice(0, 40)
+    .padEnd(3, '_');
+
+  for (let suffix = 0; ; suffix++) {
+    const candidate = suffix === 0 ? base : `${base}${suffix}`;
+    const taken = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.username, candidate))
+      .execute();
+    if (taken.length === 0) return candidate;
+  }
+};
+
+const exchangeCode = async (
+  config: OidcConfig,
+  tokenEndpoint: string,
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier
+  });
+
+  if (config.client_secret) {
+    const credentials = `${encodeURIComponent(config.client_id)}:${encodeURIComponent(config.client_secret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', config.client_id);
+  }
+
+  const response = await fetch(tokenEndpoint, { method: 'POST', headers, body });
+  const tokens = await response.json() as { id_token?: string; error?: string };
+  if (!response.ok || !tokens.id_token) {
+    throw new Error(`Identity provider rejected the sign-in${tokens.error ? ` (${tokens.error})` : ''}`);
+  }
+
+  return tokens.id_token;
+};
+
+export const getOidcStatus = (): OidcStatus => {
+  const config = getOidcConfig();
+  return { enabled: config !== null, provider_name: config?.provider_name ?? null };
+};
+
+// Remembers the state, nonce and PKCE verifier for the callback and returns where to send the browser
+export async function startOidcLogin(): Promise<{ authorization_url: string }> {
+  try {
+    const config = requireOidcConfig();
+    const discovery = await discover(config.issuer);
+    const request = createAuthorizationRequest();
+    const redirectUri = config.redirect_uri ?? `${await getSiteUrl()}/`;
+
+    await db.insert(oidcLoginStatesTable)
+      .values({
+        state_hash: hashUserToken(request.state),
+        nonce: request.nonce,
+        code_verifier: request.code_verifier,
+        redirect_uri: redirectUri,
+        expires_at: new Date(Date.now() + LOGIN_STATE_TTL_MS)
+      })
+      .execute();
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.client_id,
+      redirect_uri: redirectUri,
+      scope: 'openid email profile',
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: request.code_challenge,
+      code_challenge_method: 'S256'
+    }).toString();
+
+    return { authorization_url: url.toString() };
+  } catch (error) {
+    console.error('Starting single sign-on failed:', error);
+    throw error;
+  }
+}
+
+export async function completeOidcLogin(input: OidcCallbackInput, client: ClientInfo): Promise<LoginResult> {
+  try {
+    const config = requireOidcConfig();
+
+    // Each state can be redeemed once, so a replayed callback finds nothing
+    const states = await db.delete(oidcLoginStatesTable)
+      .where(and(
+        eq(oidcLoginStatesTable.state_hash, hashUserToken(input.state)),
+        gt(oidcLoginStatesTable.expires_at, new Date())
+      ))
+      .returning()
+      .execute();
+
+    if (states.length === 0) {
+      throw new Error('Sign-in request is invalid or has expired');
+    }
+
+    const state = states[0];
+    const discovery = await discover(config.issuer);
+    const idToken = await exchangeCode(config, discovery.token_endpoint, input.code, state.code_verifier, state.redirect_uri);
+    const claims = await verifyIdToken(idToken, {
+      issuer: config.issuer,
+      client_id: config.client_id,
+      nonce: state.nonce,
+      jwks_uri: discovery.jwks_uri
+    });
+
+    // Accounts are matched by email, so only addresses the provider has verified are trusted
+    if (!claims.email || claims.email_verified !== true) {
+      throw new Error('Identity provider did not supply a verified email address');
+    }
+    const email = claims.email.toLowerCase();
+
+    const existing = await db.select()
+      .from(usersTable)
+      .where(eq(sql`lower(${usersTable.email})`, email))
+      .execute();
+
+    let user = existing[0];
+    if (!user) {
+      const settings = await db.select()
+        .from(siteSettingsTable)
+        .limit(1)
+        .execute();
+
+      if (!settings[0]?.oidc_auto_provision) {
+        throw new Error('No account exists for this email address');
+      }
+
+      const [firstName, ...lastName] = (claims.name ?? '').split(' ');
+      const result = await db.insert(usersTable)
+        .values({
+          email,
+          username: await uniqueUsername(claims, email),
+          // Provisioned users sign in through the provider; nobody knows this password
+          password_hash: await hashPassword(randomBytes(32).toString('base64url')),
+          first_name: (claims.given_name ?? firstName) || email.split('@')[0],
+          last_name: claims.family_name ?? lastName.join(' '),
+          role: await getNewAccountRole(settings[0].default_user_role)
+        })
+        .returning()
+        .execute();
+      user = result[0];
+    }
+
+    if (!user.is_active) {
+      throw new Error('Account is deactivated');
+    }
+
+    if (!user.approved_at) {
+      throw new Error('Account is awaiting administrator approval');
+    }
+
+    // The provider vouched for the address, which also covers a pending local verification
+    if (!user.email_verified_at) {
+      await db.update(usersTable)
+        .set({ email_verified_at: new Date() })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    }
+
+    // The provider only stands in for the password, so accounts with a second factor still need it
+    const challenge = await createMfaChallenge(user);
+    if (challenge) return challenge;
+
+    await recordLoginSuccess(user, client);
+    return await createSession(user, client);
+  } catch (error) {
+    console.error('Single sign-on failed:', error);
+    throw error;
+  }
+}
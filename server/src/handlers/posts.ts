@@ -3,33 +3,220 @@ import {
   type UpdatePostInput, 
   type SearchPostsInput,
   type Post, 
-  type PostsResponse 
+  type PostWithTags,
+  type PostBySlug,
+  type PostsResponse,
+  type PostStatus,
+  type RestorePostRevisionInput,
+  type SubmitPostForReviewInput,
+  type AssignPostReviewerInput,
+  type ApprovePostInput,
+  type RequestPostChangesInput,
+  type PostReviewer,
+  type ReviewQueueInput,
+  type ReviewQueueItem,
+  type ValidateContentInput,
+  type ContentValidation,
+  type ConvertContentInput,
+  type ContentFormat
 } from '../schema';
 import { db } from '../db';
-import { postsTable, postTagsTable, usersTable, categoriesTable, tagsTable } from '../db/schema';
-import { eq, and, or, ilike, inArray, desc, asc, count, SQL, sql } from 'drizzle-orm';
+import { postsTable, postTagsTable, postRevisionsTable, usersTable, rolesTable, categoriesTable, tagsTable, mediaTable, commentsTable, seriesPostsTable } from '../db/schema';
+import { recordPostRevision, getPostRevision } from './revisions';
+import { recordSlugChange, releaseSlug, deleteRedirects, resolveRedirect } from './redirects';
+import { ConflictError, unchangedSince } from '../helpers/concurrency';
+import { uniqueSlug } from '../helpers/slugs';
+import { findShortcodeIssues, clearPostEmbeds } from '../helpers/shortcodes';
+import { contentAsMarkdown, convertContent, prepareContent, renderPostContent } from '../helpers/content';
+import { alias } from 'drizzle-orm/pg-core';
+import { eq, ne, and, or, ilike, inArray, arrayContains, desc, asc, count, SQL, sql } from 'drizzle-orm';
 
-export async function createPost(input: CreatePostInput): Promise<Post> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to create a new blog post with content validation,
-  // slug generation, SEO metadata processing, and tag associations.
-  return Promise.resolve({
-    id: 1,
-    title: input.title,
-    slug: input.slug,
-    excerpt: input.excerpt || null,
-    content: input.content,
-    status: input.status,
-    featured_image_id: input.featured_image_id || null,
-    author_id: input.author_id,
-    category_id: input.category_id || null,
-    meta_title: input.meta_title || null,
-    meta_description: input.meta_description || null,
-    canonical_url: input.canonical_url || null,
-    published_at: input.published_at || null,
-    created_at: new Date(),
-    updated_at: new Date()
-  });
+// Foreign keys are not enforced by the database, so referenced rows are checked before writing
+const assertPostReferencesExist = async (
+  executor: Pick<typeof db, 'select'>,
+  refs: { author_id?: number; category_id?: number | null; featured_image_id?: number | null }
+): Promise<void> => {
+  if (refs.author_id !== undefined) {
+    const authors = await executor.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, refs.author_id))
+      .execute();
+    if (authors.length === 0) {
+      throw new Error(`Author with ID ${refs.author_id} does not exist`);
+    }
+  }
+
+  if (refs.category_id !== undefined && refs.category_id !== null) {
+    const categories = await executor.select({ id: categoriesTable.id })
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, refs.category_id))
+      .execute();
+    if (categories.length === 0) {
+      throw new Error(`Category with ID ${refs.category_id} does not exist`);
+    }
+  }
+
+  if (refs.featured_image_id !== undefined && refs.featured_image_id !== null) {
+    const media = await executor.select({ id: mediaTable.id })
+      .from(mediaTable)
+      .where(eq(mediaTable.id, refs.featured_image_id))
+      .execute();
+    if (media.length === 0) {
+      throw new Error(`Featured image with ID ${refs.featured_image_id} does not exist`);
+    }
+  }
+};
+
+// Replaces the post's tags with exactly the given set
+const syncPostTags = async (
+  executor: Pick<typeof db, 'select' | 'insert' | 'delete'>,
+  postId: number,
+  tagIds: number[]
+): Promise<void> => {
+  const uniqueTagIds = [...new Set(tagIds)];
+
+  if (uniqueTagIds.length > 0) {
+    const existing = await executor.select({ id: tagsTable.id })
+      .from(tagsTable)
+      .where(inArray(tagsTable.id, uniqueTagIds))
+      .execute();
+    const missing = uniqueTagIds.filter(id => !existing.some(tag => tag.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Tags with IDs ${missing.join(', ')} do not exist`);
+    }
+  }
+
+  await executor.delete(postTagsTable)
+    .where(eq(postTagsTable.post_id, postId))
+    .execute();
+
+  if (uniqueTagIds.length > 0) {
+    await executor.insert(postTagsTable)
+      .values(uniqueTagIds.map(tagId => ({ post_id: postId, tag_id: tagId })))
+      .execute();
+  }
+};
+
+const getPostTagIds = async (
+  postId: number,
+  executor: Pick<typeof db, 'select'> = db
+): Promise<number[]> => {
+  const rows = await executor.select({ tag_id: postTagsTable.tag_id })
+    .from(postTagsTable)
+    .where(eq(postTagsTable.post_id, postId))
+    .orderBy(asc(postTagsTable.tag_id))
+    .execute();
+  return rows.map(row => row.tag_id);
+};
+
+const findPost = async (id: number, executor: Pick<typeof db, 'select'> = db): Promise<Post> => {
+  const result = await executor.select()
+    .from(postsTable)
+    .where(eq(postsTable.id, id))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`Post with ID ${id} not found`);
+  }
+  return result[0];
+};
+
+// A post keeps its original publication date when it is published again; new or future-dated posts go out now
+const publicationDate = (current: Date | null | undefined, now: Date): Date => {
+  return current && current <= now ? current : now;
+};
+
+// A post saved as published with a future date waits for it as scheduled; scheduling needs that date
+const resolveStatus = (status: PostStatus, publishedAt: Date | null | undefined, now: Date): PostStatus => {
+  const inFuture = !!publishedAt && publishedAt > now;
+  if (status === 'scheduled' && !inFuture) {
+    throw new Error('Scheduled posts need a publication date in the future');
+  }
+  return status === 'published' && inFuture ? 'scheduled' : status;
+};
+
+// Publishing from the admin and by the scheduler both go through here so they have the same effect
+export async function applyPublication(
+  executor: Pick<typeof db, 'update'>,
+  post: Post,
+  now: Date = new Date()
+): Promise<Post> {
+  const result = await executor.update(postsTable)
+    .set({
+      status: 'published',
+      published_at: publicationDate(post.published_at, now),
+      updated_at: now
+    })
+    .where(eq(postsTable.id, post.id))
+    .returning()
+    .execute();
+  await clearPostEmbeds(executor, [post.slug]);
+
+  return result[0];
+}
+
+// Content as it is stored, with its HTML. Rendering looks up media and embedded posts on a connection
+// of its own, so it runs before the save's transaction instead of holding a second connection inside it.
+const renderForSave = async (content: string, format?: ContentFormat) => {
+  const prepared = prepareContent(content, format);
+  return { ...prepared, rendered_html: await renderPostContent(prepared) };
+};
+
+// actorId is whoever saved the post, recorded on its first revision; it defaults to the author
+export async function createPost(input: CreatePostInput, actorId: number = input.author_id): Promise<Post> {
+  try {
+    const content = await renderForSave(input.content, input.content_format);
+
+    return await db.transaction(async (tx) => {
+      await assertPostReferencesExist(tx, input);
+
+      const now = new Date();
+      const status = resolveStatus(input.status, input.published_at, now);
+      const result = await tx.insert(postsTable)
+        .values({
+          title: input.title,
+          slug: await uniqueSlug(tx, postsTable, input.slug ?? input.title, 'post'),
+          excerpt: input.excerpt ?? null,
+          ...content,
+          status,
+          featured_image_id: input.featured_image_id ?? null,
+          author_id: input.author_id,
+          category_id: input.category_id ?? null,
+          meta_title: input.meta_title ?? null,
+          meta_description: input.meta_description ?? null,
+          canonical_url: input.canonical_url ?? null,
+          published_at: status === 'published'
+            ? publicationDate(input.published_at, now)
+            : input.published_at ?? null
+        })
+        .returning()
+        .execute();
+
+      const post = result[0];
+      await releaseSlug(tx, 'post', post.slug);
+      if (input.tag_ids) {
+        await syncPostTags(tx, post.id, input.tag_ids);
+      }
+
+      await recordPostRevision(tx, post, [...new Set(input.tag_ids ?? [])], actorId);
+      return post;
+    });
+  } catch (error) {
+    console.error('Post creation failed:', error);
+    throw error;
+  }
+}
+
+// Fills in rendered_html for posts whose cached HTML was cleared because something they show changed.
+// Reads never write it back; the cache is only filled when the post itself is saved.
+export async function withRenderedHtml<T extends Pick<Post, 'content' | 'content_format' | 'rendered_html'>>(
+  posts: T[]
+): Promise<(T & { rendered_html: string })[]> {
+  const rendered: (T & { rendered_html: string })[] = [];
+  for (const post of posts) {
+    rendered.push({ ...post, rendered_html: post.rendered_html ?? await renderPostContent(post) });
+  }
+  return rendered;
 }
 
 export async function getPosts(input: SearchPostsInput): Promise<PostsResponse> {
@@ -37,13 +224,13 @@ export async function getPosts(input: SearchPostsInput): Promise<PostsResponse>
     // Build conditions array for filtering
     const conditions: SQL<unknown>[] = [];
     
-    // Text search across title, excerpt, and content
+    // Text search across title, excerpt, and content; posts saved before content_text existed match their raw content
     if (input.query) {
       conditions.push(
         or(
           ilike(postsTable.title, `%${input.query}%`),
           ilike(postsTable.excerpt, `%${input.query}%`),
-          ilike(postsTable.content, `%${input.query}%`)
+          ilike(sql`coalesce(${postsTable.content_text}, ${postsTable.content})`, `%${input.query}%`)
         )!
       );
     }
@@ -142,7 +329,7 @@ export async function getPosts(input: SearchPostsInput): Promise<PostsResponse>
     const has_next = input.page < total_pages;
     
     return {
-      posts,
+      posts: await withRenderedHtml(posts),
       pagination: {
         page: input.page,
         limit: input.limit,
@@ -158,94 +345,394 @@ export async function getPosts(input: SearchPostsInput): Promise<PostsResponse>
   }
 }
 
-export async function getPostById(id: number): Promise<Post | null> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch a specific post by ID with all related data
-  // including author, category, tags, and featured image.
-  return Promise.resolve(null);
+export async function getPostById(id: number): Promise<PostWithTags | null> {
+  try {
+    const result = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.id, id))
+      .execute();
+
+    if (result.length === 0) return null;
+    const [post] = await withRenderedHtml(result);
+    return { ...post, tag_ids: await getPostTagIds(id) };
+  } catch (error) {
+    console.error('Post fetch by ID failed:', error);
+    throw error;
+  }
 }
 
-export async function getPostBySlug(slug: string): Promise<Post | null> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch a post by its URL slug for public display,
-  // including SEO metadata and related content suggestions.
-  return Promise.resolve(null);
+// Old slugs of renamed posts still find them, reporting the slug they were found under
+export async function getPostBySlug(slug: string): Promise<PostBySlug | null> {
+  try {
+    const result = await db.select()
+      .from(postsTable)
+      .where(eq(postsTable.slug, slug))
+      .execute();
+
+    if (result.length > 0) {
+      const [post] = await withRenderedHtml(result);
+      return { ...post, tag_ids: await getPostTagIds(post.id), redirected_from: null };
+    }
+
+    const redirect = await resolveRedirect({ entity_type: 'post', slug });
+    if (!redirect) return null;
+
+    const post = await getPostById(redirect.entity_id);
+    return post ? { ...post, redirected_from: slug } : null;
+  } catch (error) {
+    console.error('Post fetch by slug failed:', error);
+    throw error;
+  }
 }
 
-export async function updatePost(input: UpdatePostInput): Promise<Post> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to update post content, metadata, and associations
-  // with proper validation and slug uniqueness checks.
-  return Promise.resolve({
-    id: input.id,
-    title: 'Updated Post',
-    slug: 'updated-post',
-    excerpt: null,
-    content: 'Updated content',
-    status: 'draft',
-    featured_image_id: null,
-    author_id: 1,
-    category_id: null,
-    meta_title: null,
-    meta_description: null,
-    canonical_url: null,
-    published_at: null,
-    created_at: new Date(),
-    updated_at: new Date()
-  });
+export async function getPostAuthorId(id: number): Promise<number | null> {
+  try {
+    const result = await db.select({ author_id: postsTable.author_id })
+      .from(postsTable)
+      .where(eq(postsTable.id, id))
+      .execute();
+
+    return result[0]?.author_id ?? null;
+  } catch (error) {
+    console.error('Post author lookup failed:', error);
+    throw error;
+  }
+}
+
+// What posts.update needs to check permissions before loading the whole post
+export async function getPostAuthorAndStatus(id: number): Promise<{ author_id: number; status: PostStatus } | null> {
+  try {
+    const result = await db.select({ author_id: postsTable.author_id, status: postsTable.status })
+      .from(postsTable)
+      .where(eq(postsTable.id, id))
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Post author and status lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function updatePost(input: UpdatePostInput, actorId?: number): Promise<Post> {
+  try {
+    const existing = await findPost(input.id);
+
+    // A new format on its own converts the current content
+    const format = input.content_format ?? existing.content_format;
+    const content = input.content !== undefined || input.content_format !== undefined
+      ? await renderForSave(input.content ?? await convertContent(existing.content, existing.content_format, format), format)
+      : null;
+
+    return await db.transaction(async (tx) => {
+      await assertPostReferencesExist(tx, input);
+
+      const { id, tag_ids, expected_updated_at, ...fields } = input;
+      const updateData: Partial<typeof postsTable.$inferInsert> = {
+        ...fields,
+        ...content,
+        updated_at: new Date()
+      };
+
+      if (input.slug !== undefined && input.slug !== existing.slug) {
+        updateData.slug = await uniqueSlug(tx, postsTable, input.slug, 'post', id);
+      }
+
+      // Only a change to the status or date is checked, so editing an overdue scheduled post still works
+      if (input.status !== undefined || input.published_at !== undefined) {
+        const now = new Date();
+        const publishedAt = input.published_at !== undefined ? input.published_at : existing.published_at;
+        const status = resolveStatus(input.status ?? existing.status, publishedAt, now);
+        updateData.status = status;
+        if (status === 'published' && existing.status !== 'published') {
+          updateData.published_at = publicationDate(publishedAt, now);
+        }
+      }
+
+      const result = await tx.update(postsTable)
+        .set(updateData)
+        .where(and(eq(postsTable.id, id), unchangedSince(postsTable.updated_at, expected_updated_at)))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        const current = await findPost(id, tx);
+        throw new ConflictError(
+          `Post with ID ${id} was changed by someone else since it was loaded`,
+          { ...current, tag_ids: await getPostTagIds(id, tx) }
+        );
+      }
+
+      // Links to a published post keep working after a rename; unpublished slugs were never public
+      if (existing.status === 'published') {
+        await recordSlugChange(tx, 'post', id, existing.slug, result[0].slug);
+      } else if (result[0].slug !== existing.slug) {
+        await releaseSlug(tx, 'post', result[0].slug);
+      }
+
+      if (tag_ids) {
+        await syncPostTags(tx, id, tag_ids);
+      }
+
+      await clearPostEmbeds(tx, [...new Set([existing.slug, result[0].slug])]);
+      await recordPostRevision(tx, result[0], await getPostTagIds(id, tx), actorId ?? existing.author_id);
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Post update failed:', error);
+    throw error;
+  }
 }
 
 export async function deletePost(id: number): Promise<boolean> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to delete a post and handle cleanup of related data
-  // like comments, tag associations, and SEO redirects.
-  return Promise.resolve(true);
+  try {
+    const post = await findPost(id);
+
+    // Tags, series membership, comments, revisions and redirects only exist for their post
+    await db.transaction(async (tx) => {
+      await tx.delete(postTagsTable).where(eq(postTagsTable.post_id, id)).execute();
+      await tx.delete(seriesPostsTable).where(eq(seriesPostsTable.post_id, id)).execute();
+      await tx.delete(postRevisionsTable).where(eq(postRevisionsTable.post_id, id)).execute();
+      await deleteRedirects(tx, 'post', id);
+      await tx.delete(commentsTable).where(eq(commentsTable.post_id, id)).execute();
+      await tx.delete(postsTable).where(eq(postsTable.id, id)).execute();
+      await clearPostEmbeds(tx, [post.slug]);
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Post deletion failed:', error);
+    throw error;
+  }
 }
 
 export async function publishPost(id: number): Promise<Post> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to publish a draft post, setting published_at timestamp
-  // and triggering any necessary notifications or cache invalidation.
-  return Promise.resolve({
-    id,
-    title: 'Published Post',
-    slug: 'published-post',
-    excerpt: null,
-    content: 'Published content',
-    status: 'published',
-    featured_image_id: null,
-    author_id: 1,
-    category_id: null,
-    meta_title: null,
-    meta_description: null,
-    canonical_url: null,
-    published_at: new Date(),
-    created_at: new Date(),
-    updated_at: new Date()
-  });
+  try {
+    return await applyPublication(db, await findPost(id));
+  } catch (error) {
+    console.error('Post publishing failed:', error);
+    throw error;
+  }
 }
 
+// Archived posts leave the public site but keep their content and publication date
 export async function archivePost(id: number): Promise<Post> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to archive a post, removing it from public view
-  // while preserving content for potential restoration.
-  return Promise.resolve({
-    id,
-    title: 'Archived Post',
-    slug: 'archived-post',
-    excerpt: null,
-    content: 'Archived content',
-    status: 'archived',
-    featured_image_id: null,
-    author_id: 1,
-    category_id: null,
-    meta_title: null,
-    meta_description: null,
-    canonical_url: null,
-    published_at: null,
-    created_at: new Date(),
-    updated_at: new Date()
-  });
+  try {
+    const post = await findPost(id);
+
+    const result = await db.update(postsTable)
+      .set({ status: 'archived', updated_at: new Date() })
+      .where(eq(postsTable.id, id))
+      .returning()
+      .execute();
+    await clearPostEmbeds(db, [post.slug]);
+
+    return result[0];
+  } catch (error) {
+    console.error('Post archiving failed:', error);
+    throw error;
+  }
+}
+
+// Reviewers approve other people's posts, so they need to both publish and edit others' posts
+const REVIEWER_CAPABILITIES = ['post.publish', 'post.edit_others'] as const;
+
+const assertReviewer = async (userId: number): Promise<void> => {
+  const reviewers = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .innerJoin(rolesTable, eq(rolesTable.slug, usersTable.role))
+    .where(and(
+      eq(usersTable.id, userId),
+      eq(usersTable.is_active, true),
+      arrayContains(rolesTable.capabilities, [...REVIEWER_CAPABILITIES])
+    ))
+    .execute();
+
+  if (reviewers.length === 0) {
+    throw new Error(`User with ID ${userId} cannot review posts`);
+  }
+};
+
+const assertPendingReview = (post: Post): void => {
+  if (post.status !== 'pending_review') {
+    throw new Error(`Post with ID ${post.id} is not pending review`);
+  }
+};
+
+// Authors hand a draft over for review; submitting again updates the note or the reviewer
+export async function submitPostForReview(input: SubmitPostForReviewInput): Promise<Post> {
+  try {
+    const post = await findPost(input.id);
+    if (post.status !== 'draft' && post.status !== 'pending_review') {
+      throw new Error('Only drafts can be submitted for review');
+    }
+    if (input.reviewer_id) {
+      await assertReviewer(input.reviewer_id);
+    }
+
+    const result = await db.update(postsTable)
+      .set({
+        status: 'pending_review',
+        reviewer_id: input.reviewer_id !== undefined ? input.reviewer_id : post.reviewer_id,
+        review_notes: input.notes ?? null,
+        updated_at: new Date()
+      })
+      .where(eq(postsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Post review submission failed:', error);
+    throw error;
+  }
+}
+
+export async function assignPostReviewer(input: AssignPostReviewerInput): Promise<Post> {
+  try {
+    assertPendingReview(await findPost(input.id));
+    if (input.reviewer_id !== null) {
+      await assertReviewer(input.reviewer_id);
+    }
+
+    const result = await db.update(postsTable)
+      .set({ reviewer_id: input.reviewer_id, updated_at: new Date() })
+      .where(eq(postsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Post reviewer assignment failed:', error);
+    throw error;
+  }
+}
+
+// Approval publishes the post, or schedules it when the author already picked a future date.
+// Whoever approves is recorded as the reviewer, even if someone else was assigned.
+export async function approvePost(input: ApprovePostInput, reviewerId: number): Promise<Post> {
+  try {
+    const post = await findPost(input.id);
+    assertPendingReview(post);
+
+    const now = new Date();
+    const status = resolveStatus('published', post.published_at, now);
+
+    const result = await db.update(postsTable)
+      .set({
+        status,
+        published_at: status === 'published' ? publicationDate(post.published_at, now) : post.published_at,
+        reviewer_id: reviewerId,
+        review_notes: input.notes ?? null,
+        updated_at: now
+      })
+      .where(eq(postsTable.id, input.id))
+      .returning()
+      .execute();
+    await clearPostEmbeds(db, [post.slug]);
+
+    return result[0];
+  } catch (error) {
+    console.error('Post approval failed:', error);
+    throw error;
+  }
+}
+
+// Sends the post back to its author as a draft, with the reviewer's notes on what to change
+export async function requestPostChanges(input: RequestPostChangesInput, reviewerId: number): Promise<Post> {
+  try {
+    assertPendingReview(await findPost(input.id));
+
+    const result = await db.update(postsTable)
+      .set({
+        status: 'draft',
+        reviewer_id: reviewerId,
+        review_notes: input.notes,
+        updated_at: new Date()
+      })
+      .where(eq(postsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Post change request failed:', error);
+    throw error;
+  }
+}
+
+// Active users who may be assigned as reviewers
+export async function getPostReviewers(): Promise<PostReviewer[]> {
+  try {
+    return await db.select({
+      id: usersTable.id,
+      username: usersTable.username,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name
+    })
+      .from(usersTable)
+      .innerJoin(rolesTable, eq(rolesTable.slug, usersTable.role))
+      .where(and(
+        eq(usersTable.is_active, true),
+        arrayContains(rolesTable.capabilities, [...REVIEWER_CAPABILITIES])
+      ))
+      .orderBy(asc(usersTable.username))
+      .execute();
+  } catch (error) {
+    console.error('Post reviewers fetch failed:', error);
+    throw error;
+  }
+}
+
+// Posts waiting for review, longest waiting first
+export async function getReviewQueue(input: ReviewQueueInput): Promise<ReviewQueueItem[]> {
+  try {
+    const conditions: SQL[] = [eq(postsTable.status, 'pending_review')];
+    if (input.reviewer_id !== undefined) {
+      conditions.push(eq(postsTable.reviewer_id, input.reviewer_id));
+    }
+
+    const reviewers = alias(usersTable, 'reviewers');
+    const rows = await db.select({
+      post: postsTable,
+      author_username: usersTable.username,
+      reviewer_username: reviewers.username
+    })
+      .from(postsTable)
+      .leftJoin(usersTable, eq(postsTable.author_id, usersTable.id))
+      .leftJoin(reviewers, eq(postsTable.reviewer_id, reviewers.id))
+      .where(and(...conditions))
+      .orderBy(asc(postsTable.updated_at), asc(postsTable.id))
+      .execute();
+
+    return rows.map(({ post, author_username, reviewer_username }) => ({ ...post, author_username, reviewer_username }));
+  } catch (error) {
+    console.error('Review queue fetch failed:', error);
+    throw error;
+  }
+}
+
+// Checks shortcodes before saving, since rendering skips the ones it cannot expand.
+// Block content that does not match the block schemas throws instead.
+export async function validatePostContent(input: ValidateContentInput): Promise<ContentValidation> {
+  try {
+    const issues = await findShortcodeIssues(await contentAsMarkdown(input.content, input.content_format ?? 'markdown'));
+    return { valid: issues.length === 0, issues };
+  } catch (error) {
+    console.error('Content validation failed:', error);
+    throw error;
+  }
+}
+
+// Lets the editor switch a draft between Markdown and blocks before it is saved
+export async function convertPostContent(input: ConvertContentInput): Promise<string> {
+  try {
+    return await convertContent(input.content, input.from, input.to);
+  } catch (error) {
+    console.error('Content conversion failed:', error);
+    throw error;
+  }
 }
 
 export async function getRelatedPosts(postId: number, limit: number = 5): Promise<Post[]> {
@@ -255,25 +742,71 @@ export async function getRelatedPosts(postId: number, limit: number = 5): Promis
   return Promise.resolve([]);
 }
 
-export async function duplicatePost(id: number): Promise<Post> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to create a copy of an existing post as a draft,
-  // useful for creating variations or templates.
-  return Promise.resolve({
-    id: 999,
-    title: 'Copy of Post',
-    slug: 'copy-of-post',
-    excerpt: null,
-    content: 'Duplicated content',
-    status: 'draft',
-    featured_image_id: null,
-    author_id: 1,
-    category_id: null,
-    meta_title: null,
-    meta_description: null,
-    canonical_url: null,
-    published_at: null,
-    created_at: new Date(),
-    updated_at: new Date()
-  });
-}
\ No newline at end of file
+// Copies a post and its tags into a new draft
+export async function duplicatePost(id: number, actorId?: number): Promise<Post> {
+  try {
+    const { id: _id, created_at, updated_at, ...original } = await findPost(id);
+    const tagIds = await getPostTagIds(id);
+
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(postsTable)
+        .values({
+          ...original,
+          title: `Copy of ${original.title}`.slice(0, 200),
+          slug: await uniqueSlug(tx, postsTable, `${original.slug}-copy`, 'post'),
+          status: 'draft',
+          reviewer_id: null,
+          review_notes: null,
+          published_at: null
+        })
+        .returning()
+        .execute();
+
+      const post = result[0];
+      await syncPostTags(tx, post.id, tagIds);
+      await recordPostRevision(tx, post, tagIds, actorId ?? post.author_id);
+      return post;
+    });
+  } catch (error) {
+    console.error('Post duplication failed:', error);
+    throw error;
+  }
+}
+
+// The update that puts a revision's content back, so posts.revisions.restore can check it like any
+// other edit. Tags deleted since the revision was taken are left out.
+export async function getRevisionRestoreInput(input: RestorePostRevisionInput): Promise<UpdatePostInput> {
+  const revision = await getPostRevision(input.revision_id);
+  if (!revision || revision.post_id !== input.id) {
+    throw new Error(`Revision with ID ${input.revision_id} not found for post ${input.id}`);
+  }
+
+  const existingTags = revision.tag_ids.length > 0
+    ? await db.select({ id: tagsTable.id })
+      .from(tagsTable)
+      .where(inArray(tagsTable.id, revision.tag_ids))
+      .execute()
+    : [];
+
+  return {
+    id: input.id,
+    title: revision.title,
+    excerpt: revision.excerpt,
+    content: revision.content,
+    content_format: revision.content_format,
+    meta_title: revision.meta_title,
+    meta_description: revision.meta_description,
+    canonical_url: revision.canonical_url,
+    tag_ids: revision.tag_ids.filter(tagId => existingTags.some(tag => tag.id === tagId))
+  };
+}
+
+// Puts a revision's content back as a new save, so the restore itself shows up in the history
+export async function restorePostRevision(input: RestorePostRevisionInput, actorId?: number): Promise<Post> {
+  try {
+    return await updatePost(await getRevisionRestoreInput(input), actorId);
+  } catch (error) {
+    console.error('Post revision restore failed:', error);
+    throw error;
+  }
+}
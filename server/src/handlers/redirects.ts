@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { redirectsTable, postsTable, categoriesTable, tagsTable, seriesTable } from '../db/schema';
+import { type RedirectEntity, type ResolvedRedirect, type ResolveRedirectInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+const SLUGGED_TABLES = {
+  post: postsTable,
+  category: categoriesTable,
+  tag: tagsTable,
+  series: seriesTable
+};
+
+// A slug that is in use again no longer redirects anywhere
+export async function releaseSlug(
+  executor: Pick<typeof db, 'delete'>,
+  entityType: RedirectEntity,
+  slug: string
+): Promise<void> {
+  await executor.delete(redirectsTable)
+    .where(and(eq(redirectsTable.entity_type, entityType), eq(redirectsTable.old_slug, slug)))
+    .execute();
+}
+
+// Called in the renaming transaction: the old slug keeps working as a 301 to the entity
+export async function recordSlugChange(
+  executor: Pick<typeof db, 'insert' | 'delete'>,
+  entityType: RedirectEntity,
+  entityId: number,
+  oldSlug: string,
+  newSlug: string
+): Promise<void> {
+  if (oldSlug === newSlug) return;
+
+  await releaseSlug(executor, entityType, newSlug);
+  await executor.insert(redirectsTable)
+    .values({ entity_type: entityType, entity_id: entityId, old_slug: oldSlug })
+    .onConflictDoUpdate({
+      target: [redirectsTable.entity_type, redirectsTable.old_slug],
+      set: { entity_id: entityId, created_at: new Date() }
+    })
+    .execute();
+}
+
+export async function deleteRedirects(
+  executor: Pick<typeof db, 'delete'>,
+  entityType: RedirectEntity,
+  entityId: number
+): Promise<void> {
+  await executor.delete(redirectsTable)
+    .where(and(eq(redirectsTable.entity_type, entityType), eq(redirectsTable.entity_id, entityId)))
+    .execute();
+}
+
+// Where an old slug leads now, or null if it never belonged to anything
+export async function resolveRedirect(input: ResolveRedirectInput): Promise<ResolvedRedirect | null> {
+  try {
+    const table = SLUGGED_TABLES[input.entity_type];
+    const result = await db.select({
+      entity_id: redirectsTable.entity_id,
+      status_code: redirectsTable.status_code,
+      slug: table.slug
+    })
+      .from(redirectsTable)
+      .innerJoin(table, eq(table.id, redirectsTable.entity_id))
+      .where(and(eq(redirectsTable.entity_type, input.entity_type), eq(redirectsTable.old_slug, input.slug)))
+      .execute();
+
+    if (result.length === 0) return null;
+    return { entity_type: input.entity_type, from: input.slug, ...result[0] };
+  } catch (error) {
+    console.error('Redirect lookup failed:', error);
+    throw error;
+  }
+}
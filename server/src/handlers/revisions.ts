@@ -0,0 +1,130 @@
+import { db } from '../db';
+import { postRevisionsTable, siteSettingsTable, usersTable } from '../db/schema';
+import {
+  type Post,
+  type PostRevision,
+  type PostRevisionSummary,
+  type PostRevisionDiff,
+  type DiffPostRevisionsInput
+} from '../schema';
+import { diffText } from '../helpers/diff';
+import { and, desc, eq, notInArray } from 'drizzle-orm';
+
+const DEFAULT_REVISION_LIMIT = 25;
+
+const DIFFED_FIELDS = ['title', 'excerpt', 'content', 'meta_title', 'meta_description', 'canonical_url'] as const;
+
+// Snapshots the post as just saved, then prunes the oldest revisions beyond the site's limit.
+// Runs inside the caller's transaction so a failed save leaves no revision behind.
+export async function recordPostRevision(
+  executor: Pick<typeof db, 'select' | 'insert' | 'delete'>,
+  post: Post,
+  tagIds: number[],
+  authorId: number
+): Promise<void> {
+  await executor.insert(postRevisionsTable)
+    .values({
+      post_id: post.id,
+      title: post.title,
+      excerpt: post.excerpt,
+      content: post.content,
+      content_format: post.content_format,
+      meta_title: post.meta_title,
+      meta_description: post.meta_description,
+      canonical_url: post.canonical_url,
+      tag_ids: tagIds,
+      author_id: authorId
+    })
+    .execute();
+
+  const settings = await executor.select({ limit: siteSettingsTable.post_revision_limit })
+    .from(siteSettingsTable)
+    .limit(1)
+    .execute();
+  const limit = settings[0]?.limit ?? DEFAULT_REVISION_LIMIT;
+  if (limit === 0) return;
+
+  const kept = executor.select({ id: postRevisionsTable.id })
+    .from(postRevisionsTable)
+    .where(eq(postRevisionsTable.post_id, post.id))
+    .orderBy(desc(postRevisionsTable.id))
+    .limit(limit);
+
+  await executor.delete(postRevisionsTable)
+    .where(and(
+      eq(postRevisionsTable.post_id, post.id),
+      notInArray(postRevisionsTable.id, kept)
+    ))
+    .execute();
+}
+
+export async function getPostRevisions(postId: number): Promise<PostRevisionSummary[]> {
+  try {
+    return await db.select({
+      id: postRevisionsTable.id,
+      post_id: postRevisionsTable.post_id,
+      title: postRevisionsTable.title,
+      author_id: postRevisionsTable.author_id,
+      author_username: usersTable.username,
+      created_at: postRevisionsTable.created_at
+    })
+      .from(postRevisionsTable)
+      .leftJoin(usersTable, eq(postRevisionsTable.author_id, usersTable.id))
+      .where(eq(postRevisionsTable.post_id, postId))
+      .orderBy(desc(postRevisionsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Post revisions fetch failed:', error);
+    throw error;
+  }
+}
+
+export async function getPostRevision(id: number): Promise<PostRevision | null> {
+  try {
+    const result = await db.select()
+      .from(postRevisionsTable)
+      .where(eq(postRevisionsTable.id, id))
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Post revision fetch failed:', error);
+    throw error;
+  }
+}
+
+export async function diffPostRevisions(input: DiffPostRevisionsInput): Promise<PostRevisionDiff> {
+  try {
+    const [from, to] = await Promise.all([getPostRevision(input.from_id), getPostRevision(input.to_id)]);
+    if (!from) {
+      throw new Error(`Revision with ID ${input.from_id} not found`);
+    }
+    if (!to) {
+      throw new Error(`Revision with ID ${input.to_id} not found`);
+    }
+    if (from.post_id !== to.post_id) {
+      throw new Error('Revisions belong to different posts');
+    }
+
+    const fields: PostRevisionDiff['fields'] = [];
+    for (const field of DIFFED_FIELDS) {
+      const before = from[field] ?? '';
+      const after = to[field] ?? '';
+      if (before !== after) {
+        fields.push({ field, changes: diffText(before, after, input.mode) });
+      }
+    }
+
+    return {
+      from_id: from.id,
+      to_id: to.id,
+      mode: input.mode,
+      fields,
+      tags_added: to.tag_ids.filter(id => !from.tag_ids.includes(id)),
+      tags_removed: from.tag_ids.filter(id => !to.tag_ids.includes(id))
+    };
+  } catch (error) {
+    console.error('Post revision diff failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,283 @@
+import { db } from '../db';
+import { rolesTable, usersTable, siteSettingsTable, invitationsTable } from '../db/schema';
+import {
+  capabilitySchema,
+  type Capability,
+  type CreateRoleInput,
+  type Role,
+  type UpdateRoleInput,
+  type UpdatePostInput,
+  type PostStatus
+} from '../schema';
+import { and, asc, count, eq, isNull } from 'drizzle-orm';
+
+export const ALL_CAPABILITIES: Capability[] = capabilitySchema.options;
+
+// The built-in roles, seeded on startup so existing accounts keep the access they had
+export const DEFAULT_ROLES: Array<Pick<Role, 'slug' | 'name' | 'description' | 'capabilities'>> = [
+  {
+    slug: 'admin',
+    name: 'Administrator',
+    description: 'Full access to everything',
+    capabilities: ALL_CAPABILITIES
+  },
+  {
+    slug: 'editor',
+    name: 'Editor',
+    description: 'Can edit all posts and manage content',
+    capabilities: [
+      'post.create',
+      'post.publish',
+      'post.edit_others',
+      'post.edit_meta',
+      'media.upload',
+      'media.edit_others',
+      'comment.moderate',
+      'taxonomy.manage',
+      'search.manage'
+    ]
+  },
+  {
+    slug: 'author',
+    name: 'Author',
+    description: 'Can create and edit own posts',
+    capabilities: ['post.create', 'post.publish', 'media.upload']
+  }
+];
+
+// Roles holding any of these can grant themselves more access, so they are never handed out by self-registration
+const PRIVILEGED_CAPABILITIES: Capability[] = ['users.manage', 'settings.manage'];
+
+export const hasCapability = (capabilities: readonly Capability[], capability: Capability): boolean => {
+  return capabilities.includes(capability);
+};
+
+// Owners need the capability for their own content; everyone else needs the matching "others" capability
+export const canActOnOwned = (
+  userId: number,
+  capabilities: readonly Capability[],
+  ownerId: number,
+  ownCapability: Capability,
+  othersCapability: Capability
+): boolean => {
+  if (hasCapability(capabilities, othersCapability)) return true;
+  return userId === ownerId && hasCapability(capabilities, ownCapability);
+};
+
+// Post fields that post.edit_meta may change on posts the user cannot otherwise edit
+const POST_META_FIELDS = ['id', 'meta_title', 'meta_description', 'canonical_url', 'expected_updated_at'];
+
+export const canEditPost = (
+  userId: number,
+  capabilities: readonly Capability[],
+  authorId: number,
+  input: UpdatePostInput
+): boolean => {
+  if (canActOnOwned(userId, capabilities, authorId, 'post.create', 'post.edit_others')) return true;
+
+  const changedFields = Object.keys(input).filter(key => input[key as keyof UpdatePostInput] !== undefined);
+  return hasCapability(capabilities, 'post.edit_meta') && changedFields.every(key => POST_META_FIELDS.includes(key));
+};
+
+const isLive = (status: PostStatus | undefined): boolean => status === 'published' || status === 'scheduled';
+
+// Changing what readers get needs post.publish: publishing or scheduling a post, and editing one that
+// is already published or scheduled. Taking it off the site and the SEO fields do not.
+export const needsPublishCapability = (currentStatus: PostStatus, input: UpdatePostInput): boolean => {
+  if (isLive(input.status)) return true;
+  if (!isLive(currentStatus) || input.status !== undefined) return false;
+
+  const changedFields = Object.keys(input).filter(key => input[key as keyof UpdatePostInput] !== undefined);
+  return !changedFields.every(key => POST_META_FIELDS.includes(key));
+};
+
+export async function seedDefaultRoles(): Promise<void> {
+  try {
+    await db.transaction(async (tx) => {
+      await tx.insert(rolesTable)
+        .values(DEFAULT_ROLES.map(role => ({ ...role, is_system: true })))
+        .onConflictDoNothing({ target: rolesTable.slug })
+        .execute();
+
+      // Nobody can edit the admin role's capabilities, so it picks up the ones added since it was seeded here
+      await tx.update(rolesTable)
+        .set({ capabilities: ALL_CAPABILITIES })
+        .where(eq(rolesTable.slug, 'admin'))
+        .execute();
+    });
+  } catch (error) {
+    console.error('Seeding default roles failed:', error);
+    throw error;
+  }
+}
+
+export async function getRoles(): Promise<Role[]> {
+  try {
+    return await db.select()
+      .from(rolesTable)
+      .orderBy(asc(rolesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch roles:', error);
+    throw error;
+  }
+}
+
+// Unknown roles resolve to no capabilities rather than an error, so a stale slug can only lose access
+export async function getRoleCapabilities(slug: string): Promise<Capability[]> {
+  try {
+    const roles = await db.select({ capabilities: rolesTable.capabilities })
+      .from(rolesTable)
+      .where(eq(rolesTable.slug, slug))
+      .execute();
+
+    return roles[0]?.capabilities ?? [];
+  } catch (error) {
+    console.error('Failed to fetch role capabilities:', error);
+    throw error;
+  }
+}
+
+export async function assertRoleExists(slug: string): Promise<void> {
+  const roles = await db.select({ id: rolesTable.id })
+    .from(rolesTable)
+    .where(eq(rolesTable.slug, slug))
+    .execute();
+
+  if (roles.length === 0) {
+    throw new Error(`Role ${slug} does not exist`);
+  }
+}
+
+export async function isPrivilegedRole(slug: string): Promise<boolean> {
+  const capabilities = await getRoleCapabilities(slug);
+  return capabilities.some(capability => PRIVILEGED_CAPABILITIES.includes(capability));
+}
+
+// Accounts created without an administrator (self-registration, single sign-on) never get
+// roles that can manage users or settings, even if default_user_role was misconfigured
+export async function getNewAccountRole(defaultRole: string): Promise<string> {
+  const role = await isPrivilegedRole(defaultRole) ? 'author' : defaultRole;
+  await assertRoleExists(role);
+  return role;
+}
+
+export async function createRole(input: CreateRoleInput): Promise<Role> {
+  try {
+    const existing = await db.select({ id: rolesTable.id })
+      .from(rolesTable)
+      .where(eq(rolesTable.slug, input.slug))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Role ${input.slug} already exists`);
+    }
+
+    const result = await db.insert(rolesTable)
+      .values({
+        slug: input.slug,
+        name: input.name,
+        description: input.description ?? null,
+        capabilities: [...new Set(input.capabilities)]
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Role creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateRole(input: UpdateRoleInput): Promise<Role> {
+  try {
+    const roles = await db.select()
+      .from(rolesTable)
+      .where(eq(rolesTable.id, input.id))
+      .execute();
+
+    if (roles.length === 0) {
+      throw new Error(`Role with id ${input.id} not found`);
+    }
+
+    // Trimming the admin role could leave nobody able to manage users or roles
+    if (roles[0].slug === 'admin' && input.capabilities !== undefined) {
+      throw new Error('The admin role always has every capability');
+    }
+
+    const updateData: Partial<typeof rolesTable.$inferInsert> = { updated_at: new Date() };
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.capabilities !== undefined) updateData.capabilities = [...new Set(input.capabilities)];
+
+    const result = await db.update(rolesTable)
+      .set(updateData)
+      .where(eq(rolesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Role update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteRole(id: number): Promise<{ success: boolean }> {
+  try {
+    const roles = await db.select()
+      .from(rolesTable)
+      .where(eq(rolesTable.id, id))
+      .execute();
+
+    if (roles.length === 0) {
+      throw new Error(`Role with id ${id} not found`);
+    }
+
+    const role = roles[0];
+    if (role.is_system) {
+      throw new Error('Built-in roles cannot be deleted');
+    }
+
+    const [{ users }] = await db.select({ users: count() })
+      .from(usersTable)
+      .where(eq(usersTable.role, role.slug))
+      .execute();
+
+    if (users > 0) {
+      throw new Error(`Role ${role.slug} is still assigned to ${users} users`);
+    }
+
+    const settings = await db.select({ default_user_role: siteSettingsTable.default_user_role })
+      .from(siteSettingsTable)
+      .limit(1)
+      .execute();
+
+    if (settings[0]?.default_user_role === role.slug) {
+      throw new Error(`Role ${role.slug} is the default role for new users`);
+    }
+
+    const [{ invitations }] = await db.select({ invitations: count() })
+      .from(invitationsTable)
+      .where(and(
+        eq(invitationsTable.role, role.slug),
+        isNull(invitationsTable.accepted_at),
+        isNull(invitationsTable.revoked_at)
+      ))
+      .execute();
+
+    if (invitations > 0) {
+      throw new Error(`Role ${role.slug} is used by ${invitations} pending invitations`);
+    }
+
+    await db.delete(rolesTable)
+      .where(eq(rolesTable.id, id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Role deletion failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,9 @@
 import { db } from '../db';
-import { postsTable, usersTable, categoriesTable, tagsTable, postTagsTable } from '../db/schema';
-import { eq, desc, and } from 'drizzle-orm';
+import { postsTable, usersTable, categoriesTable, tagsTable, postTagsTable, seriesTable, seriesPostsTable } from '../db/schema';
+import { eq, desc, asc, and } from 'drizzle-orm';
 import { type RssConfig } from '../schema';
+import { withRenderedHtml } from './posts';
+import { htmlToText } from '../helpers/sanitize';
 
 // Helper function to escape XML characters
 function escapeXml(text: string): string {
@@ -13,6 +15,13 @@ function escapeXml(text: string): string {
     .replace(/'/g, '&#39;');
 }
 
+// Plain-text summary for a feed entry: the excerpt, or the start of the rendered content
+function summarize(post: { excerpt: string | null; rendered_html: string }): string {
+  if (post.excerpt) return post.excerpt;
+  const text = htmlToText(post.rendered_html);
+  return text.length > 147 ? text.substring(0, 147) + '...' : text;
+}
+
 // Helper function to get published posts with authors
 async function getPublishedPosts(limit = 20) {
   const results = await db.select({
@@ -21,6 +30,8 @@ async function getPublishedPosts(limit = 20) {
     slug: postsTable.slug,
     excerpt: postsTable.excerpt,
     content: postsTable.content,
+    content_format: postsTable.content_format,
+    rendered_html: postsTable.rendered_html,
     published_at: postsTable.published_at,
     created_at: postsTable.created_at,
     updated_at: postsTable.updated_at,
@@ -34,7 +45,7 @@ async function getPublishedPosts(limit = 20) {
     .limit(limit)
     .execute();
 
-  return results;
+  return withRenderedHtml(results);
 }
 
 // Helper function to get posts by category
@@ -45,6 +56,8 @@ async function getPostsByCategory(categoryId: number, limit = 20) {
     slug: postsTable.slug,
     excerpt: postsTable.excerpt,
     content: postsTable.content,
+    content_format: postsTable.content_format,
+    rendered_html: postsTable.rendered_html,
     published_at: postsTable.published_at,
     created_at: postsTable.created_at,
     updated_at: postsTable.updated_at,
@@ -63,7 +76,7 @@ async function getPostsByCategory(categoryId: number, limit = 20) {
     .limit(limit)
     .execute();
 
-  return results;
+  return withRenderedHtml(results);
 }
 
 // Helper function to get posts by tag
@@ -74,6 +87,8 @@ async function getPostsByTag(tagId: number, limit = 20) {
     slug: postsTable.slug,
     excerpt: postsTable.excerpt,
     content: postsTable.content,
+    content_format: postsTable.content_format,
+    rendered_html: postsTable.rendered_html,
     published_at: postsTable.published_at,
     created_at: postsTable.created_at,
     updated_at: postsTable.updated_at,
@@ -93,7 +108,38 @@ async function getPostsByTag(tagId: number, limit = 20) {
     .limit(limit)
     .execute();
 
-  return results;
+  return withRenderedHtml(results);
+}
+
+// Helper function to get the published parts of a series, in reading order
+async function getPostsBySeries(seriesId: number) {
+  const results = await db.select({
+    id: postsTable.id,
+    title: postsTable.title,
+    slug: postsTable.slug,
+    excerpt: postsTable.excerpt,
+    content: postsTable.content,
+    content_format: postsTable.content_format,
+    rendered_html: postsTable.rendered_html,
+    published_at: postsTable.published_at,
+    created_at: postsTable.created_at,
+    updated_at: postsTable.updated_at,
+    author_name: usersTable.username,
+    author_email: usersTable.email,
+    series_title: seriesTable.title
+  })
+    .from(postsTable)
+    .innerJoin(usersTable, eq(postsTable.author_id, usersTable.id))
+    .innerJoin(seriesPostsTable, eq(postsTable.id, seriesPostsTable.post_id))
+    .innerJoin(seriesTable, eq(seriesPostsTable.series_id, seriesTable.id))
+    .where(and(
+      eq(postsTable.status, 'published'),
+      eq(seriesPostsTable.series_id, seriesId)
+    ))
+    .orderBy(asc(seriesPostsTable.position))
+    .execute();
+
+  return withRenderedHtml(results);
 }
 
 // Helper function to get posts by author
@@ -104,6 +150,8 @@ async function getPostsByAuthor(authorId: number, limit = 20) {
     slug: postsTable.slug,
     excerpt: postsTable.excerpt,
     content: postsTable.content,
+    content_format: postsTable.content_format,
+    rendered_html: postsTable.rendered_html,
     published_at: postsTable.published_at,
     created_at: postsTable.created_at,
     updated_at: postsTable.updated_at,
@@ -120,7 +168,7 @@ async function getPostsByAuthor(authorId: number, limit = 20) {
     .limit(limit)
     .execute();
 
-  return results;
+  return withRenderedHtml(results);
 }
 
 export async function generateRSSFeed(config?: RssConfig): Promise<string> {
@@ -142,8 +190,8 @@ export async function generateRSSFeed(config?: RssConfig): Promise<string> {
       
       return `    <item>
       <title>${escapeXml(post.title)}</title>
-      <description>${escapeXml(post.excerpt || (post.content.length > 147 ? post.content.substring(0, 147) + '...' : post.content))}</description>
-      <content:encoded><![CDATA[${post.content}]]></content:encoded>
+      <description>${escapeXml(summarize(post))}</description>
+      <content:encoded><![CDATA[${post.rendered_html}]]></content:encoded>
       <link>${link}</link>
       <guid>${link}</guid>
       <author>${escapeXml(post.author_email)} (${escapeXml(post.author_name)})</author>
@@ -201,8 +249,8 @@ export async function generateAtomFeed(config?: RssConfig): Promise<string> {
         <name>${escapeXml(post.author_name)}</name>
         <email>${escapeXml(post.author_email)}</email>
       </author>
-      <summary>${escapeXml(post.excerpt || (post.content.length > 147 ? post.content.substring(0, 147) + '...' : post.content))}</summary>
-      <content type="html"><![CDATA[${post.content}]]></content>
+      <summary>${escapeXml(summarize(post))}</summary>
+      <content type="html"><![CDATA[${post.rendered_html}]]></content>
     </entry>`;
     }).join('\n');
 
@@ -258,8 +306,8 @@ export async function generateCategoryRSSFeed(categoryId: number, config?: RssCo
       
       return `    <item>
       <title>${escapeXml(post.title)}</title>
-      <description>${escapeXml(post.excerpt || (post.content.length > 147 ? post.content.substring(0, 147) + '...' : post.content))}</description>
-      <content:encoded><![CDATA[${post.content}]]></content:encoded>
+      <description>${escapeXml(summarize(post))}</description>
+      <content:encoded><![CDATA[${post.rendered_html}]]></content:encoded>
       <link>${link}</link>
       <guid>${link}</guid>
       <author>${escapeXml(post.author_email)} (${escapeXml(post.author_name)})</author>
@@ -321,8 +369,8 @@ export async function generateTagRSSFeed(tagId: number, config?: RssConfig): Pro
       
       return `    <item>
       <title>${escapeXml(post.title)}</title>
-      <description>${escapeXml(post.excerpt || (post.content.length > 147 ? post.content.substring(0, 147) + '...' : post.content))}</description>
-      <content:encoded><![CDATA[${post.content}]]></content:encoded>
+      <description>${escapeXml(summarize(post))}</description>
+      <content:encoded><![CDATA[${post.rendered_html}]]></content:encoded>
       <link>${link}</link>
       <guid>${link}</guid>
       <author>${escapeXml(post.author_email)} (${escapeXml(post.author_name)})</author>
@@ -353,6 +401,72 @@ ${items}
   }
 }
 
+// Series feeds list the parts in reading order rather than newest first
+export async function generateSeriesRSSFeed(seriesId: number, config?: RssConfig): Promise<string> {
+  try {
+    const posts = await getPostsBySeries(seriesId);
+    
+    if (posts.length === 0) {
+      throw new Error(`No posts found for series ID ${seriesId}`);
+    }
+
+    const seriesTitle = posts[0].series_title;
+    
+    const defaultConfig = {
+      title: `${seriesTitle} - Series RSS Feed`,
+      description: `Parts of the ${seriesTitle} series`,
+      link: 'https://example.com',
+      language: 'en'
+    };
+    
+    // For series feeds, use series-specific title and description
+    const feedConfig = { 
+      ...defaultConfig, 
+      ...config,
+      title: `${seriesTitle} - Series RSS Feed`,
+      description: `Parts of the ${seriesTitle} series`
+    };
+    
+    const items = posts.map(post => {
+      const pubDate = post.published_at ? new Date(post.published_at) : new Date(post.created_at);
+      const link = `${feedConfig.link}/posts/${post.slug}`;
+      
+      return `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <description>${escapeXml(summarize(post))}</description>
+      <content:encoded><![CDATA[${post.rendered_html}]]></content:encoded>
+      <link>${link}</link>
+      <guid>${link}</guid>
+      <author>${escapeXml(post.author_email)} (${escapeXml(post.author_name)})</author>
+      <category>${escapeXml(seriesTitle)}</category>
+      <pubDate>${pubDate.toUTCString()}</pubDate>
+    </item>`;
+    }).join('\n');
+
+    // The newest part is not necessarily the last one
+    const published = posts.flatMap(post => post.published_at ? [new Date(post.published_at).getTime()] : []);
+    const lastBuildDate = published.length > 0
+      ? new Date(Math.max(...published)).toUTCString()
+      : new Date().toUTCString();
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(feedConfig.title)}</title>
+    <description>${escapeXml(feedConfig.description)}</description>
+    <link>${feedConfig.link}/series/${seriesId}</link>
+    <language>${feedConfig.language}</language>
+    <lastBuildDate>${lastBuildDate}</lastBuildDate>
+    <generator>Blog CMS</generator>
+${items}
+  </channel>
+</rss>`;
+  } catch (error) {
+    console.error('Series RSS feed generation failed:', error);
+    throw error;
+  }
+}
+
 export async function generateAuthorRSSFeed(authorId: number, config?: RssConfig): Promise<string> {
   try {
     const posts = await getPostsByAuthor(authorId);
@@ -384,8 +498,8 @@ export async function generateAuthorRSSFeed(authorId: number, config?: RssConfig
       
       return `    <item>
       <title>${escapeXml(post.title)}</title>
-      <description>${escapeXml(post.excerpt || (post.content.length > 147 ? post.content.substring(0, 147) + '...' : post.content))}</description>
-      <content:encoded><![CDATA[${post.content}]]></content:encoded>
+      <description>${escapeXml(summarize(post))}</description>
+      <content:encoded><![CDATA[${post.rendered_html}]]></content:encoded>
       <link>${link}</link>
       <guid>${link}</guid>
       <author>${escapeXml(post.author_email)} (${escapeXml(post.author_name)})</author>
@@ -0,0 +1,85 @@
+import { db } from '../db';
+import { postsTable } from '../db/schema';
+import { type Post } from '../schema';
+import { applyPublication } from './posts';
+import { recordAuditEntrySafely } from './audit';
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+
+// Scheduled posts are published by polling the database, so nothing is lost when the server
+// restarts: the first run after startup picks up everything that fell due in the meantime.
+// Every instance runs the scheduler, and a transaction-scoped advisory lock lets only one of
+// them publish at a time.
+
+// Arbitrary application-wide key for pg_try_advisory_xact_lock
+export const SCHEDULER_LOCK_KEY = 7_240_118;
+
+const DEFAULT_INTERVAL_MS = 30_000;
+
+// Publishes every scheduled post whose time has come. Returns nothing when another instance holds the lock.
+export async function publishDuePosts(now: Date = new Date()): Promise<Post[]> {
+  try {
+    const published = await db.transaction(async (tx) => {
+      const lock = await tx.execute<{ locked: boolean }>(sql`select pg_try_advisory_xact_lock(${SCHEDULER_LOCK_KEY}) as locked`);
+      if (!lock.rows[0]?.locked) return [];
+
+      const due = await tx.select()
+        .from(postsTable)
+        .where(and(eq(postsTable.status, 'scheduled'), lte(postsTable.published_at, now)))
+        .orderBy(asc(postsTable.published_at))
+        .for('update', { skipLocked: true })
+        .execute();
+
+      const posts: Post[] = [];
+      for (const post of due) {
+        posts.push(await applyPublication(tx, post, now));
+      }
+      return posts;
+    });
+
+    // There is no request to hang these on, so the audit middleware never sees them
+    for (const post of published) {
+      await recordAuditEntrySafely({
+        actor_id: null,
+        action: 'scheduler.publish',
+        entity_type: 'posts',
+        entity_id: post.id,
+        before: { status: 'scheduled' },
+        after: { status: 'published' },
+        ip: null
+      });
+    }
+
+    return published;
+  } catch (error) {
+    console.error('Publishing scheduled posts failed:', error);
+    throw error;
+  }
+}
+
+// Runs publishDuePosts now and then every SCHEDULER_INTERVAL_MS (30 seconds by default).
+// Returns a function that stops the scheduler.
+export function startScheduler(
+  intervalMs: number = Number(process.env['SCHEDULER_INTERVAL_MS']) || DEFAULT_INTERVAL_MS
+): () => void {
+  let running = false;
+
+  const tick = async () => {
+    // A slow run is not stacked on by the next one
+    if (running) return;
+    running = true;
+    try {
+      const published = await publishDuePosts();
+      if (published.length > 0) {
+        console.log(`Published ${published.length} scheduled post(s): ${published.map(post => post.slug).join(', ')}`);
+      }
+    } catch {
+      // Already logged; the next tick tries again
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
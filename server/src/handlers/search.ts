@@ -8,6 +8,7 @@ import {
   mediaTable 
 } from '../db/schema';
 import { type SearchPostsInput, type PostsResponse, type Post } from '../schema';
+import { withRenderedHtml } from './posts';
 import { 
   sql, 
   eq, 
@@ -35,7 +36,7 @@ export async function searchPosts(input: SearchPostsInput): Promise<PostsRespons
       conditions.push(
         or(
           ilike(postsTable.title, searchPattern),
-          ilike(postsTable.content, searchPattern),
+          ilike(sql`coalesce(${postsTable.content_text}, ${postsTable.content})`, searchPattern),
           ilike(postsTable.excerpt, searchPattern)
         )!
       );
@@ -81,6 +82,9 @@ export async function searchPosts(input: SearchPostsInput): Promise<PostsRespons
         slug: postsTable.slug,
         excerpt: postsTable.excerpt,
         content: postsTable.content,
+        content_format: postsTable.content_format,
+        word_count: postsTable.word_count,
+        rendered_html: postsTable.rendered_html,
         status: postsTable.status,
         featured_image_id: postsTable.featured_image_id,
         author_id: postsTable.author_id,
@@ -88,6 +92,8 @@ export async function searchPosts(input: SearchPostsInput): Promise<PostsRespons
         meta_title: postsTable.meta_title,
         meta_description: postsTable.meta_description,
         canonical_url: postsTable.canonical_url,
+        reviewer_id: postsTable.reviewer_id,
+        review_notes: postsTable.review_notes,
         published_at: postsTable.published_at,
         created_at: postsTable.created_at,
         updated_at: postsTable.updated_at
@@ -125,7 +131,7 @@ export async function searchPosts(input: SearchPostsInput): Promise<PostsRespons
     const hasNext = input.page < totalPages;
 
     return {
-      posts,
+      posts: await withRenderedHtml(posts),
       pagination: {
         page: input.page,
         limit: input.limit,
@@ -1,8 +1,17 @@
 import { db } from '../db';
 import { postsTable, categoriesTable, siteSettingsTable } from '../db/schema';
 import { type Post } from '../schema';
+import { prepareContent, renderPostContent } from '../helpers/content';
+import { htmlToText } from '../helpers/sanitize';
 import { eq } from 'drizzle-orm';
 
+// Plain-text description from the excerpt, or else from the start of the rendered content
+const describe = async (post: Post): Promise<string> => {
+  if (post.excerpt) return post.excerpt;
+  const text = htmlToText(post.rendered_html ?? await renderPostContent(post));
+  return text.length > 160 ? text.substring(0, 160) + '...' : text;
+};
+
 export async function generateSitemap(): Promise<string> {
   try {
     // Get site settings for base URL
@@ -111,7 +120,7 @@ export async function generatePostMetadata(post: Post): Promise<{
     
     const canonicalUrl = post.canonical_url || `${baseUrl}/posts/${post.slug}`;
     const title = post.meta_title || `${post.title} | ${siteTitle}`;
-    const description = post.meta_description || post.excerpt || (post.content.length > 160 ? post.content.substring(0, 160) + '...' : post.content);
+    const description = post.meta_description || await describe(post);
     
     return {
       title,
@@ -154,7 +163,7 @@ export async function generateStructuredData(post: Post): Promise<Record<string,
       '@context': 'https://schema.org',
       '@type': 'BlogPosting',
       'headline': post.title,
-      'description': post.excerpt || (post.content.length > 160 ? post.content.substring(0, 160) + '...' : post.content),
+      'description': await describe(post),
       'url': post.canonical_url || `${baseUrl}/posts/${post.slug}`,
       'datePublished': post.published_at?.toISOString() || post.created_at.toISOString(),
       'dateModified': post.updated_at.toISOString(),
@@ -217,11 +226,12 @@ export async function analyzePostSEO(post: Post): Promise<{
       score -= 8;
     }
     
-    // Content analysis
-    if (!post.content || post.content.length === 0) {
+    // Content analysis, on the text readers see rather than the Markdown or block JSON
+    const text = post.content ? prepareContent(post.content, post.content_format).content_text : '';
+    if (text.length === 0) {
       issues.push('Missing content');
       score -= 25;
-    } else if (post.content.length < 300) {
+    } else if (text.length < 300) {
       recommendations.push('Content is quite short - consider adding more detail');
       score -= 10;
     }
@@ -0,0 +1,254 @@
+import { db } from '../db';
+import { seriesTable, seriesPostsTable, postsTable, mediaTable } from '../db/schema';
+import {
+  type CreateSeriesInput,
+  type UpdateSeriesInput,
+  type Series,
+  type SeriesPart,
+  type SeriesWithParts,
+  type SeriesNavigation
+} from '../schema';
+import { recordSlugChange, releaseSlug, deleteRedirects } from './redirects';
+import { ConflictError, unchangedSince } from '../helpers/concurrency';
+import { uniqueSlug } from '../helpers/slugs';
+import { and, asc, eq, inArray, ne } from 'drizzle-orm';
+
+const assertCoverExists = async (executor: Pick<typeof db, 'select'>, coverMediaId: number | null | undefined): Promise<void> => {
+  if (coverMediaId === undefined || coverMediaId === null) return;
+
+  const media = await executor.select({ id: mediaTable.id })
+    .from(mediaTable)
+    .where(eq(mediaTable.id, coverMediaId))
+    .execute();
+  if (media.length === 0) {
+    throw new Error(`Cover media with ID ${coverMediaId} does not exist`);
+  }
+};
+
+// Replaces the series' parts with exactly these posts, in this order. A post already in another
+// series has to be taken out of it first.
+const syncSeriesPosts = async (
+  executor: Pick<typeof db, 'select' | 'insert' | 'delete'>,
+  seriesId: number,
+  postIds: number[]
+): Promise<void> => {
+  const uniquePostIds = [...new Set(postIds)];
+
+  if (uniquePostIds.length > 0) {
+    const existing = await executor.select({ id: postsTable.id })
+      .from(postsTable)
+      .where(inArray(postsTable.id, uniquePostIds))
+      .execute();
+    const missing = uniquePostIds.filter(id => !existing.some(post => post.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Posts with IDs ${missing.join(', ')} do not exist`);
+    }
+
+    const taken = await executor.select({ post_id: seriesPostsTable.post_id, title: seriesTable.title })
+      .from(seriesPostsTable)
+      .innerJoin(seriesTable, eq(seriesTable.id, seriesPostsTable.series_id))
+      .where(and(inArray(seriesPostsTable.post_id, uniquePostIds), ne(seriesPostsTable.series_id, seriesId)))
+      .execute();
+    if (taken.length > 0) {
+      throw new Error(`Post with ID ${taken[0].post_id} is already part of the series "${taken[0].title}"`);
+    }
+  }
+
+  await executor.delete(seriesPostsTable)
+    .where(eq(seriesPostsTable.series_id, seriesId))
+    .execute();
+
+  if (uniquePostIds.length > 0) {
+    await executor.insert(seriesPostsTable)
+      .values(uniquePostIds.map((postId, index) => ({ series_id: seriesId, post_id: postId, position: index + 1 })))
+      .execute();
+  }
+};
+
+// Every part of the series in reading order, unpublished ones included
+const getSeriesParts = async (seriesId: number, executor: Pick<typeof db, 'select'> = db): Promise<SeriesPart[]> => {
+  const rows = await executor.select({
+    id: postsTable.id,
+    title: postsTable.title,
+    slug: postsTable.slug,
+    excerpt: postsTable.excerpt,
+    status: postsTable.status,
+    published_at: postsTable.published_at
+  })
+    .from(seriesPostsTable)
+    .innerJoin(postsTable, eq(postsTable.id, seriesPostsTable.post_id))
+    .where(eq(seriesPostsTable.series_id, seriesId))
+    .orderBy(asc(seriesPostsTable.position))
+    .execute();
+
+  return rows.map((row, index) => ({ ...row, part: index + 1 }));
+};
+
+export async function createSeries(input: CreateSeriesInput): Promise<Series> {
+  try {
+    return await db.transaction(async (tx) => {
+      await assertCoverExists(tx, input.cover_media_id);
+
+      const result = await tx.insert(seriesTable)
+        .values({
+          title: input.title,
+          slug: await uniqueSlug(tx, seriesTable, input.slug ?? input.title, 'series'),
+          description: input.description || null,
+          cover_media_id: input.cover_media_id ?? null
+        })
+        .returning()
+        .execute();
+
+      const series = result[0];
+      await releaseSlug(tx, 'series', series.slug);
+      if (input.post_ids) {
+        await syncSeriesPosts(tx, series.id, input.post_ids);
+      }
+      return series;
+    });
+  } catch (error) {
+    console.error('Series creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getSeries(): Promise<Series[]> {
+  try {
+    return await db.select()
+      .from(seriesTable)
+      .orderBy(asc(seriesTable.title))
+      .execute();
+  } catch (error) {
+    console.error('Series fetch failed:', error);
+    throw error;
+  }
+}
+
+// For editing: lists unpublished parts too
+export async function getSeriesById(id: number): Promise<SeriesWithParts | null> {
+  try {
+    const result = await db.select()
+      .from(seriesTable)
+      .where(eq(seriesTable.id, id))
+      .execute();
+
+    if (result.length === 0) return null;
+    return { ...result[0], parts: await getSeriesParts(id) };
+  } catch (error) {
+    console.error('Series fetch by ID failed:', error);
+    throw error;
+  }
+}
+
+// For the public site: only published parts, still numbered by their place in the whole series
+export async function getSeriesBySlug(slug: string): Promise<SeriesWithParts | null> {
+  try {
+    const result = await db.select()
+      .from(seriesTable)
+      .where(eq(seriesTable.slug, slug))
+      .execute();
+
+    if (result.length === 0) return null;
+    const parts = await getSeriesParts(result[0].id);
+    return { ...result[0], parts: parts.filter(part => part.status === 'published') };
+  } catch (error) {
+    console.error('Series fetch by slug failed:', error);
+    throw error;
+  }
+}
+
+export async function updateSeries(input: UpdateSeriesInput): Promise<Series> {
+  try {
+    const updateData: Partial<typeof seriesTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.title !== undefined) updateData.title = input.title;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.cover_media_id !== undefined) updateData.cover_media_id = input.cover_media_id;
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(seriesTable).where(eq(seriesTable.id, input.id)).execute();
+      if (existing.length === 0) {
+        throw new Error(`Series with ID ${input.id} not found`);
+      }
+
+      await assertCoverExists(tx, input.cover_media_id);
+      if (input.slug !== undefined) {
+        updateData.slug = await uniqueSlug(tx, seriesTable, input.slug, 'series', input.id);
+      }
+
+      const result = await tx.update(seriesTable)
+        .set(updateData)
+        .where(and(eq(seriesTable.id, input.id), unchangedSince(seriesTable.updated_at, input.expected_updated_at)))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        const current = await tx.select().from(seriesTable).where(eq(seriesTable.id, input.id)).execute();
+        throw new ConflictError(`Series with ID ${input.id} was changed by someone else since it was loaded`, current[0]);
+      }
+
+      // Series pages are public, so links to the old slug keep working
+      await recordSlugChange(tx, 'series', input.id, existing[0].slug, result[0].slug);
+      if (input.post_ids) {
+        await syncSeriesPosts(tx, input.id, input.post_ids);
+      }
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Series update failed:', error);
+    throw error;
+  }
+}
+
+// The posts themselves stay; they are just no longer part of a series
+export async function deleteSeries(id: number): Promise<boolean> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.delete(seriesPostsTable).where(eq(seriesPostsTable.series_id, id)).execute();
+      await deleteRedirects(tx, 'series', id);
+      const result = await tx.delete(seriesTable)
+        .where(eq(seriesTable.id, id))
+        .returning({ id: seriesTable.id })
+        .execute();
+
+      return result.length > 0;
+    });
+  } catch (error) {
+    console.error('Series deletion failed:', error);
+    throw error;
+  }
+}
+
+// The previous and next parts around a post and the series' table of contents, or null for a post
+// outside any series. Unpublished parts are left out, except the post asked about, so that its
+// preview shows where it will go.
+export async function getSeriesNavigation(postId: number): Promise<SeriesNavigation | null> {
+  try {
+    const membership = await db.select({ series: seriesTable })
+      .from(seriesPostsTable)
+      .innerJoin(seriesTable, eq(seriesTable.id, seriesPostsTable.series_id))
+      .where(eq(seriesPostsTable.post_id, postId))
+      .execute();
+
+    if (membership.length === 0) return null;
+    const { series } = membership[0];
+
+    const allParts = await getSeriesParts(series.id);
+    const parts = allParts.filter(part => part.status === 'published' || part.id === postId);
+    const index = parts.findIndex(part => part.id === postId);
+
+    return {
+      series,
+      current: parts[index],
+      previous: parts[index - 1] ?? null,
+      next: parts[index + 1] ?? null,
+      parts,
+      total_parts: allParts.length
+    };
+  } catch (error) {
+    console.error('Series navigation fetch failed:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,11 @@
 import { db } from '../db';
 import { siteSettingsTable } from '../db/schema';
 import { type UpdateSiteSettingsInput, type SiteSettings } from '../schema';
+import { getOidcConfig } from '../helpers/oidc';
+import { ConflictError, unchangedSince } from '../helpers/concurrency';
+
+// Without another way in, turning off passwords would lock everyone out
+const PASSWORD_LOGIN_REQUIRED_ERROR = 'Password sign-in cannot be disabled until single sign-on is configured';
 
 export const getSiteSettings = async (): Promise<SiteSettings | null> => {
   try {
@@ -22,6 +27,10 @@ export const getSiteSettings = async (): Promise<SiteSettings | null> => {
 
 export const updateSiteSettings = async (input: UpdateSiteSettingsInput): Promise<SiteSettings> => {
   try {
+    if (input.password_login_enabled === false && !getOidcConfig()) {
+      throw new Error(PASSWORD_LOGIN_REQUIRED_ERROR);
+    }
+
     // Check if settings exist
     const existingSettings = await getSiteSettings();
     
@@ -37,10 +46,15 @@ export const updateSiteSettings = async (input: UpdateSiteSettingsInput): Promis
           comments_enabled: input.comments_enabled ?? true,
           comment_moderation: input.comment_moderation ?? true,
           allow_registration: input.allow_registration ?? false,
+          registration_requires_approval: input.registration_requires_approval ?? false,
           default_user_role: input.default_user_role || 'author',
           timezone: input.timezone || 'UTC',
           date_format: input.date_format || 'YYYY-MM-DD',
           time_format: input.time_format || 'HH:mm:ss',
+          mfa_required_roles: input.mfa_required_roles || [],
+          password_login_enabled: input.password_login_enabled ?? true,
+          oidc_auto_provision: input.oidc_auto_provision ?? false,
+          post_revision_limit: input.post_revision_limit ?? 25,
           updated_at: new Date()
         })
         .returning()
@@ -62,16 +76,26 @@ export const updateSiteSettings = async (input: UpdateSiteSettingsInput): Promis
       if (input.comments_enabled !== undefined) updateData['comments_enabled'] = input.comments_enabled;
       if (input.comment_moderation !== undefined) updateData['comment_moderation'] = input.comment_moderation;
       if (input.allow_registration !== undefined) updateData['allow_registration'] = input.allow_registration;
+      if (input.registration_requires_approval !== undefined) updateData['registration_requires_approval'] = input.registration_requires_approval;
       if (input.default_user_role !== undefined) updateData['default_user_role'] = input.default_user_role;
       if (input.timezone !== undefined) updateData['timezone'] = input.timezone;
       if (input.date_format !== undefined) updateData['date_format'] = input.date_format;
       if (input.time_format !== undefined) updateData['time_format'] = input.time_format;
+      if (input.mfa_required_roles !== undefined) updateData['mfa_required_roles'] = input.mfa_required_roles;
+      if (input.password_login_enabled !== undefined) updateData['password_login_enabled'] = input.password_login_enabled;
+      if (input.oidc_auto_provision !== undefined) updateData['oidc_auto_provision'] = input.oidc_auto_provision;
+      if (input.post_revision_limit !== undefined) updateData['post_revision_limit'] = input.post_revision_limit;
 
       const result = await db.update(siteSettingsTable)
         .set(updateData)
+        .where(unchangedSince(siteSettingsTable.updated_at, input.expected_updated_at))
         .returning()
         .execute();
 
+      if (result.length === 0) {
+        throw new ConflictError('Site settings were changed by someone else since they were loaded', await getSiteSettings());
+      }
+
       return result[0];
     }
   } catch (error) {
@@ -94,10 +118,15 @@ export const resetToDefaults = async (): Promise<SiteSettings> => {
       comments_enabled: true,
       comment_moderation: true,
       allow_registration: false,
+      registration_requires_approval: false,
       default_user_role: 'author' as const,
       timezone: 'UTC',
       date_format: 'YYYY-MM-DD',
       time_format: 'HH:mm:ss',
+      mfa_required_roles: [] as string[],
+      password_login_enabled: true,
+      oidc_auto_provision: false,
+      post_revision_limit: 25,
       updated_at: new Date()
     };
 
@@ -188,6 +217,10 @@ export const validateSettings = async (input: UpdateSiteSettingsInput): Promise<
       }
     }
 
+    if (input.post_revision_limit !== undefined && input.post_revision_limit < 0) {
+      errors.push('post_revision_limit cannot be negative');
+    }
+
     // Validate timezone
     if (input.timezone) {
       const validTimezones = await getTimezones();
@@ -196,6 +229,15 @@ export const validateSettings = async (input: UpdateSiteSettingsInput): Promise<
       }
     }
 
+    // Visitors must never be able to sign themselves up as administrators
+    if (input.allow_registration && input.default_user_role === 'admin') {
+      errors.push('default_user_role cannot be admin while registration is open');
+    }
+
+    if (input.password_login_enabled === false && !getOidcConfig()) {
+      errors.push(PASSWORD_LOGIN_REQUIRED_ERROR);
+    }
+
     // Validate required fields are not empty strings
     if (input.site_title === '') {
       errors.push('site_title cannot be empty');
@@ -1,20 +1,26 @@
 import { db } from '../db';
 import { tagsTable, postTagsTable } from '../db/schema';
 import { type CreateTagInput, type UpdateTagInput, type Tag } from '../schema';
-import { eq, count, desc, asc, ilike, sql } from 'drizzle-orm';
+import { recordSlugChange, releaseSlug, deleteRedirects } from './redirects';
+import { ConflictError, unchangedSince } from '../helpers/concurrency';
+import { uniqueSlug } from '../helpers/slugs';
+import { and, eq, count, desc, asc, ilike, sql } from 'drizzle-orm';
 
 export async function createTag(input: CreateTagInput): Promise<Tag> {
   try {
-    const result = await db.insert(tagsTable)
-      .values({
-        name: input.name,
-        slug: input.slug,
-        description: input.description || null
-      })
-      .returning()
-      .execute();
-
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(tagsTable)
+        .values({
+          name: input.name,
+          slug: await uniqueSlug(tx, tagsTable, input.slug ?? input.name, 'tag'),
+          description: input.description || null
+        })
+        .returning()
+        .execute();
+
+      await releaseSlug(tx, 'tag', result[0].slug);
+      return result[0];
+    });
   } catch (error) {
     console.error('Tag creation failed:', error);
     throw error;
@@ -68,23 +74,36 @@ export async function updateTag(input: UpdateTagInput): Promise<Tag> {
     const updateData: Partial<typeof tagsTable.$inferInsert> = {};
     
     if (input.name !== undefined) updateData.name = input.name;
-    if (input.slug !== undefined) updateData.slug = input.slug;
     if (input.description !== undefined) updateData.description = input.description;
     
     // Always update the updated_at timestamp
     updateData.updated_at = new Date();
 
-    const result = await db.update(tagsTable)
-      .set(updateData)
-      .where(eq(tagsTable.id, input.id))
-      .returning()
-      .execute();
-
-    if (result.length === 0) {
-      throw new Error(`Tag with ID ${input.id} not found`);
-    }
-
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(tagsTable).where(eq(tagsTable.id, input.id)).execute();
+      if (existing.length === 0) {
+        throw new Error(`Tag with ID ${input.id} not found`);
+      }
+
+      if (input.slug !== undefined) {
+        updateData.slug = await uniqueSlug(tx, tagsTable, input.slug, 'tag', input.id);
+      }
+
+      const result = await tx.update(tagsTable)
+        .set(updateData)
+        .where(and(eq(tagsTable.id, input.id), unchangedSince(tagsTable.updated_at, input.expected_updated_at)))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        const current = await tx.select().from(tagsTable).where(eq(tagsTable.id, input.id)).execute();
+        throw new ConflictError(`Tag with ID ${input.id} was changed by someone else since it was loaded`, current[0]);
+      }
+
+      // Tag archives are always public, so links to the old slug keep working
+      await recordSlugChange(tx, 'tag', input.id, existing[0].slug, result[0].slug);
+      return result[0];
+    });
   } catch (error) {
     console.error('Tag update failed:', error);
     throw error;
@@ -98,6 +117,8 @@ export async function deleteTag(id: number): Promise<boolean> {
       .where(eq(postTagsTable.tag_id, id))
       .execute();
 
+    await deleteRedirects(db, 'tag', id);
+
     // Then delete the tag itself
     const result = await db.delete(tagsTable)
       .where(eq(tagsTable.id, id))
@@ -0,0 +1,136 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { usersTable, apiTokensTable } from '../db/schema';
+import {
+  type ApiToken,
+  type ApiTokenScope,
+  type CreateApiTokenInput,
+  type CreatedApiToken,
+  type PublicUser
+} from '../schema';
+import { withoutPassword } from './auth';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+
+// Personal API tokens look like `pat_<43 base64url chars>` so they can be told apart from
+// session JWTs in the Authorization header and spotted by secret scanners.
+export const API_TOKEN_PREFIX = 'pat_';
+const DISPLAY_PREFIX_LENGTH = 12;
+// last_used_at is only bumped this often, to avoid a write per request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+const hashApiToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+const toApiToken = (record: typeof apiTokensTable.$inferSelect): ApiToken => ({
+  id: record.id,
+  name: record.name,
+  token_prefix: record.token_prefix,
+  scopes: record.scopes,
+  expires_at: record.expires_at,
+  last_used_at: record.last_used_at,
+  created_at: record.created_at
+});
+
+export const isApiToken = (token: string): boolean => {
+  return token.startsWith(API_TOKEN_PREFIX);
+};
+
+// Resolves a personal API token into its owner and granted scopes
+export async function authenticateApiToken(
+  token: string
+): Promise<{ user: PublicUser; token_id: number; scopes: ApiTokenScope[] } | null> {
+  try {
+    const results = await db.select({ user: usersTable, apiToken: apiTokensTable })
+      .from(apiTokensTable)
+      .innerJoin(usersTable, eq(usersTable.id, apiTokensTable.user_id))
+      .where(eq(apiTokensTable.token_hash, hashApiToken(token)))
+      .execute();
+
+    if (results.length === 0) return null;
+
+    const { user, apiToken } = results[0];
+    if (apiToken.revoked_at || !user.is_active) return null;
+    if (apiToken.expires_at && apiToken.expires_at <= new Date()) return null;
+
+    if (!apiToken.last_used_at || Date.now() - apiToken.last_used_at.getTime() > LAST_USED_INTERVAL_MS) {
+      await db.update(apiTokensTable)
+        .set({ last_used_at: new Date() })
+        .where(eq(apiTokensTable.id, apiToken.id))
+        .execute();
+    }
+
+    return { user: withoutPassword(user), token_id: apiToken.id, scopes: apiToken.scopes };
+  } catch (error) {
+    console.error('API token verification failed:', error);
+    return null;
+  }
+}
+
+export async function createApiToken(userId: number, input: CreateApiTokenInput): Promise<CreatedApiToken> {
+  try {
+    if (input.expires_at && input.expires_at <= new Date()) {
+      throw new Error('Token expiry must be in the future');
+    }
+
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const result = await db.insert(apiTokensTable)
+      .values({
+        user_id: userId,
+        name: input.name,
+        token_prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        token_hash: hashApiToken(token),
+        scopes: [...new Set(input.scopes)],
+        expires_at: input.expires_at ?? null
+      })
+      .returning()
+      .execute();
+
+    return { api_token: toApiToken(result[0]), token };
+  } catch (error) {
+    console.error('API token creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getApiTokens(userId: number): Promise<ApiToken[]> {
+  try {
+    const tokens = await db.select()
+      .from(apiTokensTable)
+      .where(and(
+        eq(apiTokensTable.user_id, userId),
+        isNull(apiTokensTable.revoked_at)
+      ))
+      .orderBy(desc(apiTokensTable.created_at))
+      .execute();
+
+    return tokens.map(toApiToken);
+  } catch (error) {
+    console.error('Failed to fetch API tokens:', error);
+    throw error;
+  }
+}
+
+export async function revokeApiToken(userId: number, tokenId: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.update(apiTokensTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(apiTokensTable.id, tokenId),
+        eq(apiTokensTable.user_id, userId),
+        isNull(apiTokensTable.revoked_at)
+      ))
+      .returning({ id: apiTokensTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`API token with id ${tokenId} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('API token revocation failed:', error);
+    throw error;
+  }
+}
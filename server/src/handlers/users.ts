@@ -1,12 +1,34 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type UpdateUserInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import {
+  usersTable,
+  postsTable,
+  mediaTable,
+  commentsTable,
+  refreshTokensTable,
+  sessionsTable,
+  apiTokensTable,
+  userTokensTable,
+  mfaRecoveryCodesTable
+} from '../db/schema';
+import {
+  type CreateUserInput,
+  type UpdateUserInput,
+  type DeleteUserInput,
+  type DeleteUserResult,
+  type ChangePasswordInput,
+  type SetPasswordInput,
+  type PublicUser
+} from '../schema';
+import { hashPassword, verifyPassword } from '../helpers/password';
+import { revokeUserSessions, withoutPassword } from './auth';
+import { sendEmailVerification } from './account';
+import { assertRoleExists } from './roles';
+import { count, eq } from 'drizzle-orm';
 
-export const createUser = async (input: CreateUserInput): Promise<User> => {
+export const createUser = async (input: CreateUserInput): Promise<PublicUser> => {
   try {
-    // Hash the password (in a real app, use bcrypt)
-    const password_hash = `hashed_${input.password}`;
+    await assertRoleExists(input.role);
+    const password_hash = await hashPassword(input.password);
 
     // Insert user record
     const result = await db.insert(usersTable)
@@ -18,47 +40,53 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
         last_name: input.last_name,
         role: input.role,
         bio: input.bio || null,
-        avatar_url: input.avatar_url || null
+        avatar_url: input.avatar_url || null,
+        email_verified_at: null
       })
       .returning()
       .execute();
 
-    return result[0];
+    // New accounts cannot sign in until they confirm their address
+    await sendEmailVerification(result[0].id);
+
+    return withoutPassword(result[0]);
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
   }
 };
 
-export const getUsers = async (): Promise<User[]> => {
+export const getUsers = async (): Promise<PublicUser[]> => {
   try {
     const users = await db.select()
       .from(usersTable)
       .execute();
 
-    return users;
+    return users.map(withoutPassword);
   } catch (error) {
     console.error('Failed to fetch users:', error);
     throw error;
   }
 };
 
-export const getUserById = async (id: number): Promise<User | null> => {
+export const getUserById = async (id: number): Promise<PublicUser | null> => {
   try {
     const users = await db.select()
       .from(usersTable)
       .where(eq(usersTable.id, id))
       .execute();
 
-    return users[0] || null;
+    return users[0] ? withoutPassword(users[0]) : null;
   } catch (error) {
     console.error('Failed to fetch user by id:', error);
     throw error;
   }
 };
 
-export const updateUser = async (input: UpdateUserInput): Promise<User> => {
+export const updateUser = async (input: UpdateUserInput): Promise<PublicUser> => {
   try {
+    if (input.role !== undefined) await assertRoleExists(input.role);
+
     // Build update object with only provided fields
     const updateData: Partial<typeof usersTable.$inferInsert> = {};
     
@@ -84,23 +112,198 @@ export const updateUser = async (input: UpdateUserInput): Promise<User> => {
       throw new Error(`User with id ${input.id} not found`);
     }
 
-    return result[0];
+    // A deactivated account must not keep working through sessions it already had
+    if (input.is_active === false) {
+      await revokeUserSessions(input.id);
+    }
+
+    return withoutPassword(result[0]);
   } catch (error) {
     console.error('User update failed:', error);
     throw error;
   }
 };
 
-export const deleteUser = async (id: number): Promise<boolean> => {
+// Lets a self-registered account in once an admin has vetted it
+export const approveUser = async (id: number): Promise<PublicUser> => {
   try {
-    const result = await db.delete(usersTable)
+    const result = await db.update(usersTable)
+      .set({ approved_at: new Date(), updated_at: new Date() })
       .where(eq(usersTable.id, id))
-      .returning({ id: usersTable.id })
+      .returning()
       .execute();
 
-    return result.length > 0;
+    if (result.length === 0) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    return withoutPassword(result[0]);
+  } catch (error) {
+    console.error('User approval failed:', error);
+    throw error;
+  }
+};
+
+export const deleteUser = async (input: DeleteUserInput): Promise<DeleteUserResult> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${input.id} not found`);
+    }
+
+    if (input.deactivate && input.reassign_to !== undefined) {
+      throw new Error('Choose either reassign_to or deactivate, not both');
+    }
+
+    if (input.reassign_to !== undefined) {
+      if (input.reassign_to === input.id) {
+        throw new Error('Content cannot be reassigned to the user being deleted');
+      }
+
+      const targets = await db.select({ id: usersTable.id, is_active: usersTable.is_active })
+        .from(usersTable)
+        .where(eq(usersTable.id, input.reassign_to))
+        .execute();
+
+      if (targets.length === 0 || !targets[0].is_active) {
+        throw new Error(`Active user with id ${input.reassign_to} not found`);
+      }
+    }
+
+    const [{ posts }] = await db.select({ posts: count() })
+      .from(postsTable)
+      .where(eq(postsTable.author_id, input.id))
+      .execute();
+
+    const [{ media }] = await db.select({ media: count() })
+      .from(mediaTable)
+      .where(eq(mediaTable.uploaded_by, input.id))
+      .execute();
+
+    // Comments have no owner account; they are affected because they hang off the user's posts
+    const [{ comments }] = await db.select({ comments: count() })
+      .from(commentsTable)
+      .innerJoin(postsTable, eq(postsTable.id, commentsTable.post_id))
+      .where(eq(postsTable.author_id, input.id))
+      .execute();
+
+    const result: DeleteUserResult = {
+      action: input.deactivate ? 'deactivated' : 'deleted',
+      dry_run: input.dry_run ?? false,
+      posts,
+      media,
+      comments
+    };
+
+    if (result.dry_run) {
+      return result;
+    }
+
+    if (input.deactivate) {
+      await db.update(usersTable)
+        .set({ is_active: false, updated_at: new Date() })
+        .where(eq(usersTable.id, input.id))
+        .execute();
+
+      await revokeUserSessions(input.id);
+      return result;
+    }
+
+    // Deleting outright would orphan author_id and uploaded_by, and orphaned posts drop out of the feeds
+    if ((posts > 0 || media > 0) && input.reassign_to === undefined) {
+      throw new Error(`User still owns ${posts} posts and ${media} media items; reassign them or deactivate the account instead`);
+    }
+
+    await db.transaction(async (tx) => {
+      if (input.reassign_to !== undefined) {
+        await tx.update(postsTable)
+          .set({ author_id: input.reassign_to, updated_at: new Date() })
+          .where(eq(postsTable.author_id, input.id))
+          .execute();
+
+        await tx.update(mediaTable)
+          .set({ uploaded_by: input.reassign_to, updated_at: new Date() })
+          .where(eq(mediaTable.uploaded_by, input.id))
+          .execute();
+      }
+
+      // Reviews assigned to the account go back to the unassigned queue
+      await tx.update(postsTable)
+        .set({ reviewer_id: null })
+        .where(eq(postsTable.reviewer_id, input.id))
+        .execute();
+
+      // Credentials go with the account
+      await tx.delete(refreshTokensTable).where(eq(refreshTokensTable.user_id, input.id)).execute();
+      await tx.delete(sessionsTable).where(eq(sessionsTable.user_id, input.id)).execute();
+      await tx.delete(apiTokensTable).where(eq(apiTokensTable.user_id, input.id)).execute();
+      await tx.delete(userTokensTable).where(eq(userTokensTable.user_id, input.id)).execute();
+      await tx.delete(mfaRecoveryCodesTable).where(eq(mfaRecoveryCodesTable.user_id, input.id)).execute();
+
+      await tx.delete(usersTable)
+        .where(eq(usersTable.id, input.id))
+        .execute();
+    });
+
+    return result;
   } catch (error) {
     console.error('User deletion failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const changePassword = async (userId: number, input: ChangePasswordInput): Promise<{ success: boolean }> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+
+    const { valid } = await verifyPassword(input.current_password, users[0].password_hash);
+    if (!valid) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await db.update(usersTable)
+      .set({ password_hash: await hashPassword(input.new_password), updated_at: new Date() })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    // Existing sessions were opened with the old password
+    await revokeUserSessions(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+};
+
+export const setPassword = async (input: SetPasswordInput): Promise<{ success: boolean }> => {
+  try {
+    const result = await db.update(usersTable)
+      .set({ password_hash: await hashPassword(input.password), updated_at: new Date() })
+      .where(eq(usersTable.id, input.id))
+      .returning({ id: usersTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with id ${input.id} not found`);
+    }
+
+    await revokeUserSessions(input.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset by admin failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,202 @@
+import { type ContentBlock, type ListBlockItem } from '../schema';
+import { escapeBlockStart, parseMarkdown, type Block, type LinkDefinition, type ListItem } from './markdown';
+
+// Converts post content between Markdown and the JSON block tree. Both directions keep everything
+// that renders, so switching a post's format does not change the page; only layout details such as
+// which bullet a list used or how a paragraph was wrapped are lost.
+
+// An image on its own in a paragraph: ![alt](path) or ![alt](path "caption")
+const STANDALONE_IMAGE = /^!\[((?:[^[\]\\]|\\.|\[(?:[^[\]\\]|\\.)*\])*)\]\(\s*(?:<([^<>\n]*)>|([^\s()<>]+))(?:\s+"((?:[^"\\]|\\.)*)")?\s*\)$/;
+const BARE_ATTRIBUTE_VALUE = /^[^\s"'\]]+$/;
+
+const unescapeText = (text: string): string => text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+
+const escapeText = (text: string, characters: RegExp): string => text.replace(characters, '\\$&');
+
+interface MarkdownToBlocksOptions {
+  // Names of the shortcodes that become embed blocks
+  shortcodes?: ReadonlySet<string>;
+  // Media ids by file path, for turning images into image blocks
+  images?: ReadonlyMap<string, number>;
+}
+
+function toContentBlocks(blocks: Block[], images: ReadonlyMap<string, number>): ContentBlock[] {
+  return blocks.map((block: Block): ContentBlock => {
+    switch (block.type) {
+      case 'paragraph': {
+        const image = STANDALONE_IMAGE.exec(block.text);
+        const mediaId = image ? images.get(image[2] ?? image[3]) : undefined;
+        if (image && mediaId !== undefined) {
+          return {
+            type: 'image',
+            media_id: mediaId,
+            alt: unescapeText(image[1]),
+            caption: image[4] !== undefined ? unescapeText(image[4]) : null
+          };
+        }
+        return block;
+      }
+      case 'quote':
+        return { type: 'quote', children: toContentBlocks(block.children, images) };
+      case 'list':
+        return {
+          type: 'list',
+          ordered: block.ordered,
+          start: block.start,
+          tight: block.tight,
+          items: block.items.map((item: ListItem) => ({ checked: item.checked, children: toContentBlocks(item.children, images) }))
+        };
+      case 'shortcode':
+        return {
+          type: 'embed',
+          name: block.name,
+          attributes: block.attributes,
+          children: block.children === null ? null : toContentBlocks(block.children, images)
+        };
+      default:
+        return block;
+    }
+  });
+}
+
+const definitionLine = (label: string, definition: LinkDefinition): string => {
+  const url = /[\s<>]/.test(definition.url) ? `<${definition.url.replace(/[<>]/g, encodeURIComponent)}>` : definition.url;
+  const title = definition.title !== null ? ` "${escapeText(definition.title, /["\\]/g)}"` : '';
+  return `[${label}]: ${url}${title}`;
+};
+
+// Blocks for a Markdown document. Link reference definitions are kept as a trailing paragraph, since
+// paragraphs anywhere in the content can refer to them.
+export function markdownToBlocks(markdown: string, options: MarkdownToBlocksOptions = {}): ContentBlock[] {
+  const { blocks, definitions } = parseMarkdown(markdown, options.shortcodes);
+  const content = toContentBlocks(blocks, options.images ?? new Map());
+  if (definitions.size > 0) {
+    content.push({
+      type: 'paragraph',
+      text: [...definitions].map(([label, definition]) => definitionLine(label, definition)).join('\n')
+    });
+  }
+  return content;
+}
+
+const indent = (markdown: string, prefix: string, first: string = prefix): string =>
+  markdown.split('\n').map((line: string, i: number) => {
+    if (line === '') return '';
+    return (i === 0 ? first : prefix) + line;
+  }).join('\n');
+
+const attributeValue = (value: string): string => {
+  const text = value.replace(/\n/g, ' ');
+  if (BARE_ATTRIBUTE_VALUE.test(text)) return text;
+  if (!text.includes('"')) return `"${text}"`;
+  // Values cannot escape quotes, so one with both kinds loses its single quotes
+  return text.includes("'") ? `"${text.replace(/"/g, "'")}"` : `'${text}'`;
+};
+
+const tableRow = (cells: string[]): string =>
+  `| ${cells.map((cell: string) => escapeText(cell.replace(/\n/g, ' '), /\|/g)).join(' | ')} |`;
+
+// The delimiter of a list item: bullets alternate between - and *, numbers between . and ), so that
+// two lists in a row stay separate
+const listMarker = (ordered: boolean, alternate: boolean): string => {
+  if (ordered) return alternate ? ')' : '.';
+  return alternate ? '*' : '-';
+};
+
+// Blocks that can follow a paragraph in a list item without a blank line, which keeps the list tight
+const interruptsParagraph = (block: ContentBlock): boolean =>
+  block.type === 'heading' || block.type === 'code' || block.type === 'quote'
+  || (block.type === 'list' && (!block.ordered || block.start === 1));
+
+function listToMarkdown(block: Extract<ContentBlock, { type: 'list' }>, imagePaths: ReadonlyMap<number, string>, alternate: boolean): string {
+  const delimiter = listMarker(block.ordered, alternate);
+  const items = block.items.map((item: ListBlockItem, i: number) => {
+    const marker = block.ordered ? `${block.start + i}${delimiter}` : delimiter;
+    const task = item.checked === null ? '' : `[${item.checked ? 'x' : ' '}] `;
+    const body = toMarkdownParts(item.children, imagePaths)
+      .map(({ markdown }, index: number, parts) => {
+        const next = parts[index + 1];
+        return next && !interruptsParagraph(next.block) ? `${markdown}\n` : markdown;
+      })
+      .join('\n');
+    return indent(body, ' '.repeat(marker.length + 1), `${marker} ${task}`) || `${marker} ${task}`.trimEnd();
+  });
+  // An item with a blank line in it makes the whole list loose anyway, so the items are spaced out too
+  const loose = !block.tight || items.some((item: string) => item.includes('\n\n'));
+  return items.join(loose ? '\n\n' : '\n');
+}
+
+function blockToMarkdown(block: ContentBlock, imagePaths: ReadonlyMap<number, string>, alternate: boolean): string | null {
+  switch (block.type) {
+    case 'paragraph':
+      return block.text
+        .split('\n')
+        .filter((line: string) => line.trim() !== '')
+        .map(escapeBlockStart)
+        .join('\n');
+    case 'heading': {
+      // A run of # at the end would be read as the optional closing sequence
+      const text = block.text.replace(/\s+/g, ' ').trim().replace(/(^|\s)(#+)$/, '$1\\$2');
+      return `${'#'.repeat(block.level)}${text ? ` ${text}` : ''}`;
+    }
+    case 'image': {
+      const path = imagePaths.get(block.media_id);
+      if (path === undefined) return null;
+      const url = /[\s()<>]/.test(path) ? `<${path.replace(/[<>]/g, encodeURIComponent)}>` : path;
+      const caption = block.caption !== null ? ` "${escapeText(block.caption, /["\\]/g)}"` : '';
+      return `![${escapeText(block.alt, /[[\]\\]/g)}](${url}${caption})`;
+    }
+    case 'quote':
+      return indent(blocksToMarkdown(block.children, imagePaths), '> ').replace(/^$/gm, '>');
+    case 'code': {
+      // The fence has to be longer than any run of backticks in the code
+      const longest = Math.max(0, ...(block.code.match(/`+/g) ?? []).map((run: string) => run.length));
+      const fence = '`'.repeat(Math.max(3, longest + 1));
+      const language = block.language.replace(/[`\s]/g, '');
+      return `${fence}${language}\n${block.code}${block.code === '' ? '' : '\n'}${fence}`;
+    }
+    case 'embed': {
+      const attributes = Object.entries(block.attributes)
+        .map(([name, value]) => ` ${name}=${attributeValue(value)}`)
+        .join('');
+      const tag = `[${block.name}${attributes}]`;
+      return block.children === null ? tag : `${tag}\n\n${blocksToMarkdown(block.children, imagePaths)}\n\n[/${block.name}]`;
+    }
+    case 'list':
+      return listToMarkdown(block, imagePaths, alternate);
+    case 'table': {
+      const delimiters = block.header.map((_: string, column: number) => {
+        const align = block.align[column] ?? null;
+        if (align === 'center') return ':---:';
+        if (align === 'right') return '---:';
+        return align === 'left' ? ':---' : '---';
+      });
+      const rows = block.rows.map((row: string[]) => tableRow(block.header.map((_: string, column: number) => row[column] ?? '')));
+      return [tableRow(block.header), `| ${delimiters.join(' | ')} |`, ...rows].join('\n');
+    }
+    case 'html':
+      return block.html;
+    case 'rule':
+      return '---';
+  }
+}
+
+function toMarkdownParts(blocks: ContentBlock[], imagePaths: ReadonlyMap<number, string>): { block: ContentBlock; markdown: string }[] {
+  const parts: { block: ContentBlock; markdown: string }[] = [];
+  let alternate = false;
+  for (const block of blocks) {
+    const previous = parts[parts.length - 1]?.block;
+    alternate = block.type === 'list' && previous?.type === 'list' && previous.ordered === block.ordered ? !alternate : false;
+    const markdown = blockToMarkdown(block, imagePaths, alternate);
+    if (markdown !== null) {
+      parts.push({ block, markdown });
+    }
+  }
+  return parts;
+}
+
+// Markdown for a block tree. Images are written with their file path, so blocks referring to media
+// that is not in imagePaths are left out.
+export function blocksToMarkdown(blocks: ContentBlock[], imagePaths: ReadonlyMap<number, string> = new Map()): string {
+  return toMarkdownParts(blocks, imagePaths).map(({ markdown }) => markdown).join('\n\n');
+}
@@ -0,0 +1,20 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { type PgColumn } from 'drizzle-orm/pg-core';
+
+// Optimistic concurrency: editors send back the updated_at of the copy they loaded, and the
+// write only goes through if nobody has saved the row since. A stale write is rejected with the
+// current copy so the client can merge or overwrite.
+
+export class ConflictError<T = unknown> extends Error {
+  constructor(message: string, readonly current: T) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+// Update condition matching the row only while it still has the expected updated_at.
+// Timestamps reach JavaScript with millisecond precision, so the stored value is truncated to match.
+export const unchangedSince = (column: PgColumn, expected: Date | undefined): SQL | undefined => {
+  if (expected === undefined) return undefined;
+  return sql`date_trunc('milliseconds', ${column}) = ${expected.toISOString()}::timestamp`;
+};
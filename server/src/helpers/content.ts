@@ -0,0 +1,121 @@
+import { db } from '../db';
+import { mediaTable } from '../db/schema';
+import { contentBlocksSchema, type ContentBlock, type ContentFormat } from '../schema';
+import { blocksToMarkdown, markdownToBlocks } from './blocks';
+import { renderMarkdown, type ShortcodeCall } from './markdown';
+import { htmlToText } from './sanitize';
+import { SHORTCODE_NAMES, renderContent } from './shortcodes';
+import { and, inArray, like } from 'drizzle-orm';
+
+// Post content is Markdown or a JSON block tree, depending on the post's content_format. Everything
+// that reads content goes through Markdown, so blocks render, search and embed exactly like the
+// Markdown they convert to.
+
+interface PreparedContent {
+  content: string;
+  content_format: ContentFormat;
+  content_text: string;
+  word_count: number;
+}
+
+// Image references in Markdown; standalone ones become image blocks when converted
+const IMAGE_PATH = /!\[(?:[^[\]\\]|\\.|\[(?:[^[\]\\]|\\.)*\])*\]\(\s*(?:<([^<>\n]*)>|([^\s()<>]+))/g;
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+export const countWords = (text: string): number => text.match(WORD)?.length ?? 0;
+
+const formatBlocks = (blocks: ContentBlock[]): string => JSON.stringify(blocks, null, 2);
+
+// The blocks stored in a post's content; the message says which block is wrong
+export function parseBlockContent(content: string): ContentBlock[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error('Block content is not valid JSON');
+  }
+
+  const parsed = contentBlocksSchema.safeParse(json);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    const path = issue.path.length > 0 ? `blocks.${issue.path.join('.')}` : 'blocks';
+    throw new Error(`Invalid block content at ${path}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+const blockImageIds = (blocks: ContentBlock[]): number[] => blocks.flatMap((block: ContentBlock): number[] => {
+  switch (block.type) {
+    case 'image':
+      return [block.media_id];
+    case 'quote':
+      return blockImageIds(block.children);
+    case 'embed':
+      return blockImageIds(block.children ?? []);
+    case 'list':
+      return block.items.flatMap(item => blockImageIds(item.children));
+    default:
+      return [];
+  }
+});
+
+// Paths of the image blocks' media; media that is gone or is not an image is left out
+async function loadImagePaths(blocks: ContentBlock[]): Promise<Map<number, string>> {
+  const ids = [...new Set(blockImageIds(blocks))];
+  if (ids.length === 0) return new Map();
+
+  const images = await db.select({ id: mediaTable.id, file_path: mediaTable.file_path })
+    .from(mediaTable)
+    .where(and(inArray(mediaTable.id, ids), like(mediaTable.mime_type, 'image/%')))
+    .execute();
+  return new Map(images.map(image => [image.id, image.file_path]));
+}
+
+// Media ids of the images a Markdown document refers to, by path
+async function loadImageIds(markdown: string): Promise<Map<string, number>> {
+  const paths = [...new Set([...markdown.matchAll(IMAGE_PATH)].map(match => match[1] ?? match[2]))];
+  if (paths.length === 0) return new Map();
+
+  const images = await db.select({ id: mediaTable.id, file_path: mediaTable.file_path })
+    .from(mediaTable)
+    .where(and(inArray(mediaTable.file_path, paths), like(mediaTable.mime_type, 'image/%')))
+    .execute();
+  return new Map(images.map(image => [image.file_path, image.id]));
+}
+
+// Content as it is stored, with the plain text and word count kept alongside it for search and
+// reading times. Block content is checked and formatted; invalid blocks throw.
+export function prepareContent(content: string, format: ContentFormat = 'markdown'): PreparedContent {
+  const blocks = format === 'blocks' ? parseBlockContent(content) : null;
+  const markdown = blocks ? blocksToMarkdown(blocks) : content;
+  // Shortcodes count with the text they wrap, not their attributes
+  const html = renderMarkdown(markdown, {
+    shortcodes: { names: SHORTCODE_NAMES, render: (call: ShortcodeCall) => call.content ?? '' }
+  });
+  const text = htmlToText(html);
+
+  return {
+    content: blocks ? formatBlocks(blocks) : content,
+    content_format: format,
+    content_text: text,
+    word_count: countWords(text)
+  };
+}
+
+export async function contentAsMarkdown(content: string, format: ContentFormat): Promise<string> {
+  if (format === 'markdown') return content;
+  const blocks = parseBlockContent(content);
+  return blocksToMarkdown(blocks, await loadImagePaths(blocks));
+}
+
+// The same content in another format; blocks come back as formatted JSON
+export async function convertContent(content: string, from: ContentFormat, to: ContentFormat): Promise<string> {
+  const markdown = await contentAsMarkdown(content, from);
+  if (to === 'markdown') return markdown;
+  return formatBlocks(markdownToBlocks(markdown, { shortcodes: SHORTCODE_NAMES, images: await loadImageIds(markdown) }));
+}
+
+// Sanitized HTML for a post's content in either format
+export async function renderPostContent(post: { content: string; content_format: ContentFormat }): Promise<string> {
+  return renderContent(await contentAsMarkdown(post.content, post.content_format));
+}
@@ -0,0 +1,121 @@
+// Line and word diffs for comparing post revisions, using Myers' O(ND) algorithm so that
+// small edits to long posts stay cheap. Rewrites beyond MAX_EDITS edits, or longer than
+// MAX_TOKENS tokens, are shown as the whole text replaced.
+
+export type DiffMode = 'line' | 'word';
+
+export interface DiffChange {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+// Tokens keep their separators, so joining them gives back the original text
+export const tokenize = (text: string, mode: DiffMode): string[] => {
+  if (text === '') return [];
+  return mode === 'line'
+    ? text.split(/(?<=\n)/)
+    : text.split(/(\s+)/).filter(token => token !== '');
+};
+
+// Each round of the search keeps its diagonals for the walk back, so memory grows with the square
+// of the number of edits and time with the input size times the edits; both are capped.
+const MAX_EDITS = 2000;
+const MAX_TOKENS = 50000;
+
+// Shortest edit script between two token lists, or null when it needs more than MAX_EDITS edits
+const shortestEdit = (a: string[], b: string[]): DiffChange[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  search: for (let d = 0; d <= Math.min(max, MAX_EDITS); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break search;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk back from the end through the recorded rounds
+  const changes: DiffChange[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const round = trace[d];
+    const at = (k: number) => round[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      changes.push({ type: 'equal', value: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        changes.push({ type: 'insert', value: b[--y] });
+      } else {
+        changes.push({ type: 'delete', value: a[--x] });
+      }
+    }
+  }
+
+  return changes.reverse();
+};
+
+// Neighbouring tokens of the same kind are merged so callers get one change per run
+const mergeRuns = (changes: DiffChange[]): DiffChange[] => {
+  const merged: DiffChange[] = [];
+  for (const change of changes) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === change.type) {
+      last.value += change.value;
+    } else {
+      merged.push({ ...change });
+    }
+  }
+  return merged;
+};
+
+export const diffText = (before: string, after: string, mode: DiffMode): DiffChange[] => {
+  const a = tokenize(before, mode);
+  const b = tokenize(after, mode);
+
+  // Edits are usually local, so the unchanged start and end are set aside before searching
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const removed = a.slice(start, a.length - end);
+  const added = b.slice(start, b.length - end);
+  const edits = removed.length + added.length <= MAX_TOKENS ? shortestEdit(removed, added) : null;
+
+  const changes: DiffChange[] = [
+    ...a.slice(0, start).map(value => ({ type: 'equal' as const, value })),
+    ...edits ?? [
+      ...removed.map(value => ({ type: 'delete' as const, value })),
+      ...added.map(value => ({ type: 'insert' as const, value }))
+    ],
+    ...a.slice(a.length - end).map(value => ({ type: 'equal' as const, value }))
+  ];
+
+  return mergeRuns(changes);
+};
@@ -0,0 +1,204 @@
+import { escapeHtml } from './sanitize';
+
+// Syntax highlighting for fenced code blocks. Each language is described by its keywords and its
+// comment and string syntax; tokens are wrapped in <span class="hl-..."> and styled by the site.
+
+interface Grammar {
+  keywords: string[];
+  literals?: string[];
+  lineComment?: string[];
+  blockComment?: [string, string];
+  strings: string[];
+}
+
+const C_LIKE_LITERALS = ['true', 'false', 'null'];
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do',
+      'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+      'new', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while',
+      'yield'
+    ],
+    literals: [...C_LIKE_LITERALS, 'undefined', 'NaN', 'Infinity'],
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'", '`']
+  },
+  typescript: {
+    keywords: [
+      'abstract', 'any', 'as', 'async', 'await', 'boolean', 'break', 'case', 'catch', 'class', 'const', 'continue',
+      'declare', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function',
+      'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'keyof', 'let', 'namespace', 'never', 'new',
+      'number', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'string', 'super', 'switch',
+      'this', 'throw', 'try', 'type', 'typeof', 'unknown', 'var', 'void', 'while', 'yield'
+    ],
+    literals: [...C_LIKE_LITERALS, 'undefined', 'NaN', 'Infinity'],
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'", '`']
+  },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+      'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass',
+      'raise', 'return', 'try', 'while', 'with', 'yield'
+    ],
+    literals: ['True', 'False', 'None'],
+    lineComment: ['#'],
+    strings: ['"', "'"]
+  },
+  bash: {
+    keywords: [
+      'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return',
+      'select', 'then', 'until', 'while'
+    ],
+    lineComment: ['#'],
+    strings: ['"', "'"]
+  },
+  json: {
+    keywords: [],
+    literals: C_LIKE_LITERALS,
+    strings: ['"']
+  },
+  sql: {
+    keywords: [
+      'add', 'all', 'alter', 'and', 'as', 'asc', 'between', 'by', 'case', 'create', 'delete', 'desc', 'distinct',
+      'drop', 'else', 'end', 'exists', 'from', 'group', 'having', 'in', 'index', 'inner', 'insert', 'into', 'is',
+      'join', 'left', 'like', 'limit', 'not', 'offset', 'on', 'or', 'order', 'outer', 'primary', 'references',
+      'returning', 'right', 'select', 'set', 'table', 'then', 'union', 'update', 'values', 'when', 'where', 'with'
+    ],
+    literals: ['null', 'true', 'false'],
+    lineComment: ['--'],
+    blockComment: ['/*', '*/'],
+    strings: ["'"]
+  },
+  css: {
+    keywords: ['important', 'media', 'import', 'keyframes', 'supports'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"]
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go',
+      'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type',
+      'var'
+    ],
+    literals: ['true', 'false', 'nil', 'iota'],
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'", '`']
+  },
+  rust: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn', 'for',
+      'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self',
+      'static', 'struct', 'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while'
+    ],
+    literals: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"']
+  },
+  java: {
+    keywords: [
+      'abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do', 'double',
+      'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'if', 'implements', 'import', 'instanceof', 'int',
+      'interface', 'long', 'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'super',
+      'switch', 'this', 'throw', 'throws', 'try', 'void', 'while'
+    ],
+    literals: C_LIKE_LITERALS,
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['"', "'"]
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  postgres: 'sql',
+  postgresql: 'sql',
+  golang: 'go',
+  rs: 'rust'
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One alternation per grammar; the capture group that matched tells the token type
+const buildPattern = (grammar: Grammar): RegExp => {
+  const comments = [
+    ...(grammar.lineComment ?? []).map(start => `${escapeRegExp(start)}[^\\n]*`),
+    ...(grammar.blockComment ? [`${escapeRegExp(grammar.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(grammar.blockComment[1])}|$)`] : [])
+  ];
+  const strings = grammar.strings.map(quote => {
+    const q = escapeRegExp(quote);
+    // Template literals and Go raw strings may span lines; other strings end at the line
+    const body = quote === '`' ? `[^\\\\${q}]` : `[^\\\\${q}\\n]`;
+    return `${q}(?:${body}|\\\\[\\s\\S])*(?:${q}|$)`;
+  });
+
+  return new RegExp([
+    `(${comments.length > 0 ? comments.join('|') : '(?!)'})`,
+    `(${strings.join('|')})`,
+    '(\\b(?:0x[0-9a-fA-F]+|\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)',
+    '([A-Za-z_$][\\w$]*)'
+  ].join('|'), 'g');
+};
+
+const PATTERNS = new Map(Object.entries(GRAMMARS).map(([name, grammar]) => [name, buildPattern(grammar)]));
+
+export const resolveLanguage = (language: string): string | null => {
+  const name = language.toLowerCase();
+  const resolved = Object.hasOwn(ALIASES, name) ? ALIASES[name] : name;
+  return Object.hasOwn(GRAMMARS, resolved) ? resolved : null;
+};
+
+const span = (type: string, text: string): string => `<span class="hl-${type}">${escapeHtml(text)}</span>`;
+
+// Escaped HTML for a code block; languages without a grammar are escaped but not highlighted
+export function highlightCode(code: string, language: string): string {
+  const name = resolveLanguage(language);
+  if (!name) return escapeHtml(code);
+
+  const grammar = GRAMMARS[name];
+  const keywords = new Set(grammar.keywords);
+  const literals = new Set(grammar.literals ?? []);
+  const caseInsensitive = name === 'sql';
+  const pattern = PATTERNS.get(name)!;
+
+  let result = '';
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    const [token, comment, string, number, word] = match;
+    result += escapeHtml(code.slice(last, match.index));
+    last = match.index + token.length;
+
+    if (comment) {
+      result += span('comment', token);
+    } else if (string) {
+      // JSON object keys are strings followed by a colon
+      result += span(name === 'json' && /^\s*:/.test(code.slice(last)) ? 'property' : 'string', token);
+    } else if (number) {
+      result += span('number', token);
+    } else if (word) {
+      const lookup = caseInsensitive ? word.toLowerCase() : word;
+      if (keywords.has(lookup)) result += span('keyword', token);
+      else if (literals.has(lookup)) result += span('literal', token);
+      else result += escapeHtml(token);
+    } else {
+      result += escapeHtml(token);
+    }
+  }
+
+  return result + escapeHtml(code.slice(last));
+}
@@ -0,0 +1,104 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// HS256 JSON Web Tokens signed with a rotating set of secrets.
+//
+// Keys come from AUTH_JWT_KEYS as a comma separated list of `kid:secret` pairs.
+// The first entry signs new tokens; every entry is accepted for verification so an
+// old key can stay listed until the tokens it signed have expired.
+// AUTH_JWT_SECRET is accepted as a single-key shorthand.
+
+export interface JwtPayload {
+  sub: number;
+  typ: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+let cachedKeys: SigningKey[] | null = null;
+
+const loadKeys = (): SigningKey[] => {
+  if (cachedKeys) return cachedKeys;
+
+  const keyList = process.env['AUTH_JWT_KEYS'];
+  const singleSecret = process.env['AUTH_JWT_SECRET'];
+
+  if (keyList) {
+    cachedKeys = keyList.split(',').map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('AUTH_JWT_KEYS entries must look like kid:secret');
+      }
+      return { kid: entry.slice(0, separator).trim(), secret: entry.slice(separator + 1).trim() };
+    });
+  } else if (singleSecret) {
+    cachedKeys = [{ kid: 'default', secret: singleSecret }];
+  } else if (process.env['NODE_ENV'] === 'production') {
+    throw new Error('AUTH_JWT_KEYS or AUTH_JWT_SECRET must be set in production');
+  } else {
+    // Development fallback: tokens stop validating when the process restarts
+    console.warn('AUTH_JWT_KEYS is not set, using an ephemeral signing key');
+    cachedKeys = [{ kid: 'ephemeral', secret: randomBytes(32).toString('hex') }];
+  }
+
+  return cachedKeys;
+};
+
+const base64UrlEncode = (value: string): string => {
+  return Buffer.from(value, 'utf8').toString('base64url');
+};
+
+const sign = (data: string, secret: string): string => {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+};
+
+export const signJwt = (
+  claims: { sub: number; typ: string; [claim: string]: unknown },
+  ttlSeconds: number
+): string => {
+  const [activeKey] = loadKeys();
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: activeKey.kid }));
+  const payload = base64UrlEncode(JSON.stringify({ ...claims, iat: now, exp: now + ttlSeconds }));
+  const signature = sign(`${header}.${payload}`, activeKey.secret);
+
+  return `${header}.${payload}.${signature}`;
+};
+
+// Returns the payload when the signature, key id, expiry and token type all check out
+export const verifyJwt = (token: string, expectedType: string): JwtPayload | null => {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    const [headerPart, payloadPart, signaturePart] = parts;
+    const header = JSON.parse(Buffer.from(headerPart, 'base64url').toString('utf8'));
+    if (header.alg !== 'HS256') return null;
+
+    const key = loadKeys().find(candidate => candidate.kid === header.kid);
+    if (!key) return null;
+
+    const expected = Buffer.from(sign(`${headerPart}.${payloadPart}`, key.secret));
+    const actual = Buffer.from(signaturePart);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    const payload = JSON.parse(Buffer.from(payloadPart, 'base64url').toString('utf8')) as JwtPayload;
+    if (payload.typ !== expectedType) return null;
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+// Lets tests swap keys without restarting the process
+export const resetJwtKeyCache = (): void => {
+  cachedKeys = null;
+};
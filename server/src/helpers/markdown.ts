@@ -0,0 +1,670 @@
+import { slugify } from './slugs';
+import { highlightCode } from './highlight';
+import { decodeEntities, escapeHtml, escapeText, htmlToText, sanitizeHtml } from './sanitize';
+
+// Markdown to HTML for post content: CommonMark blocks and inlines plus the GitHub extensions
+// (tables, strikethrough, task lists and bare URL autolinks). Fenced code is highlighted, headings
+// get ids with anchor links, and the result always goes through the sanitizer, so raw HTML in
+// posts is limited to the allow-list. Shortcodes such as [youtube id=...] are expanded by a hook
+// whose HTML is trusted: it is kept out of the sanitizer and put back into the sanitized result.
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  checked: boolean | null;
+  children: Block[];
+}
+
+export type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; items: ListItem[] }
+  | { type: 'table'; align: Align[]; header: string[]; rows: string[][] }
+  | { type: 'html'; html: string }
+  | { type: 'shortcode'; name: string; attributes: Record<string, string>; children: Block[] | null }
+  | { type: 'rule' };
+
+export interface LinkDefinition {
+  url: string;
+  title: string | null;
+}
+
+export interface ShortcodeCall {
+  name: string;
+  attributes: Record<string, string>;
+  // Sanitized HTML between the opening and closing tag; null when there is no closing tag
+  content: string | null;
+}
+
+export interface MarkdownOptions {
+  shortcodes?: {
+    // Only these names are expanded; any other bracketed text stays Markdown
+    names: ReadonlySet<string>;
+    // Must escape whatever it puts in the HTML, which is not sanitized
+    render: (call: ShortcodeCall) => string;
+  };
+}
+
+interface RenderContext {
+  definitions: Map<string, LinkDefinition>;
+  // How often each heading id was handed out, to keep ids unique
+  headingIds: Map<string, number>;
+  shortcodes: MarkdownOptions['shortcodes'];
+  // Shortcode HTML, referenced from the document by TRUSTED placeholders
+  trusted: string[];
+}
+
+const BLANK = /^[ \t]*$/;
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*(.*)$/;
+const CLOSING_FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:( +)(.*))?$/;
+const TASK = /^\[([ xX])\](?: +|$)/;
+const INDENTED_CODE = /^ {4}/;
+const HTML_BLOCK = /^ {0,3}(?:<!--|<\/?(?:address|article|aside|blockquote|details|dialog|div|dl|dt|dd|fieldset|figcaption|figure|footer|form|h[1-6]|header|hr|iframe|li|main|nav|ol|p|pre|script|section|style|summary|table|tbody|td|tfoot|th|thead|tr|ul)(?:[\s/>]|$))/i;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^)\\]|\\.)*\)))?[ \t]*$/;
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const INLINE_LINK = /^\(\s*(?:<([^<>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^)\\]|\\.)*\)))?\s*\)/;
+const REFERENCE = /^\[((?:[^\]\\]|\\.)*)\]/;
+const AUTOLINK = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/;
+const EMAIL_AUTOLINK = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+const INLINE_HTML = /^(?:<!--[\s\S]*?-->|<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>)/;
+const BARE_URL = /(^|[^\p{L}\p{N}_/])((?:https?:\/\/|www\.)[^\s<>\u0000]*[^\s<>\u0000?!.,:;*_~'")\]])/gu;
+const SHORTCODE = /^\[([a-z][a-z0-9-]*)((?:[ \t]+[a-z][\w-]*(?:=(?:"[^"\n]*"|'[^'\n]*'|[^\s"'\]]+))?)*)[ \t]*\]/;
+const SHORTCODE_ATTRIBUTE = /([a-z][\w-]*)(?:=(?:"([^"\n]*)"|'([^'\n]*)'|([^\s"'\]]+)))?/g;
+const TRUSTED = /\uE000(\d+)\uE000/g;
+
+const isBlank = (line: string): boolean => BLANK.test(line);
+
+const leadingSpaces = (line: string): number => line.length - line.trimStart().length;
+
+// Leading tabs become spaces up to the next multiple of four columns
+const expandTabs = (line: string): string =>
+  line.replace(/^[ \t]+/, (whitespace: string) => {
+    let column = 0;
+    for (const char of whitespace) column = char === '\t' ? column + 4 - (column % 4) : column + 1;
+    return ' '.repeat(column);
+  });
+
+const unescapeMarkdown = (text: string): string => decodeEntities(text.replace(/\\([!-/:-@[-`{-~])/g, '$1'));
+
+const normalizeLabel = (label: string): string => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const startsTable = (lines: string[], i: number): boolean =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])
+  && splitRow(lines[i]).length === splitRow(lines[i + 1]).length;
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (line: string): boolean => {
+  if (ATX_HEADING.test(line) || FENCE.test(line) || THEMATIC_BREAK.test(line) || BLOCKQUOTE.test(line) || HTML_BLOCK.test(line)) {
+    return true;
+  }
+  // Only bullets and lists starting at 1 interrupt, so "2024. was a good year" stays text
+  const item = LIST_ITEM.exec(line);
+  return item !== null && item[4] !== undefined && item[4].trim() !== '' && (/^[-+*]$/.test(item[2]) || /^1[.)]$/.test(item[2]));
+};
+
+const splitRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseFence = (line: string): { indent: number; marker: string; language: string } | null => {
+  const match = FENCE.exec(line);
+  if (!match) return null;
+  const [, indent, marker, info] = match;
+  // Backtick fences cannot have backticks in their info string, or `inline code` would open one
+  if (marker[0] === '`' && info.includes('`')) return null;
+  return { indent: indent.length, marker, language: unescapeMarkdown(info.trim().split(/\s+/)[0] ?? '') };
+};
+
+const isClosingFence = (line: string, marker: string): boolean => {
+  const match = CLOSING_FENCE.exec(line);
+  return match !== null && match[1][0] === marker[0] && match[1].length >= marker.length;
+};
+
+// A shortcode with one of the given names at the start of the text. Attributes without a value are "true".
+const matchShortcode = (
+  text: string,
+  names: ReadonlySet<string>
+): { name: string; attributes: Record<string, string>; length: number } | null => {
+  const match = SHORTCODE.exec(text);
+  if (!match || !names.has(match[1])) return null;
+  const attributes = Object.fromEntries(
+    [...match[2].matchAll(SHORTCODE_ATTRIBUTE)].map((attribute: RegExpMatchArray) =>
+      [attribute[1], attribute[2] ?? attribute[3] ?? attribute[4] ?? 'true']
+    )
+  );
+  return { name: match[1], attributes, length: match[0].length };
+};
+
+// A shortcode alone on its line is a block, and its closing tag has to be on a line of its own too
+const matchShortcodeLine = (line: string, names: ReadonlySet<string>) => {
+  const shortcode = matchShortcode(line.trim(), names);
+  return shortcode && shortcode.length === line.trim().length ? shortcode : null;
+};
+
+// Index of the line closing the shortcode opened above lines[start], or -1
+const findClosingShortcodeLine = (lines: string[], start: number, name: string, names: ReadonlySet<string>): number => {
+  let depth = 1;
+  for (let i = start; i < lines.length; i++) {
+    if (lines[i].trim() === `[/${name}]` && --depth === 0) return i;
+    if (matchShortcodeLine(lines[i], names)?.name === name) depth++;
+  }
+  return -1;
+};
+
+function parseList(
+  lines: string[],
+  start: number,
+  definitions: Map<string, LinkDefinition>,
+  shortcodes: ReadonlySet<string>
+): [Block, number] {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const ordered = /\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items: ListItem[] = [];
+  let tight = true;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || match[2].slice(-1) !== delimiter || /\d/.test(match[2]) !== ordered || THEMATIC_BREAK.test(lines[i])) break;
+
+    const [, indent, marker, spacing = '', rest = ''] = match;
+    // Content more than four spaces in is indented code inside the item
+    const padding = spacing.length === 0 || spacing.length > 4 ? 1 : spacing.length;
+    const contentIndent = indent.length + marker.length + padding;
+    const itemLines = [spacing.length > 4 ? ' '.repeat(spacing.length - 1) + rest : rest];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        itemLines.push('');
+      } else if (leadingSpaces(line) >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (!isBlank(itemLines[itemLines.length - 1]) && !interruptsParagraph(line) && !LIST_ITEM.test(line)) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line);
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    let trailingBlanks = 0;
+    while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+      itemLines.pop();
+      trailingBlanks++;
+    }
+    if (itemLines.some((line: string) => isBlank(line))) tight = false;
+
+    const task = TASK.exec(itemLines[0]);
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length);
+    items.push({
+      checked: task ? task[1] !== ' ' : null,
+      children: parseBlocks(itemLines, definitions, shortcodes)
+    });
+
+    if (trailingBlanks > 0) {
+      const next = i < lines.length ? LIST_ITEM.exec(lines[i]) : null;
+      if (!next || next[2].slice(-1) !== delimiter) break;
+      tight = false;
+    }
+  }
+
+  return [{ type: 'list', ordered, start: ordered ? parseInt(first[2]) : 1, tight, items }, i];
+}
+
+function parseBlocks(lines: string[], definitions: Map<string, LinkDefinition>, shortcodes: ReadonlySet<string>): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = parseFence(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !isClosingFence(lines[i], fence.marker)) {
+        code.push(lines[i].slice(Math.min(fence.indent, leadingSpaces(lines[i]))));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence.language, code: code.join('\n') });
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] ?? '' });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length) {
+        if (BLOCKQUOTE.test(lines[i])) {
+          quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        } else if (!isBlank(lines[i]) && !isBlank(quoted[quoted.length - 1]) && !interruptsParagraph(lines[i])) {
+          quoted.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, definitions, shortcodes) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, next] = parseList(lines, i, definitions, shortcodes);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]) || isBlank(lines[i]))) {
+        code.push(lines[i].slice(4));
+        i++;
+      }
+      while (code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      blocks.push({ type: 'code', language: '', code: code.join('\n') });
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line)) {
+      const html: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        html.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'html', html: html.join('\n') });
+      continue;
+    }
+
+    const shortcode = matchShortcodeLine(line, shortcodes);
+    if (shortcode) {
+      const close = findClosingShortcodeLine(lines, i + 1, shortcode.name, shortcodes);
+      blocks.push({
+        type: 'shortcode',
+        name: shortcode.name,
+        attributes: shortcode.attributes,
+        children: close === -1 ? null : parseBlocks(lines.slice(i + 1, close), definitions, shortcodes)
+      });
+      i = close === -1 ? i + 1 : close + 1;
+      continue;
+    }
+
+    if (startsTable(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell: string): Align => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        if (cell.startsWith(':')) return 'left';
+        return null;
+      });
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_: string, column: number) => cells[column] ?? ''));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header, rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    let setextLevel = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (paragraph.length > 0) {
+        const underline = SETEXT_UNDERLINE.exec(lines[i]);
+        if (underline) {
+          setextLevel = underline[1][0] === '=' ? 1 : 2;
+          i++;
+          break;
+        }
+        if (interruptsParagraph(lines[i]) || startsTable(lines, i) || matchShortcodeLine(lines[i], shortcodes)) break;
+      }
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+
+    // Link reference definitions at the start of a paragraph are not part of its text
+    while (paragraph.length > 0) {
+      const definition = LINK_DEFINITION.exec(paragraph[0]);
+      if (!definition) break;
+      const label = normalizeLabel(definition[1]);
+      if (!definitions.has(label)) {
+        definitions.set(label, {
+          url: unescapeMarkdown(definition[2].replace(/^<(.*)>$/, '$1')),
+          title: definition[3] ? unescapeMarkdown(definition[3].slice(1, -1)) : null
+        });
+      }
+      paragraph.shift();
+    }
+    if (paragraph.length === 0) continue;
+
+    const text = paragraph.join('\n').trimEnd();
+    blocks.push(setextLevel > 0 ? { type: 'heading', level: setextLevel, text } : { type: 'paragraph', text });
+  }
+
+  return blocks;
+}
+
+// Index of the backtick run that closes a code span, or -1
+const findClosingBackticks = (text: string, from: number, length: number): number => {
+  const pattern = /`+/g;
+  pattern.lastIndex = from;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[0].length === length) return match.index;
+  }
+  return -1;
+};
+
+const findClosingBracket = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0].length;
+      const end = findClosingBackticks(text, i + run, run);
+      i = end === -1 ? i + run - 1 : end + run - 1;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Text of rendered inline HTML for use in an attribute, where shortcode HTML must not end up
+const attributeText = (html: string): string => htmlToText(html).replace(TRUSTED, '');
+
+const titleAttribute = (title: string | null): string => (title ? ` title="${escapeHtml(title)}"` : '');
+
+const safeHref = (url: string): string => escapeHtml(decodeEntities(url)).replace(/ /g, '%20');
+
+function parseLink(text: string, start: number, context: RenderContext): { html: string; end: number } | null {
+  const isImage = text[start] === '!';
+  const open = isImage ? start + 1 : start;
+  const close = findClosingBracket(text, open);
+  if (close === -1) return null;
+
+  const label = text.slice(open + 1, close);
+  const rest = text.slice(close + 1);
+  let destination: LinkDefinition | undefined;
+  let end: number;
+
+  const inline = INLINE_LINK.exec(rest);
+  if (inline) {
+    destination = {
+      url: unescapeMarkdown(inline[1] ?? inline[2]),
+      title: inline[3] ? unescapeMarkdown(inline[3].slice(1, -1)) : null
+    };
+    end = close + 1 + inline[0].length;
+  } else {
+    // [text][label], [label][] and [label]
+    const reference = REFERENCE.exec(rest);
+    destination = context.definitions.get(normalizeLabel(reference && reference[1] ? reference[1] : label));
+    end = close + 1 + (reference ? reference[0].length : 0);
+  }
+  if (!destination) return null;
+
+  const content = renderInline(label, context);
+  const html = isImage
+    ? `<img src="${safeHref(destination.url)}" alt="${escapeHtml(attributeText(content))}"${titleAttribute(destination.title)} />`
+    : `<a href="${safeHref(destination.url)}"${titleAttribute(destination.title)}>${content}</a>`;
+  return { html, end };
+}
+
+const applyEmphasis = (html: string): string =>
+  html
+    .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/g, '<em><strong>$1</strong></em>')
+    .replace(/(^|[^\p{L}\p{N}_])___(?=\S)([\s\S]*?\S)___(?![\p{L}\p{N}_])/gu, '$1<em><strong>$2</strong></em>')
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\p{L}\p{N}_])__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}_])/gu, '$1<strong>$2</strong>')
+    .replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*/g, '<em>$1</em>')
+    .replace(/(^|[^\p{L}\p{N}_])_(?=[^\s_])([\s\S]*?[^\s_])_(?![\p{L}\p{N}_])/gu, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+// A placeholder for the trusted HTML of the shortcode; its content is sanitized on its own first
+const expandShortcode = (
+  name: string,
+  attributes: Record<string, string>,
+  content: string | null,
+  context: RenderContext
+): string => {
+  const html = context.shortcodes!.render({ name, attributes, content: content === null ? null : sanitizeHtml(content) });
+  return `\uE000${context.trusted.push(html) - 1}\uE000`;
+};
+
+// Inline markup of one block. Code spans, links and raw HTML are rendered first and parked as
+// placeholders, so emphasis and autolinking only ever see plain text.
+function renderInline(text: string, context: RenderContext): string {
+  const placeholders: string[] = [];
+  const hold = (html: string): string => `\u0000${placeholders.push(html) - 1}\u0000`;
+  let plain = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ASCII_PUNCTUATION.test(text[i + 1] ?? '')) {
+      plain += hold(escapeHtml(text[i + 1]));
+      i += 2;
+      continue;
+    }
+    if (char === '\\' && text[i + 1] === '\n') {
+      plain += hold('<br />\n');
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(text.slice(i))![0].length;
+      const end = findClosingBackticks(text, i + run, run);
+      if (end === -1) {
+        plain += '`'.repeat(run);
+      } else {
+        let code = text.slice(i + run, end).replace(/\n/g, ' ');
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== '') code = code.slice(1, -1);
+        plain += hold(`<code>${escapeHtml(code)}</code>`);
+        i = end;
+      }
+      i += run;
+      continue;
+    }
+
+    if (char === '<') {
+      const rest = text.slice(i);
+      const autolink = AUTOLINK.exec(rest);
+      const email = autolink ? null : EMAIL_AUTOLINK.exec(rest);
+      const tag = autolink || email ? null : INLINE_HTML.exec(rest);
+      if (autolink) {
+        plain += hold(`<a href="${safeHref(autolink[1])}">${escapeHtml(autolink[1])}</a>`);
+      } else if (email) {
+        plain += hold(`<a href="mailto:${safeHref(email[1])}">${escapeHtml(email[1])}</a>`);
+      } else if (tag) {
+        plain += hold(tag[0]);
+      }
+      const matched = autolink ?? email ?? tag;
+      if (matched) {
+        i += matched[0].length;
+        continue;
+      }
+    }
+
+    const shortcode = char === '[' && context.shortcodes ? matchShortcode(text.slice(i), context.shortcodes.names) : null;
+    if (shortcode) {
+      const start = i + shortcode.length;
+      const close = text.indexOf(`[/${shortcode.name}]`, start);
+      const content = close === -1 ? null : renderInline(text.slice(start, close), context);
+      plain += hold(expandShortcode(shortcode.name, shortcode.attributes, content, context));
+      i = close === -1 ? start : close + shortcode.name.length + 3;
+      continue;
+    }
+
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const link = parseLink(text, i, context);
+      if (link) {
+        plain += hold(link.html);
+        i = link.end;
+        continue;
+      }
+    }
+
+    plain += char;
+    i++;
+  }
+
+  plain = plain.replace(BARE_URL, (_: string, before: string, url: string) => {
+    const href = url.startsWith('www.') ? `http://${url}` : url;
+    return `${before}${hold(`<a href="${safeHref(href)}">${escapeText(url)}</a>`)}`;
+  });
+
+  const html = applyEmphasis(escapeText(plain))
+    .replace(/ {2,}\n/g, '<br />\n');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_: string, index: string) => placeholders[Number(index)]);
+}
+
+const headingId = (html: string, context: RenderContext): string => {
+  const base = slugify(attributeText(html)) || 'section';
+  const seen = context.headingIds.get(base) ?? 0;
+  context.headingIds.set(base, seen + 1);
+  return seen === 0 ? base : `${base}-${seen + 1}`;
+};
+
+const alignAttribute = (align: Align): string => (align ? ` align="${align}"` : '');
+
+function renderBlocks(blocks: Block[], context: RenderContext, tight = false): string {
+  return blocks.map((block: Block): string => {
+    switch (block.type) {
+      case 'heading': {
+        const content = renderInline(block.text, context);
+        const id = headingId(content, context);
+        return `<h${block.level} id="${id}"><a class="anchor" href="#${id}" aria-hidden="true"></a>${content}</h${block.level}>`;
+      }
+      case 'paragraph': {
+        const content = renderInline(block.text, context);
+        return tight ? content : `<p>${content}</p>`;
+      }
+      case 'code':
+        return block.language
+          ? `<pre><code class="language-${escapeHtml(block.language)}">${highlightCode(block.code, block.language)}</code></pre>`
+          : `<pre><code>${escapeHtml(block.code)}</code></pre>`;
+      case 'quote':
+        return `<blockquote>\n${renderBlocks(block.children, context)}\n</blockquote>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        const items = block.items.map((item: ListItem) => {
+          const checkbox = item.checked === null ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''} /> `;
+          return `<li${item.checked === null ? '' : ' class="task-list-item"'}>${checkbox}${renderBlocks(item.children, context, block.tight)}</li>`;
+        });
+        return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+      }
+      case 'table': {
+        const header = block.header
+          .map((cell: string, column: number) => `<th${alignAttribute(block.align[column])}>${renderInline(cell, context)}</th>`)
+          .join('');
+        const rows = block.rows.map((row: string[]) =>
+          `<tr>${row.map((cell: string, column: number) => `<td${alignAttribute(block.align[column])}>${renderInline(cell, context)}</td>`).join('')}</tr>`
+        );
+        return `<table>\n<thead>\n<tr>${header}</tr>\n</thead>${rows.length > 0 ? `\n<tbody>\n${rows.join('\n')}\n</tbody>` : ''}\n</table>`;
+      }
+      case 'html':
+        return block.html;
+      case 'shortcode':
+        return expandShortcode(
+          block.name,
+          block.attributes,
+          block.children === null ? null : renderBlocks(block.children, context),
+          context
+        );
+      case 'rule':
+        return '<hr />';
+    }
+  }).join('\n');
+}
+
+// Shortcode HTML may hold the placeholders of shortcodes nested in its content
+const restoreTrusted = (html: string, trusted: string[]): string =>
+  html.replace(TRUSTED, (_: string, index: string) => restoreTrusted(trusted[Number(index)], trusted));
+
+// The block structure of a Markdown document and its link reference definitions, keyed by normalized label
+export function parseMarkdown(
+  markdown: string,
+  shortcodes: ReadonlySet<string> = new Set()
+): { blocks: Block[]; definitions: Map<string, LinkDefinition> } {
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000\uE000]/g, '\uFFFD')
+    .split('\n')
+    .map(expandTabs);
+
+  const definitions = new Map<string, LinkDefinition>();
+  return { blocks: parseBlocks(lines, definitions, shortcodes), definitions };
+}
+
+// A line of paragraph text that Markdown would read as the start of another block gets its marker
+// escaped, so that it stays text. Lines that need no escaping come back unchanged.
+export function escapeBlockStart(line: string): string {
+  const text = line.trimStart();
+  const item = LIST_ITEM.exec(text);
+  if (item) {
+    // "1. x" becomes "1\. x"; bullets are escaped like any other marker
+    return /\d/.test(item[2]) ? text.replace(/^(\d+)/, '$1\\') : `\\${text}`;
+  }
+  const startsBlock = ATX_HEADING.test(text) || FENCE.test(text) || THEMATIC_BREAK.test(text) || BLOCKQUOTE.test(text)
+    || HTML_BLOCK.test(text) || SETEXT_UNDERLINE.test(text) || text.startsWith('|');
+  return startsBlock ? `\\${text}` : text;
+}
+
+// Sanitized HTML for a Markdown document
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): string {
+  const { blocks, definitions } = parseMarkdown(markdown, options.shortcodes?.names);
+  const context: RenderContext = { definitions, headingIds: new Map(), shortcodes: options.shortcodes, trusted: [] };
+  return restoreTrusted(sanitizeHtml(renderBlocks(blocks, context)), context.trusted);
+}
@@ -0,0 +1,171 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from 'crypto';
+
+// OpenID Connect relying party pieces: discovery, PKCE and ID token verification.
+//
+// The identity provider is configured with OIDC_ISSUER and OIDC_CLIENT_ID, plus
+// OIDC_CLIENT_SECRET for confidential clients. OIDC_REDIRECT_URI defaults to the
+// site root, where the admin app picks up the code; OIDC_PROVIDER_NAME labels the
+// sign-in button. Only RS256-signed ID tokens are accepted.
+
+export interface OidcConfig {
+  issuer: string;
+  client_id: string;
+  client_secret: string | null;
+  redirect_uri: string | null;
+  provider_name: string;
+}
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+// Tolerated clock difference between us and the identity provider
+const CLOCK_SKEW_SECONDS = 60;
+
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env['OIDC_ISSUER'];
+  const clientId = process.env['OIDC_CLIENT_ID'];
+  if (!issuer || !clientId) return null;
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    client_id: clientId,
+    client_secret: process.env['OIDC_CLIENT_SECRET'] || null,
+    redirect_uri: process.env['OIDC_REDIRECT_URI'] || null,
+    provider_name: process.env['OIDC_PROVIDER_NAME'] || 'Single sign-on'
+  };
+};
+
+const discoveryCache = new Map<string, OidcDiscovery>();
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<Record<string, unknown>> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Identity provider request to ${url} failed with status ${response.status}`);
+  }
+  return await response.json() as Record<string, unknown>;
+};
+
+export const discover = async (issuer: string): Promise<OidcDiscovery> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached) return cached;
+
+  const document = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  // The document must describe the issuer we asked for, or ID tokens could be accepted from the wrong provider
+  if (document['issuer'] !== issuer) {
+    throw new Error('Identity provider discovery document is for a different issuer');
+  }
+
+  const discovery: OidcDiscovery = {
+    issuer,
+    authorization_endpoint: String(document['authorization_endpoint']),
+    token_endpoint: String(document['token_endpoint']),
+    jwks_uri: String(document['jwks_uri'])
+  };
+  discoveryCache.set(issuer, discovery);
+  return discovery;
+};
+
+// Keys are cached until a token names a kid we have not seen, which is how providers roll their keys
+const findSigningKey = async (jwksUri: string, kid: string | undefined): Promise<JsonWebKey | null> => {
+  const pick = (keys: JsonWebKey[]) => keys.find(key => key.kty === 'RSA' && (kid === undefined || key['kid'] === kid)) ?? null;
+
+  const cached = jwksCache.get(jwksUri);
+  const key = cached ? pick(cached) : null;
+  if (key) return key;
+
+  const document = await fetchJson(jwksUri);
+  const keys = Array.isArray(document['keys']) ? document['keys'] as JsonWebKey[] : [];
+  jwksCache.set(jwksUri, keys);
+  return pick(keys);
+};
+
+// Random values for one authorization request; the verifier never leaves the server
+export const createAuthorizationRequest = () => {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  return {
+    state: randomBytes(32).toString('base64url'),
+    nonce: randomBytes(16).toString('base64url'),
+    code_verifier: codeVerifier,
+    code_challenge: createHash('sha256').update(codeVerifier).digest('base64url')
+  };
+};
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+};
+
+// Checks the signature against the provider's JWKS and the standard claims; throws when anything is off
+export const verifyIdToken = async (
+  idToken: string,
+  expected: { issuer: string; client_id: string; nonce: string; jwks_uri: string }
+): Promise<IdTokenClaims> => {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed ID token');
+  }
+
+  const [headerPart, payloadPart, signaturePart] = parts;
+  const header = decodeSegment(headerPart);
+  if (header['alg'] !== 'RS256') {
+    throw new Error('ID token must be signed with RS256');
+  }
+
+  const jwk = await findSigningKey(expected.jwks_uri, typeof header['kid'] === 'string' ? header['kid'] : undefined);
+  if (!jwk) {
+    throw new Error('ID token was signed with an unknown key');
+  }
+
+  const validSignature = verify(
+    'RSA-SHA256',
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(signaturePart, 'base64url')
+  );
+  if (!validSignature) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const claims = decodeSegment(payloadPart) as IdTokenClaims;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== expected.issuer) {
+    throw new Error('ID token was issued by a different provider');
+  }
+  if (!audiences.includes(expected.client_id) || (audiences.length > 1 && claims.azp !== expected.client_id)) {
+    throw new Error('ID token was issued for a different client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('ID token was issued in the future');
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new Error('ID token nonce does not match the sign-in request');
+  }
+
+  return claims;
+};
@@ -0,0 +1,69 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+// Password hashes are stored as `scrypt$<version>$<salt>$<hash>` (salt and hash base64url).
+// The version pins the scrypt parameters, so raising the cost means adding a new entry
+// here and bumping CURRENT_VERSION; older hashes keep verifying and get upgraded on login.
+
+interface ScryptParams extends ScryptOptions {
+  keyLength: number;
+}
+
+const SCRYPT_VERSIONS: Record<string, ScryptParams> = {
+  v1: { N: 2 ** 15, r: 8, p: 1, keyLength: 64, maxmem: 64 * 1024 * 1024 }
+};
+
+const CURRENT_VERSION = 'v1';
+const SALT_BYTES = 16;
+
+const deriveKey = (password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> => {
+  const { keyLength, ...options } = params;
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, keyLength, options, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+};
+
+const safeEqual = (a: Buffer, b: Buffer): boolean => {
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await deriveKey(password, salt, SCRYPT_VERSIONS[CURRENT_VERSION]);
+  return `scrypt$${CURRENT_VERSION}$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+};
+
+// needsRehash is set when the stored hash is valid but uses a legacy scheme or older parameters
+export const verifyPassword = async (
+  password: string,
+  storedHash: string
+): Promise<{ valid: boolean; needsRehash: boolean }> => {
+  const parts = storedHash.split('$');
+
+  if (parts.length === 4 && parts[0] === 'scrypt') {
+    const [, version, salt, hash] = parts;
+    const params = SCRYPT_VERSIONS[version];
+    if (!params) return { valid: false, needsRehash: false };
+
+    const derived = await deriveKey(password, Buffer.from(salt, 'base64url'), params);
+    const valid = safeEqual(derived, Buffer.from(hash, 'base64url'));
+    return { valid, needsRehash: valid && version !== CURRENT_VERSION };
+  }
+
+  // Legacy: unsalted SHA-256 hex digest from the original login handler
+  if (/^[0-9a-f]{64}$/.test(storedHash)) {
+    const digest = createHash('sha256').update(password).digest('hex');
+    const valid = safeEqual(Buffer.from(digest), Buffer.from(storedHash));
+    return { valid, needsRehash: valid };
+  }
+
+  // Legacy: `hashed_<password>` placeholder written by the original createUser
+  if (storedHash.startsWith('hashed_')) {
+    const valid = safeEqual(Buffer.from(`hashed_${password}`), Buffer.from(storedHash));
+    return { valid, needsRehash: valid };
+  }
+
+  return { valid: false, needsRehash: false };
+};
@@ -0,0 +1,190 @@
+// Allow-list HTML sanitizer for rendered post content. Anything not listed here is removed: unknown
+// tags are unwrapped (their text stays), dangerous ones are dropped with their content, and only
+// the listed attributes survive. The output is well formed: stray closing tags are ignored and
+// unclosed ones are closed at the end.
+
+const ALLOWED_TAGS: Record<string, readonly string[]> = {
+  a: ['href', 'title', 'class', 'aria-hidden'],
+  abbr: ['title'],
+  blockquote: [],
+  br: [],
+  code: ['class'],
+  del: [],
+  details: ['open'],
+  div: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h1: ['id'],
+  h2: ['id'],
+  h3: ['id'],
+  h4: ['id'],
+  h5: ['id'],
+  h6: ['id'],
+  hr: [],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  input: ['type', 'checked', 'disabled'],
+  kbd: [],
+  li: ['class'],
+  mark: [],
+  ol: ['start'],
+  p: [],
+  pre: [],
+  s: [],
+  span: ['class'],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['align'],
+  th: ['align'],
+  thead: [],
+  tr: [],
+  ul: []
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input']);
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'textarea', 'title', 'svg', 'math', 'select']);
+
+// Only classes the renderer itself emits
+const ALLOWED_CLASS = /^(?:language-[\w+#-]+|hl-[a-z]+|anchor|task-list-item)$/;
+
+const SAFE_URL = /^(?:https?:|mailto:|[^:]*$)/i;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+
+const TAG = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const ENTITY = /&(?:#\d{1,7}|#x[0-9a-f]{1,6}|[a-z][a-z0-9]{1,31});/iy;
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#\d{1,7}|#x[0-9a-f]{1,6}|[a-z][a-z0-9]{1,31});/gi, (entity: string, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\uFFFD';
+    }
+    return Object.hasOwn(NAMED_ENTITIES, name) ? NAMED_ENTITIES[name] : entity;
+  });
+
+// Escapes text while keeping entity references such as &copy; intact
+export const escapeText = (text: string): string => {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '&') {
+      ENTITY.lastIndex = i;
+      const entity = ENTITY.exec(text);
+      if (entity) {
+        result += entity[0];
+        i += entity[0].length - 1;
+        continue;
+      }
+      result += '&amp;';
+    } else if (char === '<') {
+      result += '&lt;';
+    } else if (char === '>') {
+      result += '&gt;';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+};
+
+const isSafeUrl = (url: string): boolean =>
+  // Browsers ignore whitespace and control characters inside the scheme ("java\nscript:")
+  SAFE_URL.test(decodeEntities(url).replace(/[\u0000-\u0020\u007f]/g, ''));
+
+const sanitizeAttributes = (tag: string, source: string): string => {
+  const allowed = ALLOWED_TAGS[tag];
+  let result = '';
+
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (!allowed.includes(name)) continue;
+    if ((name === 'href' || name === 'src') && !isSafeUrl(value)) continue;
+    if (name === 'class') {
+      const classes = value.split(/\s+/).filter(className => ALLOWED_CLASS.test(className));
+      if (classes.length > 0) result += ` class="${escapeHtml(classes.join(' '))}"`;
+      continue;
+    }
+    result += match[2] === undefined && match[3] === undefined && match[4] === undefined
+      ? ` ${name}`
+      : ` ${name}="${escapeHtml(value)}"`;
+  }
+
+  // Checkboxes from task lists are the only inputs, and they are read-only
+  if (tag === 'input' && !result.includes(' disabled')) result += ' disabled';
+  if (tag === 'a' && /\bhref="https?:/i.test(result)) result += ' rel="nofollow noopener"';
+  return result;
+};
+
+export function sanitizeHtml(html: string): string {
+  let result = '';
+  const open: string[] = [];
+  let i = 0;
+
+  while (i < html.length) {
+    const next = html.indexOf('<', i);
+    if (next === -1) {
+      result += escapeText(html.slice(i));
+      break;
+    }
+    result += escapeText(html.slice(i, next));
+    i = next;
+
+    if (html.startsWith('<!--', i)) {
+      const end = html.indexOf('-->', i + 4);
+      i = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    const match = TAG.exec(html.slice(i));
+    if (!match) {
+      result += '&lt;';
+      i++;
+      continue;
+    }
+    i += match[0].length;
+
+    const [, closing, rawName, attributes] = match;
+    const tag = rawName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      if (!closing) {
+        const end = html.toLowerCase().indexOf(`</${tag}`, i);
+        i = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      }
+      continue;
+    }
+    if (!Object.hasOwn(ALLOWED_TAGS, tag)) continue;
+
+    if (closing) {
+      const index = open.lastIndexOf(tag);
+      if (index === -1) continue;
+      while (open.length > index) result += `</${open.pop()}>`;
+      continue;
+    }
+
+    if (tag === 'input' && !/\btype\s*=\s*["']?checkbox\b/i.test(attributes)) continue;
+    result += `<${tag}${sanitizeAttributes(tag, attributes)}${VOID_TAGS.has(tag) ? ' /' : ''}>`;
+    if (!VOID_TAGS.has(tag)) open.push(tag);
+  }
+
+  while (open.length > 0) result += `</${open.pop()}>`;
+  return result;
+}
+
+// Readable text of an HTML fragment, for descriptions and summaries
+export const htmlToText = (html: string): string =>
+  decodeEntities(html.replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, ' ').replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { mediaTable, postsTable, redirectsTable } from '../db/schema';
+import { type ContentIssue, type Media, type Post } from '../schema';
+import { renderMarkdown, type ShortcodeCall } from './markdown';
+import { escapeHtml } from './sanitize';
+import { and, eq, inArray, like, or, sql } from 'drizzle-orm';
+
+// Shortcodes put things into posts that Markdown cannot express: [name attr=value] on its own, or
+// wrapped around content as [name attr=value]...[/name]. Each one checks its attributes with a zod
+// schema and renders trusted HTML, so its render function escapes every value it embeds.
+
+interface ShortcodeData {
+  images: Map<number, Pick<Media, 'id' | 'file_path' | 'alt_text' | 'caption'>>;
+  // Keyed by the slug used in the shortcode, which may be an old slug of the post
+  posts: Map<string, Pick<Post, 'title' | 'slug' | 'excerpt'>>;
+}
+
+interface References {
+  // Ids of media that have to be images
+  images?: number[];
+  posts?: string[];
+}
+
+interface ShortcodeDefinition<T extends z.ZodTypeAny> {
+  // Whether the shortcode wraps content, which then needs a closing tag
+  enclosing: boolean;
+  attributes: T;
+  // Images and posts to load before rendering
+  references?: (attributes: z.infer<T>) => References;
+  render: (attributes: z.infer<T>, content: string | null, data: ShortcodeData) => string;
+}
+
+interface Shortcode {
+  enclosing: boolean;
+  validate: (attributes: Record<string, string>) => string[];
+  references: (attributes: Record<string, string>) => References;
+  render: (call: ShortcodeCall, data: ShortcodeData) => string;
+}
+
+// Hides the attribute type behind parsing, so shortcodes with different schemas share one registry
+const defineShortcode = <T extends z.ZodTypeAny>(definition: ShortcodeDefinition<T>): Shortcode => ({
+  enclosing: definition.enclosing,
+  validate: (attributes: Record<string, string>) => {
+    const parsed = definition.attributes.safeParse(attributes);
+    return parsed.success
+      ? []
+      : parsed.error.issues.map((issue: z.ZodIssue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+  },
+  references: (attributes: Record<string, string>) => {
+    const parsed = definition.attributes.safeParse(attributes);
+    return parsed.success && definition.references ? definition.references(parsed.data) : {};
+  },
+  // Invalid attributes render nothing but the wrapped content; validateContent reports them
+  render: (call: ShortcodeCall, data: ShortcodeData) => {
+    const parsed = definition.attributes.safeParse(call.attributes);
+    return parsed.success ? definition.render(parsed.data, call.content, data) : call.content ?? '';
+  }
+});
+
+const SHORTCODES: Record<string, Shortcode> = {
+  gallery: defineShortcode({
+    enclosing: false,
+    attributes: z.object({
+      ids: z.string()
+        .regex(/^\d+(?:,\d+)*$/, 'Expected a comma-separated list of media ids')
+        .transform((ids: string) => ids.split(',').map(Number)),
+      columns: z.coerce.number().int().min(1).max(6).default(3)
+    }).strict(),
+    references: ({ ids }) => ({ images: ids }),
+    render: ({ ids, columns }, _content, data) => {
+      const images = ids
+        .map((id: number) => data.images.get(id))
+        .filter((image): image is NonNullable<typeof image> => image !== undefined)
+        .map(item => {
+          const caption = item.caption ? `<figcaption>${escapeHtml(item.caption)}</figcaption>` : '';
+          return `<figure><img src="${escapeHtml(item.file_path)}" alt="${escapeHtml(item.alt_text ?? '')}" loading="lazy" />${caption}</figure>`;
+        });
+      return images.length > 0 ? `<div class="gallery" data-columns="${columns}">${images.join('')}</div>` : '';
+    }
+  }),
+
+  youtube: defineShortcode({
+    enclosing: false,
+    attributes: z.object({
+      id: z.string().regex(/^[\w-]{11}$/, 'Expected an 11-character YouTube video id'),
+      start: z.coerce.number().int().min(0).optional(),
+      title: z.string().default('YouTube video')
+    }).strict(),
+    render: ({ id, start, title }) => {
+      const src = `https://www.youtube-nocookie.com/embed/${id}${start ? `?start=${start}` : ''}`;
+      return `<div class="embed embed-youtube"><iframe src="${src}" title="${escapeHtml(title)}" loading="lazy" `
+        + 'allow="encrypted-media; picture-in-picture" allowfullscreen></iframe></div>';
+    }
+  }),
+
+  callout: defineShortcode({
+    enclosing: true,
+    attributes: z.object({
+      type: z.enum(['info', 'tip', 'warning', 'danger']).default('info'),
+      title: z.string().optional()
+    }).strict(),
+    render: ({ type, title }, content) => {
+      const heading = title ? `<p class="callout-title">${escapeHtml(title)}</p>` : '';
+      return `<aside class="callout callout-${type}" role="note">${heading}${content ?? ''}</aside>`;
+    }
+  }),
+
+  post: defineShortcode({
+    enclosing: false,
+    attributes: z.object({
+      slug: z.string().min(1)
+    }).strict(),
+    references: ({ slug }) => ({ posts: [slug] }),
+    render: ({ slug }, _content, { posts }) => {
+      const post = posts.get(slug);
+      if (!post) return '';
+      const excerpt = post.excerpt ? `<span class="post-card-excerpt">${escapeHtml(post.excerpt)}</span>` : '';
+      return `<a class="post-card" href="/posts/${escapeHtml(post.slug)}"><strong class="post-card-title">${escapeHtml(post.title)}</strong>${excerpt}</a>`;
+    }
+  })
+};
+
+export const SHORTCODE_NAMES: ReadonlySet<string> = new Set(Object.keys(SHORTCODES));
+
+// Anything shaped like a shortcode: a name with at least one attribute, or a closing tag
+const SHORTCODE_LIKE = /\[(?:([a-z][a-z0-9-]*)(?:[ \t]+[a-z][\w-]*=(?:"[^"\n]*"|'[^'\n]*'|[^\s"'\]]+))+|\/([a-z][a-z0-9-]*))[ \t]*\]/g;
+const FENCED_CODE = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^ {0,3}\1[ \t]*$|(?![\s\S]))/gm;
+const CODE_SPAN = /(`+)[\s\S]*?\1/g;
+
+// The shortcodes in the content, nested ones included, in the order they are rendered
+const collectShortcodes = (content: string): ShortcodeCall[] => {
+  const calls: ShortcodeCall[] = [];
+  renderMarkdown(content, {
+    shortcodes: {
+      names: SHORTCODE_NAMES,
+      render: (call: ShortcodeCall) => {
+        calls.push(call);
+        return '';
+      }
+    }
+  });
+  return calls;
+};
+
+async function loadShortcodeData(calls: ShortcodeCall[]): Promise<ShortcodeData> {
+  const imageIds = new Set<number>();
+  const slugs = new Set<string>();
+  for (const call of calls) {
+    const references = SHORTCODES[call.name].references(call.attributes);
+    references.images?.forEach((id: number) => imageIds.add(id));
+    references.posts?.forEach((slug: string) => slugs.add(slug));
+  }
+
+  const data: ShortcodeData = { images: new Map(), posts: new Map() };
+
+  if (imageIds.size > 0) {
+    const images = await db.select({
+      id: mediaTable.id,
+      file_path: mediaTable.file_path,
+      alt_text: mediaTable.alt_text,
+      caption: mediaTable.caption
+    })
+      .from(mediaTable)
+      .where(and(inArray(mediaTable.id, [...imageIds]), like(mediaTable.mime_type, 'image/%')))
+      .execute();
+    images.forEach(image => data.images.set(image.id, image));
+  }
+
+  if (slugs.size > 0) {
+    const fields = { title: postsTable.title, slug: postsTable.slug, excerpt: postsTable.excerpt };
+    const posts = await db.select(fields)
+      .from(postsTable)
+      .where(and(inArray(postsTable.slug, [...slugs]), eq(postsTable.status, 'published')))
+      .execute();
+    posts.forEach(post => data.posts.set(post.slug, post));
+
+    // Embeds of a renamed post keep working through its redirect
+    const renamed = [...slugs].filter((slug: string) => !data.posts.has(slug));
+    if (renamed.length > 0) {
+      const redirected = await db.select({ ...fields, old_slug: redirectsTable.old_slug })
+        .from(redirectsTable)
+        .innerJoin(postsTable, eq(postsTable.id, redirectsTable.entity_id))
+        .where(and(
+          eq(redirectsTable.entity_type, 'post'),
+          inArray(redirectsTable.old_slug, renamed),
+          eq(postsTable.status, 'published')
+        ))
+        .execute();
+      redirected.forEach(({ old_slug, ...post }) => data.posts.set(old_slug, post));
+    }
+  }
+
+  return data;
+}
+
+// Post content as sanitized HTML with its shortcodes expanded
+export async function renderContent(content: string): Promise<string> {
+  const data = await loadShortcodeData(collectShortcodes(content));
+  return renderMarkdown(content, {
+    shortcodes: {
+      names: SHORTCODE_NAMES,
+      render: (call: ShortcodeCall) => SHORTCODES[call.name].render(call, data)
+    }
+  });
+}
+
+// Unknown shortcodes, invalid attributes, unpaired tags, and images or published posts that do not exist
+export async function findShortcodeIssues(content: string): Promise<ContentIssue[]> {
+  const issues: ContentIssue[] = [];
+  const calls = collectShortcodes(content);
+
+  const closingTags = new Map<string, number>();
+  const outsideCode = content.replace(FENCED_CODE, '').replace(CODE_SPAN, '');
+  for (const [source, opening, closing] of outsideCode.matchAll(SHORTCODE_LIKE)) {
+    const name = opening ?? closing;
+    if (!SHORTCODE_NAMES.has(name)) {
+      issues.push({ shortcode: name, message: `Unknown shortcode ${source}` });
+    } else if (closing) {
+      closingTags.set(name, (closingTags.get(name) ?? 0) + 1);
+    }
+  }
+
+  for (const call of calls) {
+    const shortcode = SHORTCODES[call.name];
+    for (const message of shortcode.validate(call.attributes)) {
+      issues.push({ shortcode: call.name, message: `Invalid [${call.name}] attribute ${message}` });
+    }
+    if (shortcode.enclosing && call.content === null) {
+      issues.push({ shortcode: call.name, message: `[${call.name}] needs a closing [/${call.name}]` });
+    }
+    if (!shortcode.enclosing && call.content !== null) {
+      issues.push({ shortcode: call.name, message: `[${call.name}] does not take content or a closing tag` });
+    }
+  }
+
+  // Closing tags the renderer did not pair with an opening one are left in the text
+  for (const [name, count] of closingTags) {
+    const closed = calls.filter((call: ShortcodeCall) => call.name === name && call.content !== null).length;
+    if (count > closed) {
+      issues.push({ shortcode: name, message: `[/${name}] has no opening [${name}]` });
+    }
+  }
+
+  const data = await loadShortcodeData(calls);
+  for (const call of calls) {
+    const references = SHORTCODES[call.name].references(call.attributes);
+    for (const id of references.images ?? []) {
+      if (!data.images.has(id)) {
+        issues.push({ shortcode: call.name, message: `No image has the media ID ${id}` });
+      }
+    }
+    for (const slug of references.posts ?? []) {
+      if (!data.posts.has(slug)) {
+        issues.push({ shortcode: call.name, message: `No published post has the slug "${slug}"` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Posts embedding these posts show their title and excerpt, so their cached HTML has to go when
+// one of them changes. Matching the slug anywhere in the content may clear a few too many.
+export async function clearPostEmbeds(executor: Pick<typeof db, 'update'>, slugs: string[]): Promise<void> {
+  if (slugs.length === 0) return;
+  await executor.update(postsTable)
+    .set({ rendered_html: null })
+    .where(and(
+      like(postsTable.content, '%[post %'),
+      or(...slugs.map((slug: string) => like(postsTable.content, `%${slug}%`)))
+    ))
+    .execute();
+}
+
+// Galleries show their media's path, alt text and caption, and image blocks its path, so posts showing
+// one of these media lose their cached HTML when it changes or is deleted. The ids are matched where
+// they appear in a gallery's ids attribute or as an image block's media_id.
+export async function clearMediaEmbeds(executor: Pick<typeof db, 'update'>, mediaIds: number[]): Promise<void> {
+  if (mediaIds.length === 0) return;
+  const ids = `(${mediaIds.join('|')})([^0-9]|$)`;
+  const gallery = `\\[gallery\\s[^]]*ids=["']?([0-9]+,)*${ids}`;
+  const imageBlock = `"media_id":\\s*${ids}`;
+  const pattern = `${gallery}|${imageBlock}`;
+
+  await executor.update(postsTable)
+    .set({ rendered_html: null })
+    .where(sql`${postsTable.content} ~ ${pattern}`)
+    .execute();
+}
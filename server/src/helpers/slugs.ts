@@ -0,0 +1,77 @@
+import { db } from '../db';
+import { postsTable, categoriesTable, tagsTable, seriesTable } from '../db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+
+// Slugs for posts, categories, tags and series: titles in other scripts are transliterated to ASCII,
+// and a slug that is already taken gets the first free numeric suffix (-2, -3, ...).
+
+// Letters that do not decompose into a Latin base letter plus accents
+const TRANSLITERATIONS: Record<string, string> = {
+  // Latin
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l', 'ı': 'i', 'ħ': 'h',
+  // Cyrillic (Russian, Ukrainian, Belarusian)
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'ґ': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'є': 'ye', 'ж': 'zh',
+  'з': 'z', 'и': 'i', 'і': 'i', 'ї': 'yi', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o',
+  'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ў': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch',
+  'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+  // Greek
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k',
+  'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't',
+  'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o'
+};
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+const transliterate = (char: string): string => {
+  if (char in TRANSLITERATIONS) return TRANSLITERATIONS[char];
+  // Accented letters (é, ü, ά) lose their accents; the base letter may itself need transliterating
+  const base = char.normalize('NFKD').replace(COMBINING_MARKS, '');
+  return TRANSLITERATIONS[base] ?? base;
+};
+
+// Lowercase ASCII words joined by hyphens. Characters with no transliteration (CJK, emoji, punctuation)
+// are dropped, so the result may be empty.
+export const slugify = (text: string, maxLength: number = 200): string => {
+  return Array.from(text.toLowerCase())
+    .map(transliterate)
+    .join('')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+/, '')
+    .slice(0, maxLength)
+    .replace(/-+$/, '');
+};
+
+type SluggedTable = typeof postsTable | typeof categoriesTable | typeof tagsTable | typeof seriesTable;
+
+// Longest slug each table's column holds
+const MAX_SLUG_LENGTH = new Map<SluggedTable, number>([
+  [postsTable, 200],
+  [categoriesTable, 100],
+  [tagsTable, 50],
+  [seriesTable, 200]
+]);
+
+// Turns the requested slug (or the title it falls back to) into one that is free in the table.
+// excludeId is the row being renamed, which may keep its own slug.
+export async function uniqueSlug(
+  executor: Pick<typeof db, 'select'>,
+  table: SluggedTable,
+  text: string,
+  fallback: string,
+  excludeId?: number
+): Promise<string> {
+  const maxLength = MAX_SLUG_LENGTH.get(table)!;
+  const slug = slugify(text, maxLength) || fallback;
+
+  for (let suffix = 1; ; suffix++) {
+    const ending = suffix === 1 ? '' : `-${suffix}`;
+    const candidate = `${slug.slice(0, maxLength - ending.length).replace(/-+$/, '')}${ending}`;
+    const taken = await executor.select({ id: table.id })
+      .from(table)
+      .where(excludeId === undefined
+        ? eq(table.slug, candidate)
+        : and(eq(table.slug, candidate), ne(table.id, excludeId)))
+      .execute();
+    if (taken.length === 0) return candidate;
+  }
+}
@@ -1,5 +1,6 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { type IncomingMessage } from 'http';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -8,27 +9,141 @@ import superjson from 'superjson';
 import { z } from 'zod';
 import {
   createUserInputSchema,
+  registerInputSchema,
+  inviteUserInputSchema,
+  acceptInviteInputSchema,
   updateUserInputSchema,
+  deleteUserInputSchema,
+  changePasswordInputSchema,
+  setPasswordInputSchema,
+  loginHistoryInputSchema,
+  createApiTokenInputSchema,
   loginInputSchema,
+  refreshTokenInputSchema,
+  emailAddressInputSchema,
+  resetPasswordInputSchema,
+  mfaCodeInputSchema,
+  verifyMfaInputSchema,
+  oidcCallbackInputSchema,
   createCategoryInputSchema,
   updateCategoryInputSchema,
   createTagInputSchema,
   updateTagInputSchema,
+  createSeriesInputSchema,
+  updateSeriesInputSchema,
   createMediaInputSchema,
   updateMediaInputSchema,
   createPostInputSchema,
   updatePostInputSchema,
+  diffPostRevisionsInputSchema,
+  restorePostRevisionInputSchema,
+  submitPostForReviewInputSchema,
+  assignPostReviewerInputSchema,
+  approvePostInputSchema,
+  requestPostChangesInputSchema,
+  reviewQueueInputSchema,
+  validateContentInputSchema,
+  convertContentInputSchema,
+  resolveRedirectInputSchema,
   createCommentInputSchema,
   updateCommentInputSchema,
   searchPostsInputSchema,
   updateSiteSettingsInputSchema,
   rssConfigSchema,
-  postSchema
+  postSchema,
+  createRoleInputSchema,
+  updateRoleInputSchema,
+  auditLogInputSchema,
+  type PublicUser,
+  type Capability,
+  type ApiTokenScope
 } from './schema';
 
 // Import all handlers
 // Authentication handlers
-import { loginUser, verifyToken, refreshToken } from './handlers/auth';
+import {
+  loginUser,
+  verifyToken,
+  authenticateAccessToken,
+  refreshToken,
+  logoutUser,
+  listSessions,
+  revokeSession,
+  revokeUserSessions,
+  impersonateUser,
+  extractBearerToken,
+  type ClientInfo
+} from './handlers/auth';
+
+// Account recovery and verification handlers
+import {
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  resendEmailVerification,
+  registerUser
+} from './handlers/account';
+
+// Two-factor authentication handlers
+import {
+  setupMfa,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  verifyMfaLogin,
+  resolveMfaChallenge
+} from './handlers/mfa';
+
+// OIDC single sign-on handlers
+import {
+  getOidcStatus,
+  startOidcLogin,
+  completeOidcLogin
+} from './handlers/oidc';
+
+// Personal API token handlers
+import {
+  isApiToken,
+  authenticateApiToken,
+  createApiToken,
+  getApiTokens,
+  revokeApiToken
+} from './handlers/tokens';
+
+// Invitation handlers
+import {
+  inviteUser,
+  getInvitations,
+  revokeInvitation,
+  acceptInvitation
+} from './handlers/invitations';
+
+// Role and capability handlers
+import {
+  hasCapability,
+  canActOnOwned,
+  canEditPost,
+  needsPublishCapability,
+  getRoleCapabilities,
+  seedDefaultRoles,
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole
+} from './handlers/roles';
+
+// Audit log handlers
+import {
+  entityIdOf,
+  isAuditedEntity,
+  snapshotEntity,
+  diffSnapshots,
+  recordAuditEntrySafely,
+  getAuditLog
+} from './handlers/audit';
+
+// Login throttling handlers
+import { unlockUser, getLoginHistory } from './handlers/lockout';
 
 // User management handlers
 import { 
@@ -36,7 +151,10 @@ import {
   getUsers, 
   getUserById, 
   updateUser, 
-  deleteUser 
+  deleteUser,
+  changePassword,
+  setPassword,
+  approveUser
 } from './handlers/users';
 
 // Category handlers
@@ -62,6 +180,17 @@ import {
   searchTags
 } from './handlers/tags';
 
+// Series handlers
+import {
+  createSeries,
+  getSeries,
+  getSeriesById,
+  getSeriesBySlug,
+  updateSeries,
+  deleteSeries,
+  getSeriesNavigation
+} from './handlers/series';
+
 // Media handlers
 import {
   uploadMedia,
@@ -70,7 +199,8 @@ import {
   updateMedia,
   deleteMedia,
   getMediaByType,
-  generateThumbnail
+  generateThumbnail,
+  getMediaUploaderId
 } from './handlers/media';
 
 // Post handlers
@@ -84,9 +214,29 @@ import {
   publishPost,
   archivePost,
   getRelatedPosts,
-  duplicatePost
+  duplicatePost,
+  getRevisionRestoreInput,
+  submitPostForReview,
+  assignPostReviewer,
+  approvePost,
+  requestPostChanges,
+  getPostReviewers,
+  getReviewQueue,
+  getPostAuthorId,
+  getPostAuthorAndStatus,
+  validatePostContent,
+  convertPostContent
 } from './handlers/posts';
 
+// Scheduled publishing
+import { startScheduler } from './handlers/scheduler';
+
+// Post revision handlers
+import { getPostRevisions, getPostRevision, diffPostRevisions } from './handlers/revisions';
+
+// Slug redirect handlers
+import { resolveRedirect } from './handlers/redirects';
+
 // Comment handlers
 import {
   createComment,
@@ -117,6 +267,7 @@ import {
   generateAtomFeed,
   generateCategoryRSSFeed,
   generateTagRSSFeed,
+  generateSeriesRSSFeed,
   generateAuthorRSSFeed
 } from './handlers/rss';
 
@@ -139,14 +290,194 @@ import {
   validateSettings
 } from './handlers/settings';
 
-const t = initTRPC.create({
+import { ConflictError } from './helpers/concurrency';
+
+// X-Forwarded-For is only honoured behind a reverse proxy (TRUST_PROXY=true), since clients can set it freely
+const getClientInfo = (req: IncomingMessage): ClientInfo => {
+  const forwardedFor = process.env['TRUST_PROXY'] === 'true' ? req.headers['x-forwarded-for'] : undefined;
+  const forwardedIp = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)?.split(',')[0].trim();
+
+  return {
+    ip: (forwardedIp || req.socket.remoteAddress || '').slice(0, 45) || null,
+    user_agent: req.headers['user-agent']?.slice(0, 512) || null
+  };
+};
+
+// Resolve the bearer token (if any) into the current user and the capabilities of their role,
+// either through a session access token or a personal API token with its granted scopes
+async function createContext({ req }: CreateHTTPContextOptions) {
+  const token = extractBearerToken(req.headers.authorization);
+  const client = getClientInfo(req);
+
+  if (token && isApiToken(token)) {
+    const apiAuth = await authenticateApiToken(token);
+    return {
+      user: apiAuth?.user ?? null,
+      capabilities: apiAuth ? await getRoleCapabilities(apiAuth.user.role) : [],
+      sessionId: null,
+      impersonator: null,
+      apiToken: apiAuth ? { id: apiAuth.token_id, scopes: apiAuth.scopes } : null,
+      client
+    };
+  }
+
+  const auth = token ? await authenticateAccessToken(token) : null;
+  return {
+    user: auth?.user ?? null,
+    capabilities: auth ? await getRoleCapabilities(auth.user.role) : [],
+    sessionId: auth?.session_id ?? null,
+    // Set when an admin is using the CMS as ctx.user
+    impersonator: auth?.impersonator ?? null,
+    apiToken: null,
+    client
+  };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+// Procedures that API tokens may call declare the scope they need. Mutations that change
+// something other than their router namespace name that entity for the audit log.
+interface Meta {
+  scope?: ApiTokenScope;
+  entity?: string;
+}
+
+const t = initTRPC.context<Context>().meta<Meta>().create({
   transformer: superjson,
+  // A rejected stale write carries the server's current copy, so the client can merge or overwrite
+  errorFormatter: ({ shape, error }) => ({
+    ...shape,
+    data: {
+      ...shape.data,
+      current: error.cause instanceof ConflictError ? error.cause.current : undefined
+    }
+  })
+});
+
+// Handlers report stale writes with ConflictError, which callers receive as CONFLICT
+const baseProcedure = t.procedure.use(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof ConflictError) {
+    throw new TRPCError({ code: 'CONFLICT', message: result.error.cause.message, cause: result.error.cause });
+  }
+  return result;
+});
+
+// Every successful mutation is written to the audit log with the fields it changed on the
+// entity it touched, snapshotted before and after the handler runs. It is the last middleware of
+// each procedure below, so mutations that fail authorization never reach the snapshot queries.
+const audited = t.middleware(async ({ ctx, meta, path, type, getRawInput, next }) => {
+  if (type !== 'mutation') return next();
+
+  const entityType = meta?.entity ?? path.split('.')[0];
+  const inputId = entityIdOf(await getRawInput());
+  const before = await snapshotEntity(entityType, inputId);
+
+  const result = await next();
+  if (!result.ok) return result;
+
+  // Creates only learn their id from the result
+  const entityId = inputId ?? entityIdOf(result.data);
+  const after = await snapshotEntity(entityType, entityId);
+
+  await recordAuditEntrySafely({
+    actor_id: ctx.user?.id ?? null,
+    impersonator_id: ctx.impersonator?.id ?? null,
+    action: path,
+    entity_type: isAuditedEntity(entityType) ? entityType : null,
+    entity_id: entityId,
+    ...diffSnapshots(before, after),
+    ip: ctx.client.ip
+  });
+
+  return result;
+});
+
+// An API token only acts as its user on procedures whose scope it was granted. On procedures
+// without a scope the caller is treated as anonymous, so tokens can never manage the account itself.
+const scopedProcedure = baseProcedure.use(({ ctx, meta, next }) => {
+  if (!ctx.apiToken) return next();
+
+  if (meta?.scope) {
+    if (!ctx.apiToken.scopes.includes(meta.scope)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `This API token is missing the ${meta.scope} scope` });
+    }
+    return next();
+  }
+
+  return next({ ctx: { user: null, capabilities: [] } });
 });
 
-const publicProcedure = t.procedure;
+const publicProcedure = scopedProcedure.use(audited);
 const router = t.router;
 
-const appRouter = router({
+// Requires a signed-in user and narrows ctx.user to non-null for downstream resolvers
+const signedInProcedure = scopedProcedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    if (ctx.apiToken) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'API tokens cannot be used for this action' });
+    }
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { user: ctx.user } });
+});
+
+const authedProcedure = signedInProcedure.use(audited);
+
+// Account security and credentials stay with the real owner, even while an admin views the CMS as them
+const selfProcedure = signedInProcedure.use(({ ctx, next }) => {
+  if (ctx.impersonator) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This action is not available while impersonating a user' });
+  }
+  return next();
+}).use(audited);
+
+const assertCapability = (capabilities: Capability[], capability: Capability) => {
+  if (!hasCapability(capabilities, capability)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `This action requires the ${capability} capability` });
+  }
+};
+
+const requireCapability = (capability: Capability) => signedInProcedure.use(({ ctx, next }) => {
+  assertCapability(ctx.capabilities, capability);
+  return next();
+}).use(audited);
+
+const assertCanActOn = (
+  ctx: { user: PublicUser; capabilities: Capability[] },
+  ownerId: number,
+  ownCapability: Capability,
+  othersCapability: Capability
+) => {
+  if (!canActOnOwned(ctx.user.id, ctx.capabilities, ownerId, ownCapability, othersCapability)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only modify your own content' });
+  }
+};
+
+const postNotFound = (id: number) => new TRPCError({ code: 'NOT_FOUND', message: `Post with ID ${id} not found` });
+
+// Owners act on their own posts and media; others need the "edit others" capability.
+// Missing posts are reported as NOT_FOUND; missing media fall through to the handler.
+const ownedPostProcedure = signedInProcedure
+  .input(z.object({ id: z.number() }))
+  .use(async ({ ctx, input, next }) => {
+    const authorId = await getPostAuthorId(input.id);
+    if (authorId === null) throw postNotFound(input.id);
+    assertCanActOn(ctx, authorId, 'post.create', 'post.edit_others');
+    return next();
+  })
+  .use(audited);
+
+const ownedMediaProcedure = signedInProcedure
+  .input(z.object({ id: z.number() }))
+  .use(async ({ ctx, input, next }) => {
+    const uploaderId = await getMediaUploaderId(input.id);
+    if (uploaderId !== null) assertCanActOn(ctx, uploaderId, 'media.upload', 'media.edit_others');
+    return next();
+  })
+  .use(audited);
+
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -156,42 +487,227 @@ const appRouter = router({
   auth: router({
     login: publicProcedure
       .input(loginInputSchema)
-      .mutation(({ input }) => loginUser(input)),
+      .mutation(({ ctx, input }) => loginUser(input, ctx.client)),
     
     verify: publicProcedure
       .input(z.object({ token: z.string() }))
       .query(({ input }) => verifyToken(input.token)),
     
     refresh: publicProcedure
+      .input(refreshTokenInputSchema)
+      .mutation(({ ctx, input }) => refreshToken(input.refresh_token, ctx.client)),
+    
+    // Open sign-up; the handler refuses unless allow_registration is switched on
+    register: publicProcedure
+      .input(registerInputSchema)
+      .mutation(({ input }) => registerUser(input)),
+    
+    acceptInvite: publicProcedure
+      .input(acceptInviteInputSchema)
+      .mutation(({ input }) => acceptInvitation(input)),
+    
+    logout: publicProcedure
+      .input(refreshTokenInputSchema)
+      .mutation(({ input }) => logoutUser(input.refresh_token)),
+    
+    requestPasswordReset: publicProcedure
+      .input(emailAddressInputSchema)
+      .mutation(({ input }) => requestPasswordReset(input)),
+    
+    resetPassword: publicProcedure
+      .input(resetPasswordInputSchema)
+      .mutation(({ input }) => resetPassword(input)),
+    
+    verifyEmail: publicProcedure
       .input(z.object({ token: z.string() }))
-      .mutation(({ input }) => refreshToken(input.token))
+      .mutation(({ input }) => verifyEmail(input.token)),
+    
+    resendVerification: publicProcedure
+      .input(emailAddressInputSchema)
+      .mutation(({ input }) => resendEmailVerification(input)),
+
+    // Single sign-on through the OIDC provider: start returns the authorization URL,
+    // and the app sends the code and state it is redirected back with to callback
+    oidc: router({
+      status: publicProcedure
+        .query(() => getOidcStatus()),
+
+      start: publicProcedure
+        .mutation(() => startOidcLogin()),
+
+      callback: publicProcedure
+        .input(oidcCallbackInputSchema)
+        .mutation(({ ctx, input }) => completeOidcLogin(input, ctx.client))
+    }),
+
+    mfa: router({
+      // Signed-in users enrol from their account; users whose role requires 2FA enrol
+      // during login using the challenge token they received instead of a session
+      setup: publicProcedure
+        .input(z.object({ mfa_token: z.string().optional() }))
+        .mutation(({ ctx, input }) => {
+          if (input.mfa_token) {
+            return setupMfa(resolveMfaChallenge(input.mfa_token));
+          }
+          if (!ctx.user) {
+            throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+          }
+          if (ctx.impersonator) {
+            throw new TRPCError({ code: 'FORBIDDEN', message: 'This action is not available while impersonating a user' });
+          }
+          return setupMfa(ctx.user.id);
+        }),
+
+      enable: selfProcedure
+        .input(mfaCodeInputSchema)
+        .mutation(({ ctx, input }) => enableMfa(ctx.user.id, input.code)),
+
+      disable: selfProcedure
+        .input(mfaCodeInputSchema)
+        .mutation(({ ctx, input }) => disableMfa(ctx.user.id, input.code)),
+
+      regenerateRecoveryCodes: selfProcedure
+        .input(mfaCodeInputSchema)
+        .mutation(({ ctx, input }) => regenerateRecoveryCodes(ctx.user.id, input.code)),
+
+      verify: publicProcedure
+        .input(verifyMfaInputSchema)
+        .mutation(({ ctx, input }) => verifyMfaLogin(input, ctx.client))
+    }),
+
+    // What the signed-in user's role allows, so the admin UI can hide what they cannot use
+    capabilities: authedProcedure
+      .query(({ ctx }) => ctx.capabilities),
+
+    // Admins can use the CMS as another user to see what they see. The short-lived token
+    // hangs off the admin's own session, and everything done with it is logged against both
+    impersonate: requireCapability('users.manage')
+      .meta({ entity: 'users' })
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => {
+        if (ctx.sessionId === null) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Impersonation requires a signed-in session' });
+        }
+        return impersonateUser(ctx.user, ctx.sessionId, input.id);
+      }),
+
+    sessions: router({
+      list: selfProcedure
+        .query(({ ctx }) => listSessions(ctx.user.id, ctx.sessionId)),
+
+      revoke: selfProcedure
+        .input(z.object({ id: z.number() }))
+        .mutation(({ ctx, input }) => revokeSession(ctx.user.id, input.id))
+    })
+  }),
+
+  // Personal API tokens - managed with a signed-in session only
+  apiTokens: router({
+    list: selfProcedure
+      .query(({ ctx }) => getApiTokens(ctx.user.id)),
+
+    create: selfProcedure
+      .input(createApiTokenInputSchema)
+      .mutation(({ ctx, input }) => createApiToken(ctx.user.id, input)),
+
+    revoke: selfProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(({ ctx, input }) => revokeApiToken(ctx.user.id, input.id))
   }),
 
   // User management routes
   users: router({
-    create: publicProcedure
+    create: requireCapability('users.manage')
       .input(createUserInputSchema)
       .mutation(({ input }) => createUser(input)),
     
-    list: publicProcedure
+    list: requireCapability('users.manage')
       .query(() => getUsers()),
     
-    getById: publicProcedure
+    getById: authedProcedure
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getUserById(input.id)),
+      .query(({ ctx, input }) => {
+        if (ctx.user.id !== input.id && !hasCapability(ctx.capabilities, 'users.manage')) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only view your own account' });
+        }
+        return getUserById(input.id);
+      }),
     
-    update: publicProcedure
+    update: requireCapability('users.manage')
       .input(updateUserInputSchema)
       .mutation(({ input }) => updateUser(input)),
     
-    delete: publicProcedure
+    delete: requireCapability('users.manage')
+      .input(deleteUserInputSchema)
+      .mutation(({ input }) => deleteUser(input)),
+    
+    changePassword: selfProcedure
+      .input(changePasswordInputSchema)
+      .mutation(({ ctx, input }) => changePassword(ctx.user.id, input)),
+    
+    setPassword: requireCapability('users.manage')
+      .input(setPasswordInputSchema)
+      .mutation(({ input }) => setPassword(input)),
+
+    revokeSessions: requireCapability('users.manage')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => revokeUserSessions(input.id)),
+
+    invite: requireCapability('users.manage')
+      .meta({ entity: 'invitations' })
+      .input(inviteUserInputSchema)
+      .mutation(({ ctx, input }) => inviteUser(ctx.user.id, input)),
+
+    listInvites: requireCapability('users.manage')
+      .query(() => getInvitations()),
+
+    revokeInvite: requireCapability('users.manage')
+      .meta({ entity: 'invitations' })
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => revokeInvitation(input.id)),
+
+    approve: requireCapability('users.manage')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => approveUser(input.id)),
+
+    unlock: requireCapability('users.manage')
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => unlockUser(input.id)),
+
+    loginHistory: requireCapability('users.manage')
+      .input(loginHistoryInputSchema)
+      .query(({ input }) => getLoginHistory(input))
+  }),
+
+  // Role routes - roles are named sets of capabilities
+  roles: router({
+    list: authedProcedure
+      .query(() => getRoles()),
+
+    create: requireCapability('users.manage')
+      .input(createRoleInputSchema)
+      .mutation(({ input }) => createRole(input)),
+
+    update: requireCapability('users.manage')
+      .input(updateRoleInputSchema)
+      .mutation(({ input }) => updateRole(input)),
+
+    delete: requireCapability('users.manage')
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => deleteUser(input.id))
+      .mutation(({ input }) => deleteRole(input.id))
+  }),
+
+  // Audit log routes - entries are written by the audit middleware for every mutation
+  audit: router({
+    list: requireCapability('users.manage')
+      .input(auditLogInputSchema)
+      .query(({ input }) => getAuditLog(input))
   }),
 
   // Category routes
   categories: router({
-    create: publicProcedure
+    create: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
       .input(createCategoryInputSchema)
       .mutation(({ input }) => createCategory(input)),
     
@@ -206,11 +722,13 @@ const appRouter = router({
       .input(z.object({ slug: z.string() }))
       .query(({ input }) => getCategoryBySlug(input.slug)),
     
-    update: publicProcedure
+    update: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
       .input(updateCategoryInputSchema)
       .mutation(({ input }) => updateCategory(input)),
     
-    delete: publicProcedure
+    delete: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => deleteCategory(input.id)),
     
@@ -220,7 +738,8 @@ const appRouter = router({
 
   // Tag routes
   tags: router({
-    create: publicProcedure
+    create: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
       .input(createTagInputSchema)
       .mutation(({ input }) => createTag(input)),
     
@@ -235,11 +754,13 @@ const appRouter = router({
       .input(z.object({ slug: z.string() }))
       .query(({ input }) => getTagBySlug(input.slug)),
     
-    update: publicProcedure
+    update: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
       .input(updateTagInputSchema)
       .mutation(({ input }) => updateTag(input)),
     
-    delete: publicProcedure
+    delete: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => deleteTag(input.id)),
     
@@ -252,13 +773,49 @@ const appRouter = router({
       .query(({ input }) => searchTags(input.query))
   }),
 
+  // Series routes
+  series: router({
+    create: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
+      .input(createSeriesInputSchema)
+      .mutation(({ input }) => createSeries(input)),
+    
+    list: publicProcedure
+      .query(() => getSeries()),
+    
+    // Lists unpublished parts too, for editing the series
+    getById: authedProcedure
+      .meta({ scope: 'posts:read' })
+      .input(z.object({ id: z.number() }))
+      .query(({ input }) => getSeriesById(input.id)),
+    
+    getBySlug: publicProcedure
+      .input(z.object({ slug: z.string() }))
+      .query(({ input }) => getSeriesBySlug(input.slug)),
+    
+    update: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
+      .input(updateSeriesInputSchema)
+      .mutation(({ input }) => updateSeries(input)),
+    
+    delete: requireCapability('taxonomy.manage')
+      .meta({ scope: 'taxonomy:write' })
+      .input(z.object({ id: z.number() }))
+      .mutation(({ input }) => deleteSeries(input.id))
+  }),
+
   // Media routes
   media: router({
-    upload: publicProcedure
+    upload: requireCapability('media.upload')
+      .meta({ scope: 'media:write' })
       .input(createMediaInputSchema)
-      .mutation(({ input }) => uploadMedia(input)),
+      .mutation(({ ctx, input }) => {
+        assertCanActOn(ctx, input.uploaded_by, 'media.upload', 'media.edit_others');
+        return uploadMedia(input);
+      }),
     
-    library: publicProcedure
+    library: authedProcedure
+      .meta({ scope: 'media:read' })
       .input(z.object({ page: z.number().optional(), limit: z.number().optional() }))
       .query(({ input }) => getMediaLibrary(input.page, input.limit)),
     
@@ -266,15 +823,17 @@ const appRouter = router({
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getMediaById(input.id)),
     
-    update: publicProcedure
+    update: ownedMediaProcedure
+      .meta({ scope: 'media:write' })
       .input(updateMediaInputSchema)
       .mutation(({ input }) => updateMedia(input)),
     
-    delete: publicProcedure
-      .input(z.object({ id: z.number() }))
+    delete: ownedMediaProcedure
+      .meta({ scope: 'media:write' })
       .mutation(({ input }) => deleteMedia(input.id)),
     
-    getByType: publicProcedure
+    getByType: authedProcedure
+      .meta({ scope: 'media:read' })
       .input(z.object({ mimeTypePrefix: z.string() }))
       .query(({ input }) => getMediaByType(input.mimeTypePrefix)),
     
@@ -285,45 +844,172 @@ const appRouter = router({
 
   // Post routes
   posts: router({
-    create: publicProcedure
+    create: requireCapability('post.create')
+      .meta({ scope: 'posts:write' })
       .input(createPostInputSchema)
-      .mutation(({ input }) => createPost(input)),
+      .mutation(({ ctx, input }) => {
+        assertCanActOn(ctx, input.author_id, 'post.create', 'post.edit_others');
+        if (input.status === 'published' || input.status === 'scheduled') assertCapability(ctx.capabilities, 'post.publish');
+        return createPost(input, ctx.user.id);
+      }),
     
     list: publicProcedure
+      .meta({ scope: 'posts:read' })
       .input(searchPostsInputSchema)
-      .query(({ input }) => getPosts(input)),
+      // Anonymous visitors only ever see published posts
+      .query(({ ctx, input }) => getPosts(ctx.user ? input : { ...input, status: 'published' })),
     
-    getById: publicProcedure
+    getById: authedProcedure
+      .meta({ scope: 'posts:read' })
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getPostById(input.id)),
+      .query(async ({ input }) => {
+        const post = await getPostById(input.id);
+        if (!post) throw postNotFound(input.id);
+        return post;
+      }),
     
+    // Drafts and archived posts are only visible to signed-in users. An old slug of a renamed post
+    // returns the post with redirected_from set, so the client can move to the current URL.
     getBySlug: publicProcedure
       .input(z.object({ slug: z.string() }))
-      .query(({ input }) => getPostBySlug(input.slug)),
+      .query(async ({ ctx, input }) => {
+        const post = await getPostBySlug(input.slug);
+        if (!post || (!ctx.user && post.status !== 'published')) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Post "${input.slug}" not found` });
+        }
+        return post;
+      }),
     
-    update: publicProcedure
+    // Checked here rather than by ownedPostProcedure because SEO roles may change only the meta fields
+    update: authedProcedure
+      .meta({ scope: 'posts:write' })
       .input(updatePostInputSchema)
-      .mutation(({ input }) => updatePost(input)),
+      .mutation(async ({ ctx, input }) => {
+        const post = await getPostAuthorAndStatus(input.id);
+        if (!post) throw postNotFound(input.id);
+        if (!canEditPost(ctx.user.id, ctx.capabilities, post.author_id, input)) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'You cannot edit this post' });
+        }
+        if (needsPublishCapability(post.status, input)) assertCapability(ctx.capabilities, 'post.publish');
+        return updatePost(input, ctx.user.id);
+      }),
     
-    delete: publicProcedure
-      .input(z.object({ id: z.number() }))
+    delete: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
       .mutation(({ input }) => deletePost(input.id)),
     
-    publish: publicProcedure
-      .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => publishPost(input.id)),
+    publish: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
+      .mutation(({ ctx, input }) => {
+        assertCapability(ctx.capabilities, 'post.publish');
+        return publishPost(input.id);
+      }),
     
-    archive: publicProcedure
-      .input(z.object({ id: z.number() }))
+    archive: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
       .mutation(({ input }) => archivePost(input.id)),
+
+    // Editorial review: authors submit drafts, and reviewers who could publish the post approve it
+    // or send it back with notes. Authors without post.publish can only get posts out this way.
+    submitForReview: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
+      .input(submitPostForReviewInputSchema)
+      .mutation(({ input }) => submitPostForReview(input)),
+
+    assignReviewer: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
+      .input(assignPostReviewerInputSchema)
+      .mutation(({ input }) => assignPostReviewer(input)),
+
+    approve: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
+      .input(approvePostInputSchema)
+      .mutation(({ ctx, input }) => {
+        assertCapability(ctx.capabilities, 'post.publish');
+        return approvePost(input, ctx.user.id);
+      }),
+
+    requestChanges: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
+      .input(requestPostChangesInputSchema)
+      .mutation(({ ctx, input }) => {
+        assertCapability(ctx.capabilities, 'post.publish');
+        return requestPostChanges(input, ctx.user.id);
+      }),
+
+    reviewers: requireCapability('post.create')
+      .meta({ scope: 'posts:read' })
+      .query(() => getPostReviewers()),
+
+    reviewQueue: requireCapability('post.edit_others')
+      .meta({ scope: 'posts:read' })
+      .input(reviewQueueInputSchema)
+      .query(({ input }) => getReviewQueue(input)),
+
+    // Reports unknown or invalid shortcodes and embeds of missing images or posts, which rendering
+    // would quietly leave out
+    validateContent: requireCapability('post.create')
+      .meta({ scope: 'posts:read' })
+      .input(validateContentInputSchema)
+      .query(({ input }) => validatePostContent(input)),
+
+    convertContent: requireCapability('post.create')
+      .meta({ scope: 'posts:read' })
+      .input(convertContentInputSchema)
+      .query(({ input }) => convertPostContent(input)),
     
     getRelated: publicProcedure
       .input(z.object({ postId: z.number(), limit: z.number().optional() }))
       .query(({ input }) => getRelatedPosts(input.postId, input.limit)),
     
-    duplicate: publicProcedure
+    // Null for a post outside any series. Anonymous visitors only get it for published posts.
+    getSeriesNavigation: publicProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(({ input }) => duplicatePost(input.id))
+      .query(async ({ ctx, input }) => {
+        const navigation = await getSeriesNavigation(input.id);
+        if (navigation && !ctx.user && navigation.current.status !== 'published') return null;
+        return navigation;
+      }),
+    
+    duplicate: ownedPostProcedure
+      .meta({ scope: 'posts:write' })
+      .mutation(({ ctx, input }) => duplicatePost(input.id, ctx.user.id)),
+
+    // Every save keeps a snapshot of the post; restoring one saves it again as the newest revision
+    revisions: router({
+      list: authedProcedure
+        .meta({ scope: 'posts:read' })
+        .input(z.object({ post_id: z.number() }))
+        .query(({ input }) => getPostRevisions(input.post_id)),
+
+      get: authedProcedure
+        .meta({ scope: 'posts:read' })
+        .input(z.object({ id: z.number() }))
+        .query(async ({ input }) => {
+          const revision = await getPostRevision(input.id);
+          if (!revision) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: `Revision with ID ${input.id} not found` });
+          }
+          return revision;
+        }),
+
+      diff: authedProcedure
+        .meta({ scope: 'posts:read' })
+        .input(diffPostRevisionsInputSchema)
+        .query(({ input }) => diffPostRevisions(input)),
+
+      restore: ownedPostProcedure
+        .meta({ scope: 'posts:write' })
+        .input(restorePostRevisionInputSchema)
+        // A restore is an edit like any other, so live posts need post.publish here too
+        .mutation(async ({ ctx, input }) => {
+          const post = await getPostAuthorAndStatus(input.id);
+          if (!post) throw postNotFound(input.id);
+          const restore = await getRevisionRestoreInput(input);
+          if (needsPublishCapability(post.status, restore)) assertCapability(ctx.capabilities, 'post.publish');
+          return updatePost(restore, ctx.user.id);
+        })
+    })
   }),
 
   // Comment routes
@@ -336,60 +1022,69 @@ const appRouter = router({
       .input(z.object({ postId: z.number() }))
       .query(({ input }) => getCommentsByPost(input.postId)),
     
-    getAll: publicProcedure
+    getAll: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .input(z.object({ page: z.number().optional(), limit: z.number().optional() }))
       .query(({ input }) => getAllComments(input.page, input.limit)),
     
-    getById: publicProcedure
+    getById: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getCommentById(input.id)),
     
-    updateStatus: publicProcedure
+    updateStatus: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .input(updateCommentInputSchema)
       .mutation(({ input }) => updateCommentStatus(input)),
     
-    delete: publicProcedure
+    delete: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => deleteComment(input.id)),
     
-    approve: publicProcedure
+    approve: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => approveComment(input.id)),
     
-    reject: publicProcedure
+    reject: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => rejectComment(input.id)),
     
-    markSpam: publicProcedure
+    markSpam: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .input(z.object({ id: z.number() }))
       .mutation(({ input }) => markAsSpam(input.id)),
     
-    getPending: publicProcedure
+    getPending: requireCapability('comment.moderate')
+      .meta({ scope: 'comments:moderate' })
       .query(() => getPendingComments())
   }),
 
   // Search routes
   search: router({
     posts: publicProcedure
+      .meta({ scope: 'posts:read' })
       .input(searchPostsInputSchema)
-      .query(({ input }) => searchPosts(input)),
+      .query(({ ctx, input }) => searchPosts(ctx.user ? input : { ...input, status: 'published' })),
     
     suggestions: publicProcedure
       .input(z.object({ query: z.string(), limit: z.number().optional() }))
       .query(({ input }) => searchSuggestions(input.query, input.limit)),
     
-    analytics: publicProcedure
+    analytics: requireCapability('search.manage')
       .query(() => getSearchAnalytics()),
     
-    indexPost: publicProcedure
+    indexPost: requireCapability('search.manage')
       .input(z.object({ post: postSchema }))
       .mutation(({ input }) => indexPostForSearch(input.post)),
     
-    removeFromIndex: publicProcedure
+    removeFromIndex: requireCapability('search.manage')
       .input(z.object({ postId: z.number() }))
       .mutation(({ input }) => removePostFromSearchIndex(input.postId)),
     
-    rebuildIndex: publicProcedure
+    rebuildIndex: requireCapability('search.manage')
       .mutation(() => rebuildSearchIndex())
   }),
 
@@ -411,11 +1106,22 @@ const appRouter = router({
       .input(z.object({ tagId: z.number(), config: rssConfigSchema.optional() }))
       .query(({ input }) => generateTagRSSFeed(input.tagId, input.config)),
     
+    seriesRss: publicProcedure
+      .input(z.object({ seriesId: z.number(), config: rssConfigSchema.optional() }))
+      .query(({ input }) => generateSeriesRSSFeed(input.seriesId, input.config)),
+    
     authorRss: publicProcedure
       .input(z.object({ authorId: z.number(), config: rssConfigSchema.optional() }))
       .query(({ input }) => generateAuthorRSSFeed(input.authorId, input.config))
   }),
 
+  // Old slugs of renamed posts, categories, tags and series
+  redirects: router({
+    resolve: publicProcedure
+      .input(resolveRedirectInputSchema)
+      .query(({ input }) => resolveRedirect(input))
+  }),
+
   // SEO routes
   seo: router({
     sitemap: publicProcedure
@@ -432,7 +1138,8 @@ const appRouter = router({
       .input(z.object({ post: postSchema }))
       .query(({ input }) => generateStructuredData(input.post)),
     
-    analyze: publicProcedure
+    analyze: authedProcedure
+      .meta({ scope: 'posts:read' })
       .input(z.object({ post: postSchema }))
       .query(({ input }) => analyzePostSEO(input.post)),
     
@@ -446,17 +1153,17 @@ const appRouter = router({
     get: publicProcedure
       .query(() => getSiteSettings()),
     
-    update: publicProcedure
+    update: requireCapability('settings.manage')
       .input(updateSiteSettingsInputSchema)
       .mutation(({ input }) => updateSiteSettings(input)),
     
-    reset: publicProcedure
+    reset: requireCapability('settings.manage')
       .mutation(() => resetToDefaults()),
     
     getTimezones: publicProcedure
       .query(() => getTimezones()),
     
-    validate: publicProcedure
+    validate: requireCapability('settings.manage')
       .input(updateSiteSettingsInputSchema)
       .query(({ input }) => validateSettings(input))
   })
@@ -465,23 +1172,26 @@ const appRouter = router({
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  await seedDefaultRoles();
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
+  startScheduler();
   console.log(`Blog CMS TRPC server listening at port: ${port}`);
   console.log('Available routes:');
   console.log('  - Authentication: /trpc/auth.*');
   console.log('  - Users: /trpc/users.*');
+  console.log('  - Roles: /trpc/roles.*');
+  console.log('  - Audit Log: /trpc/audit.*');
   console.log('  - Categories: /trpc/categories.*');
   console.log('  - Tags: /trpc/tags.*');
+  console.log('  - Series: /trpc/series.*');
   console.log('  - Media: /trpc/media.*');
   console.log('  - Posts: /trpc/posts.*');
   console.log('  - Comments: /trpc/comments.*');
@@ -491,4 +1201,7 @@ async function start() {
   console.log('  - Settings: /trpc/settings.*');
 }
 
-start();
\ No newline at end of file
+// Tests import the router without starting the server
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
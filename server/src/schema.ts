@@ -1,5 +1,58 @@
 import { z } from 'zod';
 
+// Capabilities are fixed in code; roles are editable sets of them stored in the database
+export const capabilitySchema = z.enum([
+  'post.create',
+  'post.publish',
+  'post.edit_others',
+  'post.edit_meta',
+  'media.upload',
+  'media.edit_others',
+  'comment.moderate',
+  'taxonomy.manage',
+  'search.manage',
+  'users.manage',
+  'settings.manage'
+]);
+
+export type Capability = z.infer<typeof capabilitySchema>;
+
+export const roleSlugSchema = z.string()
+  .min(1)
+  .max(50)
+  .regex(/^[a-z][a-z0-9_-]*$/, 'Role slugs may only contain lowercase letters, digits, - and _');
+
+export const roleSchema = z.object({
+  id: z.number(),
+  slug: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  capabilities: z.array(capabilitySchema),
+  is_system: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Role = z.infer<typeof roleSchema>;
+
+export const createRoleInputSchema = z.object({
+  slug: roleSlugSchema,
+  name: z.string().min(1).max(100),
+  description: z.string().nullable().optional(),
+  capabilities: z.array(capabilitySchema)
+});
+
+export type CreateRoleInput = z.infer<typeof createRoleInputSchema>;
+
+export const updateRoleInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().nullable().optional(),
+  capabilities: z.array(capabilitySchema).optional()
+});
+
+export type UpdateRoleInput = z.infer<typeof updateRoleInputSchema>;
+
 // User schema with authentication
 export const userSchema = z.object({
   id: z.number(),
@@ -8,16 +61,27 @@ export const userSchema = z.object({
   password_hash: z.string(),
   first_name: z.string(),
   last_name: z.string(),
-  role: z.enum(['admin', 'editor', 'author']),
+  role: z.string(),
   bio: z.string().nullable(),
   avatar_url: z.string().nullable(),
   is_active: z.boolean(),
+  email_verified_at: z.coerce.date().nullable(),
+  approved_at: z.coerce.date().nullable(),
+  totp_enabled: z.boolean(),
+  failed_login_count: z.number().int(),
+  locked_until: z.coerce.date().nullable(),
+  last_login_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// A user as the API returns it, without the password hash
+export const publicUserSchema = userSchema.omit({ password_hash: true });
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
 // Input schemas for user management
 export const createUserInputSchema = z.object({
   email: z.string().email(),
@@ -25,20 +89,52 @@ export const createUserInputSchema = z.object({
   password: z.string().min(8),
   first_name: z.string().min(1),
   last_name: z.string().min(1),
-  role: z.enum(['admin', 'editor', 'author']),
+  role: roleSlugSchema,
   bio: z.string().nullable().optional(),
   avatar_url: z.string().url().nullable().optional()
 });
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+// Self-registration never lets the visitor pick a role; default_user_role from the settings applies
+export const registerInputSchema = createUserInputSchema.omit({ role: true, bio: true, avatar_url: true });
+
+export type RegisterInput = z.infer<typeof registerInputSchema>;
+
+// Invitations never expose their token; it only travels in the emailed link
+export const invitationSchema = z.object({
+  id: z.number(),
+  email: z.string().email(),
+  role: roleSlugSchema,
+  invited_by: z.number(),
+  expires_at: z.coerce.date(),
+  accepted_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Invitation = z.infer<typeof invitationSchema>;
+
+export const inviteUserInputSchema = z.object({
+  email: z.string().email(),
+  role: roleSlugSchema
+});
+
+export type InviteUserInput = z.infer<typeof inviteUserInputSchema>;
+
+// The invited email and role are fixed by the invitation; the invitee only picks the rest
+export const acceptInviteInputSchema = registerInputSchema.omit({ email: true }).extend({
+  token: z.string()
+});
+
+export type AcceptInviteInput = z.infer<typeof acceptInviteInputSchema>;
+
 export const updateUserInputSchema = z.object({
   id: z.number(),
   email: z.string().email().optional(),
   username: z.string().min(3).max(50).optional(),
   first_name: z.string().min(1).optional(),
   last_name: z.string().min(1).optional(),
-  role: z.enum(['admin', 'editor', 'author']).optional(),
+  role: roleSlugSchema.optional(),
   bio: z.string().nullable().optional(),
   avatar_url: z.string().url().nullable().optional(),
   is_active: z.boolean().optional()
@@ -46,6 +142,41 @@ export const updateUserInputSchema = z.object({
 
 export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
 
+// Deleting a user who still owns posts or media needs somewhere for that content to go:
+// either another user to reassign it to, or keeping the account as deactivated
+export const deleteUserInputSchema = z.object({
+  id: z.number(),
+  reassign_to: z.number().optional(),
+  deactivate: z.boolean().optional(),
+  dry_run: z.boolean().optional()
+});
+
+export type DeleteUserInput = z.infer<typeof deleteUserInputSchema>;
+
+export const deleteUserResultSchema = z.object({
+  action: z.enum(['deleted', 'deactivated']),
+  dry_run: z.boolean(),
+  posts: z.number().int(),
+  media: z.number().int(),
+  comments: z.number().int()
+});
+
+export type DeleteUserResult = z.infer<typeof deleteUserResultSchema>;
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(8)
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const setPasswordInputSchema = z.object({
+  id: z.number(),
+  password: z.string().min(8)
+});
+
+export type SetPasswordInput = z.infer<typeof setPasswordInputSchema>;
+
 export const loginInputSchema = z.object({
   email: z.string().email(),
   password: z.string()
@@ -53,6 +184,190 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Issued on login and on every refresh; the refresh token is single-use
+export const authSessionSchema = z.object({
+  user: publicUserSchema,
+  token: z.string(),
+  refresh_token: z.string(),
+  expires_in: z.number().int()
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// The admin behind an impersonation token
+export const impersonatorSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  first_name: z.string(),
+  last_name: z.string()
+});
+
+export type Impersonator = z.infer<typeof impersonatorSchema>;
+
+// The user a token acts as; impersonated_by is set when an admin is viewing the CMS as them
+export const verifiedUserSchema = publicUserSchema.extend({
+  impersonated_by: impersonatorSchema.nullable()
+});
+
+export type VerifiedUser = z.infer<typeof verifiedUserSchema>;
+
+// Impersonation tokens cannot be refreshed; the admin's own session resumes when they expire
+export const impersonationSessionSchema = z.object({
+  user: publicUserSchema,
+  impersonator: impersonatorSchema,
+  token: z.string(),
+  expires_in: z.number().int()
+});
+
+export type ImpersonationSession = z.infer<typeof impersonationSessionSchema>;
+
+export const loginAttemptSchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  email: z.string(),
+  ip: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  success: z.boolean(),
+  failure_reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+
+export const loginHistoryInputSchema = z.object({
+  user_id: z.number(),
+  limit: z.number().int().positive().max(100).default(20)
+});
+
+export type LoginHistoryInput = z.infer<typeof loginHistoryInputSchema>;
+
+export const apiTokenScopeSchema = z.enum([
+  'posts:read',
+  'posts:write',
+  'media:read',
+  'media:write',
+  'comments:moderate',
+  'taxonomy:write'
+]);
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+// Token metadata as listed to its owner; the secret itself is only returned on creation
+export const apiTokenSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  token_prefix: z.string(),
+  scopes: z.array(apiTokenScopeSchema),
+  expires_at: z.coerce.date().nullable(),
+  last_used_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+
+export const createApiTokenInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(apiTokenScopeSchema).min(1),
+  expires_at: z.coerce.date().nullable().optional()
+});
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenInputSchema>;
+
+export const createdApiTokenSchema = z.object({
+  api_token: apiTokenSchema,
+  token: z.string()
+});
+
+export type CreatedApiToken = z.infer<typeof createdApiTokenSchema>;
+
+// A signed-in device as listed to its owner; `current` marks the session making the request
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_agent: z.string().nullable(),
+  ip: z.string().nullable(),
+  created_at: z.coerce.date(),
+  last_seen_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+  current: z.boolean()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Returned by login instead of a session when a second factor is needed
+export const mfaChallengeSchema = z.object({
+  mfa_required: z.literal(true),
+  mfa_token: z.string(),
+  enrollment_required: z.boolean()
+});
+
+export type MfaChallenge = z.infer<typeof mfaChallengeSchema>;
+
+export type LoginResult = AuthSession | MfaChallenge;
+
+export const mfaCodeInputSchema = z.object({
+  code: z.string().min(6).max(32)
+});
+
+export type MfaCodeInput = z.infer<typeof mfaCodeInputSchema>;
+
+export const verifyMfaInputSchema = z.object({
+  mfa_token: z.string(),
+  code: z.string().min(6).max(32)
+});
+
+export type VerifyMfaInput = z.infer<typeof verifyMfaInputSchema>;
+
+export const mfaSetupSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string(),
+  qr_code_data_url: z.string()
+});
+
+export type MfaSetup = z.infer<typeof mfaSetupSchema>;
+
+// Recovery codes are only ever returned once, right after they are generated
+export const mfaLoginResultSchema = authSessionSchema.extend({
+  recovery_codes: z.array(z.string()).optional()
+});
+
+export type MfaLoginResult = z.infer<typeof mfaLoginResultSchema>;
+
+export const refreshTokenInputSchema = z.object({
+  refresh_token: z.string().min(1)
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenInputSchema>;
+
+// Used by the public flows that start from an email address (password reset, resend verification)
+export const emailAddressInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type EmailAddressInput = z.infer<typeof emailAddressInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string().min(1),
+  new_password: z.string().min(8)
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// OIDC single sign-on schemas
+export const oidcStatusSchema = z.object({
+  enabled: z.boolean(),
+  provider_name: z.string().nullable()
+});
+
+export type OidcStatus = z.infer<typeof oidcStatusSchema>;
+
+// The identity provider redirects back with these query parameters
+export const oidcCallbackInputSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1)
+});
+
+export type OidcCallbackInput = z.infer<typeof oidcCallbackInputSchema>;
+
 // Category schema
 export const categorySchema = z.object({
   id: z.number(),
@@ -68,9 +383,10 @@ export const categorySchema = z.object({
 
 export type Category = z.infer<typeof categorySchema>;
 
+// Slugs left out are generated from the name or title
 export const createCategoryInputSchema = z.object({
   name: z.string().min(1).max(100),
-  slug: z.string().min(1).max(100),
+  slug: z.string().min(1).max(100).optional(),
   description: z.string().nullable().optional(),
   parent_id: z.number().nullable().optional(),
   meta_title: z.string().nullable().optional(),
@@ -86,7 +402,9 @@ export const updateCategoryInputSchema = z.object({
   description: z.string().nullable().optional(),
   parent_id: z.number().nullable().optional(),
   meta_title: z.string().nullable().optional(),
-  meta_description: z.string().nullable().optional()
+  meta_description: z.string().nullable().optional(),
+  // The updated_at of the copy being edited; a newer copy on the server rejects the write as a conflict
+  expected_updated_at: z.coerce.date().optional()
 });
 
 export type UpdateCategoryInput = z.infer<typeof updateCategoryInputSchema>;
@@ -105,7 +423,7 @@ export type Tag = z.infer<typeof tagSchema>;
 
 export const createTagInputSchema = z.object({
   name: z.string().min(1).max(50),
-  slug: z.string().min(1).max(50),
+  slug: z.string().min(1).max(50).optional(),
   description: z.string().nullable().optional()
 });
 
@@ -115,7 +433,8 @@ export const updateTagInputSchema = z.object({
   id: z.number(),
   name: z.string().min(1).max(50).optional(),
   slug: z.string().min(1).max(50).optional(),
-  description: z.string().nullable().optional()
+  description: z.string().nullable().optional(),
+  expected_updated_at: z.coerce.date().optional()
 });
 
 export type UpdateTagInput = z.infer<typeof updateTagInputSchema>;
@@ -159,19 +478,167 @@ export const updateMediaInputSchema = z.object({
 export type UpdateMediaInput = z.infer<typeof updateMediaInputSchema>;
 
 // Blog post schema
+// Scheduled posts wait for their future published_at, when the scheduler publishes them.
+// Posts pending review wait for a reviewer to approve them or send them back as drafts.
+export const postStatusSchema = z.enum(['draft', 'pending_review', 'scheduled', 'published', 'archived']);
+
+export type PostStatus = z.infer<typeof postStatusSchema>;
+
+// Block content schemas - a post whose content_format is 'blocks' stores a JSON array of blocks as
+// its content. Text fields hold inline Markdown: emphasis, links, code spans and inline shortcodes.
+export const contentFormatSchema = z.enum(['markdown', 'blocks']);
+
+export type ContentFormat = z.infer<typeof contentFormatSchema>;
+
+export interface QuoteBlock {
+  type: 'quote';
+  children: ContentBlock[];
+}
+
+// A shortcode such as [youtube id=...]; enclosing ones like [callout] wrap their children
+export interface EmbedBlock {
+  type: 'embed';
+  name: string;
+  attributes: Record<string, string>;
+  children: ContentBlock[] | null;
+}
+
+export interface ListBlockItem {
+  // null for plain items, true or false for task list items
+  checked: boolean | null;
+  children: ContentBlock[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  // Tight lists render their items' text without paragraphs
+  tight: boolean;
+  items: ListBlockItem[];
+}
+
+export type ContentBlock =
+  | z.infer<typeof paragraphBlockSchema>
+  | z.infer<typeof headingBlockSchema>
+  | z.infer<typeof imageBlockSchema>
+  | QuoteBlock
+  | z.infer<typeof codeBlockSchema>
+  | EmbedBlock
+  | ListBlock
+  | z.infer<typeof tableBlockSchema>
+  | z.infer<typeof htmlBlockSchema>
+  | z.infer<typeof ruleBlockSchema>;
+
+const childBlocksSchema = z.lazy((): z.ZodType<ContentBlock[]> => z.array(contentBlockSchema));
+
+export const paragraphBlockSchema = z.object({
+  type: z.literal('paragraph'),
+  text: z.string()
+});
+
+export const headingBlockSchema = z.object({
+  type: z.literal('heading'),
+  level: z.number().int().min(1).max(6),
+  text: z.string()
+});
+
+// An image from the media library; the caption becomes the image's title
+export const imageBlockSchema = z.object({
+  type: z.literal('image'),
+  media_id: z.number().int(),
+  alt: z.string(),
+  caption: z.string().nullable()
+});
+
+export const quoteBlockSchema = z.object({
+  type: z.literal('quote'),
+  children: childBlocksSchema
+});
+
+export const codeBlockSchema = z.object({
+  type: z.literal('code'),
+  language: z.string(),
+  code: z.string()
+});
+
+export const embedBlockSchema = z.object({
+  type: z.literal('embed'),
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/),
+  attributes: z.record(z.string().regex(/^[a-z][\w-]*$/), z.string()),
+  children: childBlocksSchema.nullable()
+});
+
+export const listBlockSchema = z.object({
+  type: z.literal('list'),
+  ordered: z.boolean(),
+  start: z.number().int().min(0),
+  tight: z.boolean(),
+  items: z.array(z.object({
+    checked: z.boolean().nullable(),
+    children: childBlocksSchema
+  }))
+});
+
+// Rows are cut or padded to the number of header cells
+export const tableBlockSchema = z.object({
+  type: z.literal('table'),
+  align: z.array(z.enum(['left', 'center', 'right']).nullable()),
+  header: z.array(z.string()).min(1),
+  rows: z.array(z.array(z.string()))
+});
+
+// Raw HTML and thematic breaks, so that any Markdown converts to blocks
+export const htmlBlockSchema = z.object({
+  type: z.literal('html'),
+  html: z.string()
+});
+
+export const ruleBlockSchema = z.object({
+  type: z.literal('rule')
+});
+
+export const contentBlockSchema: z.ZodType<ContentBlock> = z.discriminatedUnion('type', [
+  paragraphBlockSchema,
+  headingBlockSchema,
+  imageBlockSchema,
+  quoteBlockSchema,
+  codeBlockSchema,
+  embedBlockSchema,
+  listBlockSchema,
+  tableBlockSchema,
+  htmlBlockSchema,
+  ruleBlockSchema
+]);
+
+export const contentBlocksSchema = z.array(contentBlockSchema);
+
+export const convertContentInputSchema = z.object({
+  content: z.string(),
+  from: contentFormatSchema,
+  to: contentFormatSchema
+});
+
+export type ConvertContentInput = z.infer<typeof convertContentInputSchema>;
+
 export const postSchema = z.object({
   id: z.number(),
   title: z.string(),
   slug: z.string(),
   excerpt: z.string().nullable(),
   content: z.string(),
-  status: z.enum(['draft', 'published', 'archived']),
+  content_format: contentFormatSchema,
+  word_count: z.number().int().nullable(),
+  rendered_html: z.string().nullable(),
+  status: postStatusSchema,
   featured_image_id: z.number().nullable(),
   author_id: z.number(),
   category_id: z.number().nullable(),
   meta_title: z.string().nullable(),
   meta_description: z.string().nullable(),
   canonical_url: z.string().nullable(),
+  reviewer_id: z.number().nullable(),
+  review_notes: z.string().nullable(),
   published_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -179,12 +646,21 @@ export const postSchema = z.object({
 
 export type Post = z.infer<typeof postSchema>;
 
+// A single post as loaded for editing or display, with the ids of its tags
+export const postWithTagsSchema = postSchema.extend({
+  tag_ids: z.array(z.number())
+});
+
+export type PostWithTags = z.infer<typeof postWithTagsSchema>;
+
 export const createPostInputSchema = z.object({
   title: z.string().min(1).max(200),
-  slug: z.string().min(1).max(200),
+  slug: z.string().min(1).max(200).optional(),
   excerpt: z.string().nullable().optional(),
   content: z.string().min(1),
-  status: z.enum(['draft', 'published', 'archived']).default('draft'),
+  // Omitted means Markdown
+  content_format: contentFormatSchema.optional(),
+  status: postStatusSchema.default('draft'),
   featured_image_id: z.number().nullable().optional(),
   author_id: z.number(),
   category_id: z.number().nullable().optional(),
@@ -203,18 +679,96 @@ export const updatePostInputSchema = z.object({
   slug: z.string().min(1).max(200).optional(),
   excerpt: z.string().nullable().optional(),
   content: z.string().min(1).optional(),
-  status: z.enum(['draft', 'published', 'archived']).optional(),
+  // A new format without new content converts the current content
+  content_format: contentFormatSchema.optional(),
+  status: postStatusSchema.optional(),
   featured_image_id: z.number().nullable().optional(),
   category_id: z.number().nullable().optional(),
   meta_title: z.string().nullable().optional(),
   meta_description: z.string().nullable().optional(),
   canonical_url: z.string().url().nullable().optional(),
   published_at: z.coerce.date().nullable().optional(),
-  tag_ids: z.array(z.number()).optional()
+  tag_ids: z.array(z.number()).optional(),
+  expected_updated_at: z.coerce.date().optional()
 });
 
 export type UpdatePostInput = z.infer<typeof updatePostInputSchema>;
 
+// Review workflow schemas
+export const submitPostForReviewInputSchema = z.object({
+  id: z.number(),
+  // Omitted keeps the current reviewer, so a resubmitted post goes back to whoever requested changes
+  reviewer_id: z.number().nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+
+export type SubmitPostForReviewInput = z.infer<typeof submitPostForReviewInputSchema>;
+
+export const assignPostReviewerInputSchema = z.object({
+  id: z.number(),
+  reviewer_id: z.number().nullable()
+});
+
+export type AssignPostReviewerInput = z.infer<typeof assignPostReviewerInputSchema>;
+
+export const approvePostInputSchema = z.object({
+  id: z.number(),
+  notes: z.string().nullable().optional()
+});
+
+export type ApprovePostInput = z.infer<typeof approvePostInputSchema>;
+
+export const requestPostChangesInputSchema = z.object({
+  id: z.number(),
+  notes: z.string().trim().min(1)
+});
+
+export type RequestPostChangesInput = z.infer<typeof requestPostChangesInputSchema>;
+
+export const postReviewerSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  first_name: z.string(),
+  last_name: z.string()
+});
+
+export type PostReviewer = z.infer<typeof postReviewerSchema>;
+
+export const reviewQueueInputSchema = z.object({
+  reviewer_id: z.number().optional()
+});
+
+export type ReviewQueueInput = z.infer<typeof reviewQueueInputSchema>;
+
+export const reviewQueueItemSchema = postSchema.extend({
+  author_username: z.string().nullable(),
+  reviewer_username: z.string().nullable()
+});
+
+export type ReviewQueueItem = z.infer<typeof reviewQueueItemSchema>;
+
+// Content validation schemas - shortcodes the renderer would skip or render without their media or post
+export const validateContentInputSchema = z.object({
+  content: z.string(),
+  content_format: contentFormatSchema.optional()
+});
+
+export type ValidateContentInput = z.infer<typeof validateContentInputSchema>;
+
+export const contentIssueSchema = z.object({
+  shortcode: z.string(),
+  message: z.string()
+});
+
+export type ContentIssue = z.infer<typeof contentIssueSchema>;
+
+export const contentValidationSchema = z.object({
+  valid: z.boolean(),
+  issues: z.array(contentIssueSchema)
+});
+
+export type ContentValidation = z.infer<typeof contentValidationSchema>;
+
 // Post-Tag relationship schema
 export const postTagSchema = z.object({
   post_id: z.number(),
@@ -224,6 +778,169 @@ export const postTagSchema = z.object({
 
 export type PostTag = z.infer<typeof postTagSchema>;
 
+// Post revision schemas
+export const postRevisionSchema = z.object({
+  id: z.number(),
+  post_id: z.number(),
+  title: z.string(),
+  excerpt: z.string().nullable(),
+  content: z.string(),
+  content_format: contentFormatSchema,
+  meta_title: z.string().nullable(),
+  meta_description: z.string().nullable(),
+  canonical_url: z.string().nullable(),
+  tag_ids: z.array(z.number()),
+  author_id: z.number(),
+  created_at: z.coerce.date()
+});
+
+export type PostRevision = z.infer<typeof postRevisionSchema>;
+
+// The history list leaves out the content itself
+export const postRevisionSummarySchema = postRevisionSchema.pick({
+  id: true,
+  post_id: true,
+  title: true,
+  author_id: true,
+  created_at: true
+}).extend({
+  author_username: z.string().nullable()
+});
+
+export type PostRevisionSummary = z.infer<typeof postRevisionSummarySchema>;
+
+export const diffPostRevisionsInputSchema = z.object({
+  from_id: z.number(),
+  to_id: z.number(),
+  mode: z.enum(['line', 'word']).default('line')
+});
+
+export type DiffPostRevisionsInput = z.infer<typeof diffPostRevisionsInputSchema>;
+
+export const diffChangeSchema = z.object({
+  type: z.enum(['equal', 'insert', 'delete']),
+  value: z.string()
+});
+
+export const postRevisionDiffSchema = z.object({
+  from_id: z.number(),
+  to_id: z.number(),
+  mode: z.enum(['line', 'word']),
+  // Only the text fields that differ between the two revisions
+  fields: z.array(z.object({
+    field: z.enum(['title', 'excerpt', 'content', 'meta_title', 'meta_description', 'canonical_url']),
+    changes: z.array(diffChangeSchema)
+  })),
+  tags_added: z.array(z.number()),
+  tags_removed: z.array(z.number())
+});
+
+export type PostRevisionDiff = z.infer<typeof postRevisionDiffSchema>;
+
+export const restorePostRevisionInputSchema = z.object({
+  id: z.number(),
+  revision_id: z.number()
+});
+
+export type RestorePostRevisionInput = z.infer<typeof restorePostRevisionInputSchema>;
+
+// Redirect schemas - old slugs of renamed posts, categories, tags and series
+export const redirectEntitySchema = z.enum(['post', 'category', 'tag', 'series']);
+
+export type RedirectEntity = z.infer<typeof redirectEntitySchema>;
+
+export const resolveRedirectInputSchema = z.object({
+  entity_type: redirectEntitySchema,
+  slug: z.string()
+});
+
+export type ResolveRedirectInput = z.infer<typeof resolveRedirectInputSchema>;
+
+// Where an old slug leads: the entity and its current, canonical slug
+export const resolvedRedirectSchema = z.object({
+  entity_type: redirectEntitySchema,
+  entity_id: z.number(),
+  from: z.string(),
+  slug: z.string(),
+  status_code: z.number().int()
+});
+
+export type ResolvedRedirect = z.infer<typeof resolvedRedirectSchema>;
+
+// A post looked up by a slug it used to have carries that slug in redirected_from; its own slug is the canonical one
+export const postBySlugSchema = postWithTagsSchema.extend({
+  redirected_from: z.string().nullable()
+});
+
+export type PostBySlug = z.infer<typeof postBySlugSchema>;
+
+// Series schemas - posts meant to be read in order; a post is part of at most one series
+export const seriesSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  cover_media_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Series = z.infer<typeof seriesSchema>;
+
+// post_ids is the whole membership in reading order; leaving it out of an update keeps the parts as they are
+export const createSeriesInputSchema = z.object({
+  title: z.string().min(1).max(200),
+  slug: z.string().min(1).max(200).optional(),
+  description: z.string().nullable().optional(),
+  cover_media_id: z.number().nullable().optional(),
+  post_ids: z.array(z.number()).optional()
+});
+
+export type CreateSeriesInput = z.infer<typeof createSeriesInputSchema>;
+
+export const updateSeriesInputSchema = z.object({
+  id: z.number(),
+  title: z.string().min(1).max(200).optional(),
+  slug: z.string().min(1).max(200).optional(),
+  description: z.string().nullable().optional(),
+  cover_media_id: z.number().nullable().optional(),
+  post_ids: z.array(z.number()).optional(),
+  expected_updated_at: z.coerce.date().optional()
+});
+
+export type UpdateSeriesInput = z.infer<typeof updateSeriesInputSchema>;
+
+// A post as a part of its series; part is its number in the series, counting unpublished parts too
+export const seriesPartSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  slug: z.string(),
+  excerpt: z.string().nullable(),
+  status: postStatusSchema,
+  published_at: z.coerce.date().nullable(),
+  part: z.number().int()
+});
+
+export type SeriesPart = z.infer<typeof seriesPartSchema>;
+
+export const seriesWithPartsSchema = seriesSchema.extend({
+  parts: z.array(seriesPartSchema)
+});
+
+export type SeriesWithParts = z.infer<typeof seriesWithPartsSchema>;
+
+// Where a post sits in its series: the parts around it and the whole table of contents
+export const seriesNavigationSchema = z.object({
+  series: seriesSchema,
+  current: seriesPartSchema,
+  previous: seriesPartSchema.nullable(),
+  next: seriesPartSchema.nullable(),
+  parts: z.array(seriesPartSchema),
+  total_parts: z.number().int()
+});
+
+export type SeriesNavigation = z.infer<typeof seriesNavigationSchema>;
+
 // Comment schema
 export const commentSchema = z.object({
   id: z.number(),
@@ -264,7 +981,7 @@ export const searchPostsInputSchema = z.object({
   category_id: z.number().optional(),
   tag_ids: z.array(z.number()).optional(),
   author_id: z.number().optional(),
-  status: z.enum(['draft', 'published', 'archived']).optional(),
+  status: postStatusSchema.optional(),
   page: z.number().int().positive().default(1),
   limit: z.number().int().positive().max(100).default(10),
   sort_by: z.enum(['created_at', 'updated_at', 'published_at', 'title']).default('created_at'),
@@ -315,10 +1032,15 @@ export const siteSettingsSchema = z.object({
   comments_enabled: z.boolean(),
   comment_moderation: z.boolean(),
   allow_registration: z.boolean(),
-  default_user_role: z.enum(['admin', 'editor', 'author']),
+  registration_requires_approval: z.boolean(),
+  default_user_role: roleSlugSchema,
   timezone: z.string(),
   date_format: z.string(),
   time_format: z.string(),
+  mfa_required_roles: z.array(roleSlugSchema),
+  password_login_enabled: z.boolean(),
+  oidc_auto_provision: z.boolean(),
+  post_revision_limit: z.number().int().nonnegative(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -334,10 +1056,53 @@ export const updateSiteSettingsInputSchema = z.object({
   comments_enabled: z.boolean().optional(),
   comment_moderation: z.boolean().optional(),
   allow_registration: z.boolean().optional(),
-  default_user_role: z.enum(['admin', 'editor', 'author']).optional(),
+  registration_requires_approval: z.boolean().optional(),
+  default_user_role: roleSlugSchema.optional(),
   timezone: z.string().optional(),
   date_format: z.string().optional(),
-  time_format: z.string().optional()
+  time_format: z.string().optional(),
+  mfa_required_roles: z.array(roleSlugSchema).optional(),
+  password_login_enabled: z.boolean().optional(),
+  oidc_auto_provision: z.boolean().optional(),
+  post_revision_limit: z.number().int().nonnegative().optional(),
+  expected_updated_at: z.coerce.date().optional()
+});
+
+export type UpdateSiteSettingsInput = z.infer<typeof updateSiteSettingsInputSchema>;
+
+// Audit log schemas
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  actor_id: z.number().nullable(),
+  actor_username: z.string().nullable(),
+  impersonator_id: z.number().nullable(),
+  impersonator_username: z.string().nullable(),
+  action: z.string(),
+  entity_type: z.string().nullable(),
+  entity_id: z.number().nullable(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  ip: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+export const auditLogInputSchema = z.object({
+  actor_id: z.number().optional(),
+  entity_type: z.string().optional(),
+  entity_id: z.number().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.number().int().positive().default(1),
+  limit: z.number().int().positive().max(100).default(50)
+});
+
+export type AuditLogInput = z.infer<typeof auditLogInputSchema>;
+
+export const auditLogResponseSchema = z.object({
+  entries: z.array(auditLogEntrySchema),
+  pagination: paginationResponseSchema
 });
 
-export type UpdateSiteSettingsInput = z.infer<typeof updateSiteSettingsInputSchema>;
\ No newline at end of file
+export type AuditLogResponse = z.infer<typeof auditLogResponseSchema>;
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userTokensTable, mailOutboxTable, refreshTokensTable, siteSettingsTable } from '../db/schema';
+import {
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  resendEmailVerification,
+  verifyEmail,
+  registerUser
+} from '../handlers/account';
+import { loginUser } from '../handlers/auth';
+import { approveUser } from '../handlers/users';
+import { seedDefaultRoles } from '../handlers/roles';
+import { hashPassword, verifyPassword } from '../helpers/password';
+import { eq } from 'drizzle-orm';
+
+const registration = {
+  email: 'newcomer@example.com',
+  username: 'newcomer',
+  password: 'newcomerpass1',
+  first_name: 'Nina',
+  last_name: 'Newcomer'
+};
+
+const openRegistration = async (
+  settings: Partial<typeof siteSettingsTable.$inferInsert> = {}
+) => {
+  await db.insert(siteSettingsTable)
+    .values({
+      site_title: 'Test Blog',
+      site_description: 'Test',
+      site_url: 'https://blog.example.com',
+      admin_email: 'admin@example.com',
+      allow_registration: true,
+      ...settings
+    })
+    .execute();
+};
+
+// Pulls the token out of the link in the most recent outbox message
+const latestMailToken = async (param: string): Promise<string> => {
+  const messages = await db.select().from(mailOutboxTable).execute();
+  const body = messages[messages.length - 1].text_body;
+  const match = body.match(new RegExp(`${param}=([\\w%-]+)`));
+  return decodeURIComponent(match![1]);
+};
+
+describe('account handlers', () => {
+  beforeEach(createDB);
+  beforeEach(seedDefaultRoles);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'reader@example.com',
+        username: 'reader',
+        password_hash: await hashPassword('oldpassword1'),
+        first_name: 'Rita',
+        last_name: 'Reader',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link and store only the token hash', async () => {
+      const result = await requestPasswordReset({ email: 'reader@example.com' });
+      expect(result.success).toBe(true);
+
+      const messages = await db.select().from(mailOutboxTable).execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].to_address).toEqual('reader@example.com');
+      expect(messages[0].subject).toMatch(/reset/i);
+
+      const token = await latestMailToken('reset_token');
+      const stored = await db.select().from(userTokensTable).execute();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].purpose).toEqual('password_reset');
+      expect(stored[0].token_hash).not.toEqual(token);
+      expect(stored[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should respond identically for unknown addresses without sending mail', async () => {
+      const result = await requestPasswordReset({ email: 'nobody@example.com' });
+      expect(result.success).toBe(true);
+
+      const messages = await db.select().from(mailOutboxTable).execute();
+      expect(messages).toHaveLength(0);
+    });
+
+    it('should invalidate earlier reset tokens', async () => {
+      await requestPasswordReset({ email: 'reader@example.com' });
+      const firstToken = await latestMailToken('reset_token');
+      await requestPasswordReset({ email: 'reader@example.com' });
+
+      await expect(resetPassword({ token: firstToken, new_password: 'newpassword1' }))
+        .rejects.toThrow(/invalid or has expired/i);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke sessions', async () => {
+      await db.insert(refreshTokensTable)
+        .values({
+          user_id: userId,
+          token_hash: 'b'.repeat(64),
+          family_id: 'family-1',
+          expires_at: new Date(Date.now() + 60_000)
+        })
+        .execute();
+
+      await requestPasswordReset({ email: 'reader@example.com' });
+      const token = await latestMailToken('reset_token');
+
+      const result = await resetPassword({ token, new_password: 'newpassword1' });
+      expect(result.success).toBe(true);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect((await verifyPassword('newpassword1', user.password_hash)).valid).toBe(true);
+
+      const [session] = await db.select().from(refreshTokensTable).execute();
+      expect(session.revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should only accept a token once', async () => {
+      await requestPasswordReset({ email: 'reader@example.com' });
+      const token = await latestMailToken('reset_token');
+
+      await resetPassword({ token, new_password: 'newpassword1' });
+      await expect(resetPassword({ token, new_password: 'newpassword2' }))
+        .rejects.toThrow(/invalid or has expired/i);
+    });
+
+    it('should reject expired tokens', async () => {
+      await requestPasswordReset({ email: 'reader@example.com' });
+      const token = await latestMailToken('reset_token');
+
+      await db.update(userTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(resetPassword({ token, new_password: 'newpassword1' }))
+        .rejects.toThrow(/invalid or has expired/i);
+    });
+
+    it('should not accept email verification tokens', async () => {
+      await sendEmailVerification(userId);
+      const token = await latestMailToken('verify_token');
+
+      await expect(resetPassword({ token, new_password: 'newpassword1' }))
+        .rejects.toThrow(/invalid or has expired/i);
+    });
+  });
+
+  describe('email verification', () => {
+    beforeEach(async () => {
+      await db.update(usersTable)
+        .set({ email_verified_at: null })
+        .where(eq(usersTable.id, userId))
+        .execute();
+    });
+
+    it('should mark the address verified with the emailed token', async () => {
+      await sendEmailVerification(userId);
+      const token = await latestMailToken('verify_token');
+
+      const result = await verifyEmail(token);
+      expect(result.success).toBe(true);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(user.email_verified_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject unknown tokens', async () => {
+      await expect(verifyEmail('not-a-real-token')).rejects.toThrow(/invalid or has expired/i);
+    });
+
+    it('should resend only to unverified addresses', async () => {
+      await resendEmailVerification({ email: 'reader@example.com' });
+      expect(await db.select().from(mailOutboxTable).execute()).toHaveLength(1);
+
+      await verifyEmail(await latestMailToken('verify_token'));
+      await resendEmailVerification({ email: 'reader@example.com' });
+      expect(await db.select().from(mailOutboxTable).execute()).toHaveLength(1);
+    });
+  });
+
+  describe('registerUser', () => {
+    it('should refuse while registration is closed', async () => {
+      await expect(registerUser(registration)).rejects.toThrow(/registration is closed/i);
+
+      await openRegistration({ allow_registration: false });
+      await expect(registerUser(registration)).rejects.toThrow(/registration is closed/i);
+    });
+
+    it('should create an unverified account with the default role', async () => {
+      await openRegistration({ default_user_role: 'editor' });
+
+      const result = await registerUser(registration);
+      expect(result).toEqual({ success: true, approval_required: false });
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.email, registration.email)).execute();
+      expect(user.role).toEqual('editor');
+      expect(user.email_verified_at).toBeNull();
+      expect(user.approved_at).toBeInstanceOf(Date);
+      expect((await verifyPassword(registration.password, user.password_hash)).valid).toBe(true);
+
+      await expect(loginUser(registration)).rejects.toThrow(/not been verified/i);
+      await verifyEmail(await latestMailToken('verify_token'));
+      expect('token' in await loginUser(registration)).toBe(true);
+    });
+
+    it('should never hand out a role that can manage users or settings', async () => {
+      await openRegistration({ default_user_role: 'admin' });
+
+      await registerUser(registration);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.email, registration.email)).execute();
+      expect(user.role).toEqual('author');
+    });
+
+    it('should reject a taken email or username', async () => {
+      await openRegistration();
+
+      await expect(registerUser({ ...registration, email: 'reader@example.com' })).rejects.toThrow(/already exists/i);
+      await expect(registerUser({ ...registration, username: 'reader' })).rejects.toThrow(/already exists/i);
+    });
+
+    it('should hold the account until an admin approves it', async () => {
+      await openRegistration({ registration_requires_approval: true });
+
+      const result = await registerUser(registration);
+      expect(result.approval_required).toBe(true);
+
+      await verifyEmail(await latestMailToken('verify_token'));
+      await expect(loginUser(registration)).rejects.toThrow(/awaiting administrator approval/i);
+
+      const [pending] = await db.select().from(usersTable).where(eq(usersTable.email, registration.email)).execute();
+      const approved = await approveUser(pending.id);
+      expect(approved.approved_at).toBeInstanceOf(Date);
+
+      expect('token' in await loginUser(registration)).toBe(true);
+    });
+  });
+});
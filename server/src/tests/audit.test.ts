@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, auditLogTable } from '../db/schema';
+import {
+  entityIdOf,
+  snapshotEntity,
+  diffSnapshots,
+  recordAuditEntry,
+  getAuditLog
+} from '../handlers/audit';
+import { eq } from 'drizzle-orm';
+
+describe('audit helpers', () => {
+  it('should read entity ids from inputs and results', () => {
+    expect(entityIdOf({ id: 7, title: 'Hello' })).toEqual(7);
+    expect(entityIdOf({ slug: 'hello' })).toBeNull();
+    expect(entityIdOf({ id: '7' })).toBeNull();
+    expect(entityIdOf(undefined)).toBeNull();
+  });
+
+  it('should keep only changed fields and ignore updated_at', () => {
+    const diff = diffSnapshots(
+      { id: 1, title: 'Old', status: 'draft', updated_at: '2024-01-01T00:00:00.000Z' },
+      { id: 1, title: 'New', status: 'draft', updated_at: '2024-02-01T00:00:00.000Z' }
+    );
+
+    expect(diff).toEqual({ before: { title: 'Old' }, after: { title: 'New' } });
+  });
+
+  it('should keep whole snapshots for creates and deletes', () => {
+    expect(diffSnapshots(null, { id: 1, title: 'New' })).toEqual({ before: null, after: { id: 1, title: 'New' } });
+    expect(diffSnapshots({ id: 1, title: 'Old' }, null)).toEqual({ before: { id: 1, title: 'Old' }, after: null });
+    expect(diffSnapshots({ id: 1 }, { id: 1 })).toEqual({ before: null, after: null });
+  });
+});
+
+describe('audit handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let editorId: number;
+
+  beforeEach(async () => {
+    const [admin, editor] = await db.insert(usersTable)
+      .values([
+        {
+          email: 'admin@example.com',
+          username: 'admin',
+          password_hash: 'secret-hash',
+          first_name: 'Ada',
+          last_name: 'Admin',
+          role: 'admin'
+        },
+        {
+          email: 'editor@example.com',
+          username: 'editor',
+          password_hash: 'secret-hash',
+          first_name: 'Eddie',
+          last_name: 'Editor',
+          role: 'editor'
+        }
+      ])
+      .returning()
+      .execute();
+    adminId = admin.id;
+    editorId = editor.id;
+  });
+
+  describe('snapshotEntity', () => {
+    it('should redact secrets', async () => {
+      const snapshot = await snapshotEntity('users', adminId);
+
+      expect(snapshot?.['username']).toEqual('admin');
+      expect(snapshot?.['password_hash']).toEqual('[redacted]');
+      expect(typeof snapshot?.['created_at']).toEqual('string');
+    });
+
+    it('should return null for unknown entities and missing rows', async () => {
+      expect(await snapshotEntity('auth', adminId)).toBeNull();
+      expect(await snapshotEntity('users', 999)).toBeNull();
+      expect(await snapshotEntity('users', null)).toBeNull();
+    });
+  });
+
+  describe('getAuditLog', () => {
+    beforeEach(async () => {
+      await recordAuditEntry({ actor_id: adminId, action: 'posts.create', entity_type: 'posts', entity_id: 1, after: { title: 'Hello' }, ip: '127.0.0.1' });
+      await recordAuditEntry({ actor_id: editorId, action: 'posts.update', entity_type: 'posts', entity_id: 1, before: { title: 'Hello' }, after: { title: 'Hi' }, ip: '127.0.0.1' });
+      await recordAuditEntry({ actor_id: adminId, action: 'tags.delete', entity_type: 'tags', entity_id: 3, before: { name: 'old' }, ip: null });
+      await recordAuditEntry({ actor_id: null, action: 'auth.login', ip: '10.0.0.1' });
+    });
+
+    it('should list newest entries first with the actor username', async () => {
+      const result = await getAuditLog({ page: 1, limit: 50 });
+
+      expect(result.entries.map(entry => entry.action)).toEqual(['auth.login', 'tags.delete', 'posts.update', 'posts.create']);
+      expect(result.entries[0].actor_username).toBeNull();
+      expect(result.entries[2].actor_username).toEqual('editor');
+      expect(result.entries[2].before).toEqual({ title: 'Hello' });
+      expect(result.pagination.total).toEqual(4);
+    });
+
+    it('should filter by actor and entity', async () => {
+      const byAdmin = await getAuditLog({ actor_id: adminId, page: 1, limit: 50 });
+      expect(byAdmin.entries.map(entry => entry.action)).toEqual(['tags.delete', 'posts.create']);
+
+      const post = await getAuditLog({ entity_type: 'posts', entity_id: 1, page: 1, limit: 50 });
+      expect(post.entries).toHaveLength(2);
+    });
+
+    it('should attribute impersonated actions to both users', async () => {
+      await recordAuditEntry({ actor_id: editorId, impersonator_id: adminId, action: 'posts.delete', entity_type: 'posts', entity_id: 2, ip: null });
+
+      const [entry] = (await getAuditLog({ page: 1, limit: 1 })).entries;
+      expect(entry.actor_username).toEqual('editor');
+      expect(entry.impersonator_username).toEqual('admin');
+
+      // Filtering by either user finds it
+      const byEditor = await getAuditLog({ actor_id: editorId, page: 1, limit: 50 });
+      const byAdmin = await getAuditLog({ actor_id: adminId, page: 1, limit: 50 });
+      expect(byEditor.entries.map(e => e.action)).toContain('posts.delete');
+      expect(byAdmin.entries.map(e => e.action)).toContain('posts.delete');
+    });
+
+    it('should filter by date range', async () => {
+      const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+      await db.update(auditLogTable)
+        .set({ created_at: lastWeek })
+        .where(eq(auditLogTable.action, 'posts.create'))
+        .execute();
+
+      const recent = await getAuditLog({ from: new Date(Date.now() - 24 * 60 * 60 * 1000), page: 1, limit: 50 });
+      expect(recent.entries).toHaveLength(3);
+
+      const older = await getAuditLog({ to: new Date(Date.now() - 24 * 60 * 60 * 1000), page: 1, limit: 50 });
+      expect(older.entries.map(entry => entry.action)).toEqual(['posts.create']);
+    });
+
+    it('should paginate', async () => {
+      const result = await getAuditLog({ page: 2, limit: 3 });
+
+      expect(result.entries).toHaveLength(1);
+      expect(result.pagination).toMatchObject({ page: 2, total_pages: 2, has_prev: true, has_next: false });
+    });
+  });
+});
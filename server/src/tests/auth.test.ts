@@ -1,11 +1,34 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type LoginInput } from '../schema';
-import { loginUser, verifyToken, refreshToken, hashPassword } from '../handlers/auth';
+import { usersTable, refreshTokensTable, sessionsTable } from '../db/schema';
+import { type LoginInput, type AuthSession, type PublicUser } from '../schema';
+import {
+  loginUser,
+  verifyToken,
+  refreshToken,
+  logoutUser,
+  authenticateAccessToken,
+  listSessions,
+  revokeSession,
+  revokeUserSessions,
+  impersonateUser,
+  extractBearerToken
+} from '../handlers/auth';
+import { seedDefaultRoles } from '../handlers/roles';
+import { hashPassword } from '../helpers/password';
+import { createHash } from 'crypto';
 import { eq } from 'drizzle-orm';
 
+// loginUser may answer with an MFA challenge; these tests only cover password-only accounts
+const loginSession = async (input: LoginInput): Promise<AuthSession> => {
+  const result = await loginUser(input);
+  if ('mfa_required' in result) {
+    throw new Error('Expected a session but got an MFA challenge');
+  }
+  return result;
+};
+
 describe('auth handlers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -28,7 +51,7 @@ describe('auth handlers', () => {
         password: 'testpassword123'
       };
 
-      const result = await loginUser(loginInput);
+      const result = await loginSession(loginInput);
 
       // Verify user data
       expect(result.user.email).toBe('test@example.com');
@@ -96,6 +119,67 @@ describe('auth handlers', () => {
       await expect(loginUser(loginInput)).rejects.toThrow(/account is deactivated/i);
     });
 
+    it('should reject users who have not verified their email', async () => {
+      const hashedPassword = await hashPassword('testpassword123');
+      await db.insert(usersTable).values({
+        email: 'unverified@example.com',
+        username: 'unverified',
+        password_hash: hashedPassword,
+        first_name: 'New',
+        last_name: 'User',
+        role: 'author',
+        email_verified_at: null
+      }).execute();
+
+      await expect(loginUser({ email: 'unverified@example.com', password: 'testpassword123' }))
+        .rejects.toThrow(/not been verified/i);
+    });
+
+    it('should upgrade legacy SHA-256 hashes on successful login', async () => {
+      const legacyHash = createHash('sha256').update('testpassword123').digest('hex');
+      const [user] = await db.insert(usersTable).values({
+        email: 'legacy@example.com',
+        username: 'legacyuser',
+        password_hash: legacyHash,
+        first_name: 'Legacy',
+        last_name: 'User',
+        role: 'author'
+      }).returning().execute();
+
+      await loginUser({ email: 'legacy@example.com', password: 'testpassword123' });
+
+      const [updated] = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+      expect(updated.password_hash).toMatch(/^scrypt\$v1\$/);
+
+      // The upgraded hash still accepts the same password
+      const result = await loginSession({ email: 'legacy@example.com', password: 'testpassword123' });
+      expect(result.user.id).toEqual(user.id);
+    });
+
+    it('should not rehash when the password is wrong', async () => {
+      const legacyHash = createHash('sha256').update('testpassword123').digest('hex');
+      const [user] = await db.insert(usersTable).values({
+        email: 'legacy@example.com',
+        username: 'legacyuser',
+        password_hash: legacyHash,
+        first_name: 'Legacy',
+        last_name: 'User',
+        role: 'author'
+      }).returning().execute();
+
+      await expect(loginUser({ email: 'legacy@example.com', password: 'wrongpassword' }))
+        .rejects.toThrow(/invalid email or password/i);
+
+      const [unchanged] = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+      expect(unchanged.password_hash).toEqual(legacyHash);
+    });
+
     it('should not return password hash in response', async () => {
       // Create test user
       const hashedPassword = await hashPassword('testpassword123');
@@ -113,7 +197,7 @@ describe('auth handlers', () => {
         password: 'testpassword123'
       };
 
-      const result = await loginUser(loginInput);
+      const result = await loginSession(loginInput);
       
       expect((result.user as any).password_hash).toBeUndefined();
     });
@@ -132,7 +216,7 @@ describe('auth handlers', () => {
         role: 'author'
       }).execute();
 
-      const loginResult = await loginUser({
+      const loginResult = await loginSession({
         email: 'test@example.com',
         password: 'testpassword123'
       });
@@ -155,6 +239,31 @@ describe('auth handlers', () => {
       expect(result).toBeNull();
     });
 
+    it('should return null for tampered token', async () => {
+      const hashedPassword = await hashPassword('testpassword123');
+      await db.insert(usersTable).values({
+        email: 'test@example.com',
+        username: 'testuser',
+        password_hash: hashedPassword,
+        first_name: 'Test',
+        last_name: 'User',
+        role: 'author'
+      }).execute();
+
+      const loginResult = await loginSession({
+        email: 'test@example.com',
+        password: 'testpassword123'
+      });
+
+      // Escalate the role claim without re-signing
+      const [header, payload, signature] = loginResult.token.split('.');
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      const forgedPayload = Buffer.from(JSON.stringify({ ...claims, sub: 999, role: 'admin' })).toString('base64url');
+
+      const result = await verifyToken(`${header}.${forgedPayload}.${signature}`);
+      expect(result).toBeNull();
+    });
+
     it('should return null for inactive user', async () => {
       // Create user and get token
       const hashedPassword = await hashPassword('testpassword123');
@@ -167,7 +276,7 @@ describe('auth handlers', () => {
         role: 'author'
       }).returning().execute();
 
-      const loginResult = await loginUser({
+      const loginResult = await loginSession({
         email: 'test@example.com',
         password: 'testpassword123'
       });
@@ -184,55 +293,114 @@ describe('auth handlers', () => {
   });
 
   describe('refreshToken', () => {
-    it('should refresh token for active user', async () => {
-      // Create test user and login
+    const createActiveUser = async (role: 'admin' | 'editor' | 'author' = 'author') => {
       const hashedPassword = await hashPassword('testpassword123');
-      await db.insert(usersTable).values({
+      const [user] = await db.insert(usersTable).values({
         email: 'test@example.com',
         username: 'testuser',
         password_hash: hashedPassword,
         first_name: 'Test',
         last_name: 'User',
-        role: 'editor'
-      }).execute();
+        role
+      }).returning().execute();
+      return user;
+    };
+
+    it('should rotate refresh token for active user', async () => {
+      await createActiveUser('editor');
 
-      const loginResult = await loginUser({
+      const loginResult = await loginSession({
         email: 'test@example.com',
         password: 'testpassword123'
       });
 
-      const result = await refreshToken(loginResult.token);
+      const result = await refreshToken(loginResult.refresh_token);
 
       expect(result).not.toBeNull();
-      expect(result!.token).toBeDefined();
-      expect(typeof result!.token).toBe('string');
-      expect(result!.token).not.toBe(loginResult.token);
       expect(result!.token.split('.').length).toBe(3); // JWT format
+      expect(result!.refresh_token).not.toBe(loginResult.refresh_token);
+      expect(result!.user.role).toBe('editor');
+      expect(result!.expires_in).toBeGreaterThan(0);
+
+      // New access token is accepted
+      const verified = await verifyToken(result!.token);
+      expect(verified!.email).toBe('test@example.com');
     });
 
-    it('should return null for invalid token', async () => {
+    it('should store only hashed refresh tokens in the same family', async () => {
+      const user = await createActiveUser();
+
+      const loginResult = await loginSession({
+        email: 'test@example.com',
+        password: 'testpassword123'
+      });
+      await refreshToken(loginResult.refresh_token);
+
+      const tokens = await db.select()
+        .from(refreshTokensTable)
+        .where(eq(refreshTokensTable.user_id, user.id))
+        .execute();
+
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0].family_id).toEqual(tokens[1].family_id);
+      expect(tokens.map(t => t.token_hash)).not.toContain(loginResult.refresh_token);
+
+      const original = tokens.find(t => t.replaced_by_id !== null)!;
+      expect(original.revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      await createActiveUser();
+
+      const loginResult = await loginSession({
+        email: 'test@example.com',
+        password: 'testpassword123'
+      });
+
+      const rotated = await refreshToken(loginResult.refresh_token);
+      expect(rotated).not.toBeNull();
+
+      // Replaying the old token is rejected and kills the newer one too
+      expect(await refreshToken(loginResult.refresh_token)).toBeNull();
+      expect(await refreshToken(rotated!.refresh_token)).toBeNull();
+    });
+
+    it('should not accept access tokens', async () => {
+      await createActiveUser();
+
+      const loginResult = await loginSession({
+        email: 'test@example.com',
+        password: 'testpassword123'
+      });
+
+      expect(await refreshToken(loginResult.token)).toBeNull();
+    });
+
+    it('should return null for unknown token', async () => {
       const result = await refreshToken('invalid-token');
       expect(result).toBeNull();
     });
 
-    it('should return null for malformed token', async () => {
-      const result = await refreshToken('not.a.jwt.token');
-      expect(result).toBeNull();
+    it('should return null for expired token', async () => {
+      const user = await createActiveUser();
+
+      const loginResult = await loginSession({
+        email: 'test@example.com',
+        password: 'testpassword123'
+      });
+
+      await db.update(refreshTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(refreshTokensTable.user_id, user.id))
+        .execute();
+
+      expect(await refreshToken(loginResult.refresh_token)).toBeNull();
     });
 
     it('should return null for inactive user', async () => {
-      // Create user and get token
-      const hashedPassword = await hashPassword('testpassword123');
-      const userResult = await db.insert(usersTable).values({
-        email: 'test@example.com',
-        username: 'testuser',
-        password_hash: hashedPassword,
-        first_name: 'Test',
-        last_name: 'User',
-        role: 'author'
-      }).returning().execute();
+      const user = await createActiveUser();
 
-      const loginResult = await loginUser({
+      const loginResult = await loginSession({
         email: 'test@example.com',
         password: 'testpassword123'
       });
@@ -240,15 +408,16 @@ describe('auth handlers', () => {
       // Deactivate user
       await db.update(usersTable)
         .set({ is_active: false })
-        .where(eq(usersTable.id, userResult[0].id))
+        .where(eq(usersTable.id, user.id))
         .execute();
 
-      const result = await refreshToken(loginResult.token);
+      const result = await refreshToken(loginResult.refresh_token);
       expect(result).toBeNull();
     });
+  });
 
-    it('should work with expired token structure', async () => {
-      // Create user and get token
+  describe('logoutUser', () => {
+    it('should revoke the refresh token family', async () => {
       const hashedPassword = await hashPassword('testpassword123');
       await db.insert(usersTable).values({
         email: 'test@example.com',
@@ -259,15 +428,232 @@ describe('auth handlers', () => {
         role: 'author'
       }).execute();
 
-      const loginResult = await loginUser({
+      const loginResult = await loginSession({
         email: 'test@example.com',
         password: 'testpassword123'
       });
+      const rotated = await refreshToken(loginResult.refresh_token);
 
-      // Should still work even with current token (refresh logic doesn't check expiration)
-      const result = await refreshToken(loginResult.token);
-      expect(result).not.toBeNull();
-      expect(result!.token).toBeDefined();
+      const result = await logoutUser(rotated!.refresh_token);
+
+      expect(result.success).toBe(true);
+      expect(await refreshToken(rotated!.refresh_token)).toBeNull();
+    });
+
+    it('should report unknown tokens', async () => {
+      const result = await logoutUser('unknown-token');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('sessions', () => {
+    const laptop = { ip: '203.0.113.7', user_agent: 'Mozilla/5.0 (Macintosh)' };
+    const phone = { ip: '198.51.100.2', user_agent: 'Mozilla/5.0 (iPhone)' };
+    let userId: number;
+
+    beforeEach(async () => {
+      const [user] = await db.insert(usersTable).values({
+        email: 'test@example.com',
+        username: 'testuser',
+        password_hash: await hashPassword('testpassword123'),
+        first_name: 'Test',
+        last_name: 'User',
+        role: 'author'
+      }).returning().execute();
+      userId = user.id;
+    });
+
+    const signIn = async (client: { ip: string; user_agent: string }) => {
+      const result = await loginUser({ email: 'test@example.com', password: 'testpassword123' }, client);
+      if ('mfa_required' in result) throw new Error('Expected a session');
+      return result;
+    };
+
+    it('should record one session per sign-in with its client details', async () => {
+      const first = await signIn(laptop);
+      await signIn(phone);
+
+      const auth = await authenticateAccessToken(first.token);
+      const sessions = await listSessions(userId, auth!.session_id);
+
+      expect(sessions).toHaveLength(2);
+      const current = sessions.find(s => s.current)!;
+      expect(current.ip).toEqual(laptop.ip);
+      expect(current.user_agent).toEqual(laptop.user_agent);
+      expect(sessions.filter(s => s.current)).toHaveLength(1);
+    });
+
+    it('should keep the same session across refresh rotation', async () => {
+      const login = await signIn(laptop);
+      const before = (await authenticateAccessToken(login.token))!.session_id;
+
+      const rotated = await refreshToken(login.refresh_token, phone);
+      const after = (await authenticateAccessToken(rotated!.token))!.session_id;
+
+      expect(after).toEqual(before);
+      const [session] = await db.select().from(sessionsTable).execute();
+      expect(session.ip).toEqual(phone.ip);
+      expect(session.last_seen_at.getTime()).toBeGreaterThanOrEqual(session.created_at.getTime());
+    });
+
+    it('should cut off access and refresh tokens of a revoked session', async () => {
+      const laptopSession = await signIn(laptop);
+      const phoneSession = await signIn(phone);
+      const phoneId = (await authenticateAccessToken(phoneSession.token))!.session_id;
+
+      const result = await revokeSession(userId, phoneId);
+      expect(result.success).toBe(true);
+
+      expect(await verifyToken(phoneSession.token)).toBeNull();
+      expect(await refreshToken(phoneSession.refresh_token)).toBeNull();
+      expect(await verifyToken(laptopSession.token)).not.toBeNull();
+      expect(await listSessions(userId, null)).toHaveLength(1);
+    });
+
+    it('should not revoke sessions of other users', async () => {
+      const login = await signIn(laptop);
+      const sessionId = (await authenticateAccessToken(login.token))!.session_id;
+
+      await expect(revokeSession(userId + 1, sessionId)).rejects.toThrow(/not found/i);
+      expect(await verifyToken(login.token)).not.toBeNull();
+    });
+
+    it('should end every session of a user', async () => {
+      const first = await signIn(laptop);
+      const second = await signIn(phone);
+
+      const result = await revokeUserSessions(userId);
+
+      expect(result.revoked).toEqual(2);
+      expect(await verifyToken(first.token)).toBeNull();
+      expect(await verifyToken(second.token)).toBeNull();
+      expect(await refreshToken(second.refresh_token)).toBeNull();
+      expect(await listSessions(userId, null)).toHaveLength(0);
+    });
+
+    it('should mark the session revoked on logout', async () => {
+      const login = await signIn(laptop);
+
+      await logoutUser(login.refresh_token);
+
+      expect(await verifyToken(login.token)).toBeNull();
+      const [session] = await db.select().from(sessionsTable).execute();
+      expect(session.revoked_at).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('impersonateUser', () => {
+    beforeEach(seedDefaultRoles);
+
+    let admin: PublicUser;
+    let adminSession: AuthSession;
+    let authorId: number;
+
+    beforeEach(async () => {
+      const passwordHash = await hashPassword('testpassword123');
+      const [, author] = await db.insert(usersTable).values([
+        { email: 'admin@example.com', username: 'admin', password_hash: passwordHash, first_name: 'Ada', last_name: 'Admin', role: 'admin' },
+        { email: 'author@example.com', username: 'author', password_hash: passwordHash, first_name: 'Avery', last_name: 'Author', role: 'author' },
+        { email: 'editor@example.com', username: 'editor', password_hash: passwordHash, first_name: 'Eddie', last_name: 'Editor', role: 'editor' }
+      ]).returning().execute();
+      authorId = author.id;
+
+      adminSession = await loginSession({ email: 'admin@example.com', password: 'testpassword123' });
+      admin = adminSession.user;
+    });
+
+    const impersonate = async (targetId: number) => {
+      const auth = await authenticateAccessToken(adminSession.token);
+      return impersonateUser(admin, auth!.session_id, targetId);
+    };
+
+    it('should issue a token that acts as the target and names the admin', async () => {
+      const result = await impersonate(authorId);
+
+      expect(result.user.id).toEqual(authorId);
+      expect(result.impersonator.username).toEqual('admin');
+      expect(result.expires_in).toEqual(30 * 60);
+
+      const verified = await verifyToken(result.token);
+      expect(verified!.id).toEqual(authorId);
+      expect(verified!.role).toEqual('author');
+      expect(verified!.impersonated_by).toEqual({ id: admin.id, username: 'admin', first_name: 'Ada', last_name: 'Admin' });
+
+      // The admin's own token is not flagged
+      expect((await verifyToken(adminSession.token))!.impersonated_by).toBeNull();
+    });
+
+    it('should stay on the admin session', async () => {
+      const result = await impersonate(authorId);
+
+      const auth = await authenticateAccessToken(result.token);
+      const adminAuth = await authenticateAccessToken(adminSession.token);
+      expect(auth!.session_id).toEqual(adminAuth!.session_id);
+      expect(await listSessions(authorId, null)).toHaveLength(0);
+    });
+
+    it('should end when the admin session is revoked', async () => {
+      const result = await impersonate(authorId);
+
+      await logoutUser(adminSession.refresh_token);
+
+      expect(await verifyToken(result.token)).toBeNull();
+    });
+
+    it('should end when the admin can no longer manage users', async () => {
+      const result = await impersonate(authorId);
+
+      await db.update(usersTable)
+        .set({ role: 'editor' })
+        .where(eq(usersTable.id, admin.id))
+        .execute();
+
+      expect(await verifyToken(result.token)).toBeNull();
+    });
+
+    it('should end when the target is deactivated', async () => {
+      const result = await impersonate(authorId);
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, authorId))
+        .execute();
+
+      expect(await verifyToken(result.token)).toBeNull();
+    });
+
+    it('should refuse to impersonate oneself, privileged or missing users', async () => {
+      const [otherAdmin] = await db.insert(usersTable).values({
+        email: 'second@example.com',
+        username: 'second',
+        password_hash: 'unused',
+        first_name: 'Second',
+        last_name: 'Admin',
+        role: 'admin'
+      }).returning().execute();
+
+      await expect(impersonate(admin.id)).rejects.toThrow(/yourself/i);
+      await expect(impersonate(otherAdmin.id)).rejects.toThrow(/cannot be impersonated/i);
+      await expect(impersonate(99999)).rejects.toThrow(/not found/i);
+    });
+
+    it('should refuse deactivated users', async () => {
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, authorId))
+        .execute();
+
+      await expect(impersonate(authorId)).rejects.toThrow(/deactivated/i);
+    });
+  });
+
+  describe('authorization helpers', () => {
+    it('should extract bearer tokens from authorization headers', () => {
+      expect(extractBearerToken('Bearer abc.def.ghi')).toEqual('abc.def.ghi');
+      expect(extractBearerToken('bearer   abc')).toEqual('abc');
+      expect(extractBearerToken('Basic abc')).toBeNull();
+      expect(extractBearerToken('Bearer')).toBeNull();
+      expect(extractBearerToken(undefined)).toBeNull();
     });
   });
-});
\ No newline at end of file
+});
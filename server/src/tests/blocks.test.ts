@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'bun:test';
+import { blocksToMarkdown, markdownToBlocks } from '../helpers/blocks';
+import { renderMarkdown } from '../helpers/markdown';
+import { type ContentBlock } from '../schema';
+
+const shortcodes = new Set(['callout', 'youtube']);
+const images = new Map([['/uploads/a.jpg', 7]]);
+const imagePaths = new Map([[7, '/uploads/a.jpg']]);
+
+describe('markdownToBlocks', () => {
+  it('should turn Markdown blocks into content blocks', () => {
+    expect(markdownToBlocks('# Title\n\nSome *text*\n\n```js\nx()\n```\n\n---')).toEqual([
+      { type: 'heading', level: 1, text: 'Title' },
+      { type: 'paragraph', text: 'Some *text*' },
+      { type: 'code', language: 'js', code: 'x()' },
+      { type: 'rule' }
+    ]);
+  });
+
+  it('should nest quotes and lists', () => {
+    expect(markdownToBlocks('> Quoted\n\n3. three\n4. four\n   - [x] done')).toEqual([
+      { type: 'quote', children: [{ type: 'paragraph', text: 'Quoted' }] },
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        tight: true,
+        items: [
+          { checked: null, children: [{ type: 'paragraph', text: 'three' }] },
+          {
+            checked: null,
+            children: [
+              { type: 'paragraph', text: 'four' },
+              { type: 'list', ordered: false, start: 1, tight: true, items: [{ checked: true, children: [{ type: 'paragraph', text: 'done' }] }] }
+            ]
+          }
+        ]
+      }
+    ]);
+  });
+
+  it('should turn standalone images from the media library into image blocks', () => {
+    expect(markdownToBlocks('![A \\[logo\\]](/uploads/a.jpg "The \\"logo\\"")\n\n![Elsewhere](/other.png)', { images })).toEqual([
+      { type: 'image', media_id: 7, alt: 'A [logo]', caption: 'The "logo"' },
+      { type: 'paragraph', text: '![Elsewhere](/other.png)' }
+    ]);
+  });
+
+  it('should turn known shortcodes into embeds', () => {
+    expect(markdownToBlocks('[youtube id=dQw4w9WgXcQ]\n\n[callout type=tip]\nHi\n[/callout]\n\n[tweet id=1]', { shortcodes })).toEqual([
+      { type: 'embed', name: 'youtube', attributes: { id: 'dQw4w9WgXcQ' }, children: null },
+      { type: 'embed', name: 'callout', attributes: { type: 'tip' }, children: [{ type: 'paragraph', text: 'Hi' }] },
+      { type: 'paragraph', text: '[tweet id=1]' }
+    ]);
+  });
+
+  it('should keep link reference definitions in a trailing paragraph', () => {
+    const blocks = markdownToBlocks('See [the docs][Docs].\n\n[docs]: <https://example.com/a b> "The \\"docs\\""');
+
+    expect(blocks).toEqual([
+      { type: 'paragraph', text: 'See [the docs][Docs].' },
+      { type: 'paragraph', text: '[docs]: <https://example.com/a b> "The \\"docs\\""' }
+    ]);
+    expect(renderMarkdown(blocksToMarkdown(blocks))).toEqual(
+      '<p>See <a href="https://example.com/a%20b" title="The &quot;docs&quot;" rel="nofollow noopener">the docs</a>.</p>'
+    );
+  });
+});
+
+describe('blocksToMarkdown', () => {
+  it('should escape text that would start another block', () => {
+    const markdown = blocksToMarkdown([{ type: 'paragraph', text: '# Not a heading\n2024. A year\n- no list\n\n> no quote' }]);
+
+    expect(markdown).toEqual('\\# Not a heading\n2024\\. A year\n\\- no list\n\\> no quote');
+    expect(renderMarkdown(markdown)).toEqual('<p># Not a heading\n2024. A year\n- no list\n&gt; no quote</p>');
+  });
+
+  it('should fence code with more backticks than it contains', () => {
+    expect(blocksToMarkdown([{ type: 'code', language: 'md', code: 'Use ```js fences' }]))
+      .toEqual('````md\nUse ```js fences\n````');
+  });
+
+  it('should keep adjacent lists apart', () => {
+    const list = (text: string): ContentBlock => ({
+      type: 'list', ordered: false, start: 1, tight: true, items: [{ checked: null, children: [{ type: 'paragraph', text }] }]
+    });
+
+    expect(blocksToMarkdown([list('a'), list('b'), list('c')])).toEqual('- a\n\n* b\n\n- c');
+  });
+
+  it('should write tables, embeds and images', () => {
+    expect(blocksToMarkdown([
+      { type: 'table', align: ['left', null], header: ['a', 'b|c'], rows: [['1']] },
+      { type: 'embed', name: 'callout', attributes: { title: 'Say "hi"' }, children: [{ type: 'paragraph', text: 'Body' }] },
+      { type: 'image', media_id: 7, alt: 'Logo', caption: null },
+      { type: 'image', media_id: 8, alt: 'Gone', caption: null }
+    ], imagePaths)).toEqual(
+      '| a | b\\|c |\n| :--- | --- |\n| 1 |  |\n\n'
+      + '[callout title=\'Say "hi"\']\n\nBody\n\n[/callout]\n\n'
+      + '![Logo](/uploads/a.jpg)'
+    );
+  });
+
+  it('should render the same HTML as the Markdown it was converted from', () => {
+    const markdown = [
+      '# Title #',
+      'Some *text* with a [link](/x) and a\nsecond line.',
+      '![Logo](/uploads/a.jpg "Our logo")',
+      '> quoted\n>\n> - a\n> - b',
+      '1. one\n2. two\n   - nested\n   - more',
+      '- [x] done\n- [ ] todo',
+      '* loose\n\n* list',
+      '| a | b \\| c |\n|:--|--:|\n| 1 | 2 |',
+      '[callout type=tip title="Heads up"]\nInside **bold**\n[/callout]',
+      '<div>raw</div>',
+      '***'
+    ].join('\n\n');
+    const options = { shortcodes: { names: shortcodes, render: ({ name, content }: { name: string; content: string | null }) => `<b>${name}</b>${content ?? ''}` } };
+
+    const blocks = markdownToBlocks(markdown, { shortcodes, images });
+    const converted = blocksToMarkdown(blocks, imagePaths);
+
+    expect(renderMarkdown(converted, options)).toEqual(renderMarkdown(markdown, options));
+    expect(markdownToBlocks(converted, { shortcodes, images })).toEqual(blocks);
+  });
+});
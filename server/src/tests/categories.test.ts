@@ -12,6 +12,7 @@ import {
   deleteCategory,
   getCategoryTree
 } from '../handlers/categories';
+import { ConflictError } from '../helpers/concurrency';
 import { eq } from 'drizzle-orm';
 
 // Test inputs
@@ -105,10 +106,16 @@ describe('Categories Handler', () => {
       await expect(createCategory(invalidInput)).rejects.toThrow(/Parent category with ID 999 does not exist/);
     });
 
-    it('should throw error for duplicate slug', async () => {
+    it('should suffix a duplicate slug', async () => {
       await createCategory(testCategoryInput);
 
-      await expect(createCategory(testCategoryInput)).rejects.toThrow();
+      const result = await createCategory(testCategoryInput);
+      expect(result.slug).toEqual('technology-2');
+    });
+
+    it('should generate the slug from the name when none is given', async () => {
+      const result = await createCategory({ name: 'Café Culture' });
+      expect(result.slug).toEqual('cafe-culture');
     });
   });
 
@@ -182,6 +189,23 @@ describe('Categories Handler', () => {
   });
 
   describe('updateCategory', () => {
+    it('should reject writes based on a stale copy', async () => {
+      const created = await createCategory(testCategoryInput);
+
+      const first = await updateCategory({ id: created.id, name: 'First', expected_updated_at: created.updated_at });
+      expect(first.name).toEqual('First');
+
+      const stale = updateCategory({ id: created.id, name: 'Second', expected_updated_at: created.updated_at });
+      await expect(stale).rejects.toThrow(/changed by someone else/i);
+      await stale.catch((error) => {
+        expect(error).toBeInstanceOf(ConflictError);
+        expect(error.current.name).toEqual('First');
+      });
+
+      // Without an expected timestamp the last write wins, as before
+      expect((await updateCategory({ id: created.id, name: 'Third' })).name).toEqual('Third');
+    });
+
     it('should update category with all fields', async () => {
       const created = await createCategory(testCategoryInput);
 
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'bun:test';
+import { diffText, tokenize, type DiffChange } from '../helpers/diff';
+
+const sides = (changes: DiffChange[]) => ({
+  before: changes.filter(change => change.type !== 'insert').map(change => change.value).join(''),
+  after: changes.filter(change => change.type !== 'delete').map(change => change.value).join('')
+});
+
+describe('diff helpers', () => {
+  it('should tokenize lines and words without losing separators', () => {
+    expect(tokenize('one\ntwo\n', 'line')).toEqual(['one\n', 'two\n']);
+    expect(tokenize('one  two\nthree', 'word')).toEqual(['one', '  ', 'two', '\n', 'three']);
+    expect(tokenize('', 'word')).toEqual([]);
+  });
+
+  it('should diff by word', () => {
+    expect(diffText('the quick brown fox', 'the slow brown fox', 'word')).toEqual([
+      { type: 'equal', value: 'the ' },
+      { type: 'delete', value: 'quick' },
+      { type: 'insert', value: 'slow' },
+      { type: 'equal', value: ' brown fox' }
+    ]);
+  });
+
+  it('should diff by line', () => {
+    expect(diffText('# Title\nfirst\nsecond\n', '# Title\nsecond\nthird\n', 'line')).toEqual([
+      { type: 'equal', value: '# Title\n' },
+      { type: 'delete', value: 'first\n' },
+      { type: 'equal', value: 'second\n' },
+      { type: 'insert', value: 'third\n' }
+    ]);
+  });
+
+  it('should handle empty and identical text', () => {
+    expect(diffText('', 'new', 'word')).toEqual([{ type: 'insert', value: 'new' }]);
+    expect(diffText('old', '', 'word')).toEqual([{ type: 'delete', value: 'old' }]);
+    expect(diffText('same text', 'same text', 'line')).toEqual([{ type: 'equal', value: 'same text' }]);
+  });
+
+  it('should always rebuild both sides with a minimal number of edits', () => {
+    const words = ['alpha', 'beta', 'gamma'];
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const sentence = () => Array.from({ length: Math.floor(random() * 12) }, () => words[Math.floor(random() * 3)]).join(' ');
+
+    for (let i = 0; i < 200; i++) {
+      const before = sentence();
+      const after = sentence();
+      const changes = diffText(before, after, 'word');
+      expect(sides(changes)).toEqual({ before, after });
+
+      // Edited tokens match the longest common subsequence
+      const a = tokenize(before, 'word');
+      const b = tokenize(after, 'word');
+      const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+      for (let x = 1; x <= a.length; x++) {
+        for (let y = 1; y <= b.length; y++) {
+          lcs[x][y] = a[x - 1] === b[y - 1] ? lcs[x - 1][y - 1] + 1 : Math.max(lcs[x - 1][y], lcs[x][y - 1]);
+        }
+      }
+      const edited = changes
+        .filter(change => change.type !== 'equal')
+        .reduce((total, change) => total + tokenize(change.value, 'word').length, 0);
+      expect(edited).toEqual(a.length + b.length - 2 * lcs[a.length][b.length]);
+    }
+  });
+
+  it('should show large rewrites as the whole text replaced', () => {
+    const text = (prefix: string) => Array.from({ length: 6000 }, (_, i) => `${prefix}${i}`).join(' ');
+    const before = `Intro\n${text('old')}\nOutro`;
+    const after = `Intro\n${text('new')}\nOutro`;
+
+    const changes = diffText(before, after, 'word');
+
+    expect(changes.map(change => change.type)).toEqual(['equal', 'delete', 'insert', 'equal']);
+    expect(sides(changes)).toEqual({ before, after });
+  });
+
+  it('should still diff edits below the cap exactly', () => {
+    const words = Array.from({ length: 6000 }, (_, i) => `word${i}`);
+    const edited = words.map((word, i) => (i % 10 === 0 ? `changed${i}` : word));
+
+    const changes = diffText(words.join(' '), edited.join(' '), 'word');
+
+    expect(changes.filter(change => change.type === 'delete')).toHaveLength(600);
+    expect(sides(changes)).toEqual({ before: words.join(' '), after: edited.join(' ') });
+  });
+});
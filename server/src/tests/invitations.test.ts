@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, invitationsTable, mailOutboxTable } from '../db/schema';
+import {
+  inviteUser,
+  getInvitations,
+  revokeInvitation,
+  acceptInvitation
+} from '../handlers/invitations';
+import { loginUser } from '../handlers/auth';
+import { seedDefaultRoles } from '../handlers/roles';
+import { hashPassword } from '../helpers/password';
+import { eq } from 'drizzle-orm';
+
+const latestInviteToken = async (): Promise<string> => {
+  const messages = await db.select().from(mailOutboxTable).execute();
+  const match = messages[messages.length - 1].text_body.match(/invite_token=([\w%-]+)/);
+  return decodeURIComponent(match![1]);
+};
+
+const acceptance = {
+  username: 'guest',
+  password: 'guestpass1',
+  first_name: 'Gina',
+  last_name: 'Guest'
+};
+
+describe('invitation handlers', () => {
+  beforeEach(createDB);
+  beforeEach(seedDefaultRoles);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(usersTable)
+      .values({
+        email: 'admin@example.com',
+        username: 'admin',
+        password_hash: await hashPassword('adminpass1'),
+        first_name: 'Ada',
+        last_name: 'Admin',
+        role: 'admin'
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  describe('inviteUser', () => {
+    it('should email a link and store only the token hash', async () => {
+      const invitation = await inviteUser(adminId, { email: 'guest@example.com', role: 'editor' });
+
+      expect(invitation.email).toEqual('guest@example.com');
+      expect(invitation.role).toEqual('editor');
+      expect(invitation.invited_by).toEqual(adminId);
+      expect(invitation.expires_at.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+      expect(invitation).not.toHaveProperty('token_hash');
+
+      const [mail] = await db.select().from(mailOutboxTable).execute();
+      expect(mail.to_address).toEqual('guest@example.com');
+
+      const [stored] = await db.select().from(invitationsTable).execute();
+      expect(stored.token_hash).not.toEqual(await latestInviteToken());
+    });
+
+    it('should refuse addresses that already have an account', async () => {
+      await expect(inviteUser(adminId, { email: 'admin@example.com', role: 'author' }))
+        .rejects.toThrow(/already exists/i);
+    });
+
+    it('should replace an earlier pending invitation for the same address', async () => {
+      await inviteUser(adminId, { email: 'guest@example.com', role: 'author' });
+      const firstToken = await latestInviteToken();
+      await inviteUser(adminId, { email: 'guest@example.com', role: 'editor' });
+
+      const pending = await getInvitations();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].role).toEqual('editor');
+
+      await expect(acceptInvitation({ ...acceptance, token: firstToken })).rejects.toThrow(/invalid or has expired/i);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should create a verified account with the invited role', async () => {
+      await inviteUser(adminId, { email: 'guest@example.com', role: 'editor' });
+
+      const result = await acceptInvitation({ ...acceptance, token: await latestInviteToken() });
+      expect(result.success).toBe(true);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.email, 'guest@example.com')).execute();
+      expect(user.username).toEqual('guest');
+      expect(user.role).toEqual('editor');
+      expect(user.email_verified_at).toBeInstanceOf(Date);
+
+      expect('token' in await loginUser({ email: 'guest@example.com', password: acceptance.password })).toBe(true);
+      expect(await getInvitations()).toHaveLength(0);
+    });
+
+    it('should only be redeemable once', async () => {
+      await inviteUser(adminId, { email: 'guest@example.com', role: 'author' });
+      const token = await latestInviteToken();
+
+      await acceptInvitation({ ...acceptance, token });
+      await expect(acceptInvitation({ ...acceptance, username: 'guest2', token }))
+        .rejects.toThrow(/invalid or has expired/i);
+    });
+
+    it('should keep the invitation usable when the username is taken', async () => {
+      await inviteUser(adminId, { email: 'guest@example.com', role: 'author' });
+      const token = await latestInviteToken();
+
+      await expect(acceptInvitation({ ...acceptance, username: 'admin', token })).rejects.toThrow(/already exists/i);
+
+      const result = await acceptInvitation({ ...acceptance, token });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject expired invitations', async () => {
+      await inviteUser(adminId, { email: 'guest@example.com', role: 'author' });
+      await db.update(invitationsTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+      await expect(acceptInvitation({ ...acceptance, token: await latestInviteToken() }))
+        .rejects.toThrow(/invalid or has expired/i);
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should invalidate the emailed link', async () => {
+      const invitation = await inviteUser(adminId, { email: 'guest@example.com', role: 'author' });
+
+      await revokeInvitation(invitation.id);
+
+      expect(await getInvitations()).toHaveLength(0);
+      await expect(acceptInvitation({ ...acceptance, token: await latestInviteToken() }))
+        .rejects.toThrow(/invalid or has expired/i);
+      await expect(revokeInvitation(invitation.id)).rejects.toThrow(/not found/i);
+    });
+  });
+});
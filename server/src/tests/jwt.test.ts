@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { signJwt, verifyJwt, resetJwtKeyCache } from '../helpers/jwt';
+
+describe('jwt helpers', () => {
+  const originalKeys = process.env['AUTH_JWT_KEYS'];
+
+  beforeEach(() => {
+    process.env['AUTH_JWT_KEYS'] = 'k1:first-secret';
+    resetJwtKeyCache();
+  });
+
+  afterEach(() => {
+    if (originalKeys === undefined) {
+      delete process.env['AUTH_JWT_KEYS'];
+    } else {
+      process.env['AUTH_JWT_KEYS'] = originalKeys;
+    }
+    resetJwtKeyCache();
+  });
+
+  it('should sign and verify a token with the active key id', () => {
+    const token = signJwt({ sub: 42, typ: 'access' }, 60);
+    const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+
+    expect(header.kid).toEqual('k1');
+    expect(header.alg).toEqual('HS256');
+
+    const payload = verifyJwt(token, 'access');
+    expect(payload!.sub).toEqual(42);
+    expect(payload!.exp - payload!.iat).toEqual(60);
+  });
+
+  it('should reject tokens of another type', () => {
+    const token = signJwt({ sub: 42, typ: 'access' }, 60);
+    expect(verifyJwt(token, 'mfa')).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signJwt({ sub: 42, typ: 'access' }, -1);
+    expect(verifyJwt(token, 'access')).toBeNull();
+  });
+
+  it('should keep verifying tokens from a rotated-out key that is still listed', () => {
+    const oldToken = signJwt({ sub: 42, typ: 'access' }, 60);
+
+    process.env['AUTH_JWT_KEYS'] = 'k2:second-secret,k1:first-secret';
+    resetJwtKeyCache();
+
+    const newToken = signJwt({ sub: 42, typ: 'access' }, 60);
+    expect(JSON.parse(Buffer.from(newToken.split('.')[0], 'base64url').toString('utf8')).kid).toEqual('k2');
+    expect(verifyJwt(oldToken, 'access')).not.toBeNull();
+    expect(verifyJwt(newToken, 'access')).not.toBeNull();
+
+    // Once the old key is dropped its tokens stop validating
+    process.env['AUTH_JWT_KEYS'] = 'k2:second-secret';
+    resetJwtKeyCache();
+    expect(verifyJwt(oldToken, 'access')).toBeNull();
+  });
+
+  it('should reject tokens signed with an unknown secret under a known kid', () => {
+    process.env['AUTH_JWT_KEYS'] = 'k1:attacker-secret';
+    resetJwtKeyCache();
+    const forged = signJwt({ sub: 1, typ: 'access' }, 60);
+
+    process.env['AUTH_JWT_KEYS'] = 'k1:first-secret';
+    resetJwtKeyCache();
+    expect(verifyJwt(forged, 'access')).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, loginAttemptsTable } from '../db/schema';
+import { loginUser } from '../handlers/auth';
+import { lockoutSeconds, unlockUser, getLoginHistory } from '../handlers/lockout';
+import { hashPassword } from '../helpers/password';
+import { eq } from 'drizzle-orm';
+
+const client = { ip: '203.0.113.10', user_agent: 'test-agent' };
+const credentials = { email: 'writer@example.com', password: 'correctpass1' };
+
+const failLogin = (password = 'wrongpass', from = client) =>
+  expect(loginUser({ email: credentials.email, password }, from)).rejects.toThrow();
+
+describe('login lockout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: credentials.email,
+        username: 'writer',
+        password_hash: await hashPassword(credentials.password),
+        first_name: 'Wendy',
+        last_name: 'Writer',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+
+  const loadUser = async () => {
+    const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+    return user;
+  };
+
+  describe('lockoutSeconds', () => {
+    it('should double the lock for each failure past the threshold', () => {
+      expect(lockoutSeconds(4)).toEqual(0);
+      expect(lockoutSeconds(5)).toEqual(60);
+      expect(lockoutSeconds(6)).toEqual(120);
+      expect(lockoutSeconds(7)).toEqual(240);
+      expect(lockoutSeconds(20)).toEqual(3600);
+    });
+  });
+
+  describe('loginUser', () => {
+    it('should count failures and record each attempt', async () => {
+      await failLogin();
+      await failLogin();
+
+      const user = await loadUser();
+      expect(user.failed_login_count).toEqual(2);
+      expect(user.locked_until).toBeNull();
+
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts).toHaveLength(2);
+      expect(attempts[0].success).toBe(false);
+      expect(attempts[0].failure_reason).toEqual('invalid_password');
+      expect(attempts[0].ip).toEqual(client.ip);
+      expect(attempts[0].user_id).toEqual(userId);
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      for (let i = 0; i < 5; i++) {
+        await failLogin();
+      }
+
+      const user = await loadUser();
+      expect(user.locked_until!.getTime()).toBeGreaterThan(Date.now() + 50_000);
+
+      // Even the right password is refused while the lock lasts
+      await expect(loginUser(credentials, client)).rejects.toThrow(/temporarily locked/i);
+
+      const [latest] = await getLoginHistory({ user_id: userId, limit: 1 });
+      expect(latest.failure_reason).toEqual('account_locked');
+    });
+
+    it('should extend the lock when failures continue after it expires', async () => {
+      await db.update(usersTable)
+        .set({ failed_login_count: 5, locked_until: new Date(Date.now() - 1000) })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      await failLogin();
+
+      const user = await loadUser();
+      expect(user.failed_login_count).toEqual(6);
+      expect(user.locked_until!.getTime()).toBeGreaterThan(Date.now() + 110_000);
+    });
+
+    it('should reset the counter and record the sign-in time on success', async () => {
+      await failLogin();
+      await loginUser(credentials, client);
+
+      const user = await loadUser();
+      expect(user.failed_login_count).toEqual(0);
+      expect(user.last_login_at).toBeInstanceOf(Date);
+
+      const [latest] = await getLoginHistory({ user_id: userId, limit: 1 });
+      expect(latest.success).toBe(true);
+      expect(latest.failure_reason).toBeNull();
+    });
+
+    it('should record attempts against unknown emails without a user', async () => {
+      await expect(loginUser({ email: 'nobody@example.com', password: 'whatever1' }, client))
+        .rejects.toThrow(/invalid email or password/i);
+
+      const [attempt] = await db.select().from(loginAttemptsTable).execute();
+      expect(attempt.user_id).toBeNull();
+      expect(attempt.email).toEqual('nobody@example.com');
+      expect(attempt.failure_reason).toEqual('unknown_email');
+    });
+
+    it('should throttle an address that keeps failing across accounts', async () => {
+      await db.insert(loginAttemptsTable)
+        .values(Array.from({ length: 20 }, (_, i) => ({
+          email: `guess${i}@example.com`,
+          ip: client.ip,
+          success: false,
+          failure_reason: 'unknown_email'
+        })))
+        .execute();
+
+      await expect(loginUser(credentials, client)).rejects.toThrow(/too many failed sign-in attempts/i);
+
+      // Other addresses are unaffected and the account itself is not penalised
+      const result = await loginUser(credentials, { ip: '198.51.100.1', user_agent: null });
+      expect('token' in result).toBe(true);
+    });
+  });
+
+  describe('unlockUser', () => {
+    it('should clear the lock so the user can sign in again', async () => {
+      for (let i = 0; i < 5; i++) {
+        await failLogin();
+      }
+
+      const unlocked = await unlockUser(userId);
+      expect(unlocked.failed_login_count).toEqual(0);
+      expect(unlocked.locked_until).toBeNull();
+
+      const result = await loginUser(credentials, client);
+      expect('token' in result).toBe(true);
+    });
+
+    it('should throw for unknown users', async () => {
+      await expect(unlockUser(99999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('getLoginHistory', () => {
+    it('should return the most recent attempts first', async () => {
+      await failLogin();
+      await loginUser(credentials, client);
+
+      const history = await getLoginHistory({ user_id: userId, limit: 20 });
+      expect(history).toHaveLength(2);
+      expect(history[0].success).toBe(true);
+      expect(history[1].success).toBe(false);
+
+      expect(await getLoginHistory({ user_id: userId, limit: 1 })).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { renderMarkdown, type ShortcodeCall } from '../helpers/markdown';
+import { highlightCode } from '../helpers/highlight';
+
+describe('renderMarkdown', () => {
+  it('should render headings with anchors', () => {
+    expect(renderMarkdown('# Hello *World*')).toEqual(
+      '<h1 id="hello-world"><a class="anchor" href="#hello-world" aria-hidden="true"></a>Hello <em>World</em></h1>'
+    );
+    expect(renderMarkdown('Setext\n===')).toContain('<h1 id="setext">');
+    expect(renderMarkdown('Second\n---')).toContain('<h2 id="second">');
+  });
+
+  it('should give repeated headings unique ids', () => {
+    const html = renderMarkdown('## Usage\n\n## Usage\n\n## Привет');
+    expect(html).toContain('id="usage"');
+    expect(html).toContain('id="usage-2"');
+    expect(html).toContain('id="privet"');
+  });
+
+  it('should render paragraphs and inline formatting', () => {
+    expect(renderMarkdown('Some *em*, **strong**, ~~gone~~ and `code <b>`.\nNext line'))
+      .toEqual('<p>Some <em>em</em>, <strong>strong</strong>, <del>gone</del> and <code>code &lt;b&gt;</code>.\nNext line</p>');
+    expect(renderMarkdown('snake_case_name stays')).toEqual('<p>snake_case_name stays</p>');
+    expect(renderMarkdown('\\*not em\\*')).toEqual('<p>*not em*</p>');
+    expect(renderMarkdown('hard  \nbreak')).toEqual('<p>hard<br />\nbreak</p>');
+  });
+
+  it('should render links, images and autolinks', () => {
+    expect(renderMarkdown('[Home](/ "Start") ![Logo](/logo.png)'))
+      .toEqual('<p><a href="/" title="Start">Home</a> <img src="/logo.png" alt="Logo" /></p>');
+    expect(renderMarkdown('See [the docs][docs].\n\n[docs]: https://example.com/docs'))
+      .toEqual('<p>See <a href="https://example.com/docs" rel="nofollow noopener">the docs</a>.</p>');
+    expect(renderMarkdown('Visit https://example.com/a?b=1&c=2.'))
+      .toEqual('<p>Visit <a href="https://example.com/a?b=1&amp;c=2" rel="nofollow noopener">https://example.com/a?b=1&amp;c=2</a>.</p>');
+    expect(renderMarkdown('<me@example.com>')).toEqual('<p><a href="mailto:me@example.com">me@example.com</a></p>');
+  });
+
+  it('should render lists, including nested and task lists', () => {
+    expect(renderMarkdown('- one\n- two\n  - nested')).toEqual(
+      '<ul>\n<li>one</li>\n<li>two\n<ul>\n<li>nested</li>\n</ul></li>\n</ul>'
+    );
+    expect(renderMarkdown('3. three\n4. four')).toEqual('<ol start="3">\n<li>three</li>\n<li>four</li>\n</ol>');
+    expect(renderMarkdown('- a\n\n- b')).toEqual('<ul>\n<li><p>a</p></li>\n<li><p>b</p></li>\n</ul>');
+    expect(renderMarkdown('- [x] done\n- [ ] todo')).toEqual(
+      '<ul>\n<li class="task-list-item"><input type="checkbox" disabled checked /> done</li>\n'
+      + '<li class="task-list-item"><input type="checkbox" disabled /> todo</li>\n</ul>'
+    );
+  });
+
+  it('should render quotes, rules and code blocks', () => {
+    expect(renderMarkdown('> quoted\ncontinued')).toEqual('<blockquote>\n<p>quoted\ncontinued</p>\n</blockquote>');
+    expect(renderMarkdown('***')).toEqual('<hr />');
+    expect(renderMarkdown('    indented <code>')).toEqual('<pre><code>indented &lt;code&gt;</code></pre>');
+    expect(renderMarkdown('```\nplain\n```')).toEqual('<pre><code>plain</code></pre>');
+  });
+
+  it('should highlight fenced code', () => {
+    expect(renderMarkdown('```js\nconst x = 1; // one\n```')).toEqual(
+      '<pre><code class="language-js"><span class="hl-keyword">const</span> x = <span class="hl-number">1</span>; '
+      + '<span class="hl-comment">// one</span></code></pre>'
+    );
+  });
+
+  it('should render tables with alignment', () => {
+    expect(renderMarkdown('| Name | Qty |\n|:-----|----:|\n| a \\| b | `1` |')).toEqual(
+      '<table>\n<thead>\n<tr><th align="left">Name</th><th align="right">Qty</th></tr>\n</thead>\n'
+      + '<tbody>\n<tr><td align="left">a | b</td><td align="right"><code>1</code></td></tr>\n</tbody>\n</table>'
+    );
+  });
+
+  it('should sanitize raw HTML', () => {
+    expect(renderMarkdown('<div onclick="x()"><script>alert(1)</script><b>bold</b></div>')).toEqual('<div>bold</div>');
+    expect(renderMarkdown('Inline <kbd>Ctrl</kbd> and <img src=x onerror=alert(1)>'))
+      .toEqual('<p>Inline <kbd>Ctrl</kbd> and <img src="x" /></p>');
+    expect(renderMarkdown('[click](javascript:alert(1))')).toEqual('<p><a>click</a></p>');
+    expect(renderMarkdown('<javascript:alert(1)>')).toEqual('<p><a>javascript:alert(1)</a></p>');
+  });
+
+  it('should escape stray markup characters', () => {
+    expect(renderMarkdown('1 < 2 & 3 > 2 &copy;')).toEqual('<p>1 &lt; 2 &amp; 3 &gt; 2 &copy;</p>');
+  });
+});
+
+describe('renderMarkdown shortcodes', () => {
+  const calls: ShortcodeCall[] = [];
+  const render = (markdown: string) => renderMarkdown(markdown, {
+    shortcodes: {
+      names: new Set(['box', 'video']),
+      render: (call: ShortcodeCall) => {
+        calls.push(call);
+        return `<section data-name="${call.name}">${call.content ?? ''}</section>`;
+      }
+    }
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  it('should expand block and inline shortcodes with their attributes', () => {
+    expect(render('[video id=abc title="Two words" autoplay]')).toEqual('<section data-name="video"></section>');
+    expect(calls[0]).toEqual({ name: 'video', attributes: { id: 'abc', title: 'Two words', autoplay: 'true' }, content: null });
+
+    expect(render('Watch [video id=abc] now')).toEqual('<p>Watch <section data-name="video"></section> now</p>');
+  });
+
+  it('should render the content of enclosing shortcodes as sanitized Markdown', () => {
+    expect(render('[box]\n**Bold** <script>x()</script>\n\n[video id=abc]\n[/box]')).toEqual(
+      '<section data-name="box"><p><strong>Bold</strong> </p>\n<section data-name="video"></section></section>'
+    );
+    expect(calls.map((call: ShortcodeCall) => call.name)).toEqual(['video', 'box']);
+
+    expect(render('A [box]*small*[/box] box')).toEqual('<p>A <section data-name="box"><em>small</em></section> box</p>');
+  });
+
+  it('should end a paragraph at a shortcode line', () => {
+    expect(render('Text\n[video id=abc]')).toEqual('<p>Text</p>\n<section data-name="video"></section>');
+  });
+
+  it('should leave other brackets, code and unregistered names alone', () => {
+    expect(render('[other a=b] and [link](/x) and `[video id=abc]`'))
+      .toEqual('<p>[other a=b] and <a href="/x">link</a> and <code>[video id=abc]</code></p>');
+    expect(render('```\n[video id=abc]\n```')).toEqual('<pre><code>[video id=abc]</code></pre>');
+    expect(renderMarkdown('[video id=abc]')).toEqual('<p>[video id=abc]</p>');
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should keep shortcode HTML out of attributes', () => {
+    expect(render('![Clip [video id=abc]](/a.png)')).toEqual('<p><img src="/a.png" alt="Clip " /></p>');
+  });
+});
+
+describe('highlightCode', () => {
+  it('should mark strings, numbers, keywords and literals', () => {
+    expect(highlightCode('if x is None: return "a"', 'python')).toEqual(
+      '<span class="hl-keyword">if</span> x <span class="hl-keyword">is</span> <span class="hl-literal">None</span>: '
+      + '<span class="hl-keyword">return</span> <span class="hl-string">&quot;a&quot;</span>'
+    );
+  });
+
+  it('should treat SQL keywords case-insensitively', () => {
+    expect(highlightCode('SELECT 1', 'sql')).toEqual('<span class="hl-keyword">SELECT</span> <span class="hl-number">1</span>');
+  });
+
+  it('should tell JSON keys from values', () => {
+    expect(highlightCode('{"a": "b"}', 'json'))
+      .toEqual('{<span class="hl-property">&quot;a&quot;</span>: <span class="hl-string">&quot;b&quot;</span>}');
+  });
+
+  it('should escape code in unknown languages without highlighting', () => {
+    expect(highlightCode('<if> & else', 'brainfuck')).toEqual('&lt;if&gt; &amp; else');
+  });
+});
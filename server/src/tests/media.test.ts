@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { mediaTable, usersTable } from '../db/schema';
+import { mediaTable, postsTable, usersTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { type CreateMediaInput } from '../schema';
-import { uploadMedia } from '../handlers/media';
+import { uploadMedia, getMediaUploaderId, updateMedia, deleteMedia } from '../handlers/media';
+import { createPost, getPostById } from '../handlers/posts';
 
 describe('uploadMedia', () => {
   beforeEach(createDB);
@@ -172,4 +173,141 @@ describe('uploadMedia', () => {
     expect(result.original_filename).toEqual('Ööäå-tëst fîlé (1).jpg');
     expect(result.caption).toEqual('File with special characters: åäö!@#$%');
   });
-});
\ No newline at end of file
+});
+
+describe('getMediaUploaderId', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the uploader of existing media', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'uploader@example.com',
+        username: 'uploader',
+        password_hash: 'hashed_password',
+        first_name: 'Up',
+        last_name: 'Loader',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+
+    const [media] = await db.insert(mediaTable)
+      .values({
+        filename: 'photo.jpg',
+        original_filename: 'photo.jpg',
+        file_path: '/uploads/photo.jpg',
+        file_size: 1024,
+        mime_type: 'image/jpeg',
+        uploaded_by: user.id
+      })
+      .returning()
+      .execute();
+
+    expect(await getMediaUploaderId(media.id)).toEqual(user.id);
+  });
+
+  it('should return null for non-existent media', async () => {
+    expect(await getMediaUploaderId(99999)).toBeNull();
+  });
+});
+
+describe('updateMedia and deleteMedia', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let mediaId: number;
+
+  const storedHtml = async (id: number) => {
+    const [row] = await db.select().from(postsTable).where(eq(postsTable.id, id)).execute();
+    return row.rendered_html;
+  };
+
+  const newPost = (slug: string, content: string) => createPost({
+    title: slug,
+    slug,
+    content,
+    status: 'published',
+    author_id: userId
+  });
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'uploader@example.com',
+        username: 'uploader',
+        password_hash: 'hashed_password',
+        first_name: 'Up',
+        last_name: 'Loader',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+    userId = user.id;
+
+    const [media] = await db.insert(mediaTable)
+      .values({
+        filename: 'photo.jpg',
+        original_filename: 'photo.jpg',
+        file_path: '/uploads/photo.jpg',
+        file_size: 1024,
+        mime_type: 'image/jpeg',
+        caption: 'Before',
+        uploaded_by: user.id
+      })
+      .returning()
+      .execute();
+    mediaId = media.id;
+  });
+
+  it('should update alt text and caption', async () => {
+    const result = await updateMedia({ id: mediaId, alt_text: 'A photo', caption: null });
+
+    expect(result.alt_text).toEqual('A photo');
+    expect(result.caption).toBeNull();
+    expect(result.file_path).toEqual('/uploads/photo.jpg');
+  });
+
+  it('should throw for non-existent media', async () => {
+    await expect(updateMedia({ id: 99999, caption: 'Nothing' })).rejects.toThrow(/not found/i);
+    expect(await deleteMedia(99999)).toBe(false);
+  });
+
+  it('should re-render galleries showing the media when it changes', async () => {
+    const gallery = await newPost('gallery', `[gallery ids=${mediaId}]`);
+    const unrelated = await newPost('unrelated', 'No pictures here');
+    expect(await storedHtml(gallery.id)).toContain('Before');
+
+    await updateMedia({ id: mediaId, caption: 'After' });
+
+    expect(await storedHtml(gallery.id)).toBeNull();
+    expect(await storedHtml(unrelated.id)).not.toBeNull();
+    expect((await getPostById(gallery.id))!.rendered_html).toContain('After');
+  });
+
+  it('should only clear posts that show the changed media', async () => {
+    const imageBlocks = (id: number) => JSON.stringify([{ type: 'image', media_id: id, alt: 'Photo', caption: null }]);
+    const quoted = await newPost('quoted', `[gallery ids="2,${mediaId}" columns=2]`);
+    const block = await createPost({ title: 'Block', slug: 'block', content: imageBlocks(mediaId), content_format: 'blocks', status: 'draft', author_id: userId });
+    const similarIds = await newPost('similar-ids', `[gallery ids=${mediaId}1,1${mediaId}] with ${mediaId} in the text`);
+    const otherBlock = await createPost({ title: 'Other', slug: 'other', content: imageBlocks(mediaId * 10), content_format: 'blocks', status: 'draft', author_id: userId });
+
+    await updateMedia({ id: mediaId, alt_text: 'Changed' });
+
+    expect(await storedHtml(quoted.id)).toBeNull();
+    expect(await storedHtml(block.id)).toBeNull();
+    expect(await storedHtml(similarIds.id)).not.toBeNull();
+    expect(await storedHtml(otherBlock.id)).not.toBeNull();
+  });
+
+  it('should drop deleted media from galleries', async () => {
+    const gallery = await newPost('gallery', `[gallery ids=${mediaId}]`);
+
+    expect(await deleteMedia(mediaId)).toBe(true);
+
+    expect(await db.select().from(mediaTable).execute()).toHaveLength(0);
+    expect(await storedHtml(gallery.id)).toBeNull();
+    expect((await getPostById(gallery.id))!.rendered_html).not.toContain('/uploads/photo.jpg');
+  });
+});
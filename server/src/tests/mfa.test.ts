@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, mfaRecoveryCodesTable, siteSettingsTable } from '../db/schema';
+import {
+  setupMfa,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  verifyMfaLogin,
+  resolveMfaChallenge
+} from '../handlers/mfa';
+import { loginUser, verifyToken } from '../handlers/auth';
+import { hashPassword } from '../helpers/password';
+import { generateTotp, currentTotpStep } from '../helpers/totp';
+import { signJwt } from '../helpers/jwt';
+import { eq } from 'drizzle-orm';
+
+const login = { email: 'editor@example.com', password: 'editorpass1' };
+
+const requireMfaFor = async (roles: Array<'admin' | 'editor' | 'author'>) => {
+  await db.insert(siteSettingsTable)
+    .values({
+      site_title: 'Test Blog',
+      site_description: 'Test',
+      site_url: 'https://blog.example.com',
+      admin_email: 'admin@example.com',
+      mfa_required_roles: roles
+    })
+    .execute();
+};
+
+describe('mfa handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: login.email,
+        username: 'editor',
+        password_hash: await hashPassword(login.password),
+        first_name: 'Eddie',
+        last_name: 'Editor',
+        role: 'editor'
+      })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+
+  // Enrols the test user and returns the secret and recovery codes
+  const enrol = async () => {
+    const { secret } = await setupMfa(userId);
+    const { recovery_codes } = await enableMfa(userId, generateTotp(secret));
+    return { secret, recovery_codes };
+  };
+
+  describe('setupMfa', () => {
+    it('should store a pending secret and return enrolment data', async () => {
+      const result = await setupMfa(userId);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauth_uri).toContain(`secret=${result.secret}`);
+      expect(result.otpauth_uri).toContain('editor%40example.com');
+      expect(result.qr_code_data_url.startsWith('data:image/svg+xml;base64,')).toBe(true);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(user.totp_secret).toEqual(result.secret);
+      expect(user.totp_enabled).toBe(false);
+    });
+
+    it('should refuse when two-factor authentication is already enabled', async () => {
+      await enrol();
+      await expect(setupMfa(userId)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('enableMfa', () => {
+    it('should enable TOTP and issue hashed recovery codes', async () => {
+      const { recovery_codes } = await enrol();
+
+      expect(recovery_codes).toHaveLength(10);
+      recovery_codes.forEach(code => expect(code).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/));
+
+      const stored = await db.select().from(mfaRecoveryCodesTable).execute();
+      expect(stored).toHaveLength(10);
+      expect(stored.map(row => row.code_hash)).not.toContain(recovery_codes[0]);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(user.totp_enabled).toBe(true);
+    });
+
+    it('should reject a wrong code', async () => {
+      await setupMfa(userId);
+      await expect(enableMfa(userId, '000000')).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should require setup first', async () => {
+      await expect(enableMfa(userId, '123456')).rejects.toThrow(/not been started/i);
+    });
+  });
+
+  describe('login challenge', () => {
+    it('should return a challenge instead of a session once TOTP is enabled', async () => {
+      await enrol();
+
+      const result = await loginUser(login);
+      if (!('mfa_required' in result)) throw new Error('Expected an MFA challenge');
+
+      expect(result.enrollment_required).toBe(false);
+      expect(resolveMfaChallenge(result.mfa_token)).toEqual(userId);
+      // The challenge token must not work as an access token
+      expect(await verifyToken(result.mfa_token)).toBeNull();
+    });
+
+    it('should complete login with a fresh TOTP code and reject its replay', async () => {
+      const { secret } = await enrol();
+      const result = await loginUser(login);
+      if (!('mfa_required' in result)) throw new Error('Expected an MFA challenge');
+
+      // enableMfa already consumed the current step
+      await expect(verifyMfaLogin({ mfa_token: result.mfa_token, code: generateTotp(secret) }))
+        .rejects.toThrow(/invalid authentication code/i);
+
+      const session = await verifyMfaLogin({
+        mfa_token: result.mfa_token,
+        code: generateTotp(secret, currentTotpStep() + 1)
+      });
+      expect(session.user.id).toEqual(userId);
+      expect(session.recovery_codes).toBeUndefined();
+      expect((await verifyToken(session.token))!.id).toEqual(userId);
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const { recovery_codes } = await enrol();
+      const result = await loginUser(login);
+      if (!('mfa_required' in result)) throw new Error('Expected an MFA challenge');
+
+      const code = recovery_codes[0].toLowerCase().replace('-', ' ');
+      const session = await verifyMfaLogin({ mfa_token: result.mfa_token, code });
+      expect(session.user.id).toEqual(userId);
+
+      await expect(verifyMfaLogin({ mfa_token: result.mfa_token, code }))
+        .rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should count wrong codes towards the account lockout', async () => {
+      await enrol();
+      const result = await loginUser(login);
+      if (!('mfa_required' in result)) throw new Error('Expected an MFA challenge');
+
+      await expect(verifyMfaLogin({ mfa_token: result.mfa_token, code: '000000' }))
+        .rejects.toThrow(/invalid authentication code/i);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(user.failed_login_count).toEqual(1);
+    });
+
+    it('should reject expired or foreign challenge tokens', async () => {
+      await enrol();
+      const expired = signJwt({ sub: userId, typ: 'mfa' }, -1);
+      const access = signJwt({ sub: userId, typ: 'access' }, 60);
+
+      await expect(verifyMfaLogin({ mfa_token: expired, code: '123456' })).rejects.toThrow(/challenge/i);
+      await expect(verifyMfaLogin({ mfa_token: access, code: '123456' })).rejects.toThrow(/challenge/i);
+    });
+
+    it('should make users of a required role enrol during login', async () => {
+      await requireMfaFor(['admin', 'editor']);
+
+      const result = await loginUser(login);
+      if (!('mfa_required' in result)) throw new Error('Expected an MFA challenge');
+      expect(result.enrollment_required).toBe(true);
+
+      const { secret } = await setupMfa(resolveMfaChallenge(result.mfa_token));
+      const session = await verifyMfaLogin({ mfa_token: result.mfa_token, code: generateTotp(secret) });
+
+      expect(session.user.totp_enabled).toBe(true);
+      expect(session.recovery_codes).toHaveLength(10);
+    });
+
+    it('should not challenge roles outside the required list', async () => {
+      await requireMfaFor(['admin']);
+
+      const result = await loginUser(login);
+      expect('mfa_required' in result).toBe(false);
+    });
+  });
+
+  describe('disableMfa', () => {
+    it('should turn off TOTP and drop recovery codes', async () => {
+      const { recovery_codes } = await enrol();
+
+      await disableMfa(userId, recovery_codes[0]);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(user.totp_enabled).toBe(false);
+      expect(user.totp_secret).toBeNull();
+      expect(await db.select().from(mfaRecoveryCodesTable).execute()).toHaveLength(0);
+      expect('mfa_required' in await loginUser(login)).toBe(false);
+    });
+
+    it('should refuse when the role requires two-factor authentication', async () => {
+      const { recovery_codes } = await enrol();
+      await requireMfaFor(['editor']);
+
+      await expect(disableMfa(userId, recovery_codes[0])).rejects.toThrow(/required for your role/i);
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace the previous codes', async () => {
+      const { recovery_codes } = await enrol();
+
+      const result = await regenerateRecoveryCodes(userId, recovery_codes[0]);
+      expect(result.recovery_codes).toHaveLength(10);
+
+      const loginResult = await loginUser(login);
+      if (!('mfa_required' in loginResult)) throw new Error('Expected an MFA challenge');
+
+      await expect(verifyMfaLogin({ mfa_token: loginResult.mfa_token, code: recovery_codes[1] }))
+        .rejects.toThrow(/invalid authentication code/i);
+      const session = await verifyMfaLogin({ mfa_token: loginResult.mfa_token, code: result.recovery_codes[0] });
+      expect(session.user.id).toEqual(userId);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { createServer } from 'http';
+import { type AddressInfo } from 'net';
+
+// A minimal OpenID Connect provider for development and tests. It serves discovery,
+// JWKS, an authorization endpoint that signs in the configured user without a login
+// form, and a token endpoint that checks PKCE before handing out an RS256 ID token.
+//
+// Run it on its own with `bun src/tests/mockIdp.ts`, then point the server at it:
+//   OIDC_ISSUER=http://127.0.0.1:9400 OIDC_CLIENT_ID=blog-cms
+// MOCK_IDP_EMAIL (and optionally MOCK_IDP_NAME) choose who is signed in.
+
+export interface MockIdpOptions {
+  port?: number;
+  client_id: string;
+  client_secret?: string;
+}
+
+export interface MockIdp {
+  issuer: string;
+  // Claims for the user the next authorization signs in; null makes the user decline
+  setUser(claims: Record<string, unknown> | null): void;
+  // Signs arbitrary ID token claims with the provider's key
+  signIdToken(claims: Record<string, unknown>): string;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  client_id: string;
+  redirect_uri: string;
+  code_challenge: string;
+  nonce: string | null;
+  claims: Record<string, unknown>;
+}
+
+const KEY_ID = 'mock-idp-key';
+
+export const startMockIdp = async (options: MockIdpOptions): Promise<MockIdp> => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+  const codes = new Map<string, PendingCode>();
+  let currentUser: Record<string, unknown> | null = null;
+  let issuer = '';
+
+  const signIdToken = (claims: Record<string, unknown>): string => {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256']
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(200, { keys: [jwk] });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const params = url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (params.get('client_id') !== options.client_id || !redirectUri) {
+        return sendJson(400, { error: 'invalid_request' });
+      }
+
+      const redirect = new URL(redirectUri);
+      redirect.searchParams.set('state', params.get('state') ?? '');
+      if (!currentUser) {
+        redirect.searchParams.set('error', 'access_denied');
+      } else if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+        redirect.searchParams.set('error', 'invalid_request');
+      } else {
+        const code = randomBytes(16).toString('base64url');
+        codes.set(code, {
+          client_id: options.client_id,
+          redirect_uri: redirectUri,
+          code_challenge: params.get('code_challenge')!,
+          nonce: params.get('nonce'),
+          claims: currentUser
+        });
+        redirect.searchParams.set('code', code);
+      }
+
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      const form = new URLSearchParams(body);
+
+      // Confidential clients authenticate with HTTP Basic; public clients only send their id
+      const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+      const [clientId, clientSecret] = basic
+        ? Buffer.from(basic[1], 'base64').toString('utf8').split(':').map(decodeURIComponent)
+        : [form.get('client_id'), null];
+      if (clientId !== options.client_id || (options.client_secret && clientSecret !== options.client_secret)) {
+        return sendJson(401, { error: 'invalid_client' });
+      }
+
+      const code = form.get('code') ?? '';
+      const pending = codes.get(code);
+      codes.delete(code);
+      const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+      if (
+        form.get('grant_type') !== 'authorization_code' ||
+        !pending ||
+        pending.redirect_uri !== form.get('redirect_uri') ||
+        pending.code_challenge !== challenge
+      ) {
+        return sendJson(400, { error: 'invalid_grant' });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      return sendJson(200, {
+        access_token: randomBytes(16).toString('base64url'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: signIdToken({
+          iss: issuer,
+          aud: pending.client_id,
+          iat: now,
+          exp: now + 300,
+          ...(pending.nonce ? { nonce: pending.nonce } : {}),
+          ...pending.claims
+        })
+      });
+    }
+
+    sendJson(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    setUser(claims) {
+      currentUser = claims;
+    },
+    signIdToken,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+};
+
+if (import.meta.main) {
+  const email = process.env['MOCK_IDP_EMAIL'] || 'admin@example.com';
+  const [givenName, ...familyName] = (process.env['MOCK_IDP_NAME'] || 'Mock User').split(' ');
+
+  startMockIdp({
+    port: Number(process.env['MOCK_IDP_PORT'] || 9400),
+    client_id: process.env['OIDC_CLIENT_ID'] || 'blog-cms',
+    client_secret: process.env['OIDC_CLIENT_SECRET'] || undefined
+  }).then(idp => {
+    idp.setUser({
+      sub: email,
+      email,
+      email_verified: true,
+      given_name: givenName,
+      family_name: familyName.join(' ')
+    });
+    console.log(`Mock identity provider listening at ${idp.issuer}, signing in ${email}`);
+  });
+}
@@ -0,0 +1,266 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, siteSettingsTable, loginAttemptsTable } from '../db/schema';
+import { startMockIdp, type MockIdp } from './mockIdp';
+import { discover, verifyIdToken } from '../helpers/oidc';
+import { startOidcLogin, completeOidcLogin, getOidcStatus } from '../handlers/oidc';
+import { loginUser } from '../handlers/auth';
+import { verifyMfaLogin } from '../handlers/mfa';
+import { updateSiteSettings } from '../handlers/settings';
+import { seedDefaultRoles } from '../handlers/roles';
+import { hashPassword } from '../helpers/password';
+import { generateTotp, generateTotpSecret } from '../helpers/totp';
+import { eq } from 'drizzle-orm';
+
+const CLIENT_ID = 'blog-cms';
+const client = { ip: '127.0.0.1', user_agent: 'test' };
+
+let idp: MockIdp;
+
+// Follows the authorization redirect the way a browser would and returns the callback parameters
+const authorize = async () => {
+  const { authorization_url } = await startOidcLogin();
+  const response = await fetch(authorization_url, { redirect: 'manual' });
+  const callback = new URL(response.headers.get('location')!);
+  return { code: callback.searchParams.get('code') ?? '', state: callback.searchParams.get('state') ?? '' };
+};
+
+const signIn = async () => {
+  const result = await completeOidcLogin(await authorize(), client);
+  if ('mfa_required' in result) throw new Error('Expected a session');
+  return result;
+};
+
+const staffClaims = {
+  sub: 'staff-1',
+  email: 'Staff@Example.com',
+  email_verified: true,
+  given_name: 'Sam',
+  family_name: 'Staff',
+  preferred_username: 'sam.staff'
+};
+
+const insertSettings = (values: Partial<typeof siteSettingsTable.$inferInsert> = {}) => db.insert(siteSettingsTable)
+  .values({
+    site_title: 'Test Blog',
+    site_description: 'Test',
+    site_url: 'https://blog.example.com',
+    admin_email: 'admin@example.com',
+    ...values
+  })
+  .execute();
+
+beforeAll(async () => {
+  idp = await startMockIdp({ client_id: CLIENT_ID, client_secret: 'shh' });
+  process.env['OIDC_ISSUER'] = idp.issuer;
+  process.env['OIDC_CLIENT_ID'] = CLIENT_ID;
+  process.env['OIDC_CLIENT_SECRET'] = 'shh';
+});
+
+afterAll(async () => {
+  delete process.env['OIDC_ISSUER'];
+  delete process.env['OIDC_CLIENT_ID'];
+  delete process.env['OIDC_CLIENT_SECRET'];
+  await idp.close();
+});
+
+describe('verifyIdToken', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+  const expected = async () => ({
+    issuer: idp.issuer,
+    client_id: CLIENT_ID,
+    nonce: 'expected-nonce',
+    jwks_uri: (await discover(idp.issuer)).jwks_uri
+  });
+  const claims = () => ({ iss: idp.issuer, aud: CLIENT_ID, sub: 'x', iat: now(), exp: now() + 300, nonce: 'expected-nonce' });
+
+  it('should accept a token signed by the provider', async () => {
+    const verified = await verifyIdToken(idp.signIdToken(claims()), await expected());
+    expect(verified.sub).toEqual('x');
+  });
+
+  it('should reject tampered tokens', async () => {
+    const [header, , signature] = idp.signIdToken(claims()).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims(), sub: 'admin' })).toString('base64url');
+
+    await expect(verifyIdToken(`${header}.${forged}.${signature}`, await expected())).rejects.toThrow(/signature/i);
+  });
+
+  it('should reject unsigned tokens', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims())).toString('base64url');
+
+    await expect(verifyIdToken(`${header}.${payload}.`, await expected())).rejects.toThrow(/RS256/);
+  });
+
+  it('should check issuer, audience, expiry and nonce', async () => {
+    const check = async (overrides: Record<string, unknown>) =>
+      verifyIdToken(idp.signIdToken({ ...claims(), ...overrides }), await expected());
+
+    await expect(check({ iss: 'https://evil.example.com' })).rejects.toThrow(/different provider/i);
+    await expect(check({ aud: 'another-app' })).rejects.toThrow(/different client/i);
+    await expect(check({ aud: [CLIENT_ID, 'another-app'] })).rejects.toThrow(/different client/i);
+    await expect(check({ exp: now() - 600 })).rejects.toThrow(/expired/i);
+    await expect(check({ nonce: 'replayed' })).rejects.toThrow(/nonce/i);
+  });
+});
+
+describe('OIDC sign-in', () => {
+  beforeEach(createDB);
+  beforeEach(seedDefaultRoles);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    idp.setUser(staffClaims);
+  });
+
+  it('should report the configured provider', () => {
+    expect(getOidcStatus()).toEqual({ enabled: true, provider_name: 'Single sign-on' });
+  });
+
+  it('should sign in the existing user with the same email', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'staff@example.com',
+        username: 'staff',
+        password_hash: await hashPassword('localpass1'),
+        first_name: 'Sam',
+        last_name: 'Staff',
+        role: 'editor'
+      })
+      .returning()
+      .execute();
+
+    const session = await signIn();
+
+    expect(session.user.id).toEqual(user.id);
+    expect(session.token).toBeDefined();
+    expect(session.refresh_token).toBeDefined();
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].success).toBe(true);
+  });
+
+  it('should ask users with two-factor authentication for their code', async () => {
+    const secret = generateTotpSecret();
+    await db.insert(usersTable)
+      .values({
+        email: 'staff@example.com',
+        username: 'staff',
+        password_hash: 'unused',
+        first_name: 'Sam',
+        last_name: 'Staff',
+        role: 'editor',
+        totp_secret: secret,
+        totp_enabled: true
+      })
+      .execute();
+
+    const result = await completeOidcLogin(await authorize(), client);
+    if (!('mfa_required' in result)) throw new Error('Expected an MFA challenge');
+    expect(result.enrollment_required).toBe(false);
+    expect(await db.select().from(loginAttemptsTable).execute()).toHaveLength(0);
+
+    const session = await verifyMfaLogin({ mfa_token: result.mfa_token, code: generateTotp(secret) });
+    expect(session.user.email).toEqual('staff@example.com');
+  });
+
+  it('should only accept each sign-in request once', async () => {
+    await insertSettings({ oidc_auto_provision: true });
+    const callback = await authorize();
+
+    await completeOidcLogin(callback, client);
+    await expect(completeOidcLogin(callback, client)).rejects.toThrow(/invalid or has expired/i);
+  });
+
+  it('should refuse unknown users unless provisioning is on', async () => {
+    await insertSettings();
+
+    await expect(completeOidcLogin(await authorize(), client)).rejects.toThrow(/no account exists/i);
+    expect(await db.select().from(usersTable).execute()).toHaveLength(0);
+  });
+
+  it('should provision new users with the default role', async () => {
+    await insertSettings({ oidc_auto_provision: true, default_user_role: 'editor' });
+
+    const session = await signIn();
+
+    expect(session.user.email).toEqual('staff@example.com');
+    expect(session.user.username).toEqual('sam.staff');
+    expect(session.user.first_name).toEqual('Sam');
+    expect(session.user.role).toEqual('editor');
+    expect(session.user.email_verified_at).toBeInstanceOf(Date);
+  });
+
+  it('should never provision roles that can manage users', async () => {
+    await insertSettings({ oidc_auto_provision: true, default_user_role: 'admin' });
+
+    const session = await signIn();
+    expect(session.user.role).toEqual('author');
+  });
+
+  it('should refuse unverified email addresses', async () => {
+    await insertSettings({ oidc_auto_provision: true });
+    idp.setUser({ ...staffClaims, email_verified: false });
+
+    await expect(completeOidcLogin(await authorize(), client)).rejects.toThrow(/verified email/i);
+  });
+
+  it('should refuse deactivated accounts', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'staff@example.com',
+        username: 'staff',
+        password_hash: 'unused',
+        first_name: 'Sam',
+        last_name: 'Staff',
+        is_active: false
+      })
+      .execute();
+
+    await expect(completeOidcLogin(await authorize(), client)).rejects.toThrow(/deactivated/i);
+  });
+
+  it('should refuse a code that does not belong to the request', async () => {
+    await insertSettings({ oidc_auto_provision: true });
+    const first = await authorize();
+    const second = await authorize();
+
+    await expect(completeOidcLogin({ code: first.code, state: second.state }, client)).rejects.toThrow(/invalid_grant/);
+  });
+
+  describe('password sign-in switch', () => {
+    it('should refuse passwords once disabled', async () => {
+      await insertSettings();
+      await db.insert(usersTable)
+        .values({
+          email: 'staff@example.com',
+          username: 'staff',
+          password_hash: await hashPassword('localpass1'),
+          first_name: 'Sam',
+          last_name: 'Staff'
+        })
+        .execute();
+
+      await updateSiteSettings({ password_login_enabled: false });
+
+      await expect(loginUser({ email: 'staff@example.com', password: 'localpass1' })).rejects.toThrow(/password sign-in is disabled/i);
+    });
+
+    it('should not be disabled while single sign-on is not configured', async () => {
+      await insertSettings();
+      delete process.env['OIDC_ISSUER'];
+
+      try {
+        await expect(updateSiteSettings({ password_login_enabled: false })).rejects.toThrow(/single sign-on is configured/i);
+      } finally {
+        process.env['OIDC_ISSUER'] = idp.issuer;
+      }
+
+      const [settings] = await db.select().from(siteSettingsTable).where(eq(siteSettingsTable.id, 1)).execute();
+      expect(settings.password_login_enabled).toBe(true);
+    });
+  });
+});
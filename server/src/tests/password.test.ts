@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import { createHash } from 'crypto';
+import { hashPassword, verifyPassword } from '../helpers/password';
+
+describe('password helpers', () => {
+  it('should produce salted, versioned hashes', async () => {
+    const first = await hashPassword('correct horse battery staple');
+    const second = await hashPassword('correct horse battery staple');
+
+    expect(first).toMatch(/^scrypt\$v1\$[\w-]+\$[\w-]+$/);
+    expect(first).not.toEqual(second);
+  });
+
+  it('should verify current hashes without asking for a rehash', async () => {
+    const hash = await hashPassword('s3cret-password');
+
+    expect(await verifyPassword('s3cret-password', hash)).toEqual({ valid: true, needsRehash: false });
+    expect(await verifyPassword('wrong-password', hash)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('should accept legacy SHA-256 hashes and flag them for rehash', async () => {
+    const legacy = createHash('sha256').update('s3cret-password').digest('hex');
+
+    expect(await verifyPassword('s3cret-password', legacy)).toEqual({ valid: true, needsRehash: true });
+    expect(await verifyPassword('wrong-password', legacy)).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('should accept legacy placeholder hashes and flag them for rehash', async () => {
+    expect(await verifyPassword('s3cret-password', 'hashed_s3cret-password')).toEqual({ valid: true, needsRehash: true });
+    expect(await verifyPassword('other', 'hashed_s3cret-password')).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it('should reject unknown versions and formats', async () => {
+    const hash = await hashPassword('s3cret-password');
+
+    expect((await verifyPassword('s3cret-password', hash.replace('$v1$', '$v9$'))).valid).toBe(false);
+    expect((await verifyPassword('s3cret-password', 'plaintext')).valid).toBe(false);
+  });
+});
@@ -1,9 +1,32 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { postsTable, usersTable, categoriesTable, tagsTable, postTagsTable } from '../db/schema';
-import { type SearchPostsInput } from '../schema';
-import { getPosts } from '../handlers/posts';
+import { postsTable, usersTable, categoriesTable, tagsTable, postTagsTable, commentsTable, redirectsTable, mediaTable } from '../db/schema';
+import { type SearchPostsInput, type CreatePostInput, type ContentBlock } from '../schema';
+import {
+  getPosts,
+  getPostAuthorId,
+  createPost,
+  getPostById,
+  getPostBySlug,
+  updatePost,
+  deletePost,
+  publishPost,
+  archivePost,
+  duplicatePost,
+  submitPostForReview,
+  assignPostReviewer,
+  approvePost,
+  requestPostChanges,
+  getPostReviewers,
+  getReviewQueue,
+  validatePostContent,
+  convertPostContent,
+  restorePostRevision
+} from '../handlers/posts';
+import { getPostRevisions } from '../handlers/revisions';
+import { seedDefaultRoles } from '../handlers/roles';
+import { ConflictError } from '../helpers/concurrency';
 import { eq } from 'drizzle-orm';
 
 describe('getPosts', () => {
@@ -669,4 +692,678 @@ describe('getPosts', () => {
     expect(result.posts[0].category_id).toEqual(category.id);
     expect(result.posts[0].status).toEqual('published');
   });
-});
\ No newline at end of file
+});
+
+describe('getPostAuthorId', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the author of an existing post', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'author@example.com',
+        username: 'author',
+        password_hash: 'hashed_password',
+        first_name: 'Post',
+        last_name: 'Author',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+
+    const [post] = await db.insert(postsTable)
+      .values({
+        title: 'Owned Post',
+        slug: 'owned-post',
+        content: 'Content',
+        author_id: user.id
+      })
+      .returning()
+      .execute();
+
+    expect(await getPostAuthorId(post.id)).toEqual(user.id);
+  });
+
+  it('should return null for non-existent post', async () => {
+    expect(await getPostAuthorId(99999)).toBeNull();
+  });
+});
+
+describe('post CRUD', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let authorId: number;
+  let tagIds: number[];
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'author@example.com',
+        username: 'author',
+        password_hash: 'hashed_password',
+        first_name: 'Post',
+        last_name: 'Author',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+    authorId = user.id;
+
+    const tags = await db.insert(tagsTable)
+      .values([
+        { name: 'One', slug: 'one' },
+        { name: 'Two', slug: 'two' },
+        { name: 'Three', slug: 'three' }
+      ])
+      .returning()
+      .execute();
+    tagIds = tags.map(tag => tag.id);
+  });
+
+  const newPost = (overrides: Partial<CreatePostInput> = {}) => createPost({
+    title: 'Hello World',
+    slug: 'hello-world',
+    content: 'Some content',
+    status: 'draft',
+    author_id: authorId,
+    ...overrides
+  });
+
+  describe('createPost', () => {
+    it('should persist the post with its tags', async () => {
+      const post = await newPost({ tag_ids: [tagIds[0], tagIds[1], tagIds[0]] });
+
+      expect(post.id).toBeDefined();
+      expect(post.status).toEqual('draft');
+      expect(post.published_at).toBeNull();
+
+      const stored = await getPostById(post.id);
+      expect(stored!.title).toEqual('Hello World');
+      expect(stored!.tag_ids).toEqual([tagIds[0], tagIds[1]]);
+    });
+
+    it('should suffix colliding slugs', async () => {
+      await newPost();
+      const second = await newPost();
+      const third = await newPost();
+
+      expect(second.slug).toEqual('hello-world-2');
+      expect(third.slug).toEqual('hello-world-3');
+    });
+
+    it('should set published_at for published posts', async () => {
+      const before = Date.now();
+      const post = await newPost({ status: 'published' });
+
+      expect(post.published_at!.getTime()).toBeGreaterThanOrEqual(before - 1000);
+    });
+
+    it('should schedule published posts dated in the future', async () => {
+      const publishAt = new Date(Date.now() + 3_600_000);
+      const post = await newPost({ status: 'published', published_at: publishAt });
+
+      expect(post.status).toEqual('scheduled');
+      expect(post.published_at).toEqual(publishAt);
+    });
+
+    it('should require a future date to schedule', async () => {
+      await expect(newPost({ status: 'scheduled' })).rejects.toThrow(/publication date in the future/i);
+      await expect(newPost({ status: 'scheduled', published_at: new Date(Date.now() - 60_000) })).rejects.toThrow(/in the future/i);
+    });
+
+    it('should validate referenced rows', async () => {
+      await expect(newPost({ author_id: 99999 })).rejects.toThrow(/author with id 99999 does not exist/i);
+      await expect(newPost({ category_id: 99999 })).rejects.toThrow(/category with id 99999 does not exist/i);
+      await expect(newPost({ featured_image_id: 99999 })).rejects.toThrow(/featured image with id 99999 does not exist/i);
+    });
+
+    it('should not keep the post when a tag does not exist', async () => {
+      await expect(newPost({ tag_ids: [tagIds[0], 99999] })).rejects.toThrow(/99999/);
+
+      expect(await db.select().from(postsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(postTagsTable).execute()).toHaveLength(0);
+    });
+  });
+
+  describe('getPostById and getPostBySlug', () => {
+    it('should return null for missing posts', async () => {
+      expect(await getPostById(99999)).toBeNull();
+      expect(await getPostBySlug('missing')).toBeNull();
+    });
+
+    it('should find posts by slug with their tags', async () => {
+      const post = await newPost({ tag_ids: [tagIds[2]] });
+
+      const found = await getPostBySlug('hello-world');
+      expect(found!.id).toEqual(post.id);
+      expect(found!.tag_ids).toEqual([tagIds[2]]);
+      expect(found!.redirected_from).toBeNull();
+    });
+
+    it('should generate the slug from the title when none is given', async () => {
+      const post = await newPost({ title: 'Привет, мир!', slug: undefined });
+      expect(post.slug).toEqual('privet-mir');
+    });
+  });
+
+  describe('rendered HTML', () => {
+    const storedHtml = async (id: number) => {
+      const [row] = await db.select().from(postsTable).where(eq(postsTable.id, id)).execute();
+      return row.rendered_html;
+    };
+
+    it('should render the content when the post is saved', async () => {
+      const post = await newPost({ content: '# Title\n\nSome *text*' });
+      expect(post.rendered_html).toContain('<p>Some <em>text</em></p>');
+
+      const found = await getPostById(post.id);
+      expect(found!.rendered_html).toEqual(post.rendered_html);
+
+      const listed = await getPosts({ page: 1, limit: 10, sort_by: 'created_at', sort_order: 'desc' });
+      expect(listed.posts[0].rendered_html).toEqual(found!.rendered_html);
+    });
+
+    it('should re-render after the content changes', async () => {
+      const post = await newPost({ content: 'First' });
+
+      await updatePost({ id: post.id, title: 'Renamed' });
+      expect(await storedHtml(post.id)).toEqual('<p>First</p>');
+
+      await updatePost({ id: post.id, content: 'Second' });
+      expect(await storedHtml(post.id)).toEqual('<p>Second</p>');
+      expect((await getPostBySlug('hello-world'))!.rendered_html).toEqual('<p>Second</p>');
+    });
+
+    it('should re-render posts embedding a post when it changes', async () => {
+      const embedded = await newPost({ slug: 'embedded', status: 'published' });
+      const host = await newPost({ slug: 'host', content: '[post slug=embedded]' });
+      const unrelated = await newPost({ slug: 'unrelated', content: '[post slug=elsewhere]' });
+      expect(await storedHtml(host.id)).toContain('>Hello World<');
+
+      await updatePost({ id: embedded.id, title: 'Renamed' });
+
+      expect(await storedHtml(host.id)).toBeNull();
+      expect(await storedHtml(unrelated.id)).not.toBeNull();
+      expect((await getPostById(host.id))!.rendered_html).toContain('>Renamed<');
+      // Reading does not write the cache back
+      expect(await storedHtml(host.id)).toBeNull();
+
+      await archivePost(embedded.id);
+      expect((await getPostById(host.id))!.rendered_html).toEqual('');
+    });
+  });
+
+  describe('validatePostContent', () => {
+    it('should report shortcode issues', async () => {
+      expect(await validatePostContent({ content: '[callout]\nFine\n[/callout]' })).toEqual({ valid: true, issues: [] });
+      expect(await validatePostContent({ content: '[post slug=missing]' })).toEqual({
+        valid: false,
+        issues: [{ shortcode: 'post', message: 'No published post has the slug "missing"' }]
+      });
+    });
+  });
+
+  describe('block content', () => {
+    let imageId: number;
+
+    beforeEach(async () => {
+      const [image] = await db.insert(mediaTable)
+        .values({ filename: 'a.jpg', original_filename: 'a.jpg', file_path: '/uploads/a.jpg', file_size: 1, mime_type: 'image/jpeg', uploaded_by: authorId })
+        .returning()
+        .execute();
+      imageId = image.id;
+    });
+
+    const storedText = async (id: number) => {
+      const [row] = await db.select().from(postsTable).where(eq(postsTable.id, id)).execute();
+      return row.content_text;
+    };
+
+    const blocks = (): ContentBlock[] => [
+      { type: 'heading', level: 2, text: 'Hello blocks' },
+      { type: 'paragraph', text: 'Some *structured* text.' },
+      { type: 'image', media_id: imageId, alt: 'A', caption: 'Caption' },
+      { type: 'embed', name: 'callout', attributes: { type: 'tip' }, children: [{ type: 'paragraph', text: 'Tip text' }] }
+    ];
+
+    it('should store, count and render blocks', async () => {
+      const post = await newPost({ content: JSON.stringify(blocks()), content_format: 'blocks' });
+
+      expect(post.content_format).toEqual('blocks');
+      expect(JSON.parse(post.content)).toEqual(blocks());
+      expect(await storedText(post.id)).toEqual('Hello blocks Some structured text. Tip text');
+      expect(post.word_count).toEqual(7);
+
+      const html = (await getPostById(post.id))!.rendered_html;
+      expect(html).toContain('<h2 id="hello-blocks">');
+      expect(html).toContain('<p><img src="/uploads/a.jpg" alt="A" title="Caption" /></p>');
+      expect(html).toContain('<aside class="callout callout-tip" role="note"><p>Tip text</p></aside>');
+    });
+
+    it('should count the words of Markdown posts', async () => {
+      const post = await newPost({ content: '# Title\n\nIt\'s *three* words [callout]and two[/callout]' });
+
+      expect(post.content_format).toEqual('markdown');
+      expect(await storedText(post.id)).toEqual('Title It\'s three words and two');
+      expect(post.word_count).toEqual(6);
+    });
+
+    it('should reject blocks that do not match their schema', async () => {
+      await expect(newPost({ content: '{"type":', content_format: 'blocks' })).rejects.toThrow('Block content is not valid JSON');
+      await expect(newPost({ content: '[{"type":"heading","level":7,"text":"x"}]', content_format: 'blocks' }))
+        .rejects.toThrow('Invalid block content at blocks.0.level');
+      await expect(newPost({ content: '[{"type":"video"}]', content_format: 'blocks' }))
+        .rejects.toThrow('Invalid block content at blocks.0.type');
+    });
+
+    it('should convert the content when only the format changes', async () => {
+      const post = await newPost({ content: `## Hello blocks\n\n![A](/uploads/a.jpg "Caption")\n\n- one\n- two` });
+      const markdownHtml = (await getPostById(post.id))!.rendered_html;
+
+      const converted = await updatePost({ id: post.id, content_format: 'blocks' });
+      expect(JSON.parse(converted.content)).toEqual([
+        { type: 'heading', level: 2, text: 'Hello blocks' },
+        { type: 'image', media_id: imageId, alt: 'A', caption: 'Caption' },
+        {
+          type: 'list',
+          ordered: false,
+          start: 1,
+          tight: true,
+          items: [
+            { checked: null, children: [{ type: 'paragraph', text: 'one' }] },
+            { checked: null, children: [{ type: 'paragraph', text: 'two' }] }
+          ]
+        }
+      ]);
+      expect((await getPostById(post.id))!.rendered_html).toEqual(markdownHtml);
+
+      const back = await updatePost({ id: post.id, content_format: 'markdown' });
+      expect(back.content).toEqual('## Hello blocks\n\n![A](/uploads/a.jpg "Caption")\n\n- one\n- two');
+    });
+
+    it('should restore the format of a revision', async () => {
+      const post = await newPost({ content: 'Plain *Markdown*' });
+      await updatePost({ id: post.id, content: JSON.stringify(blocks()), content_format: 'blocks' });
+      const [, first] = await getPostRevisions(post.id);
+
+      const restored = await restorePostRevision({ id: post.id, revision_id: first.id });
+
+      expect(restored.content_format).toEqual('markdown');
+      expect(restored.content).toEqual('Plain *Markdown*');
+      expect(restored.word_count).toEqual(2);
+    });
+
+    it('should search the text of blocks rather than their JSON', async () => {
+      await newPost({ content: JSON.stringify(blocks()), content_format: 'blocks' });
+      const search = (query: string) => getPosts({ query, page: 1, limit: 10, sort_by: 'created_at', sort_order: 'desc' });
+
+      expect((await search('structured text')).posts).toHaveLength(1);
+      expect((await search('paragraph')).posts).toHaveLength(0);
+    });
+
+    it('should convert drafts and check their shortcodes', async () => {
+      const markdown = await convertPostContent({ content: JSON.stringify(blocks()), from: 'blocks', to: 'markdown' });
+      expect(markdown).toEqual('## Hello blocks\n\nSome *structured* text.\n\n![A](/uploads/a.jpg "Caption")\n\n[callout type=tip]\n\nTip text\n\n[/callout]');
+
+      const content = JSON.stringify([{ type: 'embed', name: 'post', attributes: { slug: 'missing' }, children: null }]);
+      expect(await validatePostContent({ content, content_format: 'blocks' })).toEqual({
+        valid: false,
+        issues: [{ shortcode: 'post', message: 'No published post has the slug "missing"' }]
+      });
+    });
+  });
+
+  describe('slug redirects', () => {
+    it('should redirect the old slug of a renamed published post', async () => {
+      const post = await newPost({ status: 'published' });
+
+      await updatePost({ id: post.id, slug: 'hello-again' });
+
+      const found = await getPostBySlug('hello-world');
+      expect(found!.id).toEqual(post.id);
+      expect(found!.slug).toEqual('hello-again');
+      expect(found!.redirected_from).toEqual('hello-world');
+    });
+
+    it('should follow a chain of renames to the current slug', async () => {
+      const post = await newPost({ status: 'published' });
+
+      await updatePost({ id: post.id, slug: 'second' });
+      await updatePost({ id: post.id, slug: 'third' });
+
+      expect((await getPostBySlug('hello-world'))!.slug).toEqual('third');
+      expect((await getPostBySlug('second'))!.slug).toEqual('third');
+    });
+
+    it('should not record redirects for drafts', async () => {
+      const post = await newPost();
+
+      await updatePost({ id: post.id, slug: 'hello-again' });
+
+      expect(await getPostBySlug('hello-world')).toBeNull();
+      expect(await db.select().from(redirectsTable).execute()).toHaveLength(0);
+    });
+
+    it('should release an old slug that is taken again', async () => {
+      const post = await newPost({ status: 'published' });
+      await updatePost({ id: post.id, slug: 'hello-again' });
+
+      const other = await newPost();
+
+      expect(other.slug).toEqual('hello-world');
+      expect((await getPostBySlug('hello-world'))!.id).toEqual(other.id);
+      expect(await db.select().from(redirectsTable).execute()).toHaveLength(0);
+    });
+
+    it('should drop the redirect when a post is renamed back', async () => {
+      const post = await newPost({ status: 'published' });
+
+      await updatePost({ id: post.id, slug: 'hello-again' });
+      await updatePost({ id: post.id, slug: 'hello-world' });
+
+      const redirects = await db.select().from(redirectsTable).execute();
+      expect(redirects.map(redirect => redirect.old_slug)).toEqual(['hello-again']);
+      expect((await getPostBySlug('hello-world'))!.redirected_from).toBeNull();
+    });
+
+    it('should remove redirects with the post', async () => {
+      const post = await newPost({ status: 'published' });
+      await updatePost({ id: post.id, slug: 'hello-again' });
+
+      await deletePost(post.id);
+
+      expect(await db.select().from(redirectsTable).execute()).toHaveLength(0);
+      expect(await getPostBySlug('hello-world')).toBeNull();
+    });
+  });
+
+  describe('updatePost', () => {
+    it('should update only the given fields and replace tags', async () => {
+      const post = await newPost({ excerpt: 'Intro', tag_ids: [tagIds[0], tagIds[1]] });
+
+      const updated = await updatePost({ id: post.id, title: 'Renamed', tag_ids: [tagIds[2]] });
+
+      expect(updated.title).toEqual('Renamed');
+      expect(updated.excerpt).toEqual('Intro');
+      expect(updated.updated_at.getTime()).toBeGreaterThanOrEqual(post.updated_at.getTime());
+      expect((await getPostById(post.id))!.tag_ids).toEqual([tagIds[2]]);
+    });
+
+    it('should leave tags alone when tag_ids is omitted', async () => {
+      const post = await newPost({ tag_ids: [tagIds[0]] });
+
+      await updatePost({ id: post.id, content: 'New content' });
+
+      expect((await getPostById(post.id))!.tag_ids).toEqual([tagIds[0]]);
+    });
+
+    it('should roll back the update when a tag does not exist', async () => {
+      const post = await newPost({ tag_ids: [tagIds[0]] });
+
+      await expect(updatePost({ id: post.id, title: 'Renamed', tag_ids: [99999] })).rejects.toThrow(/99999/);
+
+      const stored = await getPostById(post.id);
+      expect(stored!.title).toEqual('Hello World');
+      expect(stored!.tag_ids).toEqual([tagIds[0]]);
+    });
+
+    it('should keep its own slug and suffix slugs taken by other posts', async () => {
+      const post = await newPost();
+      const other = await newPost({ slug: 'other' });
+
+      expect((await updatePost({ id: post.id, slug: 'hello-world' })).slug).toEqual('hello-world');
+      expect((await updatePost({ id: other.id, slug: 'hello-world' })).slug).toEqual('hello-world-2');
+    });
+
+    it('should set published_at when publishing through an update', async () => {
+      const post = await newPost();
+
+      const updated = await updatePost({ id: post.id, status: 'published' });
+
+      expect(updated.status).toEqual('published');
+      expect(updated.published_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject writes based on a stale copy and return the current post', async () => {
+      const post = await newPost({ tag_ids: [tagIds[0]] });
+      await updatePost({ id: post.id, title: 'First editor', expected_updated_at: post.updated_at });
+
+      const stale = updatePost({ id: post.id, title: 'Second editor', tag_ids: [tagIds[1]], expected_updated_at: post.updated_at });
+
+      await expect(stale).rejects.toBeInstanceOf(ConflictError);
+      await stale.catch((error) => {
+        expect(error.current.title).toEqual('First editor');
+        expect(error.current.tag_ids).toEqual([tagIds[0]]);
+      });
+      // Nothing from the rejected write is kept
+      expect((await getPostById(post.id))!.tag_ids).toEqual([tagIds[0]]);
+    });
+
+    it('should reschedule and unschedule through an update', async () => {
+      const post = await newPost({ status: 'scheduled', published_at: new Date(Date.now() + 3_600_000) });
+
+      // Content edits leave the schedule alone
+      expect((await updatePost({ id: post.id, content: 'Edited' })).status).toEqual('scheduled');
+
+      const later = new Date(Date.now() + 7_200_000);
+      expect((await updatePost({ id: post.id, published_at: later })).published_at).toEqual(later);
+
+      expect((await updatePost({ id: post.id, status: 'draft' })).status).toEqual('draft');
+    });
+
+    it('should report missing posts', async () => {
+      await expect(updatePost({ id: 99999, title: 'Nope' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('publishPost and archivePost', () => {
+    it('should publish drafts now', async () => {
+      const post = await newPost();
+
+      const published = await publishPost(post.id);
+
+      expect(published.status).toEqual('published');
+      expect(published.published_at).toBeInstanceOf(Date);
+    });
+
+    it('should publish scheduled posts right away', async () => {
+      const post = await newPost({ status: 'scheduled', published_at: new Date(Date.now() + 3_600_000) });
+
+      const published = await publishPost(post.id);
+
+      expect(published.status).toEqual('published');
+      expect(published.published_at!.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('should keep the original date when republishing', async () => {
+      const originalDate = new Date('2024-01-15T10:00:00Z');
+      const post = await newPost({ status: 'published', published_at: originalDate });
+
+      await archivePost(post.id);
+      const republished = await publishPost(post.id);
+
+      expect(republished.published_at).toEqual(originalDate);
+    });
+
+    it('should archive without touching the content', async () => {
+      const post = await newPost({ status: 'published' });
+
+      const archived = await archivePost(post.id);
+
+      expect(archived.status).toEqual('archived');
+      expect(archived.content).toEqual(post.content);
+      expect(archived.published_at).toEqual(post.published_at);
+    });
+
+    it('should report missing posts', async () => {
+      await expect(publishPost(99999)).rejects.toThrow(/not found/i);
+      await expect(archivePost(99999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('deletePost', () => {
+    it('should remove the post with its tags and comments', async () => {
+      const post = await newPost({ tag_ids: tagIds });
+      await db.insert(commentsTable)
+        .values({ post_id: post.id, author_name: 'Reader', author_email: 'reader@example.com', content: 'Nice' })
+        .execute();
+
+      expect(await deletePost(post.id)).toBe(true);
+
+      expect(await getPostById(post.id)).toBeNull();
+      expect(await db.select().from(postTagsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(commentsTable).execute()).toHaveLength(0);
+      // Tags themselves survive
+      expect(await db.select().from(tagsTable).execute()).toHaveLength(3);
+    });
+
+    it('should report missing posts', async () => {
+      await expect(deletePost(99999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('duplicatePost', () => {
+    it('should copy the post and its tags as a draft', async () => {
+      const post = await newPost({ status: 'published', meta_title: 'SEO title', tag_ids: [tagIds[0], tagIds[2]] });
+
+      const copy = await duplicatePost(post.id);
+
+      expect(copy.id).not.toEqual(post.id);
+      expect(copy.title).toEqual('Copy of Hello World');
+      expect(copy.slug).toEqual('hello-world-copy');
+      expect(copy.status).toEqual('draft');
+      expect(copy.published_at).toBeNull();
+      expect(copy.meta_title).toEqual('SEO title');
+      expect((await getPostById(copy.id))!.tag_ids).toEqual([tagIds[0], tagIds[2]]);
+
+      expect((await duplicatePost(post.id)).slug).toEqual('hello-world-copy-2');
+    });
+
+    it('should report missing posts', async () => {
+      await expect(duplicatePost(99999)).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('review workflow', () => {
+    beforeEach(seedDefaultRoles);
+
+    let editorId: number;
+
+    beforeEach(async () => {
+      const [editor] = await db.insert(usersTable)
+        .values({
+          email: 'editor@example.com',
+          username: 'editor',
+          password_hash: 'hashed_password',
+          first_name: 'Eddie',
+          last_name: 'Editor',
+          role: 'editor'
+        })
+        .returning()
+        .execute();
+      editorId = editor.id;
+    });
+
+    it('should list only users who can review', async () => {
+      const reviewers = await getPostReviewers();
+
+      expect(reviewers.map(reviewer => reviewer.id)).toEqual([editorId]);
+    });
+
+    it('should submit drafts with a reviewer and notes', async () => {
+      const post = await newPost();
+
+      const submitted = await submitPostForReview({ id: post.id, reviewer_id: editorId, notes: 'Ready for a look' });
+
+      expect(submitted.status).toEqual('pending_review');
+      expect(submitted.reviewer_id).toEqual(editorId);
+      expect(submitted.review_notes).toEqual('Ready for a look');
+    });
+
+    it('should only submit drafts', async () => {
+      const post = await newPost({ status: 'published' });
+
+      await expect(submitPostForReview({ id: post.id })).rejects.toThrow(/only drafts/i);
+    });
+
+    it('should refuse reviewers who cannot publish others\' posts', async () => {
+      const post = await newPost();
+
+      await expect(submitPostForReview({ id: post.id, reviewer_id: authorId })).rejects.toThrow(/cannot review/i);
+      await expect(submitPostForReview({ id: post.id, reviewer_id: 99999 })).rejects.toThrow(/cannot review/i);
+    });
+
+    it('should reassign only pending posts', async () => {
+      const post = await newPost();
+      await expect(assignPostReviewer({ id: post.id, reviewer_id: editorId })).rejects.toThrow(/not pending review/i);
+
+      await submitPostForReview({ id: post.id });
+      const assigned = await assignPostReviewer({ id: post.id, reviewer_id: editorId });
+
+      expect(assigned.reviewer_id).toEqual(editorId);
+      expect((await assignPostReviewer({ id: post.id, reviewer_id: null })).reviewer_id).toBeNull();
+    });
+
+    it('should publish approved posts', async () => {
+      const post = await newPost();
+      await submitPostForReview({ id: post.id });
+
+      const approved = await approvePost({ id: post.id, notes: 'Lovely' }, editorId);
+
+      expect(approved.status).toEqual('published');
+      expect(approved.published_at).toBeInstanceOf(Date);
+      expect(approved.reviewer_id).toEqual(editorId);
+      expect(approved.review_notes).toEqual('Lovely');
+    });
+
+    it('should schedule approved posts dated in the future', async () => {
+      const publishAt = new Date(Date.now() + 3_600_000);
+      const post = await newPost({ published_at: publishAt });
+      await submitPostForReview({ id: post.id });
+
+      const approved = await approvePost({ id: post.id }, editorId);
+
+      expect(approved.status).toEqual('scheduled');
+      expect(approved.published_at).toEqual(publishAt);
+    });
+
+    it('should send posts back as drafts and resubmit them to the same reviewer', async () => {
+      const post = await newPost();
+      await submitPostForReview({ id: post.id });
+
+      const returned = await requestPostChanges({ id: post.id, notes: 'Needs a conclusion' }, editorId);
+
+      expect(returned.status).toEqual('draft');
+      expect(returned.review_notes).toEqual('Needs a conclusion');
+
+      const resubmitted = await submitPostForReview({ id: post.id });
+      expect(resubmitted.reviewer_id).toEqual(editorId);
+      expect(resubmitted.review_notes).toBeNull();
+    });
+
+    it('should only review pending posts', async () => {
+      const post = await newPost();
+
+      await expect(approvePost({ id: post.id }, editorId)).rejects.toThrow(/not pending review/i);
+      await expect(requestPostChanges({ id: post.id, notes: 'No' }, editorId)).rejects.toThrow(/not pending review/i);
+    });
+
+    it('should queue pending posts oldest first with the people involved', async () => {
+      const first = await newPost({ slug: 'first' });
+      const second = await newPost({ slug: 'second' });
+      await newPost({ slug: 'draft' });
+      await submitPostForReview({ id: first.id, reviewer_id: editorId });
+      await submitPostForReview({ id: second.id });
+
+      const queue = await getReviewQueue({});
+
+      expect(queue.map(item => item.id)).toEqual([first.id, second.id]);
+      expect(queue[0].author_username).toEqual('author');
+      expect(queue[0].reviewer_username).toEqual('editor');
+      expect(queue[1].reviewer_username).toBeNull();
+
+      expect((await getReviewQueue({ reviewer_id: editorId })).map(item => item.id)).toEqual([first.id]);
+    });
+  });
+});
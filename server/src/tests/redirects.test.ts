@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { redirectsTable } from '../db/schema';
+import { resolveRedirect } from '../handlers/redirects';
+import { createCategory, updateCategory, deleteCategory } from '../handlers/categories';
+import { createTag, updateTag, deleteTag } from '../handlers/tags';
+
+describe('slug redirects', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should resolve old category slugs to the current one', async () => {
+    const category = await createCategory({ name: 'Technology' });
+
+    await updateCategory({ id: category.id, slug: 'tech' });
+
+    expect(await resolveRedirect({ entity_type: 'category', slug: 'technology' })).toEqual({
+      entity_type: 'category',
+      from: 'technology',
+      entity_id: category.id,
+      status_code: 301,
+      slug: 'tech'
+    });
+    expect(await resolveRedirect({ entity_type: 'tag', slug: 'technology' })).toBeNull();
+  });
+
+  it('should resolve old tag slugs to the current one', async () => {
+    const tag = await createTag({ name: 'JavaScript' });
+
+    await updateTag({ id: tag.id, slug: 'js' });
+
+    expect((await resolveRedirect({ entity_type: 'tag', slug: 'javascript' }))!.slug).toEqual('js');
+  });
+
+  it('should not record a redirect when the slug stays the same', async () => {
+    const tag = await createTag({ name: 'JavaScript' });
+
+    await updateTag({ id: tag.id, name: 'JS', slug: 'javascript' });
+
+    expect(await db.select().from(redirectsTable).execute()).toHaveLength(0);
+  });
+
+  it('should release an old slug when a new entity takes it', async () => {
+    const tag = await createTag({ name: 'JavaScript' });
+    await updateTag({ id: tag.id, slug: 'js' });
+
+    const replacement = await createTag({ name: 'JavaScript' });
+
+    expect(replacement.slug).toEqual('javascript');
+    expect(await resolveRedirect({ entity_type: 'tag', slug: 'javascript' })).toBeNull();
+  });
+
+  it('should remove redirects with their entity', async () => {
+    const category = await createCategory({ name: 'Technology' });
+    const tag = await createTag({ name: 'JavaScript' });
+    await updateCategory({ id: category.id, slug: 'tech' });
+    await updateTag({ id: tag.id, slug: 'js' });
+
+    await deleteCategory(category.id);
+    await deleteTag(tag.id);
+
+    expect(await db.select().from(redirectsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, tagsTable, postRevisionsTable, siteSettingsTable } from '../db/schema';
+import { createPost, updatePost, deletePost, getPostById, restorePostRevision, duplicatePost } from '../handlers/posts';
+import { getPostRevisions, getPostRevision, diffPostRevisions } from '../handlers/revisions';
+import { deleteTag } from '../handlers/tags';
+import { withoutPassword } from '../handlers/auth';
+import { appRouter } from '../index';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+
+describe('post revisions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let authorId: number;
+  let editorId: number;
+  let tagIds: number[];
+
+  beforeEach(async () => {
+    const [author, editor] = await db.insert(usersTable)
+      .values([
+        { email: 'author@example.com', username: 'author', password_hash: 'x', first_name: 'Avery', last_name: 'Author', role: 'author' },
+        { email: 'editor@example.com', username: 'editor', password_hash: 'x', first_name: 'Eddie', last_name: 'Editor', role: 'editor' }
+      ])
+      .returning()
+      .execute();
+    authorId = author.id;
+    editorId = editor.id;
+
+    const tags = await db.insert(tagsTable)
+      .values([{ name: 'One', slug: 'one' }, { name: 'Two', slug: 'two' }])
+      .returning()
+      .execute();
+    tagIds = tags.map(tag => tag.id);
+  });
+
+  const newPost = () => createPost({
+    title: 'Draft title',
+    slug: 'draft',
+    content: 'First line\nSecond line\n',
+    status: 'draft',
+    author_id: authorId,
+    tag_ids: [tagIds[0]]
+  });
+
+  it('should snapshot the post on create and every update', async () => {
+    const post = await newPost();
+    await updatePost({ id: post.id, title: 'Edited title', meta_title: 'SEO', tag_ids: tagIds }, editorId);
+
+    const revisions = await getPostRevisions(post.id);
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0].title).toEqual('Edited title');
+    expect(revisions[0].author_username).toEqual('editor');
+    expect(revisions[1].title).toEqual('Draft title');
+    expect(revisions[1].author_id).toEqual(authorId);
+
+    const latest = await getPostRevision(revisions[0].id);
+    expect(latest!.meta_title).toEqual('SEO');
+    expect(latest!.content).toEqual('First line\nSecond line\n');
+    expect(latest!.tag_ids).toEqual(tagIds);
+  });
+
+  it('should not record a revision when the update fails', async () => {
+    const post = await newPost();
+
+    await expect(updatePost({ id: post.id, title: 'Broken', tag_ids: [99999] })).rejects.toThrow();
+
+    expect(await getPostRevisions(post.id)).toHaveLength(1);
+  });
+
+  it('should diff two revisions by line or word', async () => {
+    const post = await newPost();
+    await updatePost({ id: post.id, content: 'First line\nChanged line\n', tag_ids: [tagIds[1]] });
+    const [to, from] = await getPostRevisions(post.id);
+
+    const byLine = await diffPostRevisions({ from_id: from.id, to_id: to.id, mode: 'line' });
+    expect(byLine.fields).toEqual([{
+      field: 'content',
+      changes: [
+        { type: 'equal', value: 'First line\n' },
+        { type: 'delete', value: 'Second line\n' },
+        { type: 'insert', value: 'Changed line\n' }
+      ]
+    }]);
+    expect(byLine.tags_added).toEqual([tagIds[1]]);
+    expect(byLine.tags_removed).toEqual([tagIds[0]]);
+
+    const byWord = await diffPostRevisions({ from_id: from.id, to_id: to.id, mode: 'word' });
+    expect(byWord.fields[0].changes).toContainEqual({ type: 'delete', value: 'Second' });
+    expect(byWord.fields[0].changes).toContainEqual({ type: 'insert', value: 'Changed' });
+  });
+
+  it('should refuse to diff revisions of different posts', async () => {
+    const first = await newPost();
+    const second = await duplicatePost(first.id);
+    const [a] = await getPostRevisions(first.id);
+    const [b] = await getPostRevisions(second.id);
+
+    await expect(diffPostRevisions({ from_id: a.id, to_id: b.id, mode: 'line' })).rejects.toThrow(/different posts/i);
+    await expect(diffPostRevisions({ from_id: a.id, to_id: 99999, mode: 'line' })).rejects.toThrow(/not found/i);
+  });
+
+  it('should restore a revision as a new save', async () => {
+    const post = await newPost();
+    await updatePost({ id: post.id, title: 'Bad edit', content: 'Oops', tag_ids: [tagIds[1]] }, editorId);
+    const original = (await getPostRevisions(post.id))[1];
+
+    const restored = await restorePostRevision({ id: post.id, revision_id: original.id }, authorId);
+
+    expect(restored.title).toEqual('Draft title');
+    expect(restored.content).toEqual('First line\nSecond line\n');
+    expect((await getPostById(post.id))!.tag_ids).toEqual([tagIds[0]]);
+
+    const revisions = await getPostRevisions(post.id);
+    expect(revisions).toHaveLength(3);
+    expect(revisions[0].title).toEqual('Draft title');
+    expect(revisions[0].author_id).toEqual(authorId);
+  });
+
+  it('should need post.publish to restore a revision of a live post', async () => {
+    const post = await createPost({ title: 'Live', slug: 'live', content: 'Published text', status: 'published', author_id: authorId });
+    await updatePost({ id: post.id, content: 'Reviewed text' }, editorId);
+    const original = (await getPostRevisions(post.id))[1];
+
+    const [author] = await db.select().from(usersTable).where(eq(usersTable.id, authorId)).execute();
+    const caller = appRouter.createCaller({
+      user: withoutPassword(author),
+      capabilities: ['post.create'],
+      sessionId: null,
+      impersonator: null,
+      apiToken: null,
+      client: { ip: null, user_agent: null }
+    });
+
+    const restore = caller.posts.revisions.restore({ id: post.id, revision_id: original.id });
+    await expect(restore).rejects.toBeInstanceOf(TRPCError);
+    await expect(restore).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect((await getPostById(post.id))!.content).toEqual('Reviewed text');
+  });
+
+  it('should skip tags deleted since the revision', async () => {
+    const post = await newPost();
+    const [revision] = await getPostRevisions(post.id);
+    await deleteTag(tagIds[0]);
+
+    await restorePostRevision({ id: post.id, revision_id: revision.id });
+
+    expect((await getPostById(post.id))!.tag_ids).toEqual([]);
+  });
+
+  it('should only restore revisions of the same post', async () => {
+    const first = await newPost();
+    const second = await duplicatePost(first.id);
+    const [revision] = await getPostRevisions(first.id);
+
+    await expect(restorePostRevision({ id: second.id, revision_id: revision.id })).rejects.toThrow(/not found for post/i);
+  });
+
+  it('should keep only the configured number of revisions per post', async () => {
+    await db.insert(siteSettingsTable)
+      .values({ site_title: 'Blog', site_description: '', site_url: 'https://blog.example.com', admin_email: 'a@example.com', post_revision_limit: 3 })
+      .execute();
+
+    const post = await newPost();
+    for (let i = 1; i <= 4; i++) {
+      await updatePost({ id: post.id, title: `Edit ${i}` });
+    }
+
+    const revisions = await getPostRevisions(post.id);
+    expect(revisions.map(revision => revision.title)).toEqual(['Edit 4', 'Edit 3', 'Edit 2']);
+  });
+
+  it('should keep every revision when the limit is 0', async () => {
+    await db.insert(siteSettingsTable)
+      .values({ site_title: 'Blog', site_description: '', site_url: 'https://blog.example.com', admin_email: 'a@example.com', post_revision_limit: 0 })
+      .execute();
+
+    const post = await newPost();
+    for (let i = 1; i <= 30; i++) {
+      await updatePost({ id: post.id, title: `Edit ${i}` });
+    }
+
+    expect(await getPostRevisions(post.id)).toHaveLength(31);
+  });
+
+  it('should remove revisions with their post', async () => {
+    const post = await newPost();
+    await updatePost({ id: post.id, title: 'Edited' });
+
+    await deletePost(post.id);
+
+    expect(await db.select().from(postRevisionsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, rolesTable, siteSettingsTable } from '../db/schema';
+import {
+  ALL_CAPABILITIES,
+  hasCapability,
+  canActOnOwned,
+  canEditPost,
+  needsPublishCapability,
+  seedDefaultRoles,
+  getRoles,
+  getRoleCapabilities,
+  isPrivilegedRole,
+  createRole,
+  updateRole,
+  deleteRole
+} from '../handlers/roles';
+import { eq } from 'drizzle-orm';
+
+describe('capability checks', () => {
+  it('should check membership in the capability set', () => {
+    expect(hasCapability(['post.create', 'post.publish'], 'post.publish')).toBe(true);
+    expect(hasCapability(['post.create'], 'post.publish')).toBe(false);
+  });
+
+  it('should let owners act with the own capability and others with the others capability', () => {
+    expect(canActOnOwned(1, ['post.create'], 1, 'post.create', 'post.edit_others')).toBe(true);
+    expect(canActOnOwned(1, ['post.create'], 2, 'post.create', 'post.edit_others')).toBe(false);
+    expect(canActOnOwned(1, ['post.edit_others'], 2, 'post.create', 'post.edit_others')).toBe(true);
+    // Owning the post is not enough without the capability to write posts at all
+    expect(canActOnOwned(1, ['comment.moderate'], 1, 'post.create', 'post.edit_others')).toBe(false);
+  });
+
+  it('should limit post.edit_meta to the SEO fields of other posts', () => {
+    expect(canEditPost(1, ['post.edit_meta'], 2, { id: 5, meta_title: 'Better title', canonical_url: null })).toBe(true);
+    expect(canEditPost(1, ['post.edit_meta'], 2, { id: 5, meta_title: 'Better title', content: 'Rewritten' })).toBe(false);
+    expect(canEditPost(1, ['post.create'], 1, { id: 5, content: 'Rewritten' })).toBe(true);
+  });
+
+  it('should need post.publish to change what readers get', () => {
+    expect(needsPublishCapability('draft', { id: 5, status: 'published' })).toBe(true);
+    expect(needsPublishCapability('draft', { id: 5, content: 'Rewritten' })).toBe(false);
+    expect(needsPublishCapability('published', { id: 5, content: 'Rewritten' })).toBe(true);
+    expect(needsPublishCapability('scheduled', { id: 5, title: 'New title' })).toBe(true);
+    expect(needsPublishCapability('published', { id: 5, meta_title: 'Better title' })).toBe(false);
+    // Taking a post off the site is allowed, even with edits, since it has to be published again
+    expect(needsPublishCapability('published', { id: 5, status: 'draft', content: 'Rewritten' })).toBe(false);
+  });
+});
+
+describe('role handlers', () => {
+  beforeEach(createDB);
+  beforeEach(seedDefaultRoles);
+  afterEach(resetDB);
+
+  describe('seedDefaultRoles', () => {
+    it('should seed the built-in roles once', async () => {
+      await seedDefaultRoles();
+
+      const roles = await getRoles();
+      expect(roles.map(role => role.slug)).toEqual(['admin', 'editor', 'author']);
+      expect(roles.every(role => role.is_system)).toBe(true);
+      expect(roles[0].capabilities).toEqual(ALL_CAPABILITIES);
+    });
+
+    it('should keep changes made to a built-in role', async () => {
+      const [editor] = await db.select().from(rolesTable).where(eq(rolesTable.slug, 'editor')).execute();
+      await updateRole({ id: editor.id, capabilities: ['post.create'] });
+
+      await seedDefaultRoles();
+
+      expect(await getRoleCapabilities('editor')).toEqual(['post.create']);
+    });
+
+    it('should give the admin role capabilities added since it was seeded', async () => {
+      await db.update(rolesTable).set({ capabilities: ['users.manage'] }).where(eq(rolesTable.slug, 'admin')).execute();
+
+      await seedDefaultRoles();
+
+      expect(await getRoleCapabilities('admin')).toEqual(ALL_CAPABILITIES);
+    });
+  });
+
+  describe('getRoleCapabilities', () => {
+    it('should return nothing for unknown roles', async () => {
+      expect(await getRoleCapabilities('ghost')).toEqual([]);
+    });
+  });
+
+  describe('createRole', () => {
+    it('should create a custom role with deduplicated capabilities', async () => {
+      const role = await createRole({
+        slug: 'contributor',
+        name: 'Contributor',
+        description: 'Drafts posts for review',
+        capabilities: ['post.create', 'media.upload', 'post.create']
+      });
+
+      expect(role.is_system).toBe(false);
+      expect(role.capabilities).toEqual(['post.create', 'media.upload']);
+      expect(await getRoleCapabilities('contributor')).toEqual(['post.create', 'media.upload']);
+      expect(await isPrivilegedRole('contributor')).toBe(false);
+    });
+
+    it('should reject duplicate slugs', async () => {
+      await expect(createRole({ slug: 'editor', name: 'Another Editor', capabilities: [] }))
+        .rejects.toThrow(/already exists/i);
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should not change the capabilities of the admin role', async () => {
+      const [admin] = await db.select().from(rolesTable).where(eq(rolesTable.slug, 'admin')).execute();
+
+      await expect(updateRole({ id: admin.id, capabilities: ['post.create'] })).rejects.toThrow(/every capability/i);
+
+      const renamed = await updateRole({ id: admin.id, name: 'Owner' });
+      expect(renamed.name).toEqual('Owner');
+    });
+
+    it('should throw for unknown roles', async () => {
+      await expect(updateRole({ id: 999, name: 'Nobody' })).rejects.toThrow(/not found/i);
+    });
+  });
+
+  describe('deleteRole', () => {
+    let roleId: number;
+
+    beforeEach(async () => {
+      roleId = (await createRole({ slug: 'moderator', name: 'Moderator', capabilities: ['comment.moderate'] })).id;
+    });
+
+    it('should delete unused custom roles', async () => {
+      await deleteRole(roleId);
+      expect(await getRoleCapabilities('moderator')).toEqual([]);
+    });
+
+    it('should refuse built-in roles', async () => {
+      const [author] = await db.select().from(rolesTable).where(eq(rolesTable.slug, 'author')).execute();
+      await expect(deleteRole(author.id)).rejects.toThrow(/built-in/i);
+    });
+
+    it('should refuse roles that are still assigned', async () => {
+      await db.insert(usersTable)
+        .values({
+          email: 'mod@example.com',
+          username: 'mod',
+          password_hash: 'unused',
+          first_name: 'Mo',
+          last_name: 'Derator',
+          role: 'moderator'
+        })
+        .execute();
+
+      await expect(deleteRole(roleId)).rejects.toThrow(/still assigned to 1 users/i);
+    });
+
+    it('should refuse the default role for new users', async () => {
+      await db.insert(siteSettingsTable)
+        .values({
+          site_title: 'Test Blog',
+          site_description: 'Test',
+          site_url: 'https://blog.example.com',
+          admin_email: 'admin@example.com',
+          default_user_role: 'moderator'
+        })
+        .execute();
+
+      await expect(deleteRole(roleId)).rejects.toThrow(/default role/i);
+    });
+  });
+});
@@ -1,15 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, categoriesTable, tagsTable, postsTable, postTagsTable } from '../db/schema';
-import { type CreateUserInput, type CreateCategoryInput, type CreateTagInput, type CreatePostInput, type RssConfig } from '../schema';
+import { usersTable, categoriesTable, tagsTable, postsTable, postTagsTable, type NewCategory, type NewTag } from '../db/schema';
+import { type CreateUserInput, type CreatePostInput, type RssConfig } from '../schema';
 import { 
   generateRSSFeed, 
   generateAtomFeed, 
   generateCategoryRSSFeed, 
   generateTagRSSFeed, 
+  generateSeriesRSSFeed,
   generateAuthorRSSFeed 
 } from '../handlers/rss';
+import { createSeries } from '../handlers/series';
 
 // Test data setup
 const testUser: CreateUserInput = {
@@ -21,13 +23,13 @@ const testUser: CreateUserInput = {
   role: 'author'
 };
 
-const testCategory: CreateCategoryInput = {
+const testCategory: NewCategory = {
   name: 'Technology',
   slug: 'technology',
   description: 'Tech articles'
 };
 
-const testTag: CreateTagInput = {
+const testTag: NewTag = {
   name: 'JavaScript',
   slug: 'javascript',
   description: 'JavaScript programming'
@@ -143,7 +145,7 @@ describe('RSS Feed Handlers', () => {
       expect(rss).toContain('<item>');
       expect(rss).toContain('<title>Test Blog Post</title>');
       expect(rss).toContain('<description>A test excerpt</description>');
-      expect(rss).toContain('<content:encoded><![CDATA[This is a test blog post content with <strong>HTML</strong> & special characters.]]></content:encoded>');
+      expect(rss).toContain('<content:encoded><![CDATA[<p>This is a test blog post content with <strong>HTML</strong> &amp; special characters.</p>]]></content:encoded>');
       expect(rss).toContain('<link>https://testblog.com/posts/test-blog-post</link>');
       expect(rss).toContain('<author>author@example.com (testauthor)</author>');
       expect(rss).toContain('<pubDate>Mon, 15 Jan 2024 10:00:00 GMT</pubDate>');
@@ -212,7 +214,7 @@ describe('RSS Feed Handlers', () => {
       expect(atom).toContain('<name>testauthor</name>');
       expect(atom).toContain('<email>author@example.com</email>');
       expect(atom).toContain('<summary>A test excerpt</summary>');
-      expect(atom).toContain('<content type="html"><![CDATA[This is a test blog post content with <strong>HTML</strong> & special characters.]]></content>');
+      expect(atom).toContain('<content type="html"><![CDATA[<p>This is a test blog post content with <strong>HTML</strong> &amp; special characters.</p>]]></content>');
     });
   });
 
@@ -268,6 +270,45 @@ describe('RSS Feed Handlers', () => {
     });
   });
 
+  describe('generateSeriesRSSFeed', () => {
+    it('should list the parts of a series in reading order', async () => {
+      const earlier = await db.insert(postsTable)
+        .values({
+          title: 'Earlier Part',
+          slug: 'earlier-part',
+          content: 'Written second, read first',
+          status: 'published',
+          author_id: userId,
+          published_at: new Date('2024-01-20T10:00:00Z')
+        })
+        .returning()
+        .execute();
+      const series = await createSeries({ title: 'Learning Rust', post_ids: [earlier[0].id, postId] });
+
+      const rss = await generateSeriesRSSFeed(series.id, testRssConfig);
+
+      expect(rss).toContain('<title>Learning Rust - Series RSS Feed</title>');
+      expect(rss).toContain('<description>Parts of the Learning Rust series</description>');
+      expect(rss).toContain(`<link>https://testblog.com/series/${series.id}</link>`);
+      expect(rss).toContain('<category>Learning Rust</category>');
+      expect(rss).toContain(`<lastBuildDate>${new Date('2024-01-20T10:00:00Z').toUTCString()}</lastBuildDate>`);
+      expect(rss.indexOf('<title>Earlier Part</title>')).toBeLessThan(rss.indexOf('<title>Test Blog Post</title>'));
+    });
+
+    it('should throw error for non-existent series', async () => {
+      await expect(generateSeriesRSSFeed(9999)).rejects.toThrow(/No posts found for series ID 9999/);
+    });
+
+    it('should handle series with no published posts', async () => {
+      const series = await createSeries({ title: 'Learning Rust', post_ids: [postId] });
+      await db.update(postsTable)
+        .set({ status: 'draft' })
+        .execute();
+
+      await expect(generateSeriesRSSFeed(series.id)).rejects.toThrow(/No posts found for series ID/);
+    });
+  });
+
   describe('generateAuthorRSSFeed', () => {
     it('should generate RSS feed for specific author', async () => {
       const rss = await generateAuthorRSSFeed(userId, testRssConfig);
@@ -372,6 +413,26 @@ describe('RSS Feed Handlers', () => {
       expect(rss).toContain('This is a very long content that should be truncated when used as description in RSS feed because there is no excerpt available for this particular...');
     });
 
+    it('should render Markdown content and describe it in plain text', async () => {
+      await db.insert(postsTable)
+        .values({
+          title: 'Markdown Post',
+          slug: 'markdown-post',
+          content: '## Intro\n\nSome **bold** text.<script>alert(1)</script>',
+          status: 'published',
+          author_id: userId,
+          published_at: new Date()
+        })
+        .execute();
+
+      const rss = await generateRSSFeed();
+
+      expect(rss).toContain('<description>Intro Some bold text.</description>');
+      expect(rss).toContain('<h2 id="intro"><a class="anchor" href="#intro" aria-hidden="true"></a>Intro</h2>');
+      expect(rss).toContain('<p>Some <strong>bold</strong> text.</p>');
+      expect(rss).not.toContain('<script>');
+    });
+
     it('should handle posts with null published_at using created_at', async () => {
       await db.insert(postsTable)
         .values({
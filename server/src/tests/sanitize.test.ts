@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+import { sanitizeHtml, htmlToText, escapeText, decodeEntities } from '../helpers/sanitize';
+
+describe('sanitizeHtml', () => {
+  it('should keep allowed tags and attributes', () => {
+    expect(sanitizeHtml('<p>Hi <strong>there</strong> <a href="https://example.com" title="Site">link</a></p>'))
+      .toEqual('<p>Hi <strong>there</strong> <a href="https://example.com" title="Site" rel="nofollow noopener">link</a></p>');
+    expect(sanitizeHtml('<img src="/a.png" alt="A">')).toEqual('<img src="/a.png" alt="A" />');
+  });
+
+  it('should drop scripts, styles and frames with their content', () => {
+    expect(sanitizeHtml('a<script>alert(1)</script>b<style>p{}</style>c<iframe src="x"></iframe>d')).toEqual('abcd');
+    expect(sanitizeHtml('<SCRIPT>alert(1)</SCRIPT>ok')).toEqual('ok');
+    expect(sanitizeHtml('<script>never closed')).toEqual('');
+  });
+
+  it('should unwrap unknown tags and keep their text', () => {
+    expect(sanitizeHtml('<font color="red">red</font> <marquee>moving</marquee>')).toEqual('red moving');
+  });
+
+  it('should strip event handlers and styles', () => {
+    expect(sanitizeHtml('<p onclick="evil()" style="color:red">x</p>')).toEqual('<p>x</p>');
+    expect(sanitizeHtml('<img src=x onerror=alert(1)>')).toEqual('<img src="x" />');
+  });
+
+  it('should drop dangerous URLs, including obfuscated ones', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toEqual('<a>x</a>');
+    expect(sanitizeHtml('<a href="JaVa&#x53;cript:alert(1)">x</a>')).toEqual('<a>x</a>');
+    expect(sanitizeHtml('<a href="java\nscript:alert(1)">x</a>')).toEqual('<a>x</a>');
+    expect(sanitizeHtml('<img src="data:image/svg+xml;base64,AAAA">')).toEqual('<img />');
+    expect(sanitizeHtml('<a href="mailto:me@example.com">mail</a><a href="/about#team">about</a>'))
+      .toEqual('<a href="mailto:me@example.com">mail</a><a href="/about#team">about</a>');
+  });
+
+  it('should only keep classes the renderer uses', () => {
+    expect(sanitizeHtml('<code class="language-ts evil">x</code><span class="hl-keyword big">y</span>'))
+      .toEqual('<code class="language-ts">x</code><span class="hl-keyword">y</span>');
+  });
+
+  it('should only keep read-only checkboxes', () => {
+    expect(sanitizeHtml('<input type="checkbox" checked>')).toEqual('<input type="checkbox" checked disabled />');
+    expect(sanitizeHtml('<input type="text" value="x"><input type="password">')).toEqual('');
+  });
+
+  it('should produce well-formed output', () => {
+    expect(sanitizeHtml('<p><em>open</p></em>')).toEqual('<p><em>open</em></p>');
+    expect(sanitizeHtml('<ul><li>one')).toEqual('<ul><li>one</li></ul>');
+    expect(sanitizeHtml('stray </div> close')).toEqual('stray  close');
+  });
+
+  it('should escape stray markup characters but keep entities', () => {
+    expect(sanitizeHtml('1 < 2 && 3 > 2 &copy; <!-- note -->')).toEqual('1 &lt; 2 &amp;&amp; 3 &gt; 2 &copy; ');
+    expect(sanitizeHtml('<a title="&quot;q&quot;">x</a>')).toEqual('<a title="&quot;q&quot;">x</a>');
+  });
+
+  it('should not treat object prototype names as tags or entities', () => {
+    expect(sanitizeHtml('<constructor>x</constructor>')).toEqual('x');
+    expect(decodeEntities('&constructor;')).toEqual('&constructor;');
+  });
+});
+
+describe('html text helpers', () => {
+  it('should extract readable text', () => {
+    expect(htmlToText('<h1>Title</h1>\n<p>Fish &amp; chips,   <em>hot</em></p><script>x()</script>')).toEqual('Title Fish & chips, hot');
+  });
+
+  it('should escape text while keeping entity references', () => {
+    expect(escapeText('a & b &amp; <c> &#169;')).toEqual('a &amp; b &amp; &lt;c&gt; &#169;');
+  });
+});
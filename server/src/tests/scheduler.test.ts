@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, auditLogTable } from '../db/schema';
+import { publishDuePosts, SCHEDULER_LOCK_KEY } from '../handlers/scheduler';
+import { createPost, getPostById } from '../handlers/posts';
+import { sql } from 'drizzle-orm';
+
+describe('scheduler', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let authorId: number;
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'author@example.com',
+        username: 'author',
+        password_hash: 'x',
+        first_name: 'Avery',
+        last_name: 'Author',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+    authorId = user.id;
+  });
+
+  const schedule = (slug: string, publishAt: Date) => createPost({
+    title: slug,
+    slug,
+    content: 'Content',
+    status: 'scheduled',
+    author_id: authorId,
+    published_at: publishAt
+  });
+
+  it('should publish posts whose time has come and leave the rest', async () => {
+    const soon = await schedule('soon', new Date(Date.now() + 60_000));
+    const later = await schedule('later', new Date(Date.now() + 3_600_000));
+
+    const published = await publishDuePosts(new Date(Date.now() + 120_000));
+
+    expect(published.map(post => post.id)).toEqual([soon.id]);
+    const stored = await getPostById(soon.id);
+    expect(stored!.status).toEqual('published');
+    // The post goes out with the time it was scheduled for
+    expect(stored!.published_at).toEqual(soon.published_at);
+    expect((await getPostById(later.id))!.status).toEqual('scheduled');
+  });
+
+  it('should pick up posts that fell due while nothing was running', async () => {
+    const post = await schedule('missed', new Date(Date.now() + 60_000));
+    // As if the server had been down past the scheduled time
+    await db.execute(sql`update posts set published_at = now() - interval '1 hour' where id = ${post.id}`);
+
+    const published = await publishDuePosts();
+
+    expect(published).toHaveLength(1);
+  });
+
+  it('should record the publication in the audit log', async () => {
+    const post = await schedule('audited', new Date(Date.now() + 60_000));
+
+    await publishDuePosts(new Date(Date.now() + 120_000));
+
+    const [entry] = await db.select().from(auditLogTable).execute();
+    expect(entry.action).toEqual('scheduler.publish');
+    expect(entry.entity_id).toEqual(post.id);
+    expect(entry.actor_id).toBeNull();
+  });
+
+  it('should do nothing while another instance holds the lock', async () => {
+    await schedule('locked', new Date(Date.now() + 60_000));
+
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${SCHEDULER_LOCK_KEY})`);
+      expect(await publishDuePosts(new Date(Date.now() + 120_000))).toEqual([]);
+    });
+
+    const [post] = await db.select().from(postsTable).execute();
+    expect(post.status).toEqual('scheduled');
+  });
+
+  it('should publish each post once when instances run together', async () => {
+    await schedule('first', new Date(Date.now() + 60_000));
+    await schedule('second', new Date(Date.now() + 60_000));
+
+    const later = new Date(Date.now() + 120_000);
+    const runs = await Promise.all([publishDuePosts(later), publishDuePosts(later), publishDuePosts(later)]);
+
+    expect(runs.flat()).toHaveLength(2);
+  });
+});
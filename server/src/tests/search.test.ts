@@ -385,6 +385,9 @@ describe('indexPostForSearch', () => {
       slug: 'non-existent',
       excerpt: null,
       content: 'content',
+      content_format: 'markdown',
+      word_count: null,
+      rendered_html: null,
       status: 'published',
       featured_image_id: null,
       author_id: 1,
@@ -392,6 +395,8 @@ describe('indexPostForSearch', () => {
       meta_title: null,
       meta_description: null,
       canonical_url: null,
+      reviewer_id: null,
+      review_notes: null,
       published_at: null,
       created_at: new Date(),
       updated_at: new Date()
@@ -181,6 +181,25 @@ describe('SEO Handlers', () => {
       expect(metadata.canonical).toBe('https://testblog.com/posts/second-published-post');
     });
 
+    it('should describe Markdown posts in plain text', async () => {
+      const { users } = await createTestData();
+
+      const posts = await db.insert(postsTable)
+        .values({
+          title: 'Markdown Post',
+          slug: 'markdown-post',
+          content: '# Heading\n\nA [linked](https://example.com) and *emphasised* sentence.',
+          status: 'published',
+          author_id: users[0].id
+        })
+        .returning()
+        .execute();
+
+      const metadata = await generatePostMetadata(posts[0]);
+
+      expect(metadata.description).toBe('Heading A linked and emphasised sentence.');
+    });
+
     it('should handle post with custom canonical URL', async () => {
       const { users } = await createTestData();
       
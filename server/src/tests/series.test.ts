@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, postsTable, seriesTable, seriesPostsTable, mediaTable } from '../db/schema';
+import {
+  createSeries,
+  getSeries,
+  getSeriesById,
+  getSeriesBySlug,
+  updateSeries,
+  deleteSeries,
+  getSeriesNavigation
+} from '../handlers/series';
+import { deletePost } from '../handlers/posts';
+import { resolveRedirect } from '../handlers/redirects';
+import { ConflictError } from '../helpers/concurrency';
+import { asc, eq } from 'drizzle-orm';
+
+describe('Series Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  const createPost = async (title: string, status: 'draft' | 'published' = 'published'): Promise<number> => {
+    const result = await db.insert(postsTable).values({
+      title,
+      slug: title.toLowerCase().replace(/\s+/g, '-'),
+      content: `Content of ${title}`,
+      status,
+      author_id: userId,
+      published_at: status === 'published' ? new Date() : null
+    }).returning().execute();
+    return result[0].id;
+  };
+
+  beforeEach(async () => {
+    const user = await db.insert(usersTable).values({
+      email: 'test@example.com',
+      username: 'testuser',
+      password_hash: 'hash',
+      first_name: 'Test',
+      last_name: 'User',
+      role: 'author'
+    }).returning().execute();
+    userId = user[0].id;
+  });
+
+  describe('createSeries', () => {
+    it('should create a series with its parts in order', async () => {
+      const first = await createPost('First part');
+      const second = await createPost('Second part');
+
+      const series = await createSeries({ title: 'Learning Rust', description: 'A tutorial', post_ids: [second, first] });
+
+      expect(series.slug).toEqual('learning-rust');
+      expect(series.description).toEqual('A tutorial');
+      expect(series.cover_media_id).toBeNull();
+
+      const rows = await db.select().from(seriesPostsTable)
+        .where(eq(seriesPostsTable.series_id, series.id))
+        .orderBy(asc(seriesPostsTable.position))
+        .execute();
+      expect(rows.map(row => [row.post_id, row.position])).toEqual([[second, 1], [first, 2]]);
+    });
+
+    it('should give the series a unique slug', async () => {
+      await createSeries({ title: 'Learning Rust' });
+      const series = await createSeries({ title: 'Learning Rust' });
+
+      expect(series.slug).toEqual('learning-rust-2');
+    });
+
+    it('should keep a cover image', async () => {
+      const media = await db.insert(mediaTable).values({
+        filename: 'cover.jpg',
+        original_filename: 'cover.jpg',
+        mime_type: 'image/jpeg',
+        file_size: 1024,
+        file_path: '/uploads/cover.jpg',
+        uploaded_by: userId
+      }).returning().execute();
+
+      const series = await createSeries({ title: 'Learning Rust', cover_media_id: media[0].id });
+
+      expect(series.cover_media_id).toEqual(media[0].id);
+    });
+
+    it('should reject a missing cover', async () => {
+      await expect(createSeries({ title: 'Learning Rust', cover_media_id: 9999 }))
+        .rejects.toThrow(/Cover media with ID 9999 does not exist/);
+    });
+
+    it('should reject posts that do not exist', async () => {
+      await expect(createSeries({ title: 'Learning Rust', post_ids: [9998, 9999] }))
+        .rejects.toThrow(/Posts with IDs 9998, 9999 do not exist/);
+
+      expect(await getSeries()).toHaveLength(0);
+    });
+
+    it('should reject a post that is already part of another series', async () => {
+      const post = await createPost('First part');
+      await createSeries({ title: 'Learning Rust', post_ids: [post] });
+
+      await expect(createSeries({ title: 'Learning Go', post_ids: [post] }))
+        .rejects.toThrow(`Post with ID ${post} is already part of the series "Learning Rust"`);
+    });
+  });
+
+  describe('getSeries', () => {
+    it('should list series by title', async () => {
+      await createSeries({ title: 'Zig basics' });
+      await createSeries({ title: 'Async Rust' });
+
+      const series = await getSeries();
+
+      expect(series.map(s => s.title)).toEqual(['Async Rust', 'Zig basics']);
+    });
+  });
+
+  describe('getSeriesById and getSeriesBySlug', () => {
+    it('should number the parts in reading order', async () => {
+      const first = await createPost('First part');
+      const draft = await createPost('Second part', 'draft');
+      const third = await createPost('Third part');
+      const series = await createSeries({ title: 'Learning Rust', post_ids: [first, draft, third] });
+
+      const byId = await getSeriesById(series.id);
+      expect(byId!.parts.map(part => [part.id, part.part])).toEqual([[first, 1], [draft, 2], [third, 3]]);
+
+      // The public view leaves the draft out but keeps the numbering
+      const bySlug = await getSeriesBySlug('learning-rust');
+      expect(bySlug!.parts.map(part => [part.id, part.part])).toEqual([[first, 1], [third, 3]]);
+    });
+
+    it('should return null for a missing series', async () => {
+      expect(await getSeriesById(9999)).toBeNull();
+      expect(await getSeriesBySlug('missing')).toBeNull();
+    });
+  });
+
+  describe('updateSeries', () => {
+    it('should reorder the parts', async () => {
+      const first = await createPost('First part');
+      const second = await createPost('Second part');
+      const series = await createSeries({ title: 'Learning Rust', post_ids: [first, second] });
+
+      await updateSeries({ id: series.id, post_ids: [second, first] });
+
+      const updated = await getSeriesById(series.id);
+      expect(updated!.parts.map(part => part.id)).toEqual([second, first]);
+    });
+
+    it('should keep the parts when post_ids is left out', async () => {
+      const first = await createPost('First part');
+      const series = await createSeries({ title: 'Learning Rust', post_ids: [first] });
+
+      const updated = await updateSeries({ id: series.id, title: 'Rust in depth' });
+
+      expect(updated.title).toEqual('Rust in depth');
+      expect(updated.slug).toEqual('learning-rust');
+      expect((await getSeriesById(series.id))!.parts).toHaveLength(1);
+    });
+
+    it('should redirect the old slug when the slug changes', async () => {
+      const series = await createSeries({ title: 'Learning Rust' });
+
+      await updateSeries({ id: series.id, slug: 'rust-in-depth' });
+
+      const redirect = await resolveRedirect({ entity_type: 'series', slug: 'learning-rust' });
+      expect(redirect?.slug).toEqual('rust-in-depth');
+      expect(redirect?.entity_id).toEqual(series.id);
+    });
+
+    it('should reject a stale write', async () => {
+      const series = await createSeries({ title: 'Learning Rust' });
+      await updateSeries({ id: series.id, title: 'Rust in depth' });
+
+      await expect(updateSeries({ id: series.id, title: 'Rust for beginners', expected_updated_at: series.updated_at }))
+        .rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should throw for a missing series', async () => {
+      await expect(updateSeries({ id: 9999, title: 'Nothing' })).rejects.toThrow(/Series with ID 9999 not found/);
+    });
+  });
+
+  describe('deleteSeries', () => {
+    it('should delete the series but keep its posts', async () => {
+      const post = await createPost('First part');
+      const series = await createSeries({ title: 'Learning Rust', post_ids: [post] });
+
+      expect(await deleteSeries(series.id)).toBe(true);
+
+      expect(await db.select().from(seriesTable).execute()).toHaveLength(0);
+      expect(await db.select().from(seriesPostsTable).execute()).toHaveLength(0);
+      expect(await db.select().from(postsTable).where(eq(postsTable.id, post)).execute()).toHaveLength(1);
+    });
+
+    it('should return false for a missing series', async () => {
+      expect(await deleteSeries(9999)).toBe(false);
+    });
+  });
+
+  describe('getSeriesNavigation', () => {
+    it('should return the parts around a post', async () => {
+      const first = await createPost('First part');
+      const second = await createPost('Second part');
+      const third = await createPost('Third part');
+      await createSeries({ title: 'Learning Rust', post_ids: [first, second, third] });
+
+      const navigation = await getSeriesNavigation(second);
+
+      expect(navigation!.series.title).toEqual('Learning Rust');
+      expect(navigation!.current.part).toEqual(2);
+      expect(navigation!.previous?.id).toEqual(first);
+      expect(navigation!.next?.id).toEqual(third);
+      expect(navigation!.parts.map(part => part.title)).toEqual(['First part', 'Second part', 'Third part']);
+      expect(navigation!.total_parts).toEqual(3);
+    });
+
+    it('should have no previous part for the first post and no next part for the last', async () => {
+      const first = await createPost('First part');
+      const second = await createPost('Second part');
+      await createSeries({ title: 'Learning Rust', post_ids: [first, second] });
+
+      expect((await getSeriesNavigation(first))!.previous).toBeNull();
+      expect((await getSeriesNavigation(second))!.next).toBeNull();
+    });
+
+    it('should skip unpublished parts except the post itself', async () => {
+      const first = await createPost('First part');
+      const draft = await createPost('Second part', 'draft');
+      const third = await createPost('Third part');
+      await createSeries({ title: 'Learning Rust', post_ids: [first, draft, third] });
+
+      const fromFirst = await getSeriesNavigation(first);
+      expect(fromFirst!.next?.id).toEqual(third);
+      expect(fromFirst!.next?.part).toEqual(3);
+      expect(fromFirst!.parts.map(part => part.id)).toEqual([first, third]);
+
+      const fromDraft = await getSeriesNavigation(draft);
+      expect(fromDraft!.current.part).toEqual(2);
+      expect(fromDraft!.previous?.id).toEqual(first);
+      expect(fromDraft!.next?.id).toEqual(third);
+    });
+
+    it('should return null for a post outside any series', async () => {
+      const post = await createPost('On its own');
+
+      expect(await getSeriesNavigation(post)).toBeNull();
+    });
+
+    it('should leave deleted posts out', async () => {
+      const first = await createPost('First part');
+      const second = await createPost('Second part');
+      const third = await createPost('Third part');
+      await createSeries({ title: 'Learning Rust', post_ids: [first, second, third] });
+
+      await deletePost(second);
+
+      const navigation = await getSeriesNavigation(third);
+      expect(navigation!.previous?.id).toEqual(first);
+      expect(navigation!.current.part).toEqual(2);
+      expect(navigation!.total_parts).toEqual(2);
+    });
+  });
+});
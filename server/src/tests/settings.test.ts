@@ -10,6 +10,7 @@ import {
   getTimezones, 
   validateSettings 
 } from '../handlers/settings';
+import { ConflictError } from '../helpers/concurrency';
 import { eq } from 'drizzle-orm';
 
 // Test input for updating settings
@@ -117,6 +118,17 @@ describe('updateSiteSettings', () => {
     expect(settings[0].comments_enabled).toBe(false);
   });
 
+  it('should reject writes based on a stale copy', async () => {
+    const created = await updateSiteSettings(testUpdateInput);
+    await updateSiteSettings({ site_title: 'First', expected_updated_at: created.updated_at });
+
+    const stale = updateSiteSettings({ site_title: 'Second', expected_updated_at: created.updated_at });
+
+    await expect(stale).rejects.toBeInstanceOf(ConflictError);
+    await stale.catch((error) => expect(error.current.site_title).toEqual('First'));
+    expect((await getSiteSettings())!.site_title).toEqual('First');
+  });
+
   it('should update existing settings', async () => {
     // Create initial settings
     await db.insert(siteSettingsTable)
@@ -189,6 +201,17 @@ describe('updateSiteSettings', () => {
     expect(result.allow_registration).toBe(false);
     expect(result.default_user_role).toEqual('author');
     expect(result.timezone).toEqual('UTC');
+    expect(result.mfa_required_roles).toEqual([]);
+  });
+
+  it('should store the roles that require two-factor authentication', async () => {
+    await updateSiteSettings({ site_title: 'Secure Blog' });
+
+    const result = await updateSiteSettings({ mfa_required_roles: ['admin', 'editor'] });
+    expect(result.mfa_required_roles).toEqual(['admin', 'editor']);
+
+    const cleared = await updateSiteSettings({ mfa_required_roles: [] });
+    expect(cleared.mfa_required_roles).toEqual([]);
   });
 });
 
@@ -352,6 +375,13 @@ describe('validateSettings', () => {
     expect(result.errors).toContain('admin_email cannot be empty');
   });
 
+  it('should reject admin as the default role while registration is open', async () => {
+    const result = await validateSettings({ allow_registration: true, default_user_role: 'admin' });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('default_user_role cannot be admin while registration is open');
+  });
+
   it('should accumulate multiple validation errors', async () => {
     const invalidInput: UpdateSiteSettingsInput = {
       site_title: '',
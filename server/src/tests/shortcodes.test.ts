@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaTable, postsTable, usersTable } from '../db/schema';
+import { renderContent, findShortcodeIssues } from '../helpers/shortcodes';
+import { updatePost } from '../handlers/posts';
+
+describe('shortcodes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let imageIds: number[];
+  let documentId: number;
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'author@example.com',
+        username: 'author',
+        password_hash: 'hashed_password',
+        first_name: 'Post',
+        last_name: 'Author',
+        role: 'author'
+      })
+      .returning()
+      .execute();
+    userId = user.id;
+
+    const media = await db.insert(mediaTable)
+      .values([
+        { filename: 'a.jpg', original_filename: 'a.jpg', file_path: '/uploads/a.jpg', file_size: 1, mime_type: 'image/jpeg', alt_text: 'First', caption: 'A <caption>', uploaded_by: userId },
+        { filename: 'b.png', original_filename: 'b.png', file_path: '/uploads/b.png', file_size: 1, mime_type: 'image/png', uploaded_by: userId },
+        { filename: 'c.pdf', original_filename: 'c.pdf', file_path: '/uploads/c.pdf', file_size: 1, mime_type: 'application/pdf', uploaded_by: userId }
+      ])
+      .returning()
+      .execute();
+    imageIds = [media[0].id, media[1].id];
+    documentId = media[2].id;
+  });
+
+  const insertPost = async (slug: string, status: 'draft' | 'published' = 'published') => {
+    const [post] = await db.insert(postsTable)
+      .values({ title: `Post ${slug}`, slug, content: 'Body', excerpt: 'Short & sweet', status, author_id: userId })
+      .returning()
+      .execute();
+    return post;
+  };
+
+  describe('renderContent', () => {
+    it('should render a gallery of the images in order', async () => {
+      const html = await renderContent(`[gallery ids=${imageIds[1]},${documentId},${imageIds[0]} columns=2]`);
+
+      expect(html).toEqual(
+        '<div class="gallery" data-columns="2">'
+        + '<figure><img src="/uploads/b.png" alt="" loading="lazy" /></figure>'
+        + '<figure><img src="/uploads/a.jpg" alt="First" loading="lazy" /><figcaption>A &lt;caption&gt;</figcaption></figure>'
+        + '</div>'
+      );
+    });
+
+    it('should embed YouTube videos', async () => {
+      expect(await renderContent('[youtube id=dQw4w9WgXcQ start=42 title="A <song>"]')).toEqual(
+        '<div class="embed embed-youtube"><iframe src="https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?start=42" '
+        + 'title="A &lt;song&gt;" loading="lazy" allow="encrypted-media; picture-in-picture" allowfullscreen></iframe></div>'
+      );
+    });
+
+    it('should wrap Markdown in callouts', async () => {
+      expect(await renderContent('[callout type=warning title="Heads up"]\nMind the **gap**.\n[/callout]')).toEqual(
+        '<aside class="callout callout-warning" role="note"><p class="callout-title">Heads up</p><p>Mind the <strong>gap</strong>.</p></aside>'
+      );
+      expect(await renderContent('[callout]Inline[/callout]')).toEqual(
+        '<p><aside class="callout callout-info" role="note">Inline</aside></p>'
+      );
+    });
+
+    it('should link published posts, following renames', async () => {
+      const post = await insertPost('original');
+      await insertPost('secret', 'draft');
+
+      const card = '<a class="post-card" href="/posts/original"><strong class="post-card-title">Post original</strong>'
+        + '<span class="post-card-excerpt">Short &amp; sweet</span></a>';
+      expect(await renderContent('[post slug=original]')).toEqual(card);
+      expect(await renderContent('[post slug=secret]')).toEqual('');
+
+      await updatePost({ id: post.id, slug: 'renamed' });
+      expect(await renderContent('[post slug=original]')).toEqual(card.replace('/posts/original', '/posts/renamed'));
+    });
+
+    it('should leave out shortcodes with invalid attributes but keep wrapped content', async () => {
+      expect(await renderContent('[youtube id=short]')).toEqual('');
+      expect(await renderContent('[callout type=loud]\nStill shown\n[/callout]')).toEqual('<p>Still shown</p>');
+    });
+  });
+
+  describe('findShortcodeIssues', () => {
+    it('should find nothing wrong with valid shortcodes', async () => {
+      await insertPost('other');
+
+      expect(await findShortcodeIssues([
+        `[gallery ids=${imageIds.join(',')}]`,
+        '[youtube id=dQw4w9WgXcQ]',
+        '[callout type=tip]\nText\n[/callout]',
+        '[post slug=other]',
+        'A [plain link](/x) and [brackets]'
+      ].join('\n\n'))).toEqual([]);
+    });
+
+    it('should report unknown shortcodes outside code', async () => {
+      expect(await findShortcodeIssues('[tweet id=123]\n\n`[tweet id=1]`\n\n```\n[gist id=2]\n```')).toEqual([
+        { shortcode: 'tweet', message: 'Unknown shortcode [tweet id=123]' }
+      ]);
+    });
+
+    it('should report invalid attributes', async () => {
+      const issues = await findShortcodeIssues('[youtube id=short colour=red]\n\n[gallery ids=one]');
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'Invalid [youtube] attribute id: Expected an 11-character YouTube video id',
+        "Invalid [youtube] attribute Unrecognized key(s) in object: 'colour'",
+        'Invalid [gallery] attribute ids: Expected a comma-separated list of media ids'
+      ]);
+    });
+
+    it('should report unpaired tags', async () => {
+      expect(await findShortcodeIssues('[callout]\nNo end')).toEqual([
+        { shortcode: 'callout', message: '[callout] needs a closing [/callout]' }
+      ]);
+      expect(await findShortcodeIssues('Stray\n\n[/callout]')).toEqual([
+        { shortcode: 'callout', message: '[/callout] has no opening [callout]' }
+      ]);
+      expect(await findShortcodeIssues('[youtube id=dQw4w9WgXcQ]Caption[/youtube]')).toEqual([
+        { shortcode: 'youtube', message: '[youtube] does not take content or a closing tag' }
+      ]);
+    });
+
+    it('should report missing images and posts', async () => {
+      await insertPost('draft-post', 'draft');
+
+      expect(await findShortcodeIssues(`[gallery ids=${imageIds[0]},${documentId},99999]\n\n[post slug=draft-post]`)).toEqual([
+        { shortcode: 'gallery', message: `No image has the media ID ${documentId}` },
+        { shortcode: 'gallery', message: 'No image has the media ID 99999' },
+        { shortcode: 'post', message: 'No published post has the slug "draft-post"' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { slugify, uniqueSlug } from '../helpers/slugs';
+
+describe('slugify', () => {
+  it('should join lowercase words with hyphens', () => {
+    expect(slugify('Hello, World!')).toEqual('hello-world');
+    expect(slugify('  --Already  -- spaced--  ')).toEqual('already-spaced');
+    expect(slugify('Top 10 Tips for 2024')).toEqual('top-10-tips-for-2024');
+  });
+
+  it('should strip accents', () => {
+    expect(slugify('Crème brûlée à la française')).toEqual('creme-brulee-a-la-francaise');
+    expect(slugify('Ångström Ärger Öl')).toEqual('angstrom-arger-ol');
+  });
+
+  it('should transliterate letters that do not decompose', () => {
+    expect(slugify('Straße nach Łódź')).toEqual('strasse-nach-lodz');
+    expect(slugify('Æsir og Øl')).toEqual('aesir-og-ol');
+  });
+
+  it('should transliterate Cyrillic and Greek', () => {
+    expect(slugify('Щастя та ЮНІСЕФ')).toEqual('shchastya-ta-yunisef');
+    expect(slugify('Съешь же ещё')).toEqual('sesh-zhe-eshchyo');
+    expect(slugify('Καλημέρα κόσμε')).toEqual('kalimera-kosme');
+  });
+
+  it('should drop characters it cannot transliterate', () => {
+    expect(slugify('東京 Tokyo 🚀')).toEqual('tokyo');
+    expect(slugify('你好')).toEqual('');
+  });
+
+  it('should cut long slugs at the maximum length without a trailing hyphen', () => {
+    expect(slugify('a'.repeat(300))).toHaveLength(200);
+    expect(slugify('abcd efgh', 5)).toEqual('abcd');
+  });
+});
+
+describe('uniqueSlug', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should suffix slugs that are taken', async () => {
+    await db.insert(tagsTable).values([{ name: 'News', slug: 'news' }, { name: 'News 2', slug: 'news-2' }]).execute();
+
+    expect(await uniqueSlug(db, tagsTable, 'Sports', 'tag')).toEqual('sports');
+    expect(await uniqueSlug(db, tagsTable, 'News', 'tag')).toEqual('news-3');
+  });
+
+  it('should let a row keep its own slug', async () => {
+    const [tag] = await db.insert(tagsTable).values({ name: 'News', slug: 'news' }).returning().execute();
+
+    expect(await uniqueSlug(db, tagsTable, 'news', 'tag', tag.id)).toEqual('news');
+  });
+
+  it('should fall back when nothing is left of the text', async () => {
+    await db.insert(tagsTable).values({ name: 'Tag', slug: 'tag' }).execute();
+
+    expect(await uniqueSlug(db, tagsTable, '新闻', 'tag')).toEqual('tag-2');
+  });
+
+  it('should keep suffixed slugs within the column length', async () => {
+    const long = 'x'.repeat(60);
+    await db.insert(tagsTable).values({ name: 'Long', slug: 'x'.repeat(50) }).execute();
+
+    const slug = await uniqueSlug(db, tagsTable, long, 'tag');
+    expect(slug).toEqual(`${'x'.repeat(48)}-2`);
+  });
+});
@@ -13,6 +13,7 @@ import {
   getPopularTags,
   searchTags
 } from '../handlers/tags';
+import { ConflictError } from '../helpers/concurrency';
 import { eq } from 'drizzle-orm';
 
 // Test inputs
@@ -73,7 +74,7 @@ describe('Tags Handlers', () => {
       expect(tags[0].description).toEqual('Programming language for web development');
     });
 
-    it('should fail with duplicate slug', async () => {
+    it('should suffix a duplicate slug', async () => {
       await createTag(testTagInput);
 
       const duplicateInput: CreateTagInput = {
@@ -82,7 +83,8 @@ describe('Tags Handlers', () => {
         description: 'Different description'
       };
 
-      await expect(createTag(duplicateInput)).rejects.toThrow(/unique constraint/i);
+      const result = await createTag(duplicateInput);
+      expect(result.slug).toEqual('javascript-2');
     });
   });
 
@@ -141,6 +143,17 @@ describe('Tags Handlers', () => {
   });
 
   describe('updateTag', () => {
+    it('should reject writes based on a stale copy', async () => {
+      const created = await createTag(testTagInput);
+      await updateTag({ id: created.id, name: 'First', expected_updated_at: created.updated_at });
+
+      const stale = updateTag({ id: created.id, name: 'Second', expected_updated_at: created.updated_at });
+
+      await expect(stale).rejects.toBeInstanceOf(ConflictError);
+      await stale.catch((error) => expect(error.current.name).toEqual('First'));
+      await expect(updateTag({ id: 99999, name: 'Nope', expected_updated_at: created.updated_at })).rejects.toThrow(/not found/i);
+    });
+
     it('should update tag name', async () => {
       const created = await createTag(testTagInput);
       
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, apiTokensTable } from '../db/schema';
+import {
+  isApiToken,
+  authenticateApiToken,
+  createApiToken,
+  getApiTokens,
+  revokeApiToken
+} from '../handlers/tokens';
+import { eq } from 'drizzle-orm';
+
+describe('api token handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+
+  beforeEach(async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'builder@example.com',
+        username: 'builder',
+        password_hash: 'unused',
+        first_name: 'Build',
+        last_name: 'Bot',
+        role: 'editor'
+      })
+      .returning()
+      .execute();
+    userId = user.id;
+  });
+
+  describe('createApiToken', () => {
+    it('should return the secret once and store only its hash', async () => {
+      const result = await createApiToken(userId, { name: 'Static build', scopes: ['posts:read'] });
+
+      expect(isApiToken(result.token)).toBe(true);
+      expect(result.api_token.name).toEqual('Static build');
+      expect(result.api_token.scopes).toEqual(['posts:read']);
+      expect(result.token.startsWith(result.api_token.token_prefix)).toBe(true);
+      expect(result.api_token.expires_at).toBeNull();
+
+      const [stored] = await db.select().from(apiTokensTable).execute();
+      expect(stored.token_hash).not.toEqual(result.token);
+      expect(stored.token_hash).toHaveLength(64);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(createApiToken(userId, {
+        name: 'Old',
+        scopes: ['posts:read'],
+        expires_at: new Date(Date.now() - 1000)
+      })).rejects.toThrow(/future/i);
+    });
+  });
+
+  describe('authenticateApiToken', () => {
+    it('should resolve the owner and scopes and track last use', async () => {
+      const { token } = await createApiToken(userId, { name: 'Import', scopes: ['posts:write', 'media:write'] });
+
+      const result = await authenticateApiToken(token);
+
+      expect(result!.user.id).toEqual(userId);
+      expect(result!.user).not.toHaveProperty('password_hash');
+      expect(result!.scopes).toEqual(['posts:write', 'media:write']);
+
+      const [stored] = await db.select().from(apiTokensTable).execute();
+      expect(stored.last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject unknown, expired and revoked tokens', async () => {
+      expect(await authenticateApiToken('pat_unknown')).toBeNull();
+
+      const expiring = await createApiToken(userId, {
+        name: 'Short lived',
+        scopes: ['posts:read'],
+        expires_at: new Date(Date.now() + 60_000)
+      });
+      await db.update(apiTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(apiTokensTable.id, expiring.api_token.id))
+        .execute();
+      expect(await authenticateApiToken(expiring.token)).toBeNull();
+
+      const revoked = await createApiToken(userId, { name: 'Revoked', scopes: ['posts:read'] });
+      await revokeApiToken(userId, revoked.api_token.id);
+      expect(await authenticateApiToken(revoked.token)).toBeNull();
+    });
+
+    it('should reject tokens of deactivated users', async () => {
+      const { token } = await createApiToken(userId, { name: 'CI', scopes: ['posts:read'] });
+      await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, userId)).execute();
+
+      expect(await authenticateApiToken(token)).toBeNull();
+    });
+  });
+
+  describe('getApiTokens', () => {
+    it('should list active tokens without secrets', async () => {
+      await createApiToken(userId, { name: 'First', scopes: ['posts:read'] });
+      const second = await createApiToken(userId, { name: 'Second', scopes: ['media:read'] });
+      await revokeApiToken(userId, second.api_token.id);
+
+      const tokens = await getApiTokens(userId);
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].name).toEqual('First');
+      expect(tokens[0]).not.toHaveProperty('token_hash');
+    });
+  });
+
+  describe('revokeApiToken', () => {
+    it('should not revoke tokens of other users', async () => {
+      const { api_token, token } = await createApiToken(userId, { name: 'Mine', scopes: ['posts:read'] });
+
+      await expect(revokeApiToken(userId + 1, api_token.id)).rejects.toThrow(/not found/i);
+      expect(await authenticateApiToken(token)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  currentTotpStep,
+  verifyTotp,
+  buildOtpauthUri
+} from '../helpers/totp';
+
+// Seed from the RFC 6238 appendix B test vectors (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp helpers', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('hello world');
+    expect(base32Decode(base32Encode(bytes)).equals(bytes)).toBe(true);
+    expect(base32Encode(Buffer.from('foobar'))).toEqual('MZXW6YTBOI');
+  });
+
+  it('should reject invalid base32 characters', () => {
+    expect(() => base32Decode('ABC1')).toThrow(/invalid base32/i);
+  });
+
+  it('should generate a 160-bit secret', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret).length).toEqual(20);
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, Math.floor(59 / 30))).toEqual('287082');
+    expect(generateTotp(RFC_SECRET, Math.floor(1111111109 / 30))).toEqual('081804');
+    expect(generateTotp(RFC_SECRET, Math.floor(1234567890 / 30))).toEqual('005924');
+  });
+
+  it('should accept codes within one step of drift', () => {
+    const secret = generateTotpSecret();
+    const step = currentTotpStep();
+
+    expect(verifyTotp(secret, generateTotp(secret, step))).toEqual(step);
+    expect(verifyTotp(secret, generateTotp(secret, step - 1))).toEqual(step - 1);
+    expect(verifyTotp(secret, generateTotp(secret, step + 1))).toEqual(step + 1);
+    expect(verifyTotp(secret, generateTotp(secret, step - 3))).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    const secret = generateTotpSecret();
+    expect(verifyTotp(secret, 'abcdef')).toBeNull();
+    expect(verifyTotp(secret, '12345')).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'admin@example.com', 'My Blog');
+
+    expect(uri.startsWith('otpauth://totp/My%20Blog%3Aadmin%40example.com?')).toBe(true);
+    expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+    expect(uri).toContain('issuer=My+Blog');
+    expect(uri).toContain('digits=6');
+  });
+});
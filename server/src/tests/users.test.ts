@@ -1,9 +1,20 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, refreshTokensTable, sessionsTable, mailOutboxTable, postsTable, mediaTable, commentsTable } from '../db/schema';
 import { type CreateUserInput, type UpdateUserInput } from '../schema';
-import { createUser, getUsers, getUserById, updateUser, deleteUser } from '../handlers/users';
+import {
+  createUser,
+  getUsers,
+  getUserById,
+  updateUser,
+  deleteUser,
+  changePassword,
+  setPassword,
+  approveUser
+} from '../handlers/users';
+import { seedDefaultRoles } from '../handlers/roles';
+import { hashPassword, verifyPassword } from '../helpers/password';
 import { eq } from 'drizzle-orm';
 
 // Test input data
@@ -29,15 +40,20 @@ const minimalUserInput: CreateUserInput = {
 
 describe('User Handlers', () => {
   beforeEach(createDB);
+  beforeEach(seedDefaultRoles);
   afterEach(resetDB);
 
   describe('createUser', () => {
+    it('should reject roles that do not exist', async () => {
+      await expect(createUser({ ...testUserInput, role: 'ghost' })).rejects.toThrow(/does not exist/i);
+    });
+
     it('should create a user with all fields', async () => {
       const result = await createUser(testUserInput);
 
       expect(result.email).toEqual('test@example.com');
       expect(result.username).toEqual('testuser');
-      expect(result.password_hash).toContain('hashed_');
+      expect(result).not.toHaveProperty('password_hash');
       expect(result.first_name).toEqual('Test');
       expect(result.last_name).toEqual('User');
       expect(result.role).toEqual('author');
@@ -47,6 +63,21 @@ describe('User Handlers', () => {
       expect(result.id).toBeDefined();
       expect(result.created_at).toBeInstanceOf(Date);
       expect(result.updated_at).toBeInstanceOf(Date);
+
+      const [stored] = await db.select().from(usersTable).where(eq(usersTable.id, result.id)).execute();
+      expect(stored.password_hash).toMatch(/^scrypt\$/);
+      expect(stored.password_hash).not.toContain('password123');
+    });
+
+    it('should require email verification for new users', async () => {
+      const result = await createUser(testUserInput);
+
+      expect(result.email_verified_at).toBeNull();
+
+      const messages = await db.select().from(mailOutboxTable).execute();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].to_address).toEqual('test@example.com');
+      expect(messages[0].text_body).toContain('verify_token=');
     });
 
     it('should create a user with minimal fields', async () => {
@@ -135,6 +166,22 @@ describe('User Handlers', () => {
       expect(user.created_at).toBeInstanceOf(Date);
       expect(user.updated_at).toBeInstanceOf(Date);
     });
+
+    it('should not return password hashes or TOTP secrets', async () => {
+      const created = await createUser(testUserInput);
+      await db.update(usersTable)
+        .set({ totp_secret: 'JBSWY3DPEHPK3PXP', totp_enabled: true, totp_last_used_step: 1 })
+        .where(eq(usersTable.id, created.id))
+        .execute();
+
+      const [user] = await getUsers();
+
+      expect(user.totp_enabled).toBe(true);
+      expect(user).not.toHaveProperty('password_hash');
+      expect(user).not.toHaveProperty('totp_secret');
+      expect(user).not.toHaveProperty('totp_last_used_step');
+      expect(await getUserById(created.id)).not.toHaveProperty('totp_secret');
+    });
   });
 
   describe('getUserById', () => {
@@ -206,6 +253,24 @@ describe('User Handlers', () => {
       expect(result.email).toEqual('test@example.com'); // Unchanged
     });
 
+    it('should revoke sessions when deactivating a user', async () => {
+      await db.insert(sessionsTable)
+        .values({
+          user_id: createdUser.id,
+          family_id: 'family-1',
+          expires_at: new Date(Date.now() + 60_000)
+        })
+        .execute();
+
+      await updateUser({ id: createdUser.id, first_name: 'Still active' });
+      let [session] = await db.select().from(sessionsTable).execute();
+      expect(session.revoked_at).toBeNull();
+
+      await updateUser({ id: createdUser.id, is_active: false });
+      [session] = await db.select().from(sessionsTable).execute();
+      expect(session.revoked_at).toBeInstanceOf(Date);
+    });
+
     it('should update nullable fields to null', async () => {
       const updateInput: UpdateUserInput = {
         id: createdUser.id,
@@ -287,24 +352,38 @@ describe('User Handlers', () => {
     });
   });
 
+  describe('approveUser', () => {
+    it('should record the approval time', async () => {
+      const createdUser = await createUser(testUserInput);
+      await db.update(usersTable).set({ approved_at: null }).where(eq(usersTable.id, createdUser.id)).execute();
+
+      const result = await approveUser(createdUser.id);
+
+      expect(result.approved_at).toBeInstanceOf(Date);
+    });
+
+    it('should throw for non-existent user', async () => {
+      await expect(approveUser(999)).rejects.toThrow(/not found/i);
+    });
+  });
+
   describe('deleteUser', () => {
-    it('should return false for non-existent user', async () => {
-      const result = await deleteUser(999);
-      expect(result).toEqual(false);
+    it('should throw for non-existent user', async () => {
+      await expect(deleteUser({ id: 999 })).rejects.toThrow(/not found/i);
     });
 
-    it('should delete existing user and return true', async () => {
+    it('should delete a user without content', async () => {
       const createdUser = await createUser(testUserInput);
 
-      const result = await deleteUser(createdUser.id);
+      const result = await deleteUser({ id: createdUser.id });
 
-      expect(result).toEqual(true);
+      expect(result).toEqual({ action: 'deleted', dry_run: false, posts: 0, media: 0, comments: 0 });
     });
 
     it('should remove user from database', async () => {
       const createdUser = await createUser(testUserInput);
 
-      await deleteUser(createdUser.id);
+      await deleteUser({ id: createdUser.id });
 
       const users = await db.select()
         .from(usersTable)
@@ -318,11 +397,174 @@ describe('User Handlers', () => {
       const user1 = await createUser(testUserInput);
       const user2 = await createUser(minimalUserInput);
 
-      await deleteUser(user1.id);
+      await deleteUser({ id: user1.id });
 
       const remainingUsers = await getUsers();
       expect(remainingUsers).toHaveLength(1);
       expect(remainingUsers[0].id).toEqual(user2.id);
     });
+
+    describe('with content', () => {
+      let ownerId: number;
+      let heirId: number;
+      let postId: number;
+
+      beforeEach(async () => {
+        ownerId = (await createUser(testUserInput)).id;
+        heirId = (await createUser(minimalUserInput)).id;
+
+        const [post] = await db.insert(postsTable)
+          .values({ title: 'Owned', slug: 'owned', content: 'Body', author_id: ownerId, status: 'published' })
+          .returning()
+          .execute();
+        postId = post.id;
+
+        await db.insert(mediaTable)
+          .values({
+            filename: 'photo.jpg',
+            original_filename: 'photo.jpg',
+            file_path: '/uploads/photo.jpg',
+            file_size: 1024,
+            mime_type: 'image/jpeg',
+            uploaded_by: ownerId
+          })
+          .execute();
+
+        await db.insert(commentsTable)
+          .values([
+            { post_id: postId, author_name: 'Reader', author_email: 'reader@example.com', content: 'Nice' },
+            { post_id: postId, author_name: 'Critic', author_email: 'critic@example.com', content: 'Meh' }
+          ])
+          .execute();
+      });
+
+      it('should report the impact without changing anything on a dry run', async () => {
+        const result = await deleteUser({ id: ownerId, reassign_to: heirId, dry_run: true });
+
+        expect(result).toEqual({ action: 'deleted', dry_run: true, posts: 1, media: 1, comments: 2 });
+        expect(await getUserById(ownerId)).not.toBeNull();
+        const [post] = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+        expect(post.author_id).toEqual(ownerId);
+      });
+
+      it('should refuse to orphan posts and media', async () => {
+        await expect(deleteUser({ id: ownerId })).rejects.toThrow(/still owns 1 posts and 1 media/i);
+        expect(await getUserById(ownerId)).not.toBeNull();
+      });
+
+      it('should move posts and media to the chosen user before deleting', async () => {
+        const result = await deleteUser({ id: ownerId, reassign_to: heirId });
+        expect(result.action).toEqual('deleted');
+
+        expect(await getUserById(ownerId)).toBeNull();
+        const [post] = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+        expect(post.author_id).toEqual(heirId);
+        const [media] = await db.select().from(mediaTable).execute();
+        expect(media.uploaded_by).toEqual(heirId);
+        expect(await db.select().from(commentsTable).execute()).toHaveLength(2);
+      });
+
+      it('should reject an invalid reassignment target', async () => {
+        await expect(deleteUser({ id: ownerId, reassign_to: ownerId })).rejects.toThrow(/being deleted/i);
+        await expect(deleteUser({ id: ownerId, reassign_to: 999 })).rejects.toThrow(/not found/i);
+
+        await updateUser({ id: heirId, is_active: false });
+        await expect(deleteUser({ id: ownerId, reassign_to: heirId })).rejects.toThrow(/not found/i);
+      });
+
+      it('should keep the account and its content when deactivating', async () => {
+        const result = await deleteUser({ id: ownerId, deactivate: true });
+        expect(result.action).toEqual('deactivated');
+
+        const user = await getUserById(ownerId);
+        expect(user!.is_active).toBe(false);
+        const [post] = await db.select().from(postsTable).where(eq(postsTable.id, postId)).execute();
+        expect(post.author_id).toEqual(ownerId);
+      });
+    });
+  });
+
+  describe('changePassword', () => {
+    let userId: number;
+
+    beforeEach(async () => {
+      const [user] = await db.insert(usersTable)
+        .values({
+          email: 'pw@example.com',
+          username: 'pwuser',
+          password_hash: await hashPassword('oldpassword1'),
+          first_name: 'Pass',
+          last_name: 'Word',
+          role: 'author'
+        })
+        .returning()
+        .execute();
+      userId = user.id;
+    });
+
+    it('should replace the hash when the current password matches', async () => {
+      const result = await changePassword(userId, {
+        current_password: 'oldpassword1',
+        new_password: 'newpassword1'
+      });
+
+      expect(result.success).toBe(true);
+
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect((await verifyPassword('newpassword1', user.password_hash)).valid).toBe(true);
+      expect((await verifyPassword('oldpassword1', user.password_hash)).valid).toBe(false);
+    });
+
+    it('should reject a wrong current password', async () => {
+      await expect(changePassword(userId, {
+        current_password: 'notmypassword',
+        new_password: 'newpassword1'
+      })).rejects.toThrow(/current password is incorrect/i);
+    });
+
+    it('should revoke existing refresh tokens', async () => {
+      await db.insert(refreshTokensTable)
+        .values({
+          user_id: userId,
+          token_hash: 'a'.repeat(64),
+          family_id: 'family-1',
+          expires_at: new Date(Date.now() + 60_000)
+        })
+        .execute();
+
+      await changePassword(userId, {
+        current_password: 'oldpassword1',
+        new_password: 'newpassword1'
+      });
+
+      const tokens = await db.select().from(refreshTokensTable).execute();
+      expect(tokens[0].revoked_at).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('setPassword', () => {
+    it('should set a new password without the current one', async () => {
+      const [user] = await db.insert(usersTable)
+        .values({
+          email: 'pw@example.com',
+          username: 'pwuser',
+          password_hash: 'hashed_whatever',
+          first_name: 'Pass',
+          last_name: 'Word',
+          role: 'author'
+        })
+        .returning()
+        .execute();
+
+      const result = await setPassword({ id: user.id, password: 'brandnewpass' });
+      expect(result.success).toBe(true);
+
+      const [updated] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect((await verifyPassword('brandnewpass', updated.password_hash)).valid).toBe(true);
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(setPassword({ id: 99999, password: 'brandnewpass' })).rejects.toThrow(/not found/i);
+    });
   });
-});
\ No newline at end of file
+});